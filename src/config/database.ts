@@ -1,4 +1,4 @@
-import { Pool } from 'pg';
+import { Pool, PoolClient } from 'pg';
 import dotenv from 'dotenv';
 
 dotenv.config();
@@ -25,4 +25,7 @@ pool.on('error', (err) => {
   console.error('Database connection error:', err);
 });
 
+// Lets model writes join a caller's transaction (a checked-out client) or run on the pool
+export type Queryable = Pick<PoolClient, 'query'>;
+
 export default pool;
@@ -0,0 +1,79 @@
+import pool from '../config/database';
+
+async function addApiKeysMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating api_keys tables...');
+    await client.query('BEGIN');
+
+    // Only the SHA-256 of a key is stored; key_prefix lets admins recognise a key without revealing it
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS api_keys (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        key_prefix VARCHAR(20) NOT NULL,
+        key_hash VARCHAR(64) NOT NULL UNIQUE,
+        scopes TEXT[] NOT NULL DEFAULT '{}',
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        expires_at TIMESTAMP,
+        last_used_at TIMESTAMP,
+        last_used_ip VARCHAR(64),
+        usage_count INTEGER NOT NULL DEFAULT 0,
+        revoked_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_api_keys_hostel ON api_keys(hostel_id)');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS api_key_usage (
+        id SERIAL PRIMARY KEY,
+        api_key_id INTEGER NOT NULL REFERENCES api_keys(id) ON DELETE CASCADE,
+        method VARCHAR(10) NOT NULL,
+        path VARCHAR(255) NOT NULL,
+        status_code INTEGER,
+        ip_address VARCHAR(64),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_api_key_usage_key_created ON api_key_usage(api_key_id, created_at DESC)');
+
+    // Managing keys is a hostel permission, granted to hostel admins by default
+    await client.query(`
+      INSERT INTO permissions (key, description, scope)
+      VALUES ('api_keys.manage', 'Create and revoke API keys for hostel integrations', 'hostel')
+      ON CONFLICT (key) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO role_permissions (role_id, permission_key)
+      SELECT id, 'api_keys.manage' FROM roles WHERE hostel_id IS NULL AND name = 'hostel_admin'
+      ON CONFLICT DO NOTHING
+    `);
+
+    await client.query('COMMIT');
+    console.log('✅ api_keys tables created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating api_keys tables:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addApiKeysMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addApiKeysMigration;
@@ -0,0 +1,59 @@
+import pool from '../config/database';
+
+async function addAuditLogDetailsMigration() {
+  try {
+    console.log('Adding entity and before/after columns to audit_logs...');
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS audit_logs (
+        id SERIAL PRIMARY KEY,
+        action VARCHAR(100) NOT NULL,
+        requester_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        target_user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        target_hostel_id INTEGER REFERENCES hostels(id) ON DELETE SET NULL,
+        status VARCHAR(20) NOT NULL CHECK (status IN ('success','failure')),
+        message TEXT,
+        ip_address VARCHAR(64),
+        user_agent TEXT,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+
+    // entity_type/entity_id survive deletion of the row they describe, unlike the FK columns
+    await pool.query(`
+      ALTER TABLE audit_logs
+      ADD COLUMN IF NOT EXISTS entity_type VARCHAR(50),
+      ADD COLUMN IF NOT EXISTS entity_id VARCHAR(64),
+      ADD COLUMN IF NOT EXISTS before_data JSONB,
+      ADD COLUMN IF NOT EXISTS after_data JSONB;
+    `);
+
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_audit_logs_created_at ON audit_logs(created_at DESC);');
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_audit_logs_hostel ON audit_logs(target_hostel_id, created_at DESC);');
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_audit_logs_action ON audit_logs(action);');
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_audit_logs_requester ON audit_logs(requester_user_id);');
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_audit_logs_entity ON audit_logs(entity_type, entity_id);');
+
+    console.log('✅ audit_logs columns added successfully');
+  } catch (error) {
+    console.error('❌ Error updating audit_logs table:', error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addAuditLogDetailsMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addAuditLogDetailsMigration;
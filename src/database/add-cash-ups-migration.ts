@@ -0,0 +1,110 @@
+import pool from '../config/database';
+
+async function addCashUpsMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Adding payment recorder, payment method and cash-up tables...');
+    await client.query('BEGIN');
+
+    // Who recorded each payment, and how the money came in (cash, bank_transfer, mobile_money, card, cheque)
+    await client.query(`
+      ALTER TABLE payments
+      ADD COLUMN IF NOT EXISTS recorded_by INTEGER REFERENCES users(id) ON DELETE SET NULL
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_payments_recorded_by ON payments(recorded_by) WHERE recorded_by IS NOT NULL');
+
+    console.log('Backfilling recorders and payment methods...');
+    // The ledger entry of each payment already names whoever recorded it
+    await client.query(`
+      UPDATE payments p SET recorded_by = je.created_by
+      FROM journal_entries je
+      WHERE je.source_type = 'payment' AND je.source_id = p.id AND p.recorded_by IS NULL AND je.created_by IS NOT NULL
+    `);
+    // Voids, refunds and corrections offset the original recorder's cash, not the reviewer's
+    await client.query(`
+      UPDATE payments a SET recorded_by = o.recorded_by
+      FROM payments o
+      WHERE a.adjusts_payment_id = o.id AND a.recorded_by IS DISTINCT FROM o.recorded_by
+    `);
+    await client.query(`
+      UPDATE payments p SET payment_method = 'mobile_money'
+      FROM mobile_money_collections mmc
+      WHERE mmc.payment_id = p.id AND p.payment_method IS NULL
+    `);
+    await client.query(`
+      UPDATE payments p SET payment_method = ds.refund_method
+      FROM deposit_settlements ds
+      WHERE ds.refund_payment_id = p.id AND p.payment_method IS NULL AND ds.refund_method IS NOT NULL
+    `);
+    // Older payments keep a null method, so they never count towards a custodian's cash on hand
+
+    // A custodian's declaration of cash on hand against the cash payments recorded since their last cash-up.
+    // Cash-ups are per currency; expected_amount is the sum of the linked payments when submitted.
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS cash_ups (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        business_date DATE NOT NULL,
+        currency VARCHAR(3) NOT NULL,
+        payment_count INTEGER NOT NULL DEFAULT 0,
+        expected_amount DECIMAL(12,2) NOT NULL,
+        declared_amount DECIMAL(12,2) NOT NULL CHECK (declared_amount >= 0),
+        variance DECIMAL(12,2) NOT NULL,
+        variance_flagged BOOLEAN NOT NULL DEFAULT FALSE,
+        notes TEXT,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+        reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        review_note TEXT,
+        reviewed_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_cash_ups_hostel_status ON cash_ups(hostel_id, status)');
+    await client.query('CREATE INDEX IF NOT EXISTS idx_cash_ups_user_date ON cash_ups(user_id, business_date DESC)');
+
+    // Set while the payment is covered by a pending or approved cash-up; cleared again when a cash-up is rejected
+    await client.query(`
+      ALTER TABLE payments
+      ADD COLUMN IF NOT EXISTS cash_up_id INTEGER REFERENCES cash_ups(id) ON DELETE SET NULL
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_payments_cash_up ON payments(cash_up_id) WHERE cash_up_id IS NOT NULL');
+
+    await client.query(`
+      INSERT INTO permissions (key, description, scope)
+      VALUES ('cashups.approve', 'Approve or reject custodian cash-ups', 'hostel')
+      ON CONFLICT (key) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO role_permissions (role_id, permission_key)
+      SELECT r.id, 'cashups.approve' FROM roles r
+      WHERE r.name = 'hostel_admin' AND r.hostel_id IS NULL
+      ON CONFLICT DO NOTHING
+    `);
+
+    await client.query('COMMIT');
+    console.log('✅ Cash-up tables created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating cash-up tables:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addCashUpsMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addCashUpsMigration;
@@ -0,0 +1,79 @@
+import pool from '../config/database';
+
+async function addDiscountsMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating discount tables...');
+    await client.query('BEGIN');
+
+    // Discounts (early-bird, staff children, ...) and sponsor waivers. Every filter left NULL matches all students;
+    // room_type is 'self_contained' or 'shared'; enrolled_before limits a rule to students enrolled on or before that date.
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS discount_rules (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        kind VARCHAR(20) NOT NULL DEFAULT 'discount' CHECK (kind IN ('discount', 'sponsor_waiver')),
+        sponsor_name VARCHAR(150),
+        discount_type VARCHAR(20) NOT NULL CHECK (discount_type IN ('percentage', 'fixed')),
+        amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+        semester_id INTEGER REFERENCES semesters(id) ON DELETE CASCADE,
+        room_type VARCHAR(20) CHECK (room_type IN ('self_contained', 'shared')),
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        enrolled_before DATE,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        CHECK (discount_type <> 'percentage' OR amount <= 100),
+        CHECK (kind <> 'sponsor_waiver' OR sponsor_name IS NOT NULL)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_discount_rules_hostel ON discount_rules(hostel_id)');
+
+    // Discounts reduce the invoice as negative lines, one per rule
+    await client.query('ALTER TABLE invoice_line_items DROP CONSTRAINT IF EXISTS invoice_line_items_fee_type_check');
+    await client.query(`
+      ALTER TABLE invoice_line_items ADD CONSTRAINT invoice_line_items_fee_type_check
+      CHECK (fee_type IN ('room', 'registration', 'utilities', 'security_deposit', 'damages', 'other', 'late_fee', 'discount'))
+    `);
+    await client.query('ALTER TABLE invoice_line_items ADD COLUMN IF NOT EXISTS discount_rule_id INTEGER REFERENCES discount_rules(id) ON DELETE SET NULL');
+
+    await client.query(`
+      INSERT INTO permissions (key, description, scope)
+      VALUES ('discounts.manage', 'Manage discounts and sponsor waivers on student fees', 'hostel')
+      ON CONFLICT (key) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO role_permissions (role_id, permission_key)
+      SELECT r.id, 'discounts.manage' FROM roles r
+      WHERE r.name = 'hostel_admin' AND r.hostel_id IS NULL
+      ON CONFLICT DO NOTHING
+    `);
+
+    await client.query('COMMIT');
+    console.log('✅ Discount tables created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating discount tables:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addDiscountsMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addDiscountsMigration;
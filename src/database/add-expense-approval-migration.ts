@@ -0,0 +1,68 @@
+import pool from '../config/database';
+
+async function addExpenseApprovalMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Adding expense approval...');
+    await client.query('BEGIN');
+
+    // Existing expenses are already in the books, so they start out approved
+    await client.query(`
+      ALTER TABLE expenses
+      ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'approved',
+      ADD COLUMN IF NOT EXISTS reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+      ADD COLUMN IF NOT EXISTS review_comment TEXT,
+      ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP
+    `);
+    await client.query('ALTER TABLE expenses DROP CONSTRAINT IF EXISTS expenses_status_check');
+    await client.query(`
+      ALTER TABLE expenses ADD CONSTRAINT expenses_status_check
+      CHECK (status IN ('pending', 'approved', 'rejected'))
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_expenses_hostel_status ON expenses(hostel_id, status)');
+
+    // Expenses above this amount (in the hostel's base currency) from staff who cannot approve expenses wait
+    // for a hostel admin; NULL turns approval off
+    await client.query(`
+      ALTER TABLE hostels
+      ADD COLUMN IF NOT EXISTS expense_approval_threshold DECIMAL(12,2) CHECK (expense_approval_threshold >= 0)
+    `);
+
+    await client.query(`
+      INSERT INTO permissions (key, description, scope)
+      VALUES ('expenses.approve', 'Approve or reject expenses', 'hostel')
+      ON CONFLICT (key) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO role_permissions (role_id, permission_key)
+      SELECT r.id, 'expenses.approve' FROM roles r
+      WHERE r.name = 'hostel_admin' AND r.hostel_id IS NULL
+      ON CONFLICT DO NOTHING
+    `);
+
+    await client.query('COMMIT');
+    console.log('✅ Expense approval added successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error adding expense approval:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addExpenseApprovalMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addExpenseApprovalMigration;
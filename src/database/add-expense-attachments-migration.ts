@@ -0,0 +1,51 @@
+import pool from '../config/database';
+
+async function addExpenseAttachmentsMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating expense_attachments table...');
+    await client.query('BEGIN');
+
+    // Receipts and invoices backing an expense. Files live outside the public uploads folder under stored_name
+    // and are only served through /api/expenses to staff of the hostel.
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS expense_attachments (
+        id SERIAL PRIMARY KEY,
+        expense_id INTEGER NOT NULL REFERENCES expenses(id) ON DELETE CASCADE,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        stored_name VARCHAR(100) NOT NULL UNIQUE,
+        original_name VARCHAR(255) NOT NULL,
+        mime_type VARCHAR(100) NOT NULL,
+        size_bytes INTEGER NOT NULL,
+        uploaded_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_expense_attachments_expense ON expense_attachments(expense_id)');
+
+    await client.query('COMMIT');
+    console.log('✅ expense_attachments table created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating expense_attachments table:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addExpenseAttachmentsMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addExpenseAttachmentsMigration;
@@ -0,0 +1,55 @@
+import pool from '../config/database';
+
+async function addIdempotencyKeysMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating idempotency_keys table...');
+    await client.query('BEGIN');
+
+    // One row per Idempotency-Key and caller ('user:<id>' or 'api_key:<id>'). The request is fingerprinted so a key
+    // reused with a different body is rejected; the response is stored once the request completes.
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS idempotency_keys (
+        id SERIAL PRIMARY KEY,
+        idempotency_key VARCHAR(255) NOT NULL,
+        caller VARCHAR(50) NOT NULL,
+        method VARCHAR(10) NOT NULL,
+        path VARCHAR(255) NOT NULL,
+        request_hash CHAR(64) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'in_progress' CHECK (status IN ('in_progress', 'completed')),
+        response_status INTEGER,
+        response_body JSONB,
+        created_at TIMESTAMP DEFAULT NOW(),
+        completed_at TIMESTAMP,
+        expires_at TIMESTAMP NOT NULL,
+        UNIQUE (caller, idempotency_key)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_idempotency_keys_expires ON idempotency_keys(expires_at)');
+
+    await client.query('COMMIT');
+    console.log('✅ idempotency_keys table created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating idempotency_keys table:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addIdempotencyKeysMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addIdempotencyKeysMigration;
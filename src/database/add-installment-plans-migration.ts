@@ -0,0 +1,79 @@
+import pool from '../config/database';
+
+async function addInstallmentPlansMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating installment plan tables...');
+    await client.query('BEGIN');
+
+    // A schedule defined per semester, e.g. "50% at booking, the rest by week 6"
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS installment_plans (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        semester_id INTEGER NOT NULL REFERENCES semesters(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(semester_id, name)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_installment_plans_hostel_semester ON installment_plans(hostel_id, semester_id)');
+
+    // Each installment is a share of the student's invoice, due on a fixed date or a number of days after enrollment
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS installment_plan_items (
+        id SERIAL PRIMARY KEY,
+        plan_id INTEGER NOT NULL REFERENCES installment_plans(id) ON DELETE CASCADE,
+        sequence INTEGER NOT NULL,
+        percentage NUMERIC(5,2) NOT NULL CHECK (percentage > 0 AND percentage <= 100),
+        due_date DATE,
+        due_days_after_enrollment INTEGER CHECK (due_days_after_enrollment >= 0),
+        CHECK ((due_date IS NULL) <> (due_days_after_enrollment IS NULL)),
+        UNIQUE(plan_id, sequence)
+      );
+    `);
+
+    // One plan per student per semester; overdue_since is set and cleared by the daily overdue check
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS student_installment_plans (
+        id SERIAL PRIMARY KEY,
+        plan_id INTEGER NOT NULL REFERENCES installment_plans(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        semester_id INTEGER NOT NULL REFERENCES semesters(id) ON DELETE CASCADE,
+        assigned_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        assigned_at TIMESTAMP DEFAULT NOW(),
+        overdue_since DATE,
+        last_reminder_at TIMESTAMP,
+        UNIQUE(user_id, semester_id)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_student_installment_plans_plan ON student_installment_plans(plan_id)');
+
+    await client.query('COMMIT');
+    console.log('✅ Installment plan tables created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating installment plan tables:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addInstallmentPlansMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addInstallmentPlansMigration;
@@ -0,0 +1,124 @@
+import pool from '../config/database';
+
+async function addInvoicesMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating invoice tables...');
+    await client.query('BEGIN');
+
+    // Hostel-wide charges (registration, utilities, ...); auto_apply ones are added to every new invoice
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS fee_templates (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        fee_type VARCHAR(30) NOT NULL CHECK (fee_type IN ('registration', 'utilities', 'security_deposit', 'damages', 'other')),
+        amount DECIMAL(12,2) NOT NULL CHECK (amount >= 0),
+        auto_apply BOOLEAN NOT NULL DEFAULT TRUE,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_fee_templates_hostel ON fee_templates(hostel_id)');
+
+    // One invoice per student per semester; total_amount is kept in sync with the line items
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS invoices (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        semester_id INTEGER NOT NULL REFERENCES semesters(id) ON DELETE CASCADE,
+        enrollment_id INTEGER REFERENCES semester_enrollments(id) ON DELETE SET NULL,
+        invoice_number VARCHAR(40) UNIQUE,
+        currency VARCHAR(10) NOT NULL DEFAULT 'UGX',
+        total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+        issued_at TIMESTAMP DEFAULT NOW(),
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(user_id, semester_id)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_invoices_hostel_semester ON invoices(hostel_id, semester_id)');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS invoice_line_items (
+        id SERIAL PRIMARY KEY,
+        invoice_id INTEGER NOT NULL REFERENCES invoices(id) ON DELETE CASCADE,
+        fee_type VARCHAR(30) NOT NULL CHECK (fee_type IN ('room', 'registration', 'utilities', 'security_deposit', 'damages', 'other')),
+        description VARCHAR(255) NOT NULL,
+        quantity INTEGER NOT NULL DEFAULT 1 CHECK (quantity > 0),
+        unit_amount DECIMAL(12,2) NOT NULL,
+        amount DECIMAL(12,2) NOT NULL,
+        fee_template_id INTEGER REFERENCES fee_templates(id) ON DELETE SET NULL,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_invoice_line_items_invoice ON invoice_line_items(invoice_id)');
+
+    // Existing active room assignments get an invoice holding just their room charge
+    await client.query(`
+      INSERT INTO invoices (hostel_id, user_id, semester_id, enrollment_id, currency, total_amount)
+      SELECT rm.hostel_id, sra.user_id, sra.semester_id, se.id, 'UGX', rm.price
+      FROM student_room_assignments sra
+      JOIN rooms rm ON rm.id = sra.room_id
+      LEFT JOIN semester_enrollments se ON se.semester_id = sra.semester_id AND se.user_id = sra.user_id
+      WHERE sra.status = 'active' AND sra.semester_id IS NOT NULL
+      ON CONFLICT (user_id, semester_id) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO invoice_line_items (invoice_id, fee_type, description, quantity, unit_amount, amount)
+      SELECT i.id, 'room', 'Room ' || rm.room_number, 1, rm.price, rm.price
+      FROM invoices i
+      JOIN student_room_assignments sra ON sra.user_id = i.user_id AND sra.semester_id = i.semester_id AND sra.status = 'active'
+      JOIN rooms rm ON rm.id = sra.room_id
+      WHERE NOT EXISTS (SELECT 1 FROM invoice_line_items li WHERE li.invoice_id = i.id)
+    `);
+    await client.query(`
+      UPDATE invoices SET invoice_number = 'INV-' || hostel_id || '-' || LPAD(id::text, 6, '0')
+      WHERE invoice_number IS NULL
+    `);
+
+    await client.query(`
+      INSERT INTO permissions (key, description, scope) VALUES
+        ('invoices.view', 'View student invoices and fee templates', 'hostel'),
+        ('invoices.manage', 'Add or remove invoice charges and manage fee templates', 'hostel')
+      ON CONFLICT (key) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO role_permissions (role_id, permission_key)
+      SELECT r.id, p.key
+      FROM roles r
+      JOIN (VALUES ('hostel_admin', 'invoices.view'), ('hostel_admin', 'invoices.manage'), ('custodian', 'invoices.view')) AS p(role_name, key)
+        ON p.role_name = r.name
+      WHERE r.hostel_id IS NULL
+      ON CONFLICT DO NOTHING
+    `);
+
+    await client.query('COMMIT');
+    console.log('✅ Invoice tables created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating invoice tables:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addInvoicesMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addInvoicesMigration;
@@ -0,0 +1,120 @@
+import pool from '../config/database';
+import { LedgerService } from '../services/ledgerService';
+
+async function addLedgerMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating ledger tables...');
+    await client.query('BEGIN');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS ledger_accounts (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        code VARCHAR(10) NOT NULL,
+        name VARCHAR(100) NOT NULL,
+        account_type VARCHAR(20) NOT NULL CHECK (account_type IN ('asset', 'liability', 'equity', 'revenue', 'expense')),
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(hostel_id, code)
+      );
+    `);
+
+    // One journal entry per source document (payment, invoice line, expense, subscription, or their reversal)
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS journal_entries (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        entry_date TIMESTAMP NOT NULL DEFAULT NOW(),
+        description TEXT NOT NULL,
+        source_type VARCHAR(40) NOT NULL,
+        source_id INTEGER NOT NULL,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(source_type, source_id)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_journal_entries_hostel_date ON journal_entries(hostel_id, entry_date)');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS journal_postings (
+        id SERIAL PRIMARY KEY,
+        journal_entry_id INTEGER NOT NULL REFERENCES journal_entries(id) ON DELETE CASCADE,
+        account_id INTEGER NOT NULL REFERENCES ledger_accounts(id) ON DELETE CASCADE,
+        user_id INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        debit DECIMAL(12,2) NOT NULL DEFAULT 0,
+        credit DECIMAL(12,2) NOT NULL DEFAULT 0,
+        CHECK (debit >= 0 AND credit >= 0 AND (debit = 0) <> (credit = 0))
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_journal_postings_entry ON journal_postings(journal_entry_id)');
+    await client.query('CREATE INDEX IF NOT EXISTS idx_journal_postings_account ON journal_postings(account_id)');
+    await client.query('CREATE INDEX IF NOT EXISTS idx_journal_postings_user ON journal_postings(user_id) WHERE user_id IS NOT NULL');
+
+    await client.query(`
+      INSERT INTO permissions (key, description, scope)
+      VALUES ('ledger.view', 'View the trial balance, general ledger and student statements', 'hostel')
+      ON CONFLICT (key) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO role_permissions (role_id, permission_key)
+      SELECT id, 'ledger.view' FROM roles WHERE hostel_id IS NULL AND name = 'hostel_admin'
+      ON CONFLICT DO NOTHING
+    `);
+
+    // Post existing history so balances start out reconciled; already-posted documents are skipped
+    console.log('Posting existing invoices, payments, expenses and subscriptions...');
+    const lines = await client.query(
+      `SELECT li.*, i.hostel_id, i.user_id, i.invoice_number
+       FROM invoice_line_items li JOIN invoices i ON i.id = li.invoice_id
+       ORDER BY li.created_at, li.id`
+    );
+    for (const line of lines.rows) {
+      await LedgerService.postInvoiceLine(
+        { hostel_id: line.hostel_id, user_id: line.user_id, invoice_number: line.invoice_number },
+        { ...line, amount: parseFloat(line.amount) },
+        line.created_by,
+        client
+      );
+    }
+
+    const payments = await client.query('SELECT * FROM payments ORDER BY created_at, id');
+    for (const payment of payments.rows) {
+      await LedgerService.postPayment(payment, null, client);
+    }
+
+    const expenses = await client.query('SELECT * FROM expenses ORDER BY spent_at, id');
+    for (const expense of expenses.rows) {
+      await LedgerService.postExpense(expense, expense.user_id, client);
+    }
+
+    const subscriptions = await client.query('SELECT * FROM hostel_subscriptions WHERE amount_paid > 0 ORDER BY created_at, id');
+    for (const subscription of subscriptions.rows) {
+      await LedgerService.postSubscriptionCharge(subscription, null, client);
+    }
+
+    await client.query('COMMIT');
+    console.log('✅ Ledger tables created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating ledger tables:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addLedgerMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addLedgerMigration;
@@ -0,0 +1,62 @@
+import pool from '../config/database';
+
+async function addLoginLockoutMigration() {
+  try {
+    console.log('Creating login_lockouts table...');
+
+    // Failed-attempt counters keyed by account (user id) or client IP
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS login_lockouts (
+        id SERIAL PRIMARY KEY,
+        scope VARCHAR(20) NOT NULL CHECK (scope IN ('account', 'ip')),
+        subject VARCHAR(255) NOT NULL,
+        failed_count INTEGER NOT NULL DEFAULT 0,
+        first_failed_at TIMESTAMP,
+        lockout_count INTEGER NOT NULL DEFAULT 0,
+        locked_until TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        UNIQUE(scope, subject)
+      );
+    `);
+
+    await pool.query(`
+      ALTER TABLE password_reset_tokens
+      ADD COLUMN IF NOT EXISTS failed_attempts INTEGER NOT NULL DEFAULT 0;
+    `);
+
+    // max_login_attempts and lockout_duration_minutes already exist; add the remaining knobs
+    await pool.query(`
+      INSERT INTO auth_settings (setting_key, setting_value, setting_type, description) VALUES
+      ('max_login_attempts', '5', 'number', 'Maximum login attempts before lockout'),
+      ('lockout_duration_minutes', '30', 'number', 'Account lockout duration in minutes'),
+      ('max_lockout_duration_minutes', '1440', 'number', 'Upper bound for progressive (doubling) account lockouts'),
+      ('failed_login_window_minutes', '15', 'number', 'Failed attempts older than this no longer count towards a lockout'),
+      ('max_login_attempts_per_ip', '20', 'number', 'Maximum failed login attempts from one IP before it is blocked'),
+      ('ip_lockout_duration_minutes', '15', 'number', 'IP block duration in minutes'),
+      ('max_otp_attempts', '5', 'number', 'Wrong OTP entries allowed before a password reset token is burned')
+      ON CONFLICT (setting_key) DO NOTHING
+    `);
+
+    console.log('✅ login_lockouts table created successfully');
+  } catch (error) {
+    console.error('❌ Error creating login_lockouts table:', error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addLoginLockoutMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addLoginLockoutMigration;
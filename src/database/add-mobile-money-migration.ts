@@ -0,0 +1,61 @@
+import pool from '../config/database';
+
+async function addMobileMoneyMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating mobile money collections table...');
+    await client.query('BEGIN');
+
+    // One row per collection request pushed to a student's phone; the payment is recorded when the provider confirms it
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS mobile_money_collections (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        semester_id INTEGER REFERENCES semesters(id) ON DELETE SET NULL,
+        provider VARCHAR(30) NOT NULL,
+        network VARCHAR(20) NOT NULL CHECK (network IN ('mtn', 'airtel')),
+        phone VARCHAR(30) NOT NULL,
+        amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+        currency VARCHAR(10) NOT NULL DEFAULT 'UGX',
+        purpose VARCHAR(50) NOT NULL DEFAULT 'booking',
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'successful', 'failed')),
+        provider_reference VARCHAR(100) NOT NULL,
+        provider_transaction_id VARCHAR(100),
+        failure_reason TEXT,
+        payment_id INTEGER REFERENCES payments(id) ON DELETE SET NULL,
+        requested_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        completed_at TIMESTAMP,
+        UNIQUE(provider, provider_reference)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_mobile_money_collections_hostel ON mobile_money_collections(hostel_id, created_at DESC)');
+    await client.query('CREATE INDEX IF NOT EXISTS idx_mobile_money_collections_user ON mobile_money_collections(user_id)');
+
+    await client.query('COMMIT');
+    console.log('✅ Mobile money collections table created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating mobile money collections table:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addMobileMoneyMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addMobileMoneyMigration;
@@ -0,0 +1,84 @@
+import pool from '../config/database';
+
+async function addMultiCurrencyMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Adding multi-currency support...');
+    await client.query('BEGIN');
+
+    // Currency every hostel total, invoice and ledger entry is reported in
+    await client.query("ALTER TABLE hostels ADD COLUMN IF NOT EXISTS base_currency VARCHAR(3) NOT NULL DEFAULT 'UGX'");
+
+    // Maintained by the super admin; a rate applies from its effective date until a newer one takes over
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS exchange_rates (
+        id SERIAL PRIMARY KEY,
+        from_currency VARCHAR(3) NOT NULL,
+        to_currency VARCHAR(3) NOT NULL,
+        rate NUMERIC(18,8) NOT NULL CHECK (rate > 0),
+        effective_date DATE NOT NULL,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        CHECK (from_currency <> to_currency),
+        UNIQUE(from_currency, to_currency, effective_date)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_exchange_rates_pair_date ON exchange_rates(from_currency, to_currency, effective_date DESC)');
+
+    await client.query(`
+      INSERT INTO permissions (key, description, scope)
+      VALUES ('exchange_rates.manage', 'Maintain exchange rates used to convert payments and expenses', 'platform')
+      ON CONFLICT (key) DO NOTHING
+    `);
+
+    // Original amount and currency stay as entered; base_amount is what totals add up.
+    // base_amount stays NULL while no rate covers the entry's date; adding the rate converts it.
+    for (const table of ['payments', 'expenses']) {
+      await client.query(`
+        ALTER TABLE ${table}
+        ADD COLUMN IF NOT EXISTS base_currency VARCHAR(3),
+        ADD COLUMN IF NOT EXISTS base_amount DECIMAL(12,2),
+        ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18,8)
+      `);
+      await client.query(`
+        UPDATE ${table} t
+        SET base_currency = h.base_currency,
+            exchange_rate = 1,
+            base_amount = t.amount
+        FROM hostels h
+        WHERE h.id = t.hostel_id AND t.base_amount IS NULL AND UPPER(COALESCE(t.currency, 'UGX')) = h.base_currency
+      `);
+      const pending = await client.query(`SELECT COUNT(*)::int AS count FROM ${table} WHERE base_amount IS NULL`);
+      if (pending.rows[0].count > 0) {
+        console.warn(`⚠️  ${pending.rows[0].count} ${table} rows are in a foreign currency; they are converted once exchange rates are added`);
+      }
+    }
+
+    await client.query("UPDATE invoices i SET currency = h.base_currency FROM hostels h WHERE h.id = i.hostel_id AND i.currency <> h.base_currency");
+
+    await client.query('COMMIT');
+    console.log('✅ Multi-currency support added successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error adding multi-currency support:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addMultiCurrencyMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addMultiCurrencyMigration;
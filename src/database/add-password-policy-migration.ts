@@ -0,0 +1,46 @@
+import pool from '../config/database';
+
+async function addPasswordPolicyMigration() {
+  try {
+    console.log('Adding password policy columns...');
+
+    // Existing accounts start their max-age clock at migration time instead of being expired at once
+    await pool.query(`
+      ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS password_changed_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP;
+    `);
+
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS password_history (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER REFERENCES users(id) ON DELETE CASCADE,
+        password_hash VARCHAR(255) NOT NULL,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_password_history_user_id ON password_history(user_id, created_at DESC);');
+
+    console.log('✅ Password policy columns added successfully');
+  } catch (error) {
+    console.error('❌ Error adding password policy columns:', error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addPasswordPolicyMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addPasswordPolicyMigration;
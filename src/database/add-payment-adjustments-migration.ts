@@ -0,0 +1,95 @@
+import pool from '../config/database';
+
+async function addPaymentAdjustmentsMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Adding payment adjustments...');
+    await client.query('BEGIN');
+
+    // Payments are never edited or deleted; voids, refunds and corrections are compensating rows
+    // pointing at the payment they adjust, so SUM(amount) always nets them out
+    await client.query(`
+      ALTER TABLE payments
+      ADD COLUMN IF NOT EXISTS entry_type VARCHAR(20) NOT NULL DEFAULT 'payment',
+      ADD COLUMN IF NOT EXISTS adjusts_payment_id INTEGER REFERENCES payments(id) ON DELETE CASCADE,
+      ADD COLUMN IF NOT EXISTS adjustment_reason TEXT
+    `);
+    await client.query('ALTER TABLE payments DROP CONSTRAINT IF EXISTS payments_entry_type_check');
+    await client.query(`
+      ALTER TABLE payments ADD CONSTRAINT payments_entry_type_check
+      CHECK (entry_type IN ('payment', 'void', 'refund', 'correction'))
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_payments_adjusts_payment ON payments(adjusts_payment_id)');
+
+    // Requested adjustments; applied immediately or after hostel_admin approval
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS payment_adjustments (
+        id SERIAL PRIMARY KEY,
+        payment_id INTEGER NOT NULL REFERENCES payments(id) ON DELETE CASCADE,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        adjustment_type VARCHAR(20) NOT NULL CHECK (adjustment_type IN ('void', 'refund', 'correction')),
+        requested_amount DECIMAL(12,2),
+        applied_amount DECIMAL(12,2),
+        reason TEXT NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'approved', 'rejected')),
+        requested_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        reviewed_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        review_note TEXT,
+        entry_payment_id INTEGER REFERENCES payments(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        reviewed_at TIMESTAMP
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_payment_adjustments_hostel_status ON payment_adjustments(hostel_id, status)');
+    await client.query(`
+      CREATE UNIQUE INDEX IF NOT EXISTS idx_payment_adjustments_one_pending
+      ON payment_adjustments(payment_id) WHERE status = 'pending'
+    `);
+
+    await client.query(`
+      ALTER TABLE hostels
+      ADD COLUMN IF NOT EXISTS payment_adjustment_approval BOOLEAN NOT NULL DEFAULT FALSE
+    `);
+
+    await client.query(`
+      INSERT INTO permissions (key, description, scope) VALUES
+        ('payments.adjust', 'Void, refund or correct recorded payments', 'hostel'),
+        ('payments.approve_adjustments', 'Approve payment voids, refunds and corrections', 'hostel')
+      ON CONFLICT (key) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO role_permissions (role_id, permission_key)
+      SELECT r.id, p.key
+      FROM roles r
+      JOIN (VALUES ('hostel_admin', 'payments.adjust'), ('hostel_admin', 'payments.approve_adjustments'), ('custodian', 'payments.adjust')) AS p(role_name, key)
+        ON p.role_name = r.name
+      WHERE r.hostel_id IS NULL
+      ON CONFLICT DO NOTHING
+    `);
+
+    await client.query('COMMIT');
+    console.log('✅ Payment adjustments added successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error adding payment adjustments:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addPaymentAdjustmentsMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addPaymentAdjustmentsMigration;
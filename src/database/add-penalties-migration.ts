@@ -0,0 +1,101 @@
+import pool from '../config/database';
+
+async function addPenaltiesMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating penalty tables...');
+    await client.query('BEGIN');
+
+    // Late fees are charged as invoice lines of their own type
+    await client.query('ALTER TABLE invoice_line_items DROP CONSTRAINT IF EXISTS invoice_line_items_fee_type_check');
+    await client.query(`
+      ALTER TABLE invoice_line_items ADD CONSTRAINT invoice_line_items_fee_type_check
+      CHECK (fee_type IN ('room', 'registration', 'utilities', 'security_deposit', 'damages', 'other', 'late_fee'))
+    `);
+
+    // A flat fee or a percentage of the overdue amount, charged once an installment is days_overdue days late.
+    // Recurring rules charge again every 7 days while it stays overdue; cap limits the total per student per semester.
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS penalty_rules (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        penalty_type VARCHAR(20) NOT NULL CHECK (penalty_type IN ('flat', 'percentage')),
+        amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+        days_overdue INTEGER NOT NULL DEFAULT 0 CHECK (days_overdue >= 0),
+        cap DECIMAL(12,2) CHECK (cap > 0),
+        recurring_weekly BOOLEAN NOT NULL DEFAULT FALSE,
+        is_active BOOLEAN NOT NULL DEFAULT TRUE,
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        CHECK (penalty_type <> 'percentage' OR amount <= 100)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_penalty_rules_hostel ON penalty_rules(hostel_id)');
+
+    // One row per charge; occurrence numbers the weekly repeats so the daily job never charges twice
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS penalty_charges (
+        id SERIAL PRIMARY KEY,
+        rule_id INTEGER NOT NULL REFERENCES penalty_rules(id) ON DELETE CASCADE,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        semester_id INTEGER NOT NULL REFERENCES semesters(id) ON DELETE CASCADE,
+        invoice_line_item_id INTEGER REFERENCES invoice_line_items(id) ON DELETE SET NULL,
+        occurrence INTEGER NOT NULL DEFAULT 1,
+        overdue_amount DECIMAL(12,2) NOT NULL,
+        amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+        status VARCHAR(20) NOT NULL DEFAULT 'applied' CHECK (status IN ('applied', 'waived')),
+        waive_reason TEXT,
+        waived_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        waived_at TIMESTAMP,
+        created_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE(rule_id, user_id, semester_id, occurrence)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_penalty_charges_hostel_status ON penalty_charges(hostel_id, status)');
+    await client.query('CREATE INDEX IF NOT EXISTS idx_penalty_charges_user_semester ON penalty_charges(user_id, semester_id)');
+
+    await client.query(`
+      INSERT INTO permissions (key, description, scope) VALUES
+        ('penalties.manage', 'Configure late fee and penalty rules', 'hostel'),
+        ('penalties.waive', 'Waive late fees charged to students', 'hostel')
+      ON CONFLICT (key) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO role_permissions (role_id, permission_key)
+      SELECT r.id, p.key
+      FROM roles r
+      JOIN (VALUES ('hostel_admin', 'penalties.manage'), ('hostel_admin', 'penalties.waive')) AS p(role_name, key)
+        ON p.role_name = r.name
+      WHERE r.hostel_id IS NULL
+      ON CONFLICT DO NOTHING
+    `);
+
+    await client.query('COMMIT');
+    console.log('✅ Penalty tables created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating penalty tables:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addPenaltiesMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addPenaltiesMigration;
@@ -0,0 +1,96 @@
+import pool from '../config/database';
+import { PERMISSIONS, BUILT_IN_ROLES, DEFAULT_ROLE_PERMISSIONS } from '../utils/permissions';
+
+async function addRbacMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating roles and permissions tables...');
+    await client.query('BEGIN');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS permissions (
+        key VARCHAR(100) PRIMARY KEY,
+        description TEXT,
+        scope VARCHAR(20) NOT NULL CHECK (scope IN ('platform', 'hostel'))
+      );
+    `);
+
+    // Built-in roles have no hostel; custom roles (accountant, warden, ...) belong to one hostel
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS roles (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER REFERENCES hostels(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        description TEXT,
+        is_system BOOLEAN NOT NULL DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+    await client.query('CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_builtin_name ON roles(name) WHERE hostel_id IS NULL');
+    await client.query('CREATE UNIQUE INDEX IF NOT EXISTS idx_roles_hostel_name ON roles(hostel_id, name) WHERE hostel_id IS NOT NULL');
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS role_permissions (
+        role_id INTEGER NOT NULL REFERENCES roles(id) ON DELETE CASCADE,
+        permission_key VARCHAR(100) NOT NULL REFERENCES permissions(key) ON DELETE CASCADE,
+        PRIMARY KEY (role_id, permission_key)
+      );
+    `);
+
+    // Staff given a custom role keep their base role (custodian) for hostel resolution
+    await client.query(`
+      ALTER TABLE users
+      ADD COLUMN IF NOT EXISTS custom_role_id INTEGER REFERENCES roles(id) ON DELETE SET NULL;
+    `);
+
+    for (const [key, def] of Object.entries(PERMISSIONS)) {
+      await client.query(
+        `INSERT INTO permissions (key, description, scope) VALUES ($1, $2, $3)
+         ON CONFLICT (key) DO UPDATE SET description = EXCLUDED.description, scope = EXCLUDED.scope`,
+        [key, def.description, def.scope]
+      );
+    }
+
+    // Defaults are only seeded when a built-in role is first created, so later edits survive re-runs
+    for (const name of BUILT_IN_ROLES) {
+      const existing = await client.query('SELECT id FROM roles WHERE hostel_id IS NULL AND name = $1', [name]);
+      if (existing.rowCount) continue;
+      const created = await client.query(
+        `INSERT INTO roles (hostel_id, name, description, is_system) VALUES (NULL, $1, $2, TRUE) RETURNING id`,
+        [name, `Built-in ${name.replace('_', ' ')} role`]
+      );
+      for (const key of DEFAULT_ROLE_PERMISSIONS[name] || []) {
+        await client.query(
+          'INSERT INTO role_permissions (role_id, permission_key) VALUES ($1, $2) ON CONFLICT DO NOTHING',
+          [created.rows[0].id, key]
+        );
+      }
+    }
+
+    await client.query('COMMIT');
+    console.log('✅ Roles and permissions tables created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating roles and permissions tables:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addRbacMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addRbacMigration;
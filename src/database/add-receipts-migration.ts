@@ -0,0 +1,55 @@
+import pool from '../config/database';
+import { ReceiptService } from '../services/receiptService';
+
+async function addReceiptsMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Adding receipt numbers...');
+    await client.query('BEGIN');
+
+    // Per-hostel receipt counter; ReceiptService.assign increments it inside the payment's transaction
+    await client.query('ALTER TABLE hostels ADD COLUMN IF NOT EXISTS last_receipt_number INTEGER NOT NULL DEFAULT 0');
+
+    // Only original payments get receipts; voids, refunds and corrections point back at the receipted payment
+    await client.query(`
+      ALTER TABLE payments
+      ADD COLUMN IF NOT EXISTS receipt_number VARCHAR(40) UNIQUE,
+      ADD COLUMN IF NOT EXISTS receipt_code VARCHAR(32) UNIQUE
+    `);
+
+    console.log('Numbering existing payments...');
+    const payments = await client.query(
+      `SELECT id, hostel_id FROM payments
+       WHERE entry_type = 'payment' AND receipt_number IS NULL AND hostel_id IS NOT NULL
+       ORDER BY hostel_id, created_at, id`
+    );
+    for (const payment of payments.rows) {
+      await ReceiptService.assign(payment, client);
+    }
+
+    await client.query('COMMIT');
+    console.log('✅ Receipt numbers added successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error adding receipt numbers:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addReceiptsMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addReceiptsMigration;
@@ -0,0 +1,87 @@
+import pool from '../config/database';
+
+async function addSecurityDepositsMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating security deposit tables...');
+    await client.query('BEGIN');
+
+    // Deposits are charged as security_deposit invoice lines and held until check-out, where one settlement
+    // per enrollment releases the deposit against the student's balance and refunds what is left
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS deposit_settlements (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        enrollment_id INTEGER NOT NULL UNIQUE REFERENCES semester_enrollments(id) ON DELETE CASCADE,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        semester_id INTEGER NOT NULL REFERENCES semesters(id) ON DELETE CASCADE,
+        invoice_id INTEGER REFERENCES invoices(id) ON DELETE SET NULL,
+        deposit_amount DECIMAL(12,2) NOT NULL,
+        total_deductions DECIMAL(12,2) NOT NULL,
+        refund_amount DECIMAL(12,2) NOT NULL CHECK (refund_amount >= 0),
+        balance_due DECIMAL(12,2) NOT NULL DEFAULT 0,
+        refund_payment_id INTEGER REFERENCES payments(id) ON DELETE SET NULL,
+        refund_method VARCHAR(20) CHECK (refund_method IN ('cash', 'bank_transfer', 'mobile_money')),
+        refund_reference VARCHAR(100),
+        release_line_item_id INTEGER REFERENCES invoice_line_items(id) ON DELETE SET NULL,
+        notes TEXT,
+        settled_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        settled_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_deposit_settlements_hostel ON deposit_settlements(hostel_id, semester_id)');
+
+    // What was taken from the deposit; damages and missing inventory are also charged on the invoice
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS deposit_deductions (
+        id SERIAL PRIMARY KEY,
+        settlement_id INTEGER NOT NULL REFERENCES deposit_settlements(id) ON DELETE CASCADE,
+        deduction_type VARCHAR(20) NOT NULL CHECK (deduction_type IN ('damages', 'missing_inventory', 'unpaid_balance')),
+        description VARCHAR(255) NOT NULL,
+        inventory_item_id INTEGER REFERENCES inventory_items(id) ON DELETE SET NULL,
+        quantity INTEGER,
+        amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+        invoice_line_item_id INTEGER REFERENCES invoice_line_items(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_deposit_deductions_settlement ON deposit_deductions(settlement_id)');
+
+    await client.query(`
+      INSERT INTO permissions (key, description, scope)
+      VALUES ('deposits.manage', 'Check students out and settle their security deposits', 'hostel')
+      ON CONFLICT (key) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO role_permissions (role_id, permission_key)
+      SELECT r.id, 'deposits.manage' FROM roles r
+      WHERE r.name = 'hostel_admin' AND r.hostel_id IS NULL
+      ON CONFLICT DO NOTHING
+    `);
+
+    await client.query('COMMIT');
+    console.log('✅ Security deposit tables created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating security deposit tables:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addSecurityDepositsMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addSecurityDepositsMigration;
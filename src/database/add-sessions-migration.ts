@@ -0,0 +1,49 @@
+import pool from '../config/database';
+
+async function addSessionsMigration() {
+  try {
+    console.log('Creating user_sessions table...');
+
+    // One row per login; access tokens carry the id as `sid`, refresh tokens are stored hashed
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS user_sessions (
+        id SERIAL PRIMARY KEY,
+        user_id INTEGER NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        refresh_token_hash VARCHAR(128) UNIQUE NOT NULL,
+        previous_refresh_token_hash VARCHAR(128),
+        ip_address VARCHAR(64),
+        user_agent TEXT,
+        expires_at TIMESTAMP NOT NULL,
+        last_used_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+        revoked_at TIMESTAMP,
+        revoked_reason VARCHAR(50),
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_user_sessions_user_id ON user_sessions(user_id);');
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_user_sessions_previous_hash ON user_sessions(previous_refresh_token_hash);');
+
+    console.log('✅ user_sessions table created successfully');
+  } catch (error) {
+    console.error('❌ Error creating user_sessions table:', error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addSessionsMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addSessionsMigration;
@@ -0,0 +1,45 @@
+import pool from '../config/database';
+
+async function addSsoLoginMigration() {
+  try {
+    console.log('Creating sso_login_states table...');
+
+    // Pending authorization-code flows: state -> PKCE verifier, consumed once by the callback
+    await pool.query(`
+      CREATE TABLE IF NOT EXISTS sso_login_states (
+        id SERIAL PRIMARY KEY,
+        state VARCHAR(128) UNIQUE NOT NULL,
+        provider_id INTEGER NOT NULL REFERENCES sso_providers(id) ON DELETE CASCADE,
+        code_verifier VARCHAR(128) NOT NULL,
+        expires_at TIMESTAMP NOT NULL,
+        used BOOLEAN DEFAULT FALSE,
+        created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+      );
+    `);
+
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_sso_login_states_expires_at ON sso_login_states(expires_at);');
+    await pool.query('CREATE INDEX IF NOT EXISTS idx_user_sso_accounts_user_id ON user_sso_accounts(user_id);');
+
+    console.log('✅ sso_login_states table created successfully');
+  } catch (error) {
+    console.error('❌ Error creating sso_login_states table:', error);
+    throw error;
+  } finally {
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addSsoLoginMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addSsoLoginMigration;
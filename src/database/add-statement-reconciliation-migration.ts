@@ -0,0 +1,120 @@
+import pool from '../config/database';
+
+async function addStatementReconciliationMigration() {
+  const client = await pool.connect();
+  try {
+    console.log('Creating statement reconciliation tables...');
+    await client.query('BEGIN');
+
+    // How to read one bank's or mobile-money merchant's CSV export. Columns are header names, or 1-based positions
+    // for files without a header row. The amount comes from amount_column, or credit_column minus debit_column.
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS statement_mappings (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        name VARCHAR(100) NOT NULL,
+        source_type VARCHAR(20) NOT NULL CHECK (source_type IN ('bank', 'mobile_money')),
+        currency VARCHAR(3) NOT NULL,
+        delimiter VARCHAR(2) NOT NULL DEFAULT ',',
+        has_header BOOLEAN NOT NULL DEFAULT TRUE,
+        skip_rows INTEGER NOT NULL DEFAULT 0 CHECK (skip_rows >= 0),
+        date_column VARCHAR(100) NOT NULL,
+        date_format VARCHAR(20) NOT NULL DEFAULT 'YYYY-MM-DD',
+        amount_column VARCHAR(100),
+        credit_column VARCHAR(100),
+        debit_column VARCHAR(100),
+        reference_column VARCHAR(100),
+        description_column VARCHAR(100),
+        payer_column VARCHAR(100),
+        created_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW(),
+        updated_at TIMESTAMP DEFAULT NOW(),
+        UNIQUE (hostel_id, name),
+        CHECK (amount_column IS NOT NULL OR credit_column IS NOT NULL)
+      );
+    `);
+
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS statement_imports (
+        id SERIAL PRIMARY KEY,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        mapping_id INTEGER REFERENCES statement_mappings(id) ON DELETE SET NULL,
+        source_type VARCHAR(20) NOT NULL,
+        currency VARCHAR(3) NOT NULL,
+        file_name VARCHAR(255),
+        period_start DATE,
+        period_end DATE,
+        line_count INTEGER NOT NULL DEFAULT 0,
+        duplicate_count INTEGER NOT NULL DEFAULT 0,
+        imported_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        created_at TIMESTAMP DEFAULT NOW()
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_statement_imports_hostel ON statement_imports(hostel_id, created_at DESC)');
+
+    // fingerprint identifies a transaction across overlapping downloads of the same account, so re-importing skips it.
+    // A payment is matched to at most one statement line.
+    await client.query(`
+      CREATE TABLE IF NOT EXISTS statement_lines (
+        id SERIAL PRIMARY KEY,
+        import_id INTEGER NOT NULL REFERENCES statement_imports(id) ON DELETE CASCADE,
+        hostel_id INTEGER NOT NULL REFERENCES hostels(id) ON DELETE CASCADE,
+        line_number INTEGER NOT NULL,
+        transaction_date DATE NOT NULL,
+        amount DECIMAL(12,2) NOT NULL,
+        currency VARCHAR(3) NOT NULL,
+        reference VARCHAR(255),
+        description TEXT,
+        payer VARCHAR(255),
+        fingerprint CHAR(64) NOT NULL,
+        status VARCHAR(20) NOT NULL DEFAULT 'unmatched' CHECK (status IN ('unmatched', 'matched', 'ignored')),
+        payment_id INTEGER REFERENCES payments(id) ON DELETE SET NULL,
+        match_method VARCHAR(20) CHECK (match_method IN ('reference', 'amount_date', 'manual')),
+        resolution_note TEXT,
+        resolved_by INTEGER REFERENCES users(id) ON DELETE SET NULL,
+        resolved_at TIMESTAMP,
+        UNIQUE (hostel_id, fingerprint)
+      );
+    `);
+    await client.query('CREATE INDEX IF NOT EXISTS idx_statement_lines_import ON statement_lines(import_id)');
+    await client.query('CREATE INDEX IF NOT EXISTS idx_statement_lines_hostel_status ON statement_lines(hostel_id, status)');
+    await client.query('CREATE UNIQUE INDEX IF NOT EXISTS idx_statement_lines_payment ON statement_lines(payment_id) WHERE payment_id IS NOT NULL');
+
+    await client.query(`
+      INSERT INTO permissions (key, description, scope)
+      VALUES ('payments.reconcile', 'Import bank and mobile money statements and reconcile them against payments', 'hostel')
+      ON CONFLICT (key) DO NOTHING
+    `);
+    await client.query(`
+      INSERT INTO role_permissions (role_id, permission_key)
+      SELECT r.id, 'payments.reconcile' FROM roles r
+      WHERE r.name = 'hostel_admin' AND r.hostel_id IS NULL
+      ON CONFLICT DO NOTHING
+    `);
+
+    await client.query('COMMIT');
+    console.log('✅ Statement reconciliation tables created successfully');
+  } catch (error) {
+    await client.query('ROLLBACK');
+    console.error('❌ Error creating statement reconciliation tables:', error);
+    throw error;
+  } finally {
+    client.release();
+    await pool.end();
+  }
+}
+
+// Run if this file is executed directly
+if (require.main === module) {
+  addStatementReconciliationMigration()
+    .then(() => {
+      console.log('Migration completed successfully');
+      process.exit(0);
+    })
+    .catch((err) => {
+      console.error('Migration failed:', err);
+      process.exit(1);
+    });
+}
+
+export default addStatementReconciliationMigration;
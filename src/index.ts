@@ -7,6 +7,7 @@ import compression from 'compression';
 import morgan from 'morgan';
 import cron from 'node-cron';
 import authRoutes from './routes/auth';
+import ssoStubRoutes from './routes/sso-stub';
 import hostelRoutes from './routes/hostels';
 import analyticsRoutes from './routes/analytics';
 import multiTenantAnalyticsRoutes from './routes/multi-tenant-analytics';
@@ -20,8 +21,26 @@ import authSettingsRoutes from './routes/auth-settings';
 import custodiansRoutes from './routes/custodians';
 import subscriptionPlansRoutes from './routes/subscription-plans';
 import semestersRoutes from './routes/semesters';
+import auditLogsRoutes from './routes/audit-logs';
+import rolesRoutes from './routes/roles';
+import apiKeysRoutes from './routes/api-keys';
+import invoicesRoutes from './routes/invoices';
+import ledgerRoutes from './routes/ledger';
+import mobileMoneyRoutes from './routes/mobile-money';
+import receiptsRoutes from './routes/receipts';
+import exchangeRatesRoutes from './routes/exchange-rates';
+import installmentPlansRoutes from './routes/installment-plans';
+import penaltiesRoutes from './routes/penalties';
+import discountsRoutes from './routes/discounts';
+import depositsRoutes from './routes/deposits';
+import reconciliationRoutes from './routes/reconciliation';
+import cashUpsRoutes from './routes/cash-ups';
 import { SubscriptionNotificationService } from './services/subscriptionNotificationService';
 import { SemesterService } from './services/semesterService';
+import { InstallmentService } from './services/installmentService';
+import { PenaltyService } from './services/penaltyService';
+import { IdempotencyKeyModel } from './models/IdempotencyKey';
+import { enforceActiveSession } from './utils/sessionMiddleware';
 import path from 'path';
 
 // Load environment variables
@@ -39,7 +58,8 @@ app.use(helmet({
 app.use(cors({ origin: '*' }));
 
 // Body parsers with sane limits
-app.use(express.json({ limit: '1mb' }));
+// The raw bytes are kept for webhook signature checks
+app.use(express.json({ limit: '1mb', verify: (req, _res, buf) => { (req as any).rawBody = buf; } }));
 app.use(express.urlencoded({ extended: true, limit: '1mb' }));
 
 // Compression
@@ -56,8 +76,15 @@ const authLimiter = rateLimit({ windowMs: 15 * 60 * 1000, max: 50 });
 const writeLimiter = rateLimit({ windowMs: 10 * 60 * 1000, max: 300 });
 app.use(generalLimiter);
 
+// Revoked sessions invalidate their access tokens on every route
+app.use('/api', enforceActiveSession);
+
 // Routes
 app.use('/api/auth', authLimiter, authRoutes);
+// Local stub identity provider for exercising SSO logins (see routes/sso-stub.ts); never in production
+if (process.env.SSO_STUB_ENABLED === 'true' && process.env.NODE_ENV !== 'production') {
+  app.use('/api/sso-stub', authLimiter, ssoStubRoutes);
+}
 app.use('/api/hostels', writeLimiter, hostelRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/multi-tenant', multiTenantAnalyticsRoutes);
@@ -71,6 +98,20 @@ app.use('/api/inventory', writeLimiter, inventoryRoutes);
 app.use('/api/expenses', writeLimiter, expensesRoutes);
 app.use('/api/subscription-plans', writeLimiter, subscriptionPlansRoutes);
 app.use('/api/semesters', writeLimiter, semestersRoutes);
+app.use('/api/audit-logs', auditLogsRoutes);
+app.use('/api/roles', writeLimiter, rolesRoutes);
+app.use('/api/api-keys', writeLimiter, apiKeysRoutes);
+app.use('/api/invoices', writeLimiter, invoicesRoutes);
+app.use('/api/ledger', ledgerRoutes);
+app.use('/api/mobile-money', writeLimiter, mobileMoneyRoutes);
+app.use('/api/receipts', receiptsRoutes);
+app.use('/api/exchange-rates', writeLimiter, exchangeRatesRoutes);
+app.use('/api/installment-plans', writeLimiter, installmentPlansRoutes);
+app.use('/api/penalties', writeLimiter, penaltiesRoutes);
+app.use('/api/discounts', writeLimiter, discountsRoutes);
+app.use('/api/deposits', writeLimiter, depositsRoutes);
+app.use('/api/reconciliation', writeLimiter, reconciliationRoutes);
+app.use('/api/cash-ups', writeLimiter, cashUpsRoutes);
 
 // Static uploads
 app.use('/uploads', express.static(path.join(process.cwd(), 'uploads')));
@@ -128,7 +169,32 @@ cron.schedule('0 8 * * *', async () => {
   timezone: 'UTC'
 });
 
+// Schedule overdue installment checks, then charge late fees on what is overdue
+// Run daily at 10:00 AM
+cron.schedule('0 10 * * *', async () => {
+  console.log('💳 Running scheduled overdue installment check...');
+  await InstallmentService.checkOverdueInstallments();
+  await PenaltyService.applyPenalties();
+}, {
+  timezone: 'UTC'
+});
+
+// Drop expired Idempotency-Key records (IDEMPOTENCY_KEY_TTL_HOURS)
+// Run daily at 3:00 AM
+cron.schedule('0 3 * * *', async () => {
+  try {
+    const removed = await IdempotencyKeyModel.deleteExpired();
+    console.log(`🔑 Removed ${removed} expired idempotency key(s)`);
+  } catch (error) {
+    console.error('❌ Error removing expired idempotency keys:', error);
+  }
+}, {
+  timezone: 'UTC'
+});
+
 console.log('⏰ Subscription notification scheduler initialized (runs daily at 9:00 AM UTC)');
 console.log('📅 Semester management scheduler initialized (runs daily at 8:00 AM UTC)');
+console.log('💳 Overdue installment and late fee scheduler initialized (runs daily at 10:00 AM UTC)');
+console.log('🔑 Idempotency key cleanup scheduler initialized (runs daily at 3:00 AM UTC)');
 
 export default app;
@@ -0,0 +1,102 @@
+import pool from '../config/database';
+
+export interface ApiKey {
+  id: number;
+  hostel_id: number;
+  name: string;
+  key_prefix: string;
+  scopes: string[];
+  created_by: number | null;
+  expires_at: Date | null;
+  last_used_at: Date | null;
+  last_used_ip: string | null;
+  usage_count: number;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+export interface ApiKeyUsage {
+  id: number;
+  api_key_id: number;
+  method: string;
+  path: string;
+  status_code: number | null;
+  ip_address: string | null;
+  created_at: Date;
+}
+
+// key_hash never leaves the model
+const PUBLIC_COLUMNS = 'id, hostel_id, name, key_prefix, scopes, created_by, expires_at, last_used_at, last_used_ip, usage_count, revoked_at, created_at';
+
+export class ApiKeyModel {
+  static async create(data: {
+    hostel_id: number;
+    name: string;
+    key_prefix: string;
+    key_hash: string;
+    scopes: string[];
+    created_by: number | null;
+    expires_at: Date | null;
+  }): Promise<ApiKey> {
+    const result = await pool.query(
+      `INSERT INTO api_keys (hostel_id, name, key_prefix, key_hash, scopes, created_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING ${PUBLIC_COLUMNS}`,
+      [data.hostel_id, data.name, data.key_prefix, data.key_hash, data.scopes, data.created_by, data.expires_at]
+    );
+    return result.rows[0];
+  }
+
+  static async listForHostel(hostelId: number): Promise<ApiKey[]> {
+    const result = await pool.query(
+      `SELECT ${PUBLIC_COLUMNS} FROM api_keys WHERE hostel_id = $1 ORDER BY revoked_at NULLS FIRST, created_at DESC`,
+      [hostelId]
+    );
+    return result.rows;
+  }
+
+  static async findById(id: number): Promise<ApiKey | null> {
+    const result = await pool.query(`SELECT ${PUBLIC_COLUMNS} FROM api_keys WHERE id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  // Not revoked and not past its expiry
+  static async findActiveByHash(keyHash: string): Promise<ApiKey | null> {
+    const result = await pool.query(
+      `SELECT ${PUBLIC_COLUMNS} FROM api_keys
+       WHERE key_hash = $1 AND revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())`,
+      [keyHash]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async revoke(id: number): Promise<boolean> {
+    const result = await pool.query('UPDATE api_keys SET revoked_at = NOW() WHERE id = $1 AND revoked_at IS NULL', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  static async revokeAllForHostel(hostelId: number): Promise<number> {
+    const result = await pool.query('UPDATE api_keys SET revoked_at = NOW() WHERE hostel_id = $1 AND revoked_at IS NULL', [hostelId]);
+    return result.rowCount || 0;
+  }
+
+  static async recordUsage(id: number, method: string, path: string, statusCode: number | null, ip: string | null): Promise<void> {
+    await pool.query(
+      'INSERT INTO api_key_usage (api_key_id, method, path, status_code, ip_address) VALUES ($1, $2, $3, $4, $5)',
+      [id, method, path.slice(0, 255), statusCode, ip]
+    );
+    await pool.query(
+      'UPDATE api_keys SET last_used_at = NOW(), last_used_ip = $1, usage_count = usage_count + 1 WHERE id = $2',
+      [ip, id]
+    );
+  }
+
+  static async listUsage(id: number, limit: number, offset: number): Promise<{ rows: ApiKeyUsage[]; total: number }> {
+    const countResult = await pool.query('SELECT COUNT(*)::int AS total FROM api_key_usage WHERE api_key_id = $1', [id]);
+    const result = await pool.query(
+      'SELECT * FROM api_key_usage WHERE api_key_id = $1 ORDER BY created_at DESC, id DESC LIMIT $2 OFFSET $3',
+      [id, limit, offset]
+    );
+    return { rows: result.rows, total: countResult.rows[0].total };
+  }
+}
@@ -0,0 +1,87 @@
+import pool from '../config/database';
+
+export interface AuditLog {
+  id: number;
+  action: string;
+  requester_user_id: number | null;
+  target_user_id: number | null;
+  target_hostel_id: number | null;
+  status: 'success' | 'failure';
+  message: string | null;
+  ip_address: string | null;
+  user_agent: string | null;
+  entity_type: string | null;
+  entity_id: string | null;
+  before_data: any;
+  after_data: any;
+  created_at: Date;
+}
+
+export type CreateAuditLogData = Omit<AuditLog, 'id' | 'created_at'>;
+
+export interface AuditLogFilters {
+  action?: string;
+  status?: 'success' | 'failure';
+  requester_user_id?: number;
+  target_user_id?: number;
+  target_hostel_id?: number;
+  entity_type?: string;
+  entity_id?: string;
+  from?: Date;
+  to?: Date;
+}
+
+export class AuditLogModel {
+  static async create(data: CreateAuditLogData): Promise<AuditLog> {
+    const result = await pool.query(
+      `INSERT INTO audit_logs (action, requester_user_id, target_user_id, target_hostel_id, status, message,
+                               ip_address, user_agent, entity_type, entity_id, before_data, after_data)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING *`,
+      [
+        data.action, data.requester_user_id, data.target_user_id, data.target_hostel_id, data.status, data.message,
+        data.ip_address, data.user_agent, data.entity_type, data.entity_id,
+        data.before_data == null ? null : JSON.stringify(data.before_data),
+        data.after_data == null ? null : JSON.stringify(data.after_data)
+      ]
+    );
+    return result.rows[0];
+  }
+
+  static async search(filters: AuditLogFilters, limit: number, offset: number): Promise<{ rows: any[]; total: number }> {
+    const conditions: string[] = [];
+    const params: any[] = [];
+    const add = (sql: string, value: any) => {
+      params.push(value);
+      conditions.push(sql.replace('?', `$${params.length}`));
+    };
+
+    if (filters.action) add('al.action = ?', filters.action);
+    if (filters.status) add('al.status = ?', filters.status);
+    if (filters.requester_user_id) add('al.requester_user_id = ?', filters.requester_user_id);
+    if (filters.target_user_id) add('al.target_user_id = ?', filters.target_user_id);
+    if (filters.target_hostel_id) add('al.target_hostel_id = ?', filters.target_hostel_id);
+    if (filters.entity_type) add('al.entity_type = ?', filters.entity_type);
+    if (filters.entity_id) add('al.entity_id = ?', filters.entity_id);
+    if (filters.from) add('al.created_at >= ?', filters.from);
+    if (filters.to) add('al.created_at <= ?', filters.to);
+
+    const where = conditions.length ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const countResult = await pool.query(`SELECT COUNT(*)::int AS total FROM audit_logs al ${where}`, params);
+    const result = await pool.query(
+      `SELECT al.*, ru.name AS requester_name, ru.email AS requester_email,
+              tu.name AS target_user_name, h.name AS target_hostel_name
+       FROM audit_logs al
+       LEFT JOIN users ru ON ru.id = al.requester_user_id
+       LEFT JOIN users tu ON tu.id = al.target_user_id
+       LEFT JOIN hostels h ON h.id = al.target_hostel_id
+       ${where}
+       ORDER BY al.created_at DESC, al.id DESC
+       LIMIT $${params.length + 1} OFFSET $${params.length + 2}`,
+      [...params, limit, offset]
+    );
+
+    return { rows: result.rows, total: countResult.rows[0].total };
+  }
+}
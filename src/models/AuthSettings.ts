@@ -60,6 +60,18 @@ export interface SSOProvider {
   updated_at: Date;
 }
 
+export interface UserSSOAccount {
+  id: number;
+  user_id: number;
+  provider_id: number;
+  external_id: string;
+  email?: string;
+  name?: string;
+  avatar_url?: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
 export interface UserTwoFactor {
   id: number;
   user_id: number;
@@ -157,6 +169,8 @@ export class AuthSettingsModel {
     const query = `
       INSERT INTO user_two_factor (user_id, secret_key, backup_codes, is_enabled)
       VALUES ($1, $2, $3, false)
+      ON CONFLICT (user_id)
+      DO UPDATE SET secret_key = $2, backup_codes = $3, is_enabled = false, updated_at = NOW()
       RETURNING *
     `;
     const result = await pool.query(query, [userId, secretKey, backupCodes]);
@@ -168,6 +182,22 @@ export class AuthSettingsModel {
     await pool.query(query, [userId]);
   }
 
+  static async recordTwoFactorUse(userId: number): Promise<void> {
+    const query = 'UPDATE user_two_factor SET last_used = NOW(), updated_at = NOW() WHERE user_id = $1';
+    await pool.query(query, [userId]);
+  }
+
+  // Burns a backup code in the same statement that checks it, so concurrent requests cannot both use it
+  static async consumeBackupCode(userId: number, code: string): Promise<boolean> {
+    const query = `
+      UPDATE user_two_factor
+      SET backup_codes = array_remove(backup_codes, $2), last_used = NOW(), updated_at = NOW()
+      WHERE user_id = $1 AND $2 = ANY(backup_codes)
+    `;
+    const result = await pool.query(query, [userId, code]);
+    return (result.rowCount || 0) > 0;
+  }
+
   static async disableUserTwoFactor(userId: number): Promise<void> {
     const query = 'UPDATE user_two_factor SET is_enabled = false, updated_at = NOW() WHERE user_id = $1';
     await pool.query(query, [userId]);
@@ -180,6 +210,12 @@ export class AuthSettingsModel {
     return result.rows;
   }
 
+  static async getSSOProviderById(id: number): Promise<SSOProvider | null> {
+    const query = 'SELECT * FROM sso_providers WHERE id = $1';
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
   static async createSSOProvider(provider: Omit<SSOProvider, 'id' | 'created_at' | 'updated_at'>): Promise<SSOProvider> {
     const query = `
       INSERT INTO sso_providers (
@@ -228,6 +264,49 @@ export class AuthSettingsModel {
     return (result.rowCount || 0) > 0;
   }
 
+  // SSO login state and linked accounts
+  static async createSSOLoginState(state: string, providerId: number, codeVerifier: string, ttlMinutes: number): Promise<void> {
+    const query = `
+      INSERT INTO sso_login_states (state, provider_id, code_verifier, expires_at)
+      VALUES ($1, $2, $3, NOW() + ($4 || ' minutes')::interval)
+    `;
+    await pool.query(query, [state, providerId, codeVerifier, String(ttlMinutes)]);
+  }
+
+  // Marks the state used in the same statement so a replayed callback gets nothing back
+  static async consumeSSOLoginState(state: string): Promise<{ provider_id: number; code_verifier: string } | null> {
+    const query = `
+      UPDATE sso_login_states
+      SET used = TRUE
+      WHERE state = $1 AND used = FALSE AND expires_at > NOW()
+      RETURNING provider_id, code_verifier
+    `;
+    const result = await pool.query(query, [state]);
+    return result.rows[0] || null;
+  }
+
+  static async purgeExpiredSSOLoginStates(): Promise<void> {
+    await pool.query('DELETE FROM sso_login_states WHERE expires_at < NOW() OR used = TRUE');
+  }
+
+  static async findUserSSOAccount(providerId: number, externalId: string): Promise<UserSSOAccount | null> {
+    const query = 'SELECT * FROM user_sso_accounts WHERE provider_id = $1 AND external_id = $2';
+    const result = await pool.query(query, [providerId, externalId]);
+    return result.rows[0] || null;
+  }
+
+  static async linkUserSSOAccount(userId: number, providerId: number, externalId: string, email: string, name?: string, avatarUrl?: string): Promise<UserSSOAccount> {
+    const query = `
+      INSERT INTO user_sso_accounts (user_id, provider_id, external_id, email, name, avatar_url)
+      VALUES ($1, $2, $3, $4, $5, $6)
+      ON CONFLICT (provider_id, external_id)
+      DO UPDATE SET email = $4, name = $5, avatar_url = $6, updated_at = NOW()
+      RETURNING *
+    `;
+    const result = await pool.query(query, [userId, providerId, externalId, email, name || null, avatarUrl || null]);
+    return result.rows[0];
+  }
+
   // Password History
   static async addPasswordHistory(userId: number, passwordHash: string): Promise<void> {
     const query = 'INSERT INTO password_history (user_id, password_hash) VALUES ($1, $2)';
@@ -0,0 +1,208 @@
+import pool, { Queryable } from '../config/database';
+
+export const CASH_UP_STATUSES = ['pending', 'approved', 'rejected'] as const;
+export type CashUpStatus = typeof CASH_UP_STATUSES[number];
+
+export interface CashUp {
+  id: number;
+  hostel_id: number;
+  user_id: number;
+  business_date: string;
+  currency: string;
+  payment_count: number;
+  // Net cash recorded by the custodian (payments less cash refunds) when the cash-up was submitted
+  expected_amount: number;
+  declared_amount: number;
+  // declared minus expected: negative is a shortage, positive a surplus
+  variance: number;
+  variance_flagged: boolean;
+  notes: string | null;
+  status: CashUpStatus;
+  reviewed_by: number | null;
+  review_note: string | null;
+  reviewed_at: Date | null;
+  created_at: Date;
+}
+
+export interface CashUpWithNames extends CashUp {
+  user_name: string;
+  reviewed_by_name: string | null;
+}
+
+// A cash payments row waiting for (or covered by) a cash-up
+export interface CashPayment {
+  id: number;
+  user_id: number;
+  student_name: string;
+  amount: number;
+  currency: string;
+  purpose: string | null;
+  entry_type: string;
+  receipt_number: string | null;
+  created_at: Date;
+}
+
+export interface CashUpReportRow {
+  user_id: number;
+  user_name: string;
+  currency: string;
+  cash_up_count: number;
+  pending_count: number;
+  approved_count: number;
+  rejected_count: number;
+  flagged_count: number;
+  // Totals leave out rejected cash-ups, whose payments went back into the custodian's next cash-up
+  total_expected: number;
+  total_declared: number;
+  total_variance: number;
+  last_business_date: string | null;
+}
+
+const CASH_UP_SELECT = `
+  SELECT cu.id, cu.hostel_id, cu.user_id, to_char(cu.business_date, 'YYYY-MM-DD') AS business_date, cu.currency, cu.payment_count,
+         cu.expected_amount, cu.declared_amount, cu.variance, cu.variance_flagged, cu.notes, cu.status,
+         cu.reviewed_by, cu.review_note, cu.reviewed_at, cu.created_at,
+         u.name AS user_name, rb.name AS reviewed_by_name
+  FROM cash_ups cu
+  JOIN users u ON u.id = cu.user_id
+  LEFT JOIN users rb ON rb.id = cu.reviewed_by`;
+
+function toCashUp(row: any): CashUpWithNames {
+  return {
+    ...row,
+    expected_amount: parseFloat(row.expected_amount),
+    declared_amount: parseFloat(row.declared_amount),
+    variance: parseFloat(row.variance)
+  };
+}
+
+function toCashPayment(row: any): CashPayment {
+  return { ...row, amount: parseFloat(row.amount) };
+}
+
+export class CashUpModel {
+  static async create(
+    data: Pick<CashUp, 'hostel_id' | 'user_id' | 'currency' | 'payment_count' | 'expected_amount' | 'declared_amount' | 'variance' | 'variance_flagged' | 'notes'>,
+    db: Queryable = pool
+  ): Promise<CashUp> {
+    const result = await db.query(
+      `INSERT INTO cash_ups (hostel_id, user_id, business_date, currency, payment_count, expected_amount, declared_amount, variance, variance_flagged, notes)
+       VALUES ($1, $2, CURRENT_DATE, $3, $4, $5, $6, $7, $8, $9)
+       RETURNING id`,
+      [data.hostel_id, data.user_id, data.currency, data.payment_count, data.expected_amount, data.declared_amount, data.variance, data.variance_flagged, data.notes]
+    );
+    return (await this.findById(result.rows[0].id, db))!;
+  }
+
+  static async findById(id: number, db: Queryable = pool): Promise<CashUpWithNames | null> {
+    const result = await db.query(`${CASH_UP_SELECT} WHERE cu.id = $1`, [id]);
+    return result.rows[0] ? toCashUp(result.rows[0]) : null;
+  }
+
+  static async lockById(id: number, db: Queryable): Promise<CashUpWithNames | null> {
+    const result = await db.query(`${CASH_UP_SELECT} WHERE cu.id = $1 FOR UPDATE OF cu`, [id]);
+    return result.rows[0] ? toCashUp(result.rows[0]) : null;
+  }
+
+  static async list(
+    hostelId: number,
+    filters: { userId?: number | null; status?: CashUpStatus | null; flagged?: boolean | null; from?: string | null; to?: string | null },
+    limit: number,
+    offset: number
+  ): Promise<{ rows: CashUpWithNames[]; total: number }> {
+    const where = `cu.hostel_id = $1
+      AND ($2::int IS NULL OR cu.user_id = $2)
+      AND ($3::text IS NULL OR cu.status = $3)
+      AND ($4::boolean IS NULL OR cu.variance_flagged = $4)
+      AND ($5::date IS NULL OR cu.business_date >= $5)
+      AND ($6::date IS NULL OR cu.business_date <= $6)`;
+    const params = [hostelId, filters.userId ?? null, filters.status ?? null, filters.flagged ?? null, filters.from ?? null, filters.to ?? null];
+    const countResult = await pool.query(`SELECT COUNT(*)::int AS total FROM cash_ups cu WHERE ${where}`, params);
+    const result = await pool.query(
+      `${CASH_UP_SELECT}
+       WHERE ${where}
+       ORDER BY cu.business_date DESC, cu.id DESC
+       LIMIT ${limit} OFFSET ${offset}`,
+      params
+    );
+    return { rows: result.rows.map(toCashUp), total: countResult.rows[0].total };
+  }
+
+  static async markReviewed(id: number, status: 'approved' | 'rejected', reviewedBy: number, note: string | null, db: Queryable = pool): Promise<CashUpWithNames> {
+    await db.query(
+      'UPDATE cash_ups SET status = $2, reviewed_by = $3, review_note = $4, reviewed_at = NOW() WHERE id = $1',
+      [id, status, reviewedBy, note]
+    );
+    return (await this.findById(id, db))!;
+  }
+
+  /**
+   * Cash payments and cash refunds the staff member recorded in the hostel that no cash-up covers yet,
+   * locked when a transaction is given so two submissions cannot both claim them
+   */
+  static async getUncovered(hostelId: number, userId: number, currency: string | null, db: Queryable = pool, forUpdate = false): Promise<CashPayment[]> {
+    const result = await db.query(
+      `SELECT p.id, p.user_id, u.name AS student_name, p.amount, p.currency, p.purpose, p.entry_type, p.receipt_number, p.created_at
+       FROM payments p
+       JOIN users u ON u.id = p.user_id
+       WHERE p.hostel_id = $1 AND p.recorded_by = $2 AND p.payment_method = 'cash' AND p.cash_up_id IS NULL
+         AND ($3::text IS NULL OR p.currency = $3)
+       ORDER BY p.created_at ASC, p.id ASC
+       ${forUpdate ? 'FOR UPDATE OF p' : ''}`,
+      [hostelId, userId, currency]
+    );
+    return result.rows.map(toCashPayment);
+  }
+
+  static async getPayments(cashUpId: number): Promise<CashPayment[]> {
+    const result = await pool.query(
+      `SELECT p.id, p.user_id, u.name AS student_name, p.amount, p.currency, p.purpose, p.entry_type, p.receipt_number, p.created_at
+       FROM payments p
+       JOIN users u ON u.id = p.user_id
+       WHERE p.cash_up_id = $1
+       ORDER BY p.created_at ASC, p.id ASC`,
+      [cashUpId]
+    );
+    return result.rows.map(toCashPayment);
+  }
+
+  static async attachPayments(cashUpId: number, paymentIds: number[], db: Queryable = pool): Promise<void> {
+    if (!paymentIds.length) return;
+    await db.query('UPDATE payments SET cash_up_id = $1 WHERE id = ANY($2::int[])', [cashUpId, paymentIds]);
+  }
+
+  // The payments of a rejected cash-up go back into the custodian's next one
+  static async releasePayments(cashUpId: number, db: Queryable = pool): Promise<void> {
+    await db.query('UPDATE payments SET cash_up_id = NULL WHERE cash_up_id = $1', [cashUpId]);
+  }
+
+  static async report(hostelId: number, filters: { userId?: number | null; from?: string | null; to?: string | null }): Promise<CashUpReportRow[]> {
+    const result = await pool.query(
+      `SELECT cu.user_id, u.name AS user_name, cu.currency,
+              COUNT(*)::int AS cash_up_count,
+              COUNT(*) FILTER (WHERE cu.status = 'pending')::int AS pending_count,
+              COUNT(*) FILTER (WHERE cu.status = 'approved')::int AS approved_count,
+              COUNT(*) FILTER (WHERE cu.status = 'rejected')::int AS rejected_count,
+              COUNT(*) FILTER (WHERE cu.variance_flagged AND cu.status <> 'rejected')::int AS flagged_count,
+              COALESCE(SUM(cu.expected_amount) FILTER (WHERE cu.status <> 'rejected'), 0) AS total_expected,
+              COALESCE(SUM(cu.declared_amount) FILTER (WHERE cu.status <> 'rejected'), 0) AS total_declared,
+              COALESCE(SUM(cu.variance) FILTER (WHERE cu.status <> 'rejected'), 0) AS total_variance,
+              to_char(MAX(cu.business_date), 'YYYY-MM-DD') AS last_business_date
+       FROM cash_ups cu
+       JOIN users u ON u.id = cu.user_id
+       WHERE cu.hostel_id = $1
+         AND ($2::int IS NULL OR cu.user_id = $2)
+         AND ($3::date IS NULL OR cu.business_date >= $3)
+         AND ($4::date IS NULL OR cu.business_date <= $4)
+       GROUP BY cu.user_id, u.name, cu.currency
+       ORDER BY u.name ASC, cu.currency ASC`,
+      [hostelId, filters.userId ?? null, filters.from ?? null, filters.to ?? null]
+    );
+    return result.rows.map(row => ({
+      ...row,
+      total_expected: parseFloat(row.total_expected),
+      total_declared: parseFloat(row.total_declared),
+      total_variance: parseFloat(row.total_variance)
+    }));
+  }
+}
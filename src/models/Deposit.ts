@@ -0,0 +1,195 @@
+import pool, { Queryable } from '../config/database';
+
+export const DEDUCTION_TYPES = ['damages', 'missing_inventory', 'unpaid_balance'] as const;
+export type DeductionType = typeof DEDUCTION_TYPES[number];
+export const REFUND_METHODS = ['cash', 'bank_transfer', 'mobile_money'] as const;
+export type RefundMethod = typeof REFUND_METHODS[number];
+
+export interface DepositSettlement {
+  id: number;
+  hostel_id: number;
+  enrollment_id: number;
+  user_id: number;
+  semester_id: number;
+  invoice_id: number | null;
+  // Amounts are in the hostel's base currency
+  deposit_amount: number;
+  total_deductions: number;
+  refund_amount: number;
+  // Still owed after the deposit was used up
+  balance_due: number;
+  refund_payment_id: number | null;
+  refund_method: RefundMethod | null;
+  refund_reference: string | null;
+  release_line_item_id: number | null;
+  notes: string | null;
+  settled_by: number | null;
+  settled_at: Date;
+}
+
+export interface DepositDeduction {
+  id: number;
+  settlement_id: number;
+  deduction_type: DeductionType;
+  description: string;
+  inventory_item_id: number | null;
+  quantity: number | null;
+  amount: number;
+  invoice_line_item_id: number | null;
+  created_at: Date;
+}
+
+export interface DepositSettlementWithDeductions extends DepositSettlement {
+  deductions: DepositDeduction[];
+}
+
+// A student's deposit for one enrollment, for the hostel report
+export interface DepositHolding {
+  enrollment_id: number;
+  user_id: number;
+  student_name: string;
+  semester_id: number;
+  semester_name: string;
+  enrollment_status: string;
+  deposit_charged: number;
+  // Collected so far; payments go to the deposit first. Zero once settled.
+  deposit_held: number;
+  settlement_id: number | null;
+  total_deductions: number | null;
+  refund_amount: number | null;
+  settled_at: Date | null;
+}
+
+export interface DepositTotals {
+  enrollments: number;
+  total_charged: number;
+  total_held: number;
+  total_deducted: number;
+  total_refunded: number;
+}
+
+function toSettlement(row: any): DepositSettlement {
+  return {
+    ...row,
+    deposit_amount: parseFloat(row.deposit_amount),
+    total_deductions: parseFloat(row.total_deductions),
+    refund_amount: parseFloat(row.refund_amount),
+    balance_due: parseFloat(row.balance_due)
+  };
+}
+
+function toDeduction(row: any): DepositDeduction {
+  return { ...row, amount: parseFloat(row.amount) };
+}
+
+export class DepositSettlementModel {
+  static async findByEnrollment(enrollmentId: number, db: Queryable = pool): Promise<DepositSettlementWithDeductions | null> {
+    const result = await db.query('SELECT * FROM deposit_settlements WHERE enrollment_id = $1', [enrollmentId]);
+    if (!result.rows[0]) return null;
+    const settlement = toSettlement(result.rows[0]);
+    return { ...settlement, deductions: await this.getDeductions(settlement.id, db) };
+  }
+
+  static async existsForInvoice(invoiceId: number, db: Queryable = pool): Promise<boolean> {
+    const result = await db.query('SELECT 1 FROM deposit_settlements WHERE invoice_id = $1', [invoiceId]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  static async getDeductions(settlementId: number, db: Queryable = pool): Promise<DepositDeduction[]> {
+    const result = await db.query('SELECT * FROM deposit_deductions WHERE settlement_id = $1 ORDER BY id ASC', [settlementId]);
+    return result.rows.map(toDeduction);
+  }
+
+  static async create(
+    data: Omit<DepositSettlement, 'id' | 'settled_at'>,
+    db: Queryable = pool
+  ): Promise<DepositSettlement> {
+    const result = await db.query(
+      `INSERT INTO deposit_settlements (hostel_id, enrollment_id, user_id, semester_id, invoice_id, deposit_amount, total_deductions, refund_amount,
+                                        balance_due, refund_payment_id, refund_method, refund_reference, release_line_item_id, notes, settled_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       RETURNING *`,
+      [data.hostel_id, data.enrollment_id, data.user_id, data.semester_id, data.invoice_id, data.deposit_amount, data.total_deductions, data.refund_amount,
+        data.balance_due, data.refund_payment_id, data.refund_method, data.refund_reference, data.release_line_item_id, data.notes, data.settled_by]
+    );
+    return toSettlement(result.rows[0]);
+  }
+
+  static async addDeduction(
+    data: Omit<DepositDeduction, 'id' | 'created_at'>,
+    db: Queryable = pool
+  ): Promise<DepositDeduction> {
+    const result = await db.query(
+      `INSERT INTO deposit_deductions (settlement_id, deduction_type, description, inventory_item_id, quantity, amount, invoice_line_item_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [data.settlement_id, data.deduction_type, data.description, data.inventory_item_id, data.quantity, data.amount, data.invoice_line_item_id]
+    );
+    return toDeduction(result.rows[0]);
+  }
+
+  /**
+   * Deposits of a hostel per enrollment, settled or still held (filters: semester, status), with totals over all matching rows
+   */
+  static async listForHostel(
+    hostelId: number,
+    filters: { semesterId: number | null; status: 'held' | 'settled' | null; limit: number; offset: number }
+  ): Promise<{ rows: DepositHolding[]; total: number; totals: DepositTotals }> {
+    const params: any[] = [hostelId, filters.semesterId, filters.status];
+    const holdings = `
+      SELECT se.id AS enrollment_id, se.user_id, u.name AS student_name, se.semester_id, s.name AS semester_name, se.enrollment_status,
+             COALESCE(dep.charged, 0)::numeric AS deposit_charged,
+             CASE WHEN ds.id IS NULL THEN LEAST(COALESCE(dep.charged, 0), GREATEST(COALESCE(pay.paid, 0), 0)) ELSE 0 END::numeric AS deposit_held,
+             ds.id AS settlement_id, ds.total_deductions, ds.refund_amount, ds.settled_at
+      FROM semester_enrollments se
+      JOIN semesters s ON s.id = se.semester_id
+      JOIN users u ON u.id = se.user_id
+      LEFT JOIN invoices i ON i.user_id = se.user_id AND i.semester_id = se.semester_id
+      LEFT JOIN LATERAL (
+        SELECT SUM(li.amount) AS charged FROM invoice_line_items li
+        WHERE li.invoice_id = i.id AND li.fee_type = 'security_deposit' AND li.amount > 0
+      ) dep ON TRUE
+      LEFT JOIN LATERAL (
+        SELECT SUM(p.base_amount) AS paid FROM payments p WHERE p.user_id = se.user_id AND p.semester_id = se.semester_id
+      ) pay ON TRUE
+      LEFT JOIN deposit_settlements ds ON ds.enrollment_id = se.id
+      WHERE s.hostel_id = $1
+        AND ($2::int IS NULL OR se.semester_id = $2)
+        AND (dep.charged > 0 OR ds.id IS NOT NULL)
+        AND ($3::text IS NULL OR ($3 = 'held') = (ds.id IS NULL))`;
+
+    const totalsResult = await pool.query(
+      `SELECT COUNT(*)::int AS enrollments,
+              COALESCE(SUM(deposit_charged), 0) AS total_charged,
+              COALESCE(SUM(deposit_held), 0) AS total_held,
+              COALESCE(SUM(total_deductions), 0) AS total_deducted,
+              COALESCE(SUM(refund_amount), 0) AS total_refunded
+       FROM (${holdings}) h`,
+      params
+    );
+    const result = await pool.query(
+      `${holdings}
+       ORDER BY s.start_date DESC, u.name ASC
+       LIMIT ${filters.limit} OFFSET ${filters.offset}`,
+      params
+    );
+    const t = totalsResult.rows[0];
+    return {
+      rows: result.rows.map(r => ({
+        ...r,
+        deposit_charged: parseFloat(r.deposit_charged),
+        deposit_held: parseFloat(r.deposit_held),
+        total_deductions: r.total_deductions != null ? parseFloat(r.total_deductions) : null,
+        refund_amount: r.refund_amount != null ? parseFloat(r.refund_amount) : null
+      })),
+      total: t.enrollments,
+      totals: {
+        enrollments: t.enrollments,
+        total_charged: parseFloat(t.total_charged),
+        total_held: parseFloat(t.total_held),
+        total_deducted: parseFloat(t.total_deducted),
+        total_refunded: parseFloat(t.total_refunded)
+      }
+    };
+  }
+}
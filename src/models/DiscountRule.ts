@@ -0,0 +1,90 @@
+import pool, { Queryable } from '../config/database';
+
+export const DISCOUNT_KINDS = ['discount', 'sponsor_waiver'] as const;
+export type DiscountKind = typeof DISCOUNT_KINDS[number];
+export const DISCOUNT_TYPES = ['percentage', 'fixed'] as const;
+export type DiscountType = typeof DISCOUNT_TYPES[number];
+// Rooms are either self-contained or shared (rooms.self_contained)
+export const ROOM_TYPES = ['self_contained', 'shared'] as const;
+export type RoomType = typeof ROOM_TYPES[number];
+
+export interface DiscountRule {
+  id: number;
+  hostel_id: number;
+  name: string;
+  kind: DiscountKind;
+  sponsor_name: string | null;
+  discount_type: DiscountType;
+  // Percentage of the discountable charges, or a fixed amount in the hostel's base currency
+  amount: number;
+  semester_id: number | null;
+  room_type: RoomType | null;
+  user_id: number | null;
+  enrolled_before: string | null;
+  is_active: boolean;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type DiscountRuleFields = Pick<DiscountRule,
+  'name' | 'kind' | 'sponsor_name' | 'discount_type' | 'amount' | 'semester_id' | 'room_type' | 'user_id' | 'enrolled_before' | 'is_active'>;
+
+const COLUMNS = `id, hostel_id, name, kind, sponsor_name, discount_type, amount, semester_id, room_type, user_id,
+  to_char(enrolled_before, 'YYYY-MM-DD') AS enrolled_before, is_active, created_by, created_at, updated_at`;
+
+function toRule(row: any): DiscountRule {
+  return { ...row, amount: parseFloat(row.amount) };
+}
+
+export class DiscountRuleModel {
+  static async listForHostel(
+    hostelId: number,
+    filters: { semesterId?: number | null; userId?: number | null; kind?: DiscountKind | null; activeOnly?: boolean } = {},
+    db: Queryable = pool
+  ): Promise<DiscountRule[]> {
+    const result = await db.query(
+      `SELECT ${COLUMNS} FROM discount_rules
+       WHERE hostel_id = $1
+         AND ($2::int IS NULL OR semester_id IS NULL OR semester_id = $2)
+         AND ($3::int IS NULL OR user_id IS NULL OR user_id = $3)
+         AND ($4::text IS NULL OR kind = $4)
+         AND ($5::boolean IS FALSE OR is_active = TRUE)
+       ORDER BY id ASC`,
+      [hostelId, filters.semesterId ?? null, filters.userId ?? null, filters.kind ?? null, filters.activeOnly ?? false]
+    );
+    return result.rows.map(toRule);
+  }
+
+  static async findById(id: number, db: Queryable = pool): Promise<DiscountRule | null> {
+    const result = await db.query(`SELECT ${COLUMNS} FROM discount_rules WHERE id = $1`, [id]);
+    return result.rows[0] ? toRule(result.rows[0]) : null;
+  }
+
+  static async create(data: DiscountRuleFields & { hostel_id: number; created_by: number | null }, db: Queryable = pool): Promise<DiscountRule> {
+    const result = await db.query(
+      `INSERT INTO discount_rules (hostel_id, name, kind, sponsor_name, discount_type, amount, semester_id, room_type, user_id, enrolled_before, is_active, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+       RETURNING id`,
+      [data.hostel_id, data.name, data.kind, data.sponsor_name, data.discount_type, data.amount, data.semester_id, data.room_type,
+        data.user_id, data.enrolled_before, data.is_active, data.created_by]
+    );
+    return (await this.findById(result.rows[0].id, db))!;
+  }
+
+  static async update(id: number, data: DiscountRuleFields, db: Queryable = pool): Promise<DiscountRule> {
+    await db.query(
+      `UPDATE discount_rules
+       SET name = $2, kind = $3, sponsor_name = $4, discount_type = $5, amount = $6, semester_id = $7, room_type = $8,
+           user_id = $9, enrolled_before = $10, is_active = $11, updated_at = NOW()
+       WHERE id = $1`,
+      [id, data.name, data.kind, data.sponsor_name, data.discount_type, data.amount, data.semester_id, data.room_type,
+        data.user_id, data.enrolled_before, data.is_active]
+    );
+    return (await this.findById(id, db))!;
+  }
+
+  static async delete(id: number, db: Queryable = pool): Promise<void> {
+    await db.query('DELETE FROM discount_rules WHERE id = $1', [id]);
+  }
+}
@@ -0,0 +1,74 @@
+import pool, { Queryable } from '../config/database';
+
+export interface ExchangeRate {
+  id: number;
+  from_currency: string;
+  to_currency: string;
+  // Units of to_currency per one unit of from_currency
+  rate: number;
+  effective_date: string;
+  created_by: number | null;
+  created_at: Date;
+}
+
+function toRate(row: any): ExchangeRate {
+  return { ...row, rate: parseFloat(row.rate) };
+}
+
+export class ExchangeRateModel {
+  static async list(filters: { from: string | null; to: string | null; limit: number; offset: number }): Promise<any[]> {
+    const result = await pool.query(
+      `SELECT er.*, u.name AS created_by_name
+       FROM exchange_rates er
+       LEFT JOIN users u ON u.id = er.created_by
+       WHERE ($1::text IS NULL OR er.from_currency = $1)
+         AND ($2::text IS NULL OR er.to_currency = $2)
+       ORDER BY er.from_currency, er.to_currency, er.effective_date DESC
+       LIMIT ${filters.limit} OFFSET ${filters.offset}`,
+      [filters.from, filters.to]
+    );
+    return result.rows.map(toRate);
+  }
+
+  static async findById(id: number): Promise<ExchangeRate | null> {
+    const result = await pool.query('SELECT * FROM exchange_rates WHERE id = $1', [id]);
+    return result.rows[0] ? toRate(result.rows[0]) : null;
+  }
+
+  /**
+   * Add a rate, or replace the rate already set for that pair and date
+   */
+  static async upsert(data: { from_currency: string; to_currency: string; rate: number; effective_date: string; created_by: number | null }, db: Queryable = pool): Promise<ExchangeRate> {
+    const result = await db.query(
+      `INSERT INTO exchange_rates (from_currency, to_currency, rate, effective_date, created_by)
+       VALUES ($1, $2, $3, $4, $5)
+       ON CONFLICT (from_currency, to_currency, effective_date)
+       DO UPDATE SET rate = EXCLUDED.rate, created_by = EXCLUDED.created_by, created_at = NOW()
+       RETURNING *`,
+      [data.from_currency, data.to_currency, data.rate, data.effective_date, data.created_by]
+    );
+    return toRate(result.rows[0]);
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM exchange_rates WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Latest rate for the pair effective on or before the date. A rate entered for the reverse pair is
+   * used inverted when the direct pair has none.
+   */
+  static async findEffective(from: string, to: string, onDate: Date, db: Queryable = pool): Promise<number | null> {
+    const result = await db.query(
+      `SELECT CASE WHEN from_currency = $1 THEN rate ELSE 1 / rate END AS rate
+       FROM exchange_rates
+       WHERE ((from_currency = $1 AND to_currency = $2) OR (from_currency = $2 AND to_currency = $1))
+         AND effective_date <= $3::date
+       ORDER BY effective_date DESC, (from_currency = $1) DESC
+       LIMIT 1`,
+      [from, to, onDate]
+    );
+    return result.rows[0] ? parseFloat(result.rows[0].rate) : null;
+  }
+}
@@ -0,0 +1,54 @@
+import pool, { Queryable } from '../config/database';
+
+export interface ExpenseAttachment {
+  id: number;
+  expense_id: number;
+  hostel_id: number;
+  // File name on disk; never sent to clients
+  stored_name: string;
+  original_name: string;
+  mime_type: string;
+  size_bytes: number;
+  uploaded_by: number | null;
+  created_at: Date;
+}
+
+export type ExpenseAttachmentSummary = Omit<ExpenseAttachment, 'stored_name' | 'hostel_id'> & { url: string };
+
+export function toAttachmentSummary(attachment: ExpenseAttachment): ExpenseAttachmentSummary {
+  const { stored_name, hostel_id, ...rest } = attachment;
+  return { ...rest, url: `/api/expenses/${attachment.expense_id}/attachments/${attachment.id}` };
+}
+
+export class ExpenseAttachmentModel {
+  static async create(
+    data: Pick<ExpenseAttachment, 'expense_id' | 'hostel_id' | 'stored_name' | 'original_name' | 'mime_type' | 'size_bytes' | 'uploaded_by'>,
+    db: Queryable = pool
+  ): Promise<ExpenseAttachment> {
+    const result = await db.query(
+      `INSERT INTO expense_attachments (expense_id, hostel_id, stored_name, original_name, mime_type, size_bytes, uploaded_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING *`,
+      [data.expense_id, data.hostel_id, data.stored_name, data.original_name, data.mime_type, data.size_bytes, data.uploaded_by]
+    );
+    return result.rows[0];
+  }
+
+  static async findById(id: number): Promise<ExpenseAttachment | null> {
+    const result = await pool.query('SELECT * FROM expense_attachments WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  static async listForExpenses(expenseIds: number[], db: Queryable = pool): Promise<ExpenseAttachment[]> {
+    if (!expenseIds.length) return [];
+    const result = await db.query(
+      'SELECT * FROM expense_attachments WHERE expense_id = ANY($1::int[]) ORDER BY created_at ASC, id ASC',
+      [expenseIds]
+    );
+    return result.rows;
+  }
+
+  static async delete(id: number): Promise<void> {
+    await pool.query('DELETE FROM expense_attachments WHERE id = $1', [id]);
+  }
+}
@@ -18,6 +18,7 @@ export interface Hostel {
   rules_and_regulations?: string;
   occupancy_type?: 'male' | 'female' | 'mixed';
   current_subscription_id?: number | null;
+  base_currency: string;
   created_at: Date;
   updated_at: Date;
 }
@@ -0,0 +1,58 @@
+import pool from '../config/database';
+
+export interface IdempotencyKey {
+  id: number;
+  idempotency_key: string;
+  caller: string;
+  method: string;
+  path: string;
+  request_hash: string;
+  status: 'in_progress' | 'completed';
+  response_status: number | null;
+  response_body: any;
+  created_at: Date;
+  completed_at: Date | null;
+  expires_at: Date;
+}
+
+export class IdempotencyKeyModel {
+  /**
+   * Claim a key for a new request. Returns null when the caller already holds the key (and it has not expired);
+   * an expired row is replaced.
+   */
+  static async reserve(data: { key: string; caller: string; method: string; path: string; requestHash: string; ttlHours: number }): Promise<IdempotencyKey | null> {
+    const result = await pool.query(
+      `INSERT INTO idempotency_keys (idempotency_key, caller, method, path, request_hash, expires_at)
+       VALUES ($1, $2, $3, $4, $5, NOW() + make_interval(hours => $6))
+       ON CONFLICT (caller, idempotency_key) DO UPDATE
+       SET method = EXCLUDED.method, path = EXCLUDED.path, request_hash = EXCLUDED.request_hash, status = 'in_progress',
+           response_status = NULL, response_body = NULL, created_at = NOW(), completed_at = NULL, expires_at = EXCLUDED.expires_at
+       WHERE idempotency_keys.expires_at <= NOW()
+       RETURNING *`,
+      [data.key, data.caller, data.method, data.path, data.requestHash, data.ttlHours]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async find(key: string, caller: string): Promise<IdempotencyKey | null> {
+    const result = await pool.query('SELECT * FROM idempotency_keys WHERE idempotency_key = $1 AND caller = $2', [key, caller]);
+    return result.rows[0] || null;
+  }
+
+  static async complete(id: number, responseStatus: number, responseBody: any): Promise<void> {
+    await pool.query(
+      `UPDATE idempotency_keys SET status = 'completed', response_status = $2, response_body = $3, completed_at = NOW() WHERE id = $1`,
+      [id, responseStatus, JSON.stringify(responseBody ?? null)]
+    );
+  }
+
+  // Frees the key after a failed request so the client can retry with it
+  static async release(id: number): Promise<void> {
+    await pool.query("DELETE FROM idempotency_keys WHERE id = $1 AND status = 'in_progress'", [id]);
+  }
+
+  static async deleteExpired(): Promise<number> {
+    const result = await pool.query('DELETE FROM idempotency_keys WHERE expires_at <= NOW()');
+    return result.rowCount || 0;
+  }
+}
@@ -0,0 +1,219 @@
+import pool, { Queryable } from '../config/database';
+
+export interface InstallmentPlanItem {
+  id: number;
+  plan_id: number;
+  sequence: number;
+  percentage: number;
+  // Exactly one of the two is set
+  due_date: string | null;
+  due_days_after_enrollment: number | null;
+}
+
+export interface InstallmentPlan {
+  id: number;
+  hostel_id: number;
+  semester_id: number;
+  name: string;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface InstallmentPlanWithItems extends InstallmentPlan {
+  items: InstallmentPlanItem[];
+  assigned_students: number;
+}
+
+export interface StudentInstallmentPlan {
+  id: number;
+  plan_id: number;
+  user_id: number;
+  semester_id: number;
+  assigned_by: number | null;
+  assigned_at: Date;
+  overdue_since: string | null;
+  last_reminder_at: Date | null;
+}
+
+// A student's assignment with what they owe so far; amounts are in the hostel's base currency
+export interface InstallmentDueStatus {
+  assignment_id: number;
+  user_id: number;
+  semester_id: number;
+  hostel_id: number;
+  plan_id: number;
+  plan_name: string;
+  expected: number;
+  paid: number;
+  // Share of the invoice whose due date has passed (0-100)
+  percentage_due: number;
+  overdue_since: string | null;
+  last_reminder_at: Date | null;
+}
+
+function toItem(row: any): InstallmentPlanItem {
+  return { ...row, percentage: parseFloat(row.percentage) };
+}
+
+export class InstallmentPlanModel {
+  static async create(
+    data: { hostel_id: number; semester_id: number; name: string; created_by: number | null },
+    items: Array<{ percentage: number; due_date: string | null; due_days_after_enrollment: number | null }>,
+    db: Queryable = pool
+  ): Promise<InstallmentPlanWithItems> {
+    const result = await db.query(
+      `INSERT INTO installment_plans (hostel_id, semester_id, name, created_by)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [data.hostel_id, data.semester_id, data.name, data.created_by]
+    );
+    const plan: InstallmentPlan = result.rows[0];
+    const savedItems: InstallmentPlanItem[] = [];
+    for (const [index, item] of items.entries()) {
+      const itemResult = await db.query(
+        `INSERT INTO installment_plan_items (plan_id, sequence, percentage, due_date, due_days_after_enrollment)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING *`,
+        [plan.id, index + 1, item.percentage, item.due_date, item.due_days_after_enrollment]
+      );
+      savedItems.push(toItem(itemResult.rows[0]));
+    }
+    return { ...plan, items: savedItems, assigned_students: 0 };
+  }
+
+  static async findById(id: number, db: Queryable = pool): Promise<InstallmentPlan | null> {
+    const result = await db.query('SELECT * FROM installment_plans WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  static async getItems(planId: number, db: Queryable = pool): Promise<InstallmentPlanItem[]> {
+    const result = await db.query(
+      `SELECT id, plan_id, sequence, percentage, to_char(due_date, 'YYYY-MM-DD') AS due_date, due_days_after_enrollment
+       FROM installment_plan_items WHERE plan_id = $1 ORDER BY sequence ASC`,
+      [planId]
+    );
+    return result.rows.map(toItem);
+  }
+
+  static async listForHostel(hostelId: number, semesterId: number | null): Promise<InstallmentPlanWithItems[]> {
+    const result = await pool.query(
+      `SELECT ip.*, (SELECT COUNT(*)::int FROM student_installment_plans sip WHERE sip.plan_id = ip.id) AS assigned_students
+       FROM installment_plans ip
+       WHERE ip.hostel_id = $1 AND ($2::int IS NULL OR ip.semester_id = $2)
+       ORDER BY ip.semester_id DESC, ip.name ASC`,
+      [hostelId, semesterId]
+    );
+    const plans: InstallmentPlanWithItems[] = [];
+    for (const row of result.rows) {
+      plans.push({ ...row, items: await this.getItems(row.id) });
+    }
+    return plans;
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM installment_plans WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  /**
+   * Put a student on a plan, replacing any plan they had for the semester (which also clears the overdue flag)
+   */
+  static async assign(planId: number, userId: number, semesterId: number, assignedBy: number | null, db: Queryable = pool): Promise<StudentInstallmentPlan> {
+    const result = await db.query(
+      `INSERT INTO student_installment_plans (plan_id, user_id, semester_id, assigned_by)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (user_id, semester_id)
+       DO UPDATE SET plan_id = EXCLUDED.plan_id, assigned_by = EXCLUDED.assigned_by, assigned_at = NOW(),
+                     overdue_since = NULL, last_reminder_at = NULL
+       RETURNING *`,
+      [planId, userId, semesterId, assignedBy]
+    );
+    return result.rows[0];
+  }
+
+  static async unassign(planId: number, userId: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM student_installment_plans WHERE plan_id = $1 AND user_id = $2', [planId, userId]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  static async findAssignment(userId: number, semesterId: number): Promise<StudentInstallmentPlan | null> {
+    const result = await pool.query(
+      `SELECT id, plan_id, user_id, semester_id, assigned_by, assigned_at,
+              to_char(overdue_since, 'YYYY-MM-DD') AS overdue_since, last_reminder_at
+       FROM student_installment_plans WHERE user_id = $1 AND semester_id = $2`,
+      [userId, semesterId]
+    );
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Date the student enrolled in the semester (relative due dates count from it), falling back to the assignment date
+   */
+  static async getEnrollmentDate(userId: number, semesterId: number): Promise<string> {
+    const result = await pool.query(
+      `SELECT to_char(COALESCE(se.enrollment_date, sip.assigned_at::date, CURRENT_DATE), 'YYYY-MM-DD') AS enrollment_date
+       FROM (SELECT 1) one
+       LEFT JOIN semester_enrollments se ON se.user_id = $1 AND se.semester_id = $2
+       LEFT JOIN student_installment_plans sip ON sip.user_id = $1 AND sip.semester_id = $2`,
+      [userId, semesterId]
+    );
+    return result.rows[0].enrollment_date;
+  }
+
+  /**
+   * Every assignment with its invoice total, what has been paid and the share already due as of today.
+   * Late fees are left out of the total so a penalty never makes the installments themselves overdue.
+   * Dropped enrollments are skipped; activeSemestersOnly limits it to running semesters (the daily check).
+   */
+  static async listDueStatus(filters: { hostelId?: number | null; semesterId?: number | null; userId?: number | null; activeSemestersOnly?: boolean }): Promise<InstallmentDueStatus[]> {
+    const result = await pool.query(
+      `SELECT sip.id AS assignment_id, sip.user_id, sip.semester_id, ip.hostel_id, ip.id AS plan_id, ip.name AS plan_name,
+              to_char(sip.overdue_since, 'YYYY-MM-DD') AS overdue_since, sip.last_reminder_at,
+              COALESCE(inv.total_amount - COALESCE((
+                SELECT SUM(li.amount) FROM invoice_line_items li WHERE li.invoice_id = inv.id AND li.fee_type = 'late_fee'
+              ), 0), (
+                SELECT rm.price FROM student_room_assignments sra JOIN rooms rm ON rm.id = sra.room_id
+                WHERE sra.user_id = sip.user_id AND sra.semester_id = sip.semester_id AND sra.status = 'active'
+                LIMIT 1
+              ), 0) AS expected,
+              COALESCE((SELECT SUM(p.base_amount) FROM payments p WHERE p.user_id = sip.user_id AND p.semester_id = sip.semester_id), 0) AS paid,
+              COALESCE((
+                SELECT SUM(ipi.percentage) FROM installment_plan_items ipi
+                WHERE ipi.plan_id = sip.plan_id
+                  AND COALESCE(ipi.due_date, COALESCE(se.enrollment_date, sip.assigned_at::date) + ipi.due_days_after_enrollment) < CURRENT_DATE
+              ), 0) AS percentage_due
+       FROM student_installment_plans sip
+       JOIN installment_plans ip ON ip.id = sip.plan_id
+       JOIN semesters s ON s.id = sip.semester_id
+       LEFT JOIN semester_enrollments se ON se.user_id = sip.user_id AND se.semester_id = sip.semester_id
+       LEFT JOIN invoices inv ON inv.user_id = sip.user_id AND inv.semester_id = sip.semester_id
+       WHERE ($1::int IS NULL OR ip.hostel_id = $1)
+         AND ($2::int IS NULL OR sip.semester_id = $2)
+         AND ($3::boolean IS FALSE OR s.status = 'active')
+         AND ($4::int IS NULL OR sip.user_id = $4)
+         AND COALESCE(se.enrollment_status, 'active') = 'active'`,
+      [filters.hostelId ?? null, filters.semesterId ?? null, filters.activeSemestersOnly ?? false, filters.userId ?? null]
+    );
+    return result.rows.map(r => ({
+      ...r,
+      expected: parseFloat(r.expected),
+      paid: parseFloat(r.paid),
+      percentage_due: parseFloat(r.percentage_due)
+    }));
+  }
+
+  static async markOverdue(assignmentId: number, reminded: boolean): Promise<void> {
+    await pool.query(
+      `UPDATE student_installment_plans
+       SET overdue_since = COALESCE(overdue_since, CURRENT_DATE),
+           last_reminder_at = CASE WHEN $2 THEN NOW() ELSE last_reminder_at END
+       WHERE id = $1`,
+      [assignmentId, reminded]
+    );
+  }
+
+  static async clearOverdue(assignmentId: number): Promise<void> {
+    await pool.query('UPDATE student_installment_plans SET overdue_since = NULL WHERE id = $1', [assignmentId]);
+  }
+}
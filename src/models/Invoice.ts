@@ -0,0 +1,254 @@
+import pool, { Queryable } from '../config/database';
+
+export const FEE_TYPES = ['room', 'registration', 'utilities', 'security_deposit', 'damages', 'other', 'late_fee', 'discount'] as const;
+export type FeeType = typeof FEE_TYPES[number];
+
+// Charges a percentage discount is taken from; deposits, damages and late fees are never discounted
+export const DISCOUNTABLE_FEE_TYPES: FeeType[] = ['room', 'registration', 'utilities', 'other'];
+
+export interface Invoice {
+  id: number;
+  hostel_id: number;
+  user_id: number;
+  semester_id: number;
+  enrollment_id: number | null;
+  invoice_number: string;
+  currency: string;
+  total_amount: number;
+  issued_at: Date;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface InvoiceLineItem {
+  id: number;
+  invoice_id: number;
+  fee_type: FeeType;
+  description: string;
+  quantity: number;
+  unit_amount: number;
+  amount: number;
+  fee_template_id: number | null;
+  // Set on discount lines
+  discount_rule_id: number | null;
+  created_by: number | null;
+  created_at: Date;
+}
+
+export interface InvoiceWithLines extends Invoice {
+  line_items: InvoiceLineItem[];
+}
+
+export interface InvoiceSummary extends Invoice {
+  student_name: string;
+  student_email: string;
+  semester_name: string | null;
+  paid: number;
+  balance: number;
+}
+
+export interface FeeTemplate {
+  id: number;
+  hostel_id: number;
+  name: string;
+  fee_type: Exclude<FeeType, 'room' | 'late_fee' | 'discount'>;
+  amount: number;
+  auto_apply: boolean;
+  is_active: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+// pg returns DECIMAL columns as strings
+function toInvoice<T extends Invoice>(row: any): T {
+  return { ...row, total_amount: parseFloat(row.total_amount) };
+}
+
+function toLineItem(row: any): InvoiceLineItem {
+  return { ...row, unit_amount: parseFloat(row.unit_amount), amount: parseFloat(row.amount) };
+}
+
+function toFeeTemplate(row: any): FeeTemplate {
+  return { ...row, amount: parseFloat(row.amount) };
+}
+
+export class InvoiceModel {
+  static async create(
+    data: { hostel_id: number; user_id: number; semester_id: number; enrollment_id: number | null; currency: string },
+    db: Queryable = pool
+  ): Promise<Invoice> {
+    const result = await db.query(
+      `INSERT INTO invoices (hostel_id, user_id, semester_id, enrollment_id, currency)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [data.hostel_id, data.user_id, data.semester_id, data.enrollment_id, data.currency]
+    );
+    const invoice = result.rows[0];
+    const numbered = await db.query(
+      `UPDATE invoices SET invoice_number = 'INV-' || hostel_id || '-' || LPAD(id::text, 6, '0') WHERE id = $1 RETURNING *`,
+      [invoice.id]
+    );
+    return toInvoice(numbered.rows[0]);
+  }
+
+  static async findById(id: number, db: Queryable = pool): Promise<Invoice | null> {
+    const result = await db.query('SELECT * FROM invoices WHERE id = $1', [id]);
+    return result.rows[0] ? toInvoice(result.rows[0]) : null;
+  }
+
+  static async findByUserAndSemester(userId: number, semesterId: number, db: Queryable = pool): Promise<Invoice | null> {
+    const result = await db.query('SELECT * FROM invoices WHERE user_id = $1 AND semester_id = $2', [userId, semesterId]);
+    return result.rows[0] ? toInvoice(result.rows[0]) : null;
+  }
+
+  static async getLineItems(invoiceId: number, db: Queryable = pool): Promise<InvoiceLineItem[]> {
+    const result = await db.query('SELECT * FROM invoice_line_items WHERE invoice_id = $1 ORDER BY id ASC', [invoiceId]);
+    return result.rows.map(toLineItem);
+  }
+
+  static async findLineItem(invoiceId: number, itemId: number, db: Queryable = pool): Promise<InvoiceLineItem | null> {
+    const result = await db.query('SELECT * FROM invoice_line_items WHERE id = $1 AND invoice_id = $2', [itemId, invoiceId]);
+    return result.rows[0] ? toLineItem(result.rows[0]) : null;
+  }
+
+  static async addLineItem(
+    invoiceId: number,
+    item: { fee_type: FeeType; description: string; quantity: number; unit_amount: number; fee_template_id?: number | null; discount_rule_id?: number | null; created_by?: number | null },
+    db: Queryable = pool
+  ): Promise<InvoiceLineItem> {
+    const result = await db.query(
+      `INSERT INTO invoice_line_items (invoice_id, fee_type, description, quantity, unit_amount, amount, fee_template_id, discount_rule_id, created_by)
+       VALUES ($1, $2, $3, $4, $5, $4 * $5, $6, $7, $8)
+       RETURNING *`,
+      [invoiceId, item.fee_type, item.description, item.quantity, item.unit_amount, item.fee_template_id ?? null, item.discount_rule_id ?? null, item.created_by ?? null]
+    );
+    return toLineItem(result.rows[0]);
+  }
+
+  static async removeLineItem(itemId: number, db: Queryable = pool): Promise<void> {
+    await db.query('DELETE FROM invoice_line_items WHERE id = $1', [itemId]);
+  }
+
+  /**
+   * Recompute total_amount from the line items
+   */
+  static async refreshTotal(invoiceId: number, db: Queryable = pool): Promise<Invoice> {
+    const result = await db.query(
+      `UPDATE invoices
+       SET total_amount = (SELECT COALESCE(SUM(amount), 0) FROM invoice_line_items WHERE invoice_id = $1),
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [invoiceId]
+    );
+    return toInvoice(result.rows[0]);
+  }
+
+  /**
+   * Invoices of a hostel with what has been paid against each (payments are matched by student and semester)
+   */
+  static async listForHostel(
+    hostelId: number,
+    filters: { semesterId?: number | null; userId?: number | null; limit: number; offset: number }
+  ): Promise<{ rows: InvoiceSummary[]; total: number }> {
+    const params: any[] = [hostelId];
+    const where: string[] = ['i.hostel_id = $1'];
+    if (filters.semesterId) {
+      params.push(filters.semesterId);
+      where.push(`i.semester_id = $${params.length}`);
+    }
+    if (filters.userId) {
+      params.push(filters.userId);
+      where.push(`i.user_id = $${params.length}`);
+    }
+
+    const countResult = await pool.query(`SELECT COUNT(*)::int AS total FROM invoices i WHERE ${where.join(' AND ')}`, params);
+    const result = await pool.query(
+      `SELECT i.*, u.name AS student_name, u.email AS student_email, s.name AS semester_name,
+              COALESCE(p.paid, 0)::numeric AS paid,
+              (i.total_amount - COALESCE(p.paid, 0))::numeric AS balance
+       FROM invoices i
+       JOIN users u ON u.id = i.user_id
+       LEFT JOIN semesters s ON s.id = i.semester_id
+       LEFT JOIN (
+         SELECT user_id, semester_id, SUM(base_amount) AS paid FROM payments GROUP BY user_id, semester_id
+       ) p ON p.user_id = i.user_id AND p.semester_id = i.semester_id
+       WHERE ${where.join(' AND ')}
+       ORDER BY i.issued_at DESC, i.id DESC
+       LIMIT ${filters.limit} OFFSET ${filters.offset}`,
+      params
+    );
+    const rows = result.rows.map(r => ({
+      ...toInvoice<InvoiceSummary>(r),
+      paid: parseFloat(r.paid),
+      balance: parseFloat(r.balance)
+    }));
+    return { rows, total: countResult.rows[0].total };
+  }
+
+  static async getPaidAmount(userId: number, semesterId: number, db: Queryable = pool): Promise<number> {
+    const result = await db.query(
+      'SELECT COALESCE(SUM(base_amount), 0) AS paid FROM payments WHERE user_id = $1 AND semester_id = $2',
+      [userId, semesterId]
+    );
+    return parseFloat(result.rows[0]?.paid || '0');
+  }
+}
+
+export class FeeTemplateModel {
+  static async listForHostel(hostelId: number, activeOnly = false): Promise<FeeTemplate[]> {
+    const result = await pool.query(
+      `SELECT * FROM fee_templates WHERE hostel_id = $1 ${activeOnly ? 'AND is_active = TRUE' : ''} ORDER BY name ASC`,
+      [hostelId]
+    );
+    return result.rows.map(toFeeTemplate);
+  }
+
+  // Active templates added to every new invoice of the hostel
+  static async listAutoApply(hostelId: number, db: Queryable = pool): Promise<FeeTemplate[]> {
+    const result = await db.query(
+      'SELECT * FROM fee_templates WHERE hostel_id = $1 AND is_active = TRUE AND auto_apply = TRUE ORDER BY id ASC',
+      [hostelId]
+    );
+    return result.rows.map(toFeeTemplate);
+  }
+
+  static async findById(id: number): Promise<FeeTemplate | null> {
+    const result = await pool.query('SELECT * FROM fee_templates WHERE id = $1', [id]);
+    return result.rows[0] ? toFeeTemplate(result.rows[0]) : null;
+  }
+
+  static async create(data: { hostel_id: number; name: string; fee_type: FeeTemplate['fee_type']; amount: number; auto_apply: boolean }): Promise<FeeTemplate> {
+    const result = await pool.query(
+      `INSERT INTO fee_templates (hostel_id, name, fee_type, amount, auto_apply)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [data.hostel_id, data.name, data.fee_type, data.amount, data.auto_apply]
+    );
+    return toFeeTemplate(result.rows[0]);
+  }
+
+  static async update(
+    id: number,
+    data: { name?: string; fee_type?: FeeTemplate['fee_type']; amount?: number; auto_apply?: boolean; is_active?: boolean }
+  ): Promise<FeeTemplate | null> {
+    const result = await pool.query(
+      `UPDATE fee_templates
+       SET name = COALESCE($1, name),
+           fee_type = COALESCE($2, fee_type),
+           amount = COALESCE($3, amount),
+           auto_apply = COALESCE($4, auto_apply),
+           is_active = COALESCE($5, is_active),
+           updated_at = NOW()
+       WHERE id = $6
+       RETURNING *`,
+      [data.name ?? null, data.fee_type ?? null, data.amount ?? null, data.auto_apply ?? null, data.is_active ?? null, id]
+    );
+    return result.rows[0] ? toFeeTemplate(result.rows[0]) : null;
+  }
+
+  static async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM fee_templates WHERE id = $1', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+}
@@ -0,0 +1,149 @@
+import pool from '../config/database';
+
+export type LedgerAccountType = 'asset' | 'liability' | 'equity' | 'revenue' | 'expense';
+
+export interface LedgerAccount {
+  id: number;
+  hostel_id: number;
+  code: string;
+  name: string;
+  account_type: LedgerAccountType;
+  created_at: Date;
+}
+
+export interface TrialBalanceRow {
+  account_id: number;
+  code: string;
+  name: string;
+  account_type: LedgerAccountType;
+  debit: number;
+  credit: number;
+  // Signed by the account's normal side: debit - credit for assets and expenses, credit - debit otherwise
+  balance: number;
+}
+
+export interface LedgerLine {
+  posting_id: number;
+  journal_entry_id: number;
+  entry_date: Date;
+  description: string;
+  source_type: string;
+  source_id: number;
+  debit: number;
+  credit: number;
+  balance: number;
+}
+
+const DEBIT_NORMAL: LedgerAccountType[] = ['asset', 'expense'];
+
+function signedBalance(type: LedgerAccountType, debit: number, credit: number): number {
+  return DEBIT_NORMAL.includes(type) ? debit - credit : credit - debit;
+}
+
+export class LedgerModel {
+  static async findAccount(hostelId: number, code: string): Promise<LedgerAccount | null> {
+    const result = await pool.query('SELECT * FROM ledger_accounts WHERE hostel_id = $1 AND code = $2', [hostelId, code]);
+    return result.rows[0] || null;
+  }
+
+  /**
+   * Debit and credit totals per account up to asOf (inclusive); every account of the hostel is listed
+   */
+  static async trialBalance(hostelId: number, asOf: Date | null): Promise<TrialBalanceRow[]> {
+    const result = await pool.query(
+      `SELECT a.id AS account_id, a.code, a.name, a.account_type,
+              COALESCE(t.debit, 0) AS debit, COALESCE(t.credit, 0) AS credit
+       FROM ledger_accounts a
+       LEFT JOIN (
+         SELECT p.account_id, SUM(p.debit) AS debit, SUM(p.credit) AS credit
+         FROM journal_postings p
+         JOIN journal_entries je ON je.id = p.journal_entry_id
+         WHERE je.hostel_id = $1 AND ($2::timestamp IS NULL OR je.entry_date <= $2)
+         GROUP BY p.account_id
+       ) t ON t.account_id = a.id
+       WHERE a.hostel_id = $1
+       ORDER BY a.code ASC`,
+      [hostelId, asOf]
+    );
+    return result.rows.map(r => {
+      const debit = parseFloat(r.debit);
+      const credit = parseFloat(r.credit);
+      return { ...r, debit, credit, balance: signedBalance(r.account_type, debit, credit) };
+    });
+  }
+
+  /**
+   * Postings of one account between from and to with a running balance carried in from before `from`
+   */
+  static async accountLedger(
+    account: LedgerAccount,
+    filters: { from: Date | null; to: Date | null; userId?: number | null }
+  ): Promise<{ opening_balance: number; lines: LedgerLine[]; closing_balance: number }> {
+    const userFilter = filters.userId ? 'AND p.user_id = $4' : '';
+    const params: any[] = [account.id, filters.from, filters.to];
+    if (filters.userId) params.push(filters.userId);
+
+    let opening = 0;
+    if (filters.from) {
+      const openingParams: any[] = [account.id, filters.from];
+      if (filters.userId) openingParams.push(filters.userId);
+      const openingRes = await pool.query(
+        `SELECT COALESCE(SUM(p.debit), 0) AS debit, COALESCE(SUM(p.credit), 0) AS credit
+         FROM journal_postings p
+         JOIN journal_entries je ON je.id = p.journal_entry_id
+         WHERE p.account_id = $1 AND je.entry_date < $2
+         ${filters.userId ? 'AND p.user_id = $3' : ''}`,
+        openingParams
+      );
+      opening = signedBalance(account.account_type, parseFloat(openingRes.rows[0].debit), parseFloat(openingRes.rows[0].credit));
+    }
+
+    const result = await pool.query(
+      `SELECT p.id AS posting_id, je.id AS journal_entry_id, je.entry_date, je.description, je.source_type, je.source_id,
+              p.debit, p.credit
+       FROM journal_postings p
+       JOIN journal_entries je ON je.id = p.journal_entry_id
+       WHERE p.account_id = $1
+         AND ($2::timestamp IS NULL OR je.entry_date >= $2)
+         AND ($3::timestamp IS NULL OR je.entry_date <= $3)
+         ${userFilter}
+       ORDER BY je.entry_date ASC, je.id ASC, p.id ASC`,
+      params
+    );
+
+    let running = opening;
+    const lines = result.rows.map(r => {
+      const debit = parseFloat(r.debit);
+      const credit = parseFloat(r.credit);
+      running += signedBalance(account.account_type, debit, credit);
+      return { ...r, debit, credit, balance: running };
+    });
+    return { opening_balance: opening, lines, closing_balance: running };
+  }
+
+  static async listJournal(
+    hostelId: number,
+    filters: { from: Date | null; to: Date | null; sourceType: string | null; limit: number; offset: number }
+  ): Promise<any[]> {
+    const result = await pool.query(
+      `SELECT je.*, u.name AS created_by_name,
+              json_agg(json_build_object(
+                'account_code', a.code, 'account_name', a.name, 'user_id', p.user_id,
+                'debit', p.debit::float, 'credit', p.credit::float
+              ) ORDER BY p.id) AS postings
+       FROM journal_entries je
+       JOIN journal_postings p ON p.journal_entry_id = je.id
+       JOIN ledger_accounts a ON a.id = p.account_id
+       LEFT JOIN users u ON u.id = je.created_by
+       WHERE je.hostel_id = $1
+         AND ($2::timestamp IS NULL OR je.entry_date >= $2)
+         AND ($3::timestamp IS NULL OR je.entry_date <= $3)
+         AND ($4::text IS NULL OR je.source_type = $4)
+       GROUP BY je.id, u.name
+       ORDER BY je.entry_date DESC, je.id DESC
+       LIMIT ${filters.limit} OFFSET ${filters.offset}`,
+      [hostelId, filters.from, filters.to, filters.sourceType]
+    );
+    return result.rows;
+  }
+}
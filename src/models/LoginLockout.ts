@@ -0,0 +1,57 @@
+import pool from '../config/database';
+
+export type LockoutScope = 'account' | 'ip';
+
+export interface LoginLockout {
+  id: number;
+  scope: LockoutScope;
+  subject: string;
+  failed_count: number;
+  first_failed_at: Date | null;
+  lockout_count: number;
+  locked_until: Date | null;
+  updated_at: Date;
+}
+
+export class LoginLockoutModel {
+  static async find(scope: LockoutScope, subject: string): Promise<LoginLockout | null> {
+    const result = await pool.query('SELECT * FROM login_lockouts WHERE scope = $1 AND subject = $2', [scope, subject]);
+    return result.rows[0] || null;
+  }
+
+  // Counts a failure, starting a fresh window when the previous first failure is older than windowMinutes
+  static async recordFailure(scope: LockoutScope, subject: string, windowMinutes: number): Promise<LoginLockout> {
+    const result = await pool.query(
+      `INSERT INTO login_lockouts (scope, subject, failed_count, first_failed_at, updated_at)
+       VALUES ($1, $2, 1, NOW(), NOW())
+       ON CONFLICT (scope, subject) DO UPDATE SET
+         failed_count = CASE
+           WHEN login_lockouts.first_failed_at IS NULL OR login_lockouts.first_failed_at < NOW() - ($3 || ' minutes')::interval THEN 1
+           ELSE login_lockouts.failed_count + 1 END,
+         first_failed_at = CASE
+           WHEN login_lockouts.first_failed_at IS NULL OR login_lockouts.first_failed_at < NOW() - ($3 || ' minutes')::interval THEN NOW()
+           ELSE login_lockouts.first_failed_at END,
+         updated_at = NOW()
+       RETURNING *`,
+      [scope, subject, String(windowMinutes)]
+    );
+    return result.rows[0];
+  }
+
+  static async lock(id: number, minutes: number): Promise<LoginLockout> {
+    const result = await pool.query(
+      `UPDATE login_lockouts
+       SET locked_until = NOW() + ($2 || ' minutes')::interval, lockout_count = lockout_count + 1,
+           failed_count = 0, first_failed_at = NULL, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, String(minutes)]
+    );
+    return result.rows[0];
+  }
+
+  static async clear(scope: LockoutScope, subject: string): Promise<boolean> {
+    const result = await pool.query('DELETE FROM login_lockouts WHERE scope = $1 AND subject = $2', [scope, subject]);
+    return (result.rowCount || 0) > 0;
+  }
+}
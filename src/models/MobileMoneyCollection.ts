@@ -0,0 +1,110 @@
+import pool, { Queryable } from '../config/database';
+
+export type MobileMoneyNetwork = 'mtn' | 'airtel';
+export type CollectionStatus = 'pending' | 'successful' | 'failed';
+
+export interface MobileMoneyCollection {
+  id: number;
+  hostel_id: number;
+  user_id: number;
+  semester_id: number | null;
+  provider: string;
+  network: MobileMoneyNetwork;
+  phone: string;
+  amount: number;
+  currency: string;
+  purpose: string;
+  status: CollectionStatus;
+  // Our reference sent with the request; providers echo it back in their callbacks
+  provider_reference: string;
+  provider_transaction_id: string | null;
+  failure_reason: string | null;
+  payment_id: number | null;
+  requested_by: number | null;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+function toCollection(row: any): MobileMoneyCollection {
+  return { ...row, amount: parseFloat(row.amount) };
+}
+
+export class MobileMoneyCollectionModel {
+  static async create(data: {
+    hostel_id: number;
+    user_id: number;
+    semester_id: number;
+    provider: string;
+    network: MobileMoneyNetwork;
+    phone: string;
+    amount: number;
+    currency: string;
+    purpose: string;
+    provider_reference: string;
+    requested_by: number | null;
+  }): Promise<MobileMoneyCollection> {
+    const result = await pool.query(
+      `INSERT INTO mobile_money_collections
+         (hostel_id, user_id, semester_id, provider, network, phone, amount, currency, purpose, provider_reference, requested_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       RETURNING *`,
+      [data.hostel_id, data.user_id, data.semester_id, data.provider, data.network, data.phone, data.amount, data.currency, data.purpose, data.provider_reference, data.requested_by]
+    );
+    return toCollection(result.rows[0]);
+  }
+
+  static async findById(id: number): Promise<MobileMoneyCollection | null> {
+    const result = await pool.query('SELECT * FROM mobile_money_collections WHERE id = $1', [id]);
+    return result.rows[0] ? toCollection(result.rows[0]) : null;
+  }
+
+  // Locks the row so a provider retrying its callback cannot record the payment twice
+  static async lockByReference(provider: string, reference: string, db: Queryable): Promise<MobileMoneyCollection | null> {
+    const result = await db.query(
+      'SELECT * FROM mobile_money_collections WHERE provider = $1 AND provider_reference = $2 FOR UPDATE',
+      [provider, reference]
+    );
+    return result.rows[0] ? toCollection(result.rows[0]) : null;
+  }
+
+  static async listForHostel(
+    hostelId: number,
+    filters: { status: CollectionStatus | null; userId: number | null; limit: number; offset: number }
+  ): Promise<any[]> {
+    const result = await pool.query(
+      `SELECT c.*, u.name AS student_name, u.email AS student_email, rq.name AS requested_by_name
+       FROM mobile_money_collections c
+       JOIN users u ON u.id = c.user_id
+       LEFT JOIN users rq ON rq.id = c.requested_by
+       WHERE c.hostel_id = $1
+         AND ($2::text IS NULL OR c.status = $2)
+         AND ($3::int IS NULL OR c.user_id = $3)
+       ORDER BY c.created_at DESC, c.id DESC
+       LIMIT ${filters.limit} OFFSET ${filters.offset}`,
+      [hostelId, filters.status, filters.userId]
+    );
+    return result.rows.map(toCollection);
+  }
+
+  static async markSuccessful(id: number, paymentId: number, providerTransactionId: string | null, db: Queryable = pool): Promise<MobileMoneyCollection> {
+    const result = await db.query(
+      `UPDATE mobile_money_collections
+       SET status = 'successful', payment_id = $2, provider_transaction_id = $3, completed_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, paymentId, providerTransactionId]
+    );
+    return toCollection(result.rows[0]);
+  }
+
+  static async markFailed(id: number, reason: string, providerTransactionId: string | null, db: Queryable = pool): Promise<MobileMoneyCollection> {
+    const result = await db.query(
+      `UPDATE mobile_money_collections
+       SET status = 'failed', failure_reason = $2, provider_transaction_id = $3, completed_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, reason, providerTransactionId]
+    );
+    return toCollection(result.rows[0]);
+  }
+}
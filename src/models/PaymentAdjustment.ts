@@ -0,0 +1,102 @@
+import pool, { Queryable } from '../config/database';
+
+export type AdjustmentType = 'void' | 'refund' | 'correction';
+export type AdjustmentStatus = 'pending' | 'approved' | 'rejected';
+
+export interface PaymentAdjustment {
+  id: number;
+  payment_id: number;
+  hostel_id: number;
+  adjustment_type: AdjustmentType;
+  // Refund amount or corrected payment amount; null for voids
+  requested_amount: number | null;
+  // Signed amount of the compensating payments row, set once applied
+  applied_amount: number | null;
+  reason: string;
+  status: AdjustmentStatus;
+  requested_by: number | null;
+  reviewed_by: number | null;
+  review_note: string | null;
+  entry_payment_id: number | null;
+  created_at: Date;
+  reviewed_at: Date | null;
+}
+
+function toAdjustment(row: any): PaymentAdjustment {
+  return {
+    ...row,
+    requested_amount: row.requested_amount != null ? parseFloat(row.requested_amount) : null,
+    applied_amount: row.applied_amount != null ? parseFloat(row.applied_amount) : null
+  };
+}
+
+export class PaymentAdjustmentModel {
+  static async create(
+    data: { payment_id: number; hostel_id: number; adjustment_type: AdjustmentType; requested_amount: number | null; reason: string; requested_by: number | null },
+    db: Queryable = pool
+  ): Promise<PaymentAdjustment> {
+    const result = await db.query(
+      `INSERT INTO payment_adjustments (payment_id, hostel_id, adjustment_type, requested_amount, reason, requested_by)
+       VALUES ($1, $2, $3, $4, $5, $6)
+       RETURNING *`,
+      [data.payment_id, data.hostel_id, data.adjustment_type, data.requested_amount, data.reason, data.requested_by]
+    );
+    return toAdjustment(result.rows[0]);
+  }
+
+  static async findById(id: number, db: Queryable = pool): Promise<PaymentAdjustment | null> {
+    const result = await db.query('SELECT * FROM payment_adjustments WHERE id = $1', [id]);
+    return result.rows[0] ? toAdjustment(result.rows[0]) : null;
+  }
+
+  static async hasPending(paymentId: number): Promise<boolean> {
+    const result = await pool.query("SELECT 1 FROM payment_adjustments WHERE payment_id = $1 AND status = 'pending'", [paymentId]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  static async listForHostel(hostelId: number, status: AdjustmentStatus | null, limit: number, offset: number): Promise<any[]> {
+    const params: any[] = [hostelId];
+    let statusFilter = '';
+    if (status) {
+      params.push(status);
+      statusFilter = `AND pa.status = $${params.length}`;
+    }
+    const result = await pool.query(
+      `SELECT pa.*, p.user_id, p.amount AS original_amount, p.currency, p.created_at AS paid_at,
+              u.name AS student_name, u.email AS student_email,
+              rq.name AS requested_by_name, rv.name AS reviewed_by_name
+       FROM payment_adjustments pa
+       JOIN payments p ON p.id = pa.payment_id
+       JOIN users u ON u.id = p.user_id
+       LEFT JOIN users rq ON rq.id = pa.requested_by
+       LEFT JOIN users rv ON rv.id = pa.reviewed_by
+       WHERE pa.hostel_id = $1 ${statusFilter}
+       ORDER BY pa.created_at DESC, pa.id DESC
+       LIMIT ${limit} OFFSET ${offset}`,
+      params
+    );
+    return result.rows.map(r => ({ ...toAdjustment(r), original_amount: parseFloat(r.original_amount) }));
+  }
+
+  static async markApproved(id: number, reviewedBy: number | null, appliedAmount: number, entryPaymentId: number, note: string | null, db: Queryable = pool): Promise<PaymentAdjustment> {
+    const result = await db.query(
+      `UPDATE payment_adjustments
+       SET status = 'approved', reviewed_by = $2, applied_amount = $3, entry_payment_id = $4, review_note = $5, reviewed_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, reviewedBy, appliedAmount, entryPaymentId, note]
+    );
+    return toAdjustment(result.rows[0]);
+  }
+
+  static async markRejected(id: number, reviewedBy: number, note: string | null): Promise<PaymentAdjustment | null> {
+    const result = await pool.query(
+      `UPDATE payment_adjustments
+       SET status = 'rejected', reviewed_by = $2, review_note = $3, reviewed_at = NOW()
+       WHERE id = $1 AND status = 'pending'
+       RETURNING *`,
+      [id, reviewedBy, note]
+    );
+    return result.rows[0] ? toAdjustment(result.rows[0]) : null;
+  }
+}
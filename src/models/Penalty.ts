@@ -0,0 +1,196 @@
+import pool, { Queryable } from '../config/database';
+
+export const PENALTY_TYPES = ['flat', 'percentage'] as const;
+export type PenaltyType = typeof PENALTY_TYPES[number];
+
+export interface PenaltyRule {
+  id: number;
+  hostel_id: number;
+  name: string;
+  penalty_type: PenaltyType;
+  // Flat amount in the hostel's base currency, or a percentage of the overdue amount
+  amount: number;
+  days_overdue: number;
+  cap: number | null;
+  recurring_weekly: boolean;
+  is_active: boolean;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type PenaltyChargeStatus = 'applied' | 'waived';
+
+export interface PenaltyCharge {
+  id: number;
+  rule_id: number;
+  hostel_id: number;
+  user_id: number;
+  semester_id: number;
+  invoice_line_item_id: number | null;
+  occurrence: number;
+  overdue_amount: number;
+  amount: number;
+  status: PenaltyChargeStatus;
+  waive_reason: string | null;
+  waived_by: number | null;
+  waived_at: Date | null;
+  created_at: Date;
+}
+
+export interface PenaltyChargeSummary extends PenaltyCharge {
+  rule_name: string;
+  student_name: string;
+  semester_name: string | null;
+  waived_by_name: string | null;
+}
+
+// pg returns DECIMAL columns as strings
+function toRule(row: any): PenaltyRule {
+  return { ...row, amount: parseFloat(row.amount), cap: row.cap != null ? parseFloat(row.cap) : null };
+}
+
+function toCharge<T extends PenaltyCharge>(row: any): T {
+  return { ...row, amount: parseFloat(row.amount), overdue_amount: parseFloat(row.overdue_amount) };
+}
+
+export class PenaltyRuleModel {
+  static async listForHostel(hostelId: number, activeOnly = false): Promise<PenaltyRule[]> {
+    const result = await pool.query(
+      `SELECT * FROM penalty_rules WHERE hostel_id = $1 ${activeOnly ? 'AND is_active = TRUE' : ''} ORDER BY days_overdue ASC, id ASC`,
+      [hostelId]
+    );
+    return result.rows.map(toRule);
+  }
+
+  static async findById(id: number): Promise<PenaltyRule | null> {
+    const result = await pool.query('SELECT * FROM penalty_rules WHERE id = $1', [id]);
+    return result.rows[0] ? toRule(result.rows[0]) : null;
+  }
+
+  static async create(data: {
+    hostel_id: number;
+    name: string;
+    penalty_type: PenaltyType;
+    amount: number;
+    days_overdue: number;
+    cap: number | null;
+    recurring_weekly: boolean;
+    created_by: number | null;
+  }): Promise<PenaltyRule> {
+    const result = await pool.query(
+      `INSERT INTO penalty_rules (hostel_id, name, penalty_type, amount, days_overdue, cap, recurring_weekly, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [data.hostel_id, data.name, data.penalty_type, data.amount, data.days_overdue, data.cap, data.recurring_weekly, data.created_by]
+    );
+    return toRule(result.rows[0]);
+  }
+
+  /**
+   * Update the given fields; cap: null removes the cap
+   */
+  static async update(
+    id: number,
+    data: { name?: string; penalty_type?: PenaltyType; amount?: number; days_overdue?: number; cap?: number | null; recurring_weekly?: boolean; is_active?: boolean }
+  ): Promise<PenaltyRule | null> {
+    const result = await pool.query(
+      `UPDATE penalty_rules
+       SET name = COALESCE($2, name),
+           penalty_type = COALESCE($3, penalty_type),
+           amount = COALESCE($4, amount),
+           days_overdue = COALESCE($5, days_overdue),
+           cap = CASE WHEN $6 THEN $7 ELSE cap END,
+           recurring_weekly = COALESCE($8, recurring_weekly),
+           is_active = COALESCE($9, is_active),
+           updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [
+        id,
+        data.name ?? null,
+        data.penalty_type ?? null,
+        data.amount ?? null,
+        data.days_overdue ?? null,
+        data.cap !== undefined,
+        data.cap ?? null,
+        data.recurring_weekly ?? null,
+        data.is_active ?? null
+      ]
+    );
+    return result.rows[0] ? toRule(result.rows[0]) : null;
+  }
+}
+
+export class PenaltyChargeModel {
+  /**
+   * Charges a rule has made for a student in a semester, waived ones included
+   */
+  static async listForRule(ruleId: number, userId: number, semesterId: number, db: Queryable = pool): Promise<PenaltyCharge[]> {
+    const result = await db.query(
+      'SELECT * FROM penalty_charges WHERE rule_id = $1 AND user_id = $2 AND semester_id = $3 ORDER BY occurrence ASC',
+      [ruleId, userId, semesterId]
+    );
+    return result.rows.map(r => toCharge<PenaltyCharge>(r));
+  }
+
+  static async create(
+    data: { rule_id: number; hostel_id: number; user_id: number; semester_id: number; invoice_line_item_id: number; occurrence: number; overdue_amount: number; amount: number },
+    db: Queryable = pool
+  ): Promise<PenaltyCharge> {
+    const result = await db.query(
+      `INSERT INTO penalty_charges (rule_id, hostel_id, user_id, semester_id, invoice_line_item_id, occurrence, overdue_amount, amount)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING *`,
+      [data.rule_id, data.hostel_id, data.user_id, data.semester_id, data.invoice_line_item_id, data.occurrence, data.overdue_amount, data.amount]
+    );
+    return toCharge(result.rows[0]);
+  }
+
+  static async findById(id: number, db: Queryable = pool): Promise<PenaltyCharge | null> {
+    const result = await db.query('SELECT * FROM penalty_charges WHERE id = $1', [id]);
+    return result.rows[0] ? toCharge(result.rows[0]) : null;
+  }
+
+  // Row-locks the charge so two waivers of the same fee cannot both go through
+  static async lockById(id: number, db: Queryable): Promise<PenaltyCharge | null> {
+    const result = await db.query('SELECT * FROM penalty_charges WHERE id = $1 FOR UPDATE', [id]);
+    return result.rows[0] ? toCharge(result.rows[0]) : null;
+  }
+
+  static async markWaived(id: number, waivedBy: number, reason: string, db: Queryable = pool): Promise<PenaltyCharge> {
+    const result = await db.query(
+      `UPDATE penalty_charges
+       SET status = 'waived', waive_reason = $2, waived_by = $3, waived_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, reason, waivedBy]
+    );
+    return toCharge(result.rows[0]);
+  }
+
+  static async listForHostel(
+    hostelId: number,
+    filters: { status: PenaltyChargeStatus | null; userId: number | null; semesterId: number | null; limit: number; offset: number }
+  ): Promise<{ rows: PenaltyChargeSummary[]; total: number }> {
+    const params: any[] = [hostelId, filters.status, filters.userId, filters.semesterId];
+    const where = `pc.hostel_id = $1
+      AND ($2::text IS NULL OR pc.status = $2)
+      AND ($3::int IS NULL OR pc.user_id = $3)
+      AND ($4::int IS NULL OR pc.semester_id = $4)`;
+    const countResult = await pool.query(`SELECT COUNT(*)::int AS total FROM penalty_charges pc WHERE ${where}`, params);
+    const result = await pool.query(
+      `SELECT pc.*, pr.name AS rule_name, u.name AS student_name, s.name AS semester_name, wb.name AS waived_by_name
+       FROM penalty_charges pc
+       JOIN penalty_rules pr ON pr.id = pc.rule_id
+       JOIN users u ON u.id = pc.user_id
+       LEFT JOIN semesters s ON s.id = pc.semester_id
+       LEFT JOIN users wb ON wb.id = pc.waived_by
+       WHERE ${where}
+       ORDER BY pc.created_at DESC, pc.id DESC
+       LIMIT ${filters.limit} OFFSET ${filters.offset}`,
+      params
+    );
+    return { rows: result.rows.map(r => toCharge<PenaltyChargeSummary>(r)), total: countResult.rows[0].total };
+  }
+}
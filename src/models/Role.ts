@@ -0,0 +1,133 @@
+import pool from '../config/database';
+
+export interface Role {
+  id: number;
+  hostel_id: number | null;
+  name: string;
+  description: string | null;
+  is_system: boolean;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface RoleWithPermissions extends Role {
+  permissions: string[];
+  user_count: number;
+}
+
+export interface Permission {
+  key: string;
+  description: string | null;
+  scope: 'platform' | 'hostel';
+}
+
+const ROLE_WITH_PERMISSIONS_SELECT = `
+  SELECT r.*,
+         COALESCE(ARRAY(SELECT rp.permission_key FROM role_permissions rp WHERE rp.role_id = r.id ORDER BY rp.permission_key), '{}') AS permissions,
+         CASE WHEN r.hostel_id IS NULL
+              THEN (SELECT COUNT(*) FROM users u WHERE u.role = r.name AND u.custom_role_id IS NULL)
+              ELSE (SELECT COUNT(*) FROM users u WHERE u.custom_role_id = r.id)
+         END::int AS user_count
+  FROM roles r`;
+
+export class RoleModel {
+  static async listPermissions(): Promise<Permission[]> {
+    const result = await pool.query('SELECT key, description, scope FROM permissions ORDER BY scope, key');
+    return result.rows;
+  }
+
+  // Built-in roles plus the custom roles of one hostel, or of every hostel when hostelId is null
+  static async list(hostelId: number | null): Promise<RoleWithPermissions[]> {
+    const result = hostelId
+      ? await pool.query(`${ROLE_WITH_PERMISSIONS_SELECT} WHERE r.hostel_id IS NULL OR r.hostel_id = $1 ORDER BY r.hostel_id NULLS FIRST, r.name`, [hostelId])
+      : await pool.query(`${ROLE_WITH_PERMISSIONS_SELECT} ORDER BY r.hostel_id NULLS FIRST, r.name`);
+    return result.rows;
+  }
+
+  static async findById(id: number): Promise<RoleWithPermissions | null> {
+    const result = await pool.query(`${ROLE_WITH_PERMISSIONS_SELECT} WHERE r.id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findByName(hostelId: number | null, name: string): Promise<Role | null> {
+    const result = hostelId
+      ? await pool.query('SELECT * FROM roles WHERE hostel_id = $1 AND LOWER(name) = LOWER($2)', [hostelId, name])
+      : await pool.query('SELECT * FROM roles WHERE hostel_id IS NULL AND LOWER(name) = LOWER($1)', [name]);
+    return result.rows[0] || null;
+  }
+
+  static async create(hostelId: number, name: string, description: string | null, permissions: string[]): Promise<RoleWithPermissions> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const created = await client.query(
+        'INSERT INTO roles (hostel_id, name, description, is_system) VALUES ($1, $2, $3, FALSE) RETURNING id',
+        [hostelId, name, description]
+      );
+      const roleId = created.rows[0].id;
+      for (const key of permissions) {
+        await client.query('INSERT INTO role_permissions (role_id, permission_key) VALUES ($1, $2) ON CONFLICT DO NOTHING', [roleId, key]);
+      }
+      await client.query('COMMIT');
+      return (await this.findById(roleId))!;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Replaces the permission set when one is given; name/description are only changed when provided
+  static async update(id: number, data: { name?: string; description?: string | null; permissions?: string[] }): Promise<RoleWithPermissions | null> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const updated = await client.query(
+        `UPDATE roles SET name = COALESCE($1, name), description = CASE WHEN $2::boolean THEN $3 ELSE description END, updated_at = NOW()
+         WHERE id = $4 RETURNING id`,
+        [data.name ?? null, data.description !== undefined, data.description ?? null, id]
+      );
+      if (!updated.rowCount) {
+        await client.query('ROLLBACK');
+        return null;
+      }
+      if (data.permissions) {
+        await client.query('DELETE FROM role_permissions WHERE role_id = $1', [id]);
+        for (const key of data.permissions) {
+          await client.query('INSERT INTO role_permissions (role_id, permission_key) VALUES ($1, $2) ON CONFLICT DO NOTHING', [id, key]);
+        }
+      }
+      await client.query('COMMIT');
+      return this.findById(id);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  // Only custom roles can be deleted; their users fall back to their base role (custom_role_id ON DELETE SET NULL)
+  static async delete(id: number): Promise<boolean> {
+    const result = await pool.query('DELETE FROM roles WHERE id = $1 AND is_system = FALSE', [id]);
+    return (result.rowCount || 0) > 0;
+  }
+
+  static async assignToUser(userId: number, roleId: number | null): Promise<void> {
+    await pool.query('UPDATE users SET custom_role_id = $1, updated_at = NOW() WHERE id = $2', [roleId, userId]);
+  }
+
+  // A custom role replaces the permissions of the user's built-in role; it does not add to them
+  static async getPermissionsForUser(userId: number): Promise<string[]> {
+    const result = await pool.query(
+      `SELECT rp.permission_key
+       FROM users u
+       JOIN roles r ON r.id = COALESCE(u.custom_role_id, (SELECT id FROM roles WHERE hostel_id IS NULL AND name = u.role))
+       JOIN role_permissions rp ON rp.role_id = r.id
+       WHERE u.id = $1`,
+      [userId]
+    );
+    return result.rows.map(r => r.permission_key);
+  }
+}
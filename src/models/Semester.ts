@@ -55,6 +55,8 @@ export interface SemesterStats {
   total_students: number;
   active_students: number;
   completed_students: number;
+  // Hostel base currency; revenue and outstanding balance are reported in it
+  currency: string;
   total_revenue: number;
   total_payments: number;
   outstanding_balance: number;
@@ -248,13 +250,14 @@ export class SemesterModel {
         COUNT(DISTINCT se.user_id) as total_students,
         COUNT(DISTINCT CASE WHEN se.enrollment_status = 'active' THEN se.user_id END) as active_students,
         COUNT(DISTINCT CASE WHEN se.enrollment_status = 'completed' THEN se.user_id END) as completed_students,
-        COALESCE(SUM(p.amount), 0) as total_revenue,
-        COUNT(DISTINCT p.id) as total_payments
+        h.base_currency as currency,
+        (SELECT COALESCE(SUM(p.base_amount), 0) FROM payments p WHERE p.semester_id = s.id) as total_revenue,
+        (SELECT COUNT(*) FROM payments p WHERE p.semester_id = s.id) as total_payments
       FROM semesters s
+      JOIN hostels h ON h.id = s.hostel_id
       LEFT JOIN semester_enrollments se ON s.id = se.semester_id
-      LEFT JOIN payments p ON s.id = p.semester_id
       WHERE s.id = $1
-      GROUP BY s.id, s.name`,
+      GROUP BY s.id, s.name, h.base_currency`,
       [semesterId]
     );
 
@@ -267,6 +270,7 @@ export class SemesterModel {
       total_students: parseInt(stats.total_students) || 0,
       active_students: parseInt(stats.active_students) || 0,
       completed_students: parseInt(stats.completed_students) || 0,
+      currency: stats.currency,
       total_revenue: parseFloat(stats.total_revenue) || 0,
       total_payments: parseInt(stats.total_payments) || 0,
       outstanding_balance: 0, // Will be calculated separately
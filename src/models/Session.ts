@@ -0,0 +1,116 @@
+import pool from '../config/database';
+
+export interface UserSession {
+  id: number;
+  user_id: number;
+  refresh_token_hash: string;
+  previous_refresh_token_hash?: string | null;
+  ip_address?: string | null;
+  user_agent?: string | null;
+  expires_at: Date;
+  last_used_at: Date;
+  revoked_at?: Date | null;
+  revoked_reason?: string | null;
+  created_at: Date;
+}
+
+export class SessionModel {
+  static async create(data: { user_id: number; refresh_token_hash: string; ip_address?: string | null; user_agent?: string | null; expires_at: Date }): Promise<UserSession> {
+    const result = await pool.query(
+      `INSERT INTO user_sessions (user_id, refresh_token_hash, ip_address, user_agent, expires_at)
+       VALUES ($1, $2, $3, $4, $5)
+       RETURNING *`,
+      [data.user_id, data.refresh_token_hash, data.ip_address || null, data.user_agent || null, data.expires_at]
+    );
+    return result.rows[0];
+  }
+
+  static async findActiveById(id: number): Promise<UserSession | null> {
+    const result = await pool.query(
+      'SELECT * FROM user_sessions WHERE id = $1 AND revoked_at IS NULL AND expires_at > NOW()',
+      [id]
+    );
+    return result.rows[0] || null;
+  }
+
+  static async listActiveForUser(userId: number): Promise<Array<Pick<UserSession, 'id' | 'ip_address' | 'user_agent' | 'created_at' | 'last_used_at' | 'expires_at'>>> {
+    const result = await pool.query(
+      `SELECT id, ip_address, user_agent, created_at, last_used_at, expires_at
+       FROM user_sessions
+       WHERE user_id = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_used_at DESC`,
+      [userId]
+    );
+    return result.rows;
+  }
+
+  // Throttled so an active client writes at most once a minute
+  static async touch(id: number, ip?: string | null): Promise<void> {
+    await pool.query(
+      `UPDATE user_sessions SET last_used_at = NOW(), ip_address = COALESCE($2, ip_address)
+       WHERE id = $1 AND last_used_at < NOW() - INTERVAL '1 minute'`,
+      [id, ip || null]
+    );
+  }
+
+  static async revokeForUser(id: number, userId: number, reason: string): Promise<boolean> {
+    const result = await pool.query(
+      'UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $3 WHERE id = $1 AND user_id = $2 AND revoked_at IS NULL',
+      [id, userId, reason]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  static async findByRefreshTokenHash(hash: string): Promise<UserSession | null> {
+    const result = await pool.query('SELECT * FROM user_sessions WHERE refresh_token_hash = $1', [hash]);
+    return result.rows[0] || null;
+  }
+
+  static async findByPreviousRefreshTokenHash(hash: string): Promise<UserSession | null> {
+    const result = await pool.query('SELECT * FROM user_sessions WHERE previous_refresh_token_hash = $1', [hash]);
+    return result.rows[0] || null;
+  }
+
+  // Swap in the new refresh token only if the old one is still current, so concurrent refreshes cannot both win
+  static async rotate(id: number, oldHash: string, newHash: string, ip?: string | null, userAgent?: string | null): Promise<boolean> {
+    const result = await pool.query(
+      `UPDATE user_sessions
+       SET refresh_token_hash = $3, previous_refresh_token_hash = $2, last_used_at = NOW(),
+           ip_address = COALESCE($4, ip_address), user_agent = COALESCE($5, user_agent)
+       WHERE id = $1 AND refresh_token_hash = $2 AND revoked_at IS NULL AND expires_at > NOW()`,
+      [id, oldHash, newHash, ip || null, userAgent || null]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  static async revoke(id: number, reason: string): Promise<boolean> {
+    const result = await pool.query(
+      'UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2 WHERE id = $1 AND revoked_at IS NULL',
+      [id, reason]
+    );
+    return (result.rowCount || 0) > 0;
+  }
+
+  static async revokeAllForUser(userId: number, reason: string, exceptSessionId?: number): Promise<number> {
+    const result = await pool.query(
+      `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2
+       WHERE user_id = $1 AND revoked_at IS NULL AND ($3::int IS NULL OR id <> $3)`,
+      [userId, reason, exceptSessionId ?? null]
+    );
+    return result.rowCount || 0;
+  }
+
+  // Staff of a hostel: admins/custodians linked via users.hostel_id or the custodians table
+  static async revokeAllForHostelStaff(hostelId: number, reason: string): Promise<number> {
+    const result = await pool.query(
+      `UPDATE user_sessions SET revoked_at = NOW(), revoked_reason = $2
+       WHERE revoked_at IS NULL AND user_id IN (
+         SELECT id FROM users WHERE hostel_id = $1 AND role IN ('hostel_admin', 'custodian')
+         UNION
+         SELECT user_id FROM custodians WHERE hostel_id = $1
+       )`,
+      [hostelId, reason]
+    );
+    return result.rowCount || 0;
+  }
+}
@@ -0,0 +1,266 @@
+import pool, { Queryable } from '../config/database';
+
+export const STATEMENT_SOURCE_TYPES = ['bank', 'mobile_money'] as const;
+export type StatementSourceType = typeof STATEMENT_SOURCE_TYPES[number];
+export const STATEMENT_DATE_FORMATS = ['YYYY-MM-DD', 'DD/MM/YYYY', 'MM/DD/YYYY', 'DD-MM-YYYY', 'DD.MM.YYYY'] as const;
+export type StatementDateFormat = typeof STATEMENT_DATE_FORMATS[number];
+export const STATEMENT_LINE_STATUSES = ['unmatched', 'matched', 'ignored'] as const;
+export type StatementLineStatus = typeof STATEMENT_LINE_STATUSES[number];
+export type MatchMethod = 'reference' | 'amount_date' | 'manual';
+
+export interface StatementMapping {
+  id: number;
+  hostel_id: number;
+  name: string;
+  source_type: StatementSourceType;
+  currency: string;
+  delimiter: string;
+  has_header: boolean;
+  // Lines above the header (bank name, account number, ...) to skip
+  skip_rows: number;
+  date_column: string;
+  date_format: StatementDateFormat;
+  amount_column: string | null;
+  credit_column: string | null;
+  debit_column: string | null;
+  reference_column: string | null;
+  description_column: string | null;
+  payer_column: string | null;
+  created_by: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type StatementMappingFields = Omit<StatementMapping, 'id' | 'hostel_id' | 'created_by' | 'created_at' | 'updated_at'>;
+
+export interface StatementImport {
+  id: number;
+  hostel_id: number;
+  mapping_id: number | null;
+  source_type: StatementSourceType;
+  currency: string;
+  file_name: string | null;
+  period_start: string | null;
+  period_end: string | null;
+  line_count: number;
+  // Lines already imported from an earlier, overlapping statement
+  duplicate_count: number;
+  imported_by: number | null;
+  created_at: Date;
+}
+
+export interface StatementImportSummary extends StatementImport {
+  matched_count: number;
+  unmatched_count: number;
+  ignored_count: number;
+  imported_by_name: string | null;
+}
+
+export interface StatementLine {
+  id: number;
+  import_id: number;
+  hostel_id: number;
+  line_number: number;
+  transaction_date: string;
+  amount: number;
+  currency: string;
+  reference: string | null;
+  description: string | null;
+  payer: string | null;
+  fingerprint: string;
+  status: StatementLineStatus;
+  payment_id: number | null;
+  match_method: MatchMethod | null;
+  resolution_note: string | null;
+  resolved_by: number | null;
+  resolved_at: Date | null;
+}
+
+const MAPPING_FIELDS = [
+  'name', 'source_type', 'currency', 'delimiter', 'has_header', 'skip_rows', 'date_column', 'date_format',
+  'amount_column', 'credit_column', 'debit_column', 'reference_column', 'description_column', 'payer_column'
+] as const;
+
+const IMPORT_COLUMNS = `id, hostel_id, mapping_id, source_type, currency, file_name, to_char(period_start, 'YYYY-MM-DD') AS period_start,
+  to_char(period_end, 'YYYY-MM-DD') AS period_end, line_count, duplicate_count, imported_by, created_at`;
+
+const LINE_COLUMNS = `id, import_id, hostel_id, line_number, to_char(transaction_date, 'YYYY-MM-DD') AS transaction_date, amount, currency,
+  reference, description, payer, fingerprint, status, payment_id, match_method, resolution_note, resolved_by, resolved_at`;
+
+// Imports with how far each has been reconciled
+const IMPORT_SUMMARY_SELECT = `
+  SELECT si.id, si.hostel_id, si.mapping_id, si.source_type, si.currency, si.file_name,
+         to_char(si.period_start, 'YYYY-MM-DD') AS period_start, to_char(si.period_end, 'YYYY-MM-DD') AS period_end,
+         si.line_count, si.duplicate_count, si.imported_by, si.created_at, u.name AS imported_by_name,
+         (SELECT COUNT(*)::int FROM statement_lines sl WHERE sl.import_id = si.id AND sl.status = 'matched') AS matched_count,
+         (SELECT COUNT(*)::int FROM statement_lines sl WHERE sl.import_id = si.id AND sl.status = 'unmatched') AS unmatched_count,
+         (SELECT COUNT(*)::int FROM statement_lines sl WHERE sl.import_id = si.id AND sl.status = 'ignored') AS ignored_count
+  FROM statement_imports si
+  LEFT JOIN users u ON u.id = si.imported_by`;
+
+function toLine(row: any): StatementLine {
+  return { ...row, amount: parseFloat(row.amount) };
+}
+
+export class StatementMappingModel {
+  static async listForHostel(hostelId: number): Promise<StatementMapping[]> {
+    const result = await pool.query('SELECT * FROM statement_mappings WHERE hostel_id = $1 ORDER BY name ASC', [hostelId]);
+    return result.rows;
+  }
+
+  static async findById(id: number): Promise<StatementMapping | null> {
+    const result = await pool.query('SELECT * FROM statement_mappings WHERE id = $1', [id]);
+    return result.rows[0] || null;
+  }
+
+  static async findByName(hostelId: number, name: string): Promise<StatementMapping | null> {
+    const result = await pool.query('SELECT * FROM statement_mappings WHERE hostel_id = $1 AND name = $2', [hostelId, name]);
+    return result.rows[0] || null;
+  }
+
+  static async create(hostelId: number, data: StatementMappingFields, createdBy: number | null): Promise<StatementMapping> {
+    const result = await pool.query(
+      `INSERT INTO statement_mappings (hostel_id, created_by, ${MAPPING_FIELDS.join(', ')})
+       VALUES ($1, $2, ${MAPPING_FIELDS.map((_, i) => `$${i + 3}`).join(', ')})
+       RETURNING *`,
+      [hostelId, createdBy, ...MAPPING_FIELDS.map(f => data[f])]
+    );
+    return result.rows[0];
+  }
+
+  static async update(id: number, data: StatementMappingFields): Promise<StatementMapping> {
+    const result = await pool.query(
+      `UPDATE statement_mappings
+       SET ${MAPPING_FIELDS.map((f, i) => `${f} = $${i + 2}`).join(', ')}, updated_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [id, ...MAPPING_FIELDS.map(f => data[f])]
+    );
+    return result.rows[0];
+  }
+
+  static async delete(id: number): Promise<void> {
+    await pool.query('DELETE FROM statement_mappings WHERE id = $1', [id]);
+  }
+}
+
+export class StatementImportModel {
+  static async create(
+    data: Omit<StatementImport, 'id' | 'created_at' | 'line_count' | 'duplicate_count'>,
+    db: Queryable = pool
+  ): Promise<StatementImport> {
+    const result = await db.query(
+      `INSERT INTO statement_imports (hostel_id, mapping_id, source_type, currency, file_name, period_start, period_end, imported_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+       RETURNING ${IMPORT_COLUMNS}`,
+      [data.hostel_id, data.mapping_id, data.source_type, data.currency, data.file_name, data.period_start, data.period_end, data.imported_by]
+    );
+    return result.rows[0];
+  }
+
+  static async setCounts(id: number, lineCount: number, duplicateCount: number, db: Queryable = pool): Promise<StatementImport> {
+    const result = await db.query(
+      `UPDATE statement_imports SET line_count = $2, duplicate_count = $3 WHERE id = $1 RETURNING ${IMPORT_COLUMNS}`,
+      [id, lineCount, duplicateCount]
+    );
+    return result.rows[0];
+  }
+
+  static async findById(id: number): Promise<StatementImportSummary | null> {
+    const result = await pool.query(`${IMPORT_SUMMARY_SELECT} WHERE si.id = $1`, [id]);
+    return result.rows[0] || null;
+  }
+
+  static async listForHostel(hostelId: number, limit: number, offset: number): Promise<{ rows: StatementImportSummary[]; total: number }> {
+    const countResult = await pool.query('SELECT COUNT(*)::int AS total FROM statement_imports WHERE hostel_id = $1', [hostelId]);
+    const result = await pool.query(
+      `${IMPORT_SUMMARY_SELECT}
+       WHERE si.hostel_id = $1
+       ORDER BY si.created_at DESC, si.id DESC
+       LIMIT ${limit} OFFSET ${offset}`,
+      [hostelId]
+    );
+    return { rows: result.rows, total: countResult.rows[0].total };
+  }
+}
+
+export class StatementLineModel {
+  /**
+   * Insert a line unless the hostel already has a line with the same fingerprint; returns null for such duplicates
+   */
+  static async insert(
+    data: Pick<StatementLine, 'import_id' | 'hostel_id' | 'line_number' | 'transaction_date' | 'amount' | 'currency' | 'reference' | 'description' | 'payer' | 'fingerprint'>,
+    db: Queryable = pool
+  ): Promise<StatementLine | null> {
+    const result = await db.query(
+      `INSERT INTO statement_lines (import_id, hostel_id, line_number, transaction_date, amount, currency, reference, description, payer, fingerprint)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+       ON CONFLICT (hostel_id, fingerprint) DO NOTHING
+       RETURNING ${LINE_COLUMNS}`,
+      [data.import_id, data.hostel_id, data.line_number, data.transaction_date, data.amount, data.currency, data.reference, data.description, data.payer, data.fingerprint]
+    );
+    return result.rows[0] ? toLine(result.rows[0]) : null;
+  }
+
+  static async findById(id: number, db: Queryable = pool): Promise<StatementLine | null> {
+    const result = await db.query(`SELECT ${LINE_COLUMNS} FROM statement_lines WHERE id = $1`, [id]);
+    return result.rows[0] ? toLine(result.rows[0]) : null;
+  }
+
+  static async lockById(id: number, db: Queryable): Promise<StatementLine | null> {
+    const result = await db.query(`SELECT ${LINE_COLUMNS} FROM statement_lines WHERE id = $1 FOR UPDATE`, [id]);
+    return result.rows[0] ? toLine(result.rows[0]) : null;
+  }
+
+  static async list(
+    hostelId: number,
+    filters: { importId?: number | null; status?: StatementLineStatus | null; from?: string | null; to?: string | null },
+    db: Queryable = pool
+  ): Promise<StatementLine[]> {
+    const result = await db.query(
+      `SELECT ${LINE_COLUMNS} FROM statement_lines
+       WHERE hostel_id = $1
+         AND ($2::int IS NULL OR import_id = $2)
+         AND ($3::text IS NULL OR status = $3)
+         AND ($4::date IS NULL OR transaction_date >= $4)
+         AND ($5::date IS NULL OR transaction_date <= $5)
+       ORDER BY transaction_date ASC, id ASC`,
+      [hostelId, filters.importId ?? null, filters.status ?? null, filters.from ?? null, filters.to ?? null]
+    );
+    return result.rows.map(toLine);
+  }
+
+  static async markMatched(id: number, paymentId: number, method: MatchMethod, resolvedBy: number | null, db: Queryable = pool): Promise<StatementLine> {
+    const result = await db.query(
+      `UPDATE statement_lines
+       SET status = 'matched', payment_id = $2, match_method = $3, resolved_by = $4, resolved_at = NOW(), resolution_note = NULL
+       WHERE id = $1
+       RETURNING ${LINE_COLUMNS}`,
+      [id, paymentId, method, resolvedBy]
+    );
+    return toLine(result.rows[0]);
+  }
+
+  static async markIgnored(id: number, note: string, resolvedBy: number, db: Queryable = pool): Promise<StatementLine> {
+    const result = await db.query(
+      `UPDATE statement_lines
+       SET status = 'ignored', payment_id = NULL, match_method = NULL, resolution_note = $2, resolved_by = $3, resolved_at = NOW()
+       WHERE id = $1
+       RETURNING ${LINE_COLUMNS}`,
+      [id, note, resolvedBy]
+    );
+    return toLine(result.rows[0]);
+  }
+
+  // Back to unmatched, e.g. after a wrong match
+  static async reset(id: number, db: Queryable = pool): Promise<StatementLine> {
+    const result = await db.query(
+      `UPDATE statement_lines
+       SET status = 'unmatched', payment_id = NULL, match_method = NULL, resolution_note = NULL, resolved_by = NULL, resolved_at = NULL
+       WHERE id = $1
+       RETURNING ${LINE_COLUMNS}`,
+      [id]
+    );
+    return toLine(result.rows[0]);
+  }
+}
@@ -1,4 +1,4 @@
-import pool from '../config/database';
+import pool, { Queryable } from '../config/database';
 
 export interface SubscriptionPlan {
   id: number;
@@ -76,8 +76,8 @@ export class SubscriptionPlanModel {
 }
 
 export class HostelSubscriptionModel {
-  static async create(subscription: Omit<HostelSubscription, 'id' | 'created_at' | 'updated_at'>): Promise<HostelSubscription> {
-    const result = await pool.query(
+  static async create(subscription: Omit<HostelSubscription, 'id' | 'created_at' | 'updated_at'>, db: Queryable = pool): Promise<HostelSubscription> {
+    const result = await db.query(
       `INSERT INTO hostel_subscriptions (hostel_id, plan_id, start_date, end_date, amount_paid, status, payment_method, payment_reference)
        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
        RETURNING *`,
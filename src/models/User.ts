@@ -72,11 +72,27 @@ export class UserModel {
     return result.rows[0] || null;
   }
 
+  // Keeps the outgoing hash in password_history and restarts the max-age clock
   static async updatePassword(id: number, hashedPassword: string): Promise<void> {
-    const query = 'UPDATE users SET password = $1, updated_at = NOW() WHERE id = $2';
+    await pool.query(
+      'INSERT INTO password_history (user_id, password_hash) SELECT id, password FROM users WHERE id = $1',
+      [id]
+    );
+    const query = 'UPDATE users SET password = $1, password_changed_at = NOW(), updated_at = NOW() WHERE id = $2';
     await pool.query(query, [hashedPassword, id]);
   }
 
+  static async getPasswordStatus(id: number): Promise<{ password_changed_at: Date | null; sso_linked: boolean } | null> {
+    const query = `
+      SELECT u.password_changed_at,
+             EXISTS (SELECT 1 FROM user_sso_accounts usa WHERE usa.user_id = u.id) AS sso_linked
+      FROM users u
+      WHERE u.id = $1
+    `;
+    const result = await pool.query(query, [id]);
+    return result.rows[0] || null;
+  }
+
   static async update(id: number, updateData: Partial<User>): Promise<User | null> {
     const fields = Object.keys(updateData);
     const values = Object.values(updateData);
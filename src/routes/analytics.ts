@@ -1,10 +1,11 @@
 import express from 'express';
 import pool from '../config/database';
+import { requirePermission } from '../utils/permissionMiddleware';
 
 const router = express.Router();
 
 // Get total hostels onboarded
-router.get('/hostels/total', async (req, res) => {
+router.get('/hostels/total', requirePermission('analytics.view_platform'), async (req, res) => {
   try {
     const query = 'SELECT COUNT(*) as total_hostels FROM hostels';
     const result = await pool.query(query);
@@ -25,7 +26,7 @@ router.get('/hostels/total', async (req, res) => {
 });
 
 // Get total students across platform
-router.get('/students/total', async (req, res) => {
+router.get('/students/total', requirePermission('analytics.view_platform'), async (req, res) => {
   try {
     const query = `
       SELECT COUNT(*) as total_students 
@@ -50,7 +51,7 @@ router.get('/students/total', async (req, res) => {
 });
 
 // Get occupancy rates by hostel (prefer rooms table; fallback to hostels)
-router.get('/occupancy/rates', async (req, res) => {
+router.get('/occupancy/rates', requirePermission('analytics.view_platform'), async (req, res) => {
   try {
     const query = `
       WITH active_assignments AS (
@@ -87,7 +88,7 @@ router.get('/occupancy/rates', async (req, res) => {
 });
 
 // Get region-wise growth and adoption stats
-router.get('/regions/stats', async (req, res) => {
+router.get('/regions/stats', requirePermission('analytics.view_platform'), async (req, res) => {
   try {
     const query = `
       WITH active_assignments AS (
@@ -138,7 +139,7 @@ router.get('/regions/stats', async (req, res) => {
 });
 
 // Get overall platform statistics
-router.get('/overview', async (req, res) => {
+router.get('/overview', requirePermission('analytics.view_platform'), async (req, res) => {
   try {
     const query = `
       WITH active_assignments AS (
@@ -182,7 +183,7 @@ router.get('/overview', async (req, res) => {
 });
 
 // Hostel-specific overview: prefers rooms table; falls back to hostels row
-router.get('/hostel/:id/overview', async (req, res) => {
+router.get('/hostel/:id/overview', requirePermission('analytics.view_hostel'), async (req, res) => {
   try {
     const hostelId = Number(req.params.id);
     if (!Number.isFinite(hostelId)) {
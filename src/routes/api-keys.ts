@@ -0,0 +1,136 @@
+import express from 'express';
+import { User } from '../models/User';
+import { ApiKeyModel } from '../models/ApiKey';
+import { ApiKeyService, API_KEY_SCOPES } from '../services/apiKeyService';
+import { AuditService } from '../services/auditService';
+import { requirePermission, getCurrentUser, resolveTargetHostelId } from '../utils/permissionMiddleware';
+
+const router = express.Router();
+
+// Loads a key the caller may manage; super admins may manage any hostel's keys
+async function findManageableKey(req: express.Request, user: User) {
+  const apiKey = await ApiKeyModel.findById(parseInt(req.params.id));
+  if (!apiKey) return null;
+  if (user.role !== 'super_admin' && apiKey.hostel_id !== await resolveTargetHostelId(req, user)) return null;
+  return apiKey;
+}
+
+// Scopes that can be put on a key
+router.get('/scopes', requirePermission('api_keys.manage'), (req, res) => {
+  res.json({ success: true, data: API_KEY_SCOPES });
+});
+
+// List the hostel's API keys (never includes the key itself)
+router.get('/', requirePermission('api_keys.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const keys = await ApiKeyModel.listForHostel(hostelId);
+    res.json({ success: true, data: keys });
+  } catch (e) {
+    console.error('List API keys error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Create a key. The plaintext key is only returned in this response.
+router.post('/', requirePermission('api_keys.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const { name, scopes, expires_at } = req.body as any;
+    const keyName = typeof name === 'string' ? name.trim() : '';
+    if (!keyName || keyName.length > 100) {
+      return res.status(400).json({ success: false, message: 'Name is required (max 100 characters)' });
+    }
+    if (!Array.isArray(scopes) || !scopes.length) {
+      return res.status(400).json({ success: false, message: `At least one scope is required: ${API_KEY_SCOPES.join(', ')}` });
+    }
+    const invalid = scopes.filter((s: any) => typeof s !== 'string' || !ApiKeyService.isValidScope(s));
+    if (invalid.length) {
+      return res.status(400).json({ success: false, message: `Unknown scopes: ${invalid.join(', ')}` });
+    }
+
+    let expiresAt: Date | null = null;
+    if (expires_at) {
+      expiresAt = new Date(expires_at);
+      if (isNaN(expiresAt.getTime()) || expiresAt.getTime() <= Date.now()) {
+        return res.status(400).json({ success: false, message: 'expires_at must be a date in the future' });
+      }
+    }
+
+    const { key, apiKey } = await ApiKeyService.createKey(hostelId, keyName, scopes, currentUser.id, expiresAt);
+
+    await AuditService.record(req, {
+      action: 'api_key_create',
+      requesterUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'api_key',
+      entityId: apiKey.id,
+      after: { name: apiKey.name, key_prefix: apiKey.key_prefix, scopes: apiKey.scopes, expires_at: apiKey.expires_at }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Store this key now; it will not be shown again',
+      data: { ...apiKey, key }
+    });
+  } catch (e) {
+    console.error('Create API key error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Usage log of one key, newest first
+router.get('/:id/usage', requirePermission('api_keys.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const apiKey = await findManageableKey(req, currentUser);
+    if (!apiKey) return res.status(404).json({ success: false, message: 'API key not found' });
+
+    const page = Math.max(1, parseInt((req.query.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((req.query.limit as string) || '50', 10) || 50));
+    const { rows, total } = await ApiKeyModel.listUsage(apiKey.id, limit, (page - 1) * limit);
+
+    res.json({ success: true, data: rows, page, limit, total });
+  } catch (e) {
+    console.error('API key usage error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Revoke a key; it stops working immediately
+router.delete('/:id', requirePermission('api_keys.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const apiKey = await findManageableKey(req, currentUser);
+    if (!apiKey) return res.status(404).json({ success: false, message: 'API key not found' });
+
+    const revoked = await ApiKeyModel.revoke(apiKey.id);
+    if (!revoked) return res.status(400).json({ success: false, message: 'API key is already revoked' });
+
+    await AuditService.record(req, {
+      action: 'api_key_revoke',
+      requesterUserId: currentUser.id,
+      targetHostelId: apiKey.hostel_id,
+      entityType: 'api_key',
+      entityId: apiKey.id,
+      before: { name: apiKey.name, key_prefix: apiKey.key_prefix, scopes: apiKey.scopes }
+    });
+
+    res.json({ success: true, message: 'API key revoked' });
+  } catch (e) {
+    console.error('Revoke API key error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
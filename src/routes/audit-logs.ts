@@ -0,0 +1,91 @@
+import express from 'express';
+import pool from '../config/database';
+import { UserModel } from '../models/User';
+import { AuditLogModel, AuditLogFilters } from '../models/AuditLog';
+import { toCsv } from '../utils/csv';
+import { requirePermission } from '../utils/permissionMiddleware';
+
+const router = express.Router();
+
+const CSV_COLUMNS = [
+  'id', 'created_at', 'action', 'status', 'message',
+  'requester_user_id', 'requester_name', 'requester_email',
+  'target_user_id', 'target_user_name', 'target_hostel_id', 'target_hostel_name',
+  'entity_type', 'entity_id', 'before_data', 'after_data', 'ip_address', 'user_agent'
+];
+const CSV_MAX_ROWS = 10000;
+
+function parseDate(value: unknown): Date | undefined {
+  if (!value) return undefined;
+  const d = new Date(String(value));
+  return isNaN(d.getTime()) ? undefined : d;
+}
+
+function parseId(value: unknown): number | undefined {
+  const n = Number(value);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+}
+
+async function resolveHostelIdForUser(userId: number, role: string): Promise<number | null> {
+  if (role === 'hostel_admin') {
+    const u = await UserModel.findById(userId);
+    return u?.hostel_id || null;
+  }
+  if (role === 'custodian') {
+    const r = await pool.query('SELECT hostel_id FROM custodians WHERE user_id = $1', [userId]);
+    return r.rows[0]?.hostel_id || null;
+  }
+  return null;
+}
+
+// List audit logs: super_admin sees every hostel, other holders of audit_logs.view only their own. ?format=csv exports.
+router.get('/', requirePermission('audit_logs.view'), async (req, res) => {
+  try {
+    const rawAuth = req.headers.authorization || '';
+    const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
+    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
+    let decoded: any;
+    try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
+    const currentUser = await UserModel.findById(decoded.userId);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const q = req.query;
+    const filters: AuditLogFilters = {
+      action: q.action ? String(q.action) : undefined,
+      status: q.status === 'success' || q.status === 'failure' ? q.status : undefined,
+      requester_user_id: parseId(q.requester_user_id),
+      target_user_id: parseId(q.target_user_id),
+      target_hostel_id: parseId(q.hostel_id),
+      entity_type: q.entity_type ? String(q.entity_type) : undefined,
+      entity_id: q.entity_id ? String(q.entity_id) : undefined,
+      from: parseDate(q.from),
+      to: parseDate(q.to)
+    };
+
+    // Hostel staff are pinned to their hostel whatever hostel_id they ask for
+    if (currentUser.role !== 'super_admin') {
+      const hostelId = await resolveHostelIdForUser(currentUser.id, currentUser.role);
+      if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden: missing hostel context' });
+      filters.target_hostel_id = hostelId;
+    }
+
+    if (q.format === 'csv') {
+      const { rows } = await AuditLogModel.search(filters, CSV_MAX_ROWS, 0);
+      const filename = `audit-logs-${new Date().toISOString().slice(0, 10)}.csv`;
+      res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+      return res.send(toCsv(rows, CSV_COLUMNS));
+    }
+
+    const page = Math.max(1, parseInt((q.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((q.limit as string) || '20', 10) || 20));
+    const { rows, total } = await AuditLogModel.search(filters, limit, (page - 1) * limit);
+
+    res.json({ success: true, data: rows, page, limit, total });
+  } catch (e) {
+    console.error('List audit logs error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
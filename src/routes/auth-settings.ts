@@ -3,11 +3,12 @@ import { AuthSettingsModel } from '../models/AuthSettings';
 import { PasswordValidator } from '../utils/passwordValidator';
 import { TwoFactorAuth } from '../utils/twoFactorAuth';
 import bcrypt from 'bcryptjs';
+import { requirePermission } from '../utils/permissionMiddleware';
 
 const router = express.Router();
 
 // Get all authentication settings
-router.get('/settings', async (req, res) => {
+router.get('/settings', requirePermission('auth_settings.manage'), async (req, res) => {
   try {
     const settings = await AuthSettingsModel.getAllSettings();
     res.json({
@@ -24,7 +25,7 @@ router.get('/settings', async (req, res) => {
 });
 
 // Update authentication setting
-router.put('/settings/:key', async (req, res) => {
+router.put('/settings/:key', requirePermission('auth_settings.manage'), async (req, res) => {
   try {
     const { key } = req.params;
     const { value, type } = req.body;
@@ -44,7 +45,7 @@ router.put('/settings/:key', async (req, res) => {
   }
 });
 
-// Get password rules
+// Get password rules (public: password forms show them before sign-in)
 router.get('/password-rules', async (req, res) => {
   try {
     const rules = await AuthSettingsModel.getPasswordRules();
@@ -62,7 +63,7 @@ router.get('/password-rules', async (req, res) => {
 });
 
 // Update password rules
-router.put('/password-rules/:ruleName', async (req, res) => {
+router.put('/password-rules/:ruleName', requirePermission('auth_settings.manage'), async (req, res) => {
   try {
     const { ruleName } = req.params;
     const rules = req.body;
@@ -131,7 +132,7 @@ router.post('/generate-password', async (req, res) => {
 });
 
 // Get 2FA settings
-router.get('/2fa/settings', async (req, res) => {
+router.get('/2fa/settings', requirePermission('auth_settings.manage'), async (req, res) => {
   try {
     const settings = await AuthSettingsModel.getTwoFactorSettings();
     res.json({
@@ -148,7 +149,7 @@ router.get('/2fa/settings', async (req, res) => {
 });
 
 // Update 2FA settings
-router.put('/2fa/settings', async (req, res) => {
+router.put('/2fa/settings', requirePermission('auth_settings.manage'), async (req, res) => {
   try {
     const settings = req.body;
     
@@ -169,7 +170,7 @@ router.put('/2fa/settings', async (req, res) => {
 });
 
 // Setup 2FA for user
-router.post('/2fa/setup/:userId', async (req, res) => {
+router.post('/2fa/setup/:userId', requirePermission('auth_settings.manage', { allowSelfParam: 'userId' }), async (req, res) => {
   try {
     const { userId } = req.params;
     const { email } = req.body;
@@ -201,7 +202,7 @@ router.post('/2fa/setup/:userId', async (req, res) => {
 });
 
 // Verify 2FA token
-router.post('/2fa/verify/:userId', async (req, res) => {
+router.post('/2fa/verify/:userId', requirePermission('auth_settings.manage', { allowSelfParam: 'userId' }), async (req, res) => {
   try {
     const { userId } = req.params;
     const { token } = req.body;
@@ -215,19 +216,15 @@ router.post('/2fa/verify/:userId', async (req, res) => {
       });
     }
     
-    const verification = TwoFactorAuth.verifyTwoFactor(
-      user2FA.secret_key,
-      token,
-      user2FA.backup_codes || []
-    );
+    // A backup code is only accepted if this request is the one that burns it
+    const totpValid = TwoFactorAuth.verifyToken(user2FA.secret_key, token);
+    if (totpValid) await AuthSettingsModel.recordTwoFactorUse(parseInt(userId));
+    const backupCodeUsed = !totpValid && await AuthSettingsModel.consumeBackupCode(parseInt(userId), token);
     
-    if (verification.isValid) {
-      // Update last used timestamp
-      await AuthSettingsModel.getUserTwoFactor(parseInt(userId));
-      
+    if (totpValid || backupCodeUsed) {
       res.json({
         success: true,
-        data: { verified: true, backupCodeUsed: verification.backupCodeUsed }
+        data: { verified: true, backupCodeUsed: backupCodeUsed || undefined }
       });
     } else {
       res.json({
@@ -245,7 +242,7 @@ router.post('/2fa/verify/:userId', async (req, res) => {
 });
 
 // Enable 2FA for user
-router.post('/2fa/enable/:userId', async (req, res) => {
+router.post('/2fa/enable/:userId', requirePermission('auth_settings.manage', { allowSelfParam: 'userId' }), async (req, res) => {
   try {
     const { userId } = req.params;
     
@@ -265,7 +262,7 @@ router.post('/2fa/enable/:userId', async (req, res) => {
 });
 
 // Disable 2FA for user
-router.post('/2fa/disable/:userId', async (req, res) => {
+router.post('/2fa/disable/:userId', requirePermission('auth_settings.manage', { allowSelfParam: 'userId' }), async (req, res) => {
   try {
     const { userId } = req.params;
     
@@ -285,7 +282,7 @@ router.post('/2fa/disable/:userId', async (req, res) => {
 });
 
 // Get SSO providers
-router.get('/sso/providers', async (req, res) => {
+router.get('/sso/providers', requirePermission('auth_settings.manage'), async (req, res) => {
   try {
     const providers = await AuthSettingsModel.getSSOProviders();
     res.json({
@@ -302,7 +299,7 @@ router.get('/sso/providers', async (req, res) => {
 });
 
 // Create SSO provider
-router.post('/sso/providers', async (req, res) => {
+router.post('/sso/providers', requirePermission('auth_settings.manage'), async (req, res) => {
   try {
     const provider = req.body;
     
@@ -323,7 +320,7 @@ router.post('/sso/providers', async (req, res) => {
 });
 
 // Update SSO provider
-router.put('/sso/providers/:id', async (req, res) => {
+router.put('/sso/providers/:id', requirePermission('auth_settings.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     const provider = req.body;
@@ -352,7 +349,7 @@ router.put('/sso/providers/:id', async (req, res) => {
 });
 
 // Delete SSO provider
-router.delete('/sso/providers/:id', async (req, res) => {
+router.delete('/sso/providers/:id', requirePermission('auth_settings.manage'), async (req, res) => {
   try {
     const { id } = req.params;
     
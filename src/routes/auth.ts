@@ -1,12 +1,23 @@
 import express from 'express';
 import bcrypt from 'bcryptjs';
 import jwt, { SignOptions } from 'jsonwebtoken';
-import { UserModel } from '../models/User';
+import { UserModel, User } from '../models/User';
+import { AuthSettingsModel } from '../models/AuthSettings';
+import { TwoFactorAuth } from '../utils/twoFactorAuth';
+import { PasswordValidator } from '../utils/passwordValidator';
 import { EmailService } from '../services/emailService';
+import { SSOService, SSO_LOGIN_STATE_TTL_MINUTES } from '../services/ssoService';
+import { LdapService } from '../services/ldapService';
+import { SessionService } from '../services/sessionService';
+import { SessionModel } from '../models/Session';
+import { LoginProtectionService } from '../services/loginProtectionService';
+import { AuditService } from '../services/auditService';
+import { PermissionService } from '../services/permissionService';
 import fetch from 'node-fetch';
 import multer from 'multer';
 import path from 'path';
 import fs from 'fs';
+import crypto from 'crypto';
 import pool from '../config/database';
 
 const router = express.Router();
@@ -82,96 +93,419 @@ async function verifyTurnstile(token: string, remoteip?: string): Promise<boolea
   }
 }
 
+type LoginEligibility =
+  | { allowed: true; hostelId: number | null; subscriptionWarningDays: number | null }
+  | { allowed: false; error: { success: false; message: string; code: string } };
+
+// Resolve the user's hostel and enforce subscription status for hostel_admin and custodian
+async function checkLoginEligibility(user: User): Promise<LoginEligibility> {
+  // For custodians, get hostel_id from custodians table if not in users table
+  let hostelId = user.hostel_id || null;
+  if (!hostelId && user.role === 'custodian') {
+    const custodianResult = await pool.query('SELECT hostel_id FROM custodians WHERE user_id = $1', [user.id]);
+    hostelId = custodianResult.rows[0]?.hostel_id || null;
+  }
+
+  let subscriptionWarningDays: number | null = null;
+  if ((user.role === 'hostel_admin' || user.role === 'custodian') && hostelId) {
+    // Fetch current or latest subscription for the user's hostel
+    const subResult = await pool.query(
+      `SELECT hs.id, hs.status, hs.end_date
+       FROM hostels h
+       LEFT JOIN hostel_subscriptions hs ON h.current_subscription_id = hs.id
+       WHERE h.id = $1`,
+      [hostelId]
+    );
+
+    let sub = subResult.rows[0];
+    if (!sub) {
+      // Fallback: latest subscription by end_date
+      const fallback = await pool.query(
+        `SELECT id, status, end_date
+         FROM hostel_subscriptions
+         WHERE hostel_id = $1
+         ORDER BY end_date DESC
+         LIMIT 1`,
+        [hostelId]
+      );
+      sub = fallback.rows[0];
+    }
+
+    if (sub) {
+      const endDate = sub.end_date ? new Date(sub.end_date) : null;
+      const now = new Date();
+      const msPerDay = 1000 * 60 * 60 * 24;
+      const daysLeft = endDate ? Math.ceil((endDate.getTime() - now.getTime()) / msPerDay) : -1;
+
+      // Block login if expired or status not active
+      if (sub.status !== 'active' || !endDate || endDate < now) {
+        return {
+          allowed: false,
+          error: {
+            success: false,
+            message: 'This hostel\'s subscription has expired. Please contact the Super Admin to renew your subscription.',
+            code: 'SUBSCRIPTION_EXPIRED'
+          }
+        };
+      }
+
+      // Warn if <= 30 days remain
+      if (daysLeft <= 30) {
+        subscriptionWarningDays = daysLeft;
+      }
+    } else {
+      // No subscription found at all -> block login
+      return {
+        allowed: false,
+        error: {
+          success: false,
+          message: 'This hostel has no active subscription. Please contact the Super Admin to subscribe.',
+          code: 'SUBSCRIPTION_MISSING'
+        }
+      };
+    }
+  }
+
+  return { allowed: true, hostelId, subscriptionWarningDays };
+}
+
+async function sendLoginSuccess(req: express.Request, res: express.Response, user: User, eligibility: { hostelId: number | null; subscriptionWarningDays: number | null }) {
+  const { hostelId, subscriptionWarningDays } = eligibility;
+  await LoginProtectionService.recordSuccess(user.id);
+  const passwordExpired = await PasswordValidator.isPasswordExpired(user.id);
+  const session = await SessionService.createSession(user, hostelId, req, passwordExpired);
+  await AuditService.record(req, {
+    action: 'login', requesterUserId: user.id, targetUserId: user.id, targetHostelId: hostelId,
+    entityType: 'session', entityId: session.sessionId
+  });
+
+  res.json({ success: true, token: session.accessToken, refresh_token: session.refreshToken, expires_in: session.expiresIn,
+    ...(passwordExpired ? { code: 'PASSWORD_EXPIRED', password_expired: true, message: 'Your password has expired. Please change it to continue.' } : {}),
+    user: { id: user.id, email: user.email, name: user.name, role: user.role, hostel_id: hostelId || null, profile_picture: user.profile_picture },
+    warning: subscriptionWarningDays !== null ? { type: 'subscription_expiring', daysLeft: subscriptionWarningDays } : undefined
+  });
+}
+
+const TWO_FACTOR_CHALLENGE_TTL = '5m';
+
+// 2FA applies when the user turned it on, or when the global policy requires it for their role
+async function getTwoFactorRequirement(user: User): Promise<{ required: boolean; setupRequired: boolean }> {
+  const user2FA = await AuthSettingsModel.getUserTwoFactor(user.id);
+  if (user2FA?.is_enabled && user2FA.secret_key) {
+    return { required: true, setupRequired: false };
+  }
+  const settings = await AuthSettingsModel.getTwoFactorSettings();
+  if (TwoFactorAuth.isRequiredByPolicy(user.role, settings)) {
+    return { required: true, setupRequired: true };
+  }
+  return { required: false, setupRequired: false };
+}
+
+// Challenges use a derived secret so they can never pass as access tokens on other routes
+function twoFactorChallengeSecret(): string {
+  return `${process.env.JWT_SECRET || 'fallback_secret'}:2fa_challenge`;
+}
+
+function signTwoFactorChallenge(userId: number, setup: boolean): string {
+  return jwt.sign({ userId, purpose: '2fa_challenge', setup }, twoFactorChallengeSecret(), { expiresIn: TWO_FACTOR_CHALLENGE_TTL });
+}
+
+function verifyTwoFactorChallenge(token: string): { userId: number; setup: boolean } | null {
+  try {
+    const decoded: any = jwt.verify(token, twoFactorChallengeSecret());
+    if (decoded.purpose !== '2fa_challenge') return null;
+    return { userId: decoded.userId, setup: !!decoded.setup };
+  } catch {
+    return null;
+  }
+}
+
+// Shared tail of every primary login method: subscription checks, then 2FA challenge or token
+async function completeLogin(req: express.Request, res: express.Response, user: User) {
+  const eligibility = await checkLoginEligibility(user);
+  if (!eligibility.allowed) return res.status(403).json(eligibility.error);
+
+  // Second factor: hand out a short-lived challenge instead of the real token
+  const twoFactor = await getTwoFactorRequirement(user);
+  if (twoFactor.required) {
+    return res.json({
+      success: true,
+      requires_2fa: true,
+      setup_required: twoFactor.setupRequired,
+      challenge_token: signTwoFactorChallenge(user.id, twoFactor.setupRequired),
+      message: twoFactor.setupRequired
+        ? 'Two-factor authentication must be set up before you can sign in'
+        : 'Enter the code from your authenticator app or a backup code'
+    });
+  }
+
+  await sendLoginSuccess(req, res, user, eligibility);
+}
+
+function clientIp(req: express.Request): string {
+  return req.ip || req.socket.remoteAddress || 'unknown';
+}
+
+// 429 with Retry-After while an account or IP is locked out
+function sendLockedOut(res: express.Response, retryAfterSeconds: number, code: 'ACCOUNT_LOCKED' | 'IP_BLOCKED') {
+  res.setHeader('Retry-After', String(retryAfterSeconds));
+  return res.status(429).json({
+    success: false,
+    message: code === 'ACCOUNT_LOCKED'
+      ? `Too many failed sign-in attempts. Try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`
+      : `Too many failed sign-in attempts from this network. Try again in ${Math.ceil(retryAfterSeconds / 60)} minute(s).`,
+    code,
+    retry_after: retryAfterSeconds
+  });
+}
+
+// Failed logins are audited with the attempted identifier; the requester is unknown until credentials check out
+async function recordFailedLogin(req: express.Request, identifier: string, reason: string, user?: User, accountLocked = false) {
+  await AuditService.record(req, {
+    action: 'login_failed',
+    targetUserId: user?.id ?? null,
+    targetHostelId: user?.hostel_id ?? null,
+    status: 'failure',
+    message: accountLocked ? `${reason}; account locked` : reason,
+    after: { identifier }
+  });
+}
+
 // Login endpoint (accepts email or username as identifier)
 router.post('/login', async (req, res) => {
   try {
-    const { identifier, password, cf_turnstile_token } = req.body as any;
+    const { identifier, password, cf_turnstile_token, provider_id } = req.body as any;
     if (!identifier || !password) return res.status(400).json({ success: false, message: 'Missing credentials' });
 
     // Turnstile check (if configured)
     const ok = await verifyTurnstile(cf_turnstile_token, req.ip);
     if (!ok) return res.status(400).json({ success: false, message: 'Captcha verification failed' });
 
+    const ip = clientIp(req);
+    const ipRetryAfter = await LoginProtectionService.getRetryAfterSeconds('ip', ip);
+    if (ipRetryAfter > 0) return sendLockedOut(res, ipRetryAfter, 'IP_BLOCKED');
+
+    // Directory login: credentials are checked against the LDAP provider instead of the local hash
+    if (provider_id) {
+      const ldap = await LdapService.authenticate(Number(provider_id), String(identifier), String(password));
+      if (!ldap.success) {
+        if (ldap.status === 401) {
+          await LoginProtectionService.recordFailure(ip);
+          await recordFailedLogin(req, String(identifier), 'Directory authentication failed');
+        }
+        return res.status(ldap.status).json({ success: false, message: ldap.message });
+      }
+      const retryAfter = await LoginProtectionService.getRetryAfterSeconds('account', String(ldap.user.id));
+      if (retryAfter > 0) return sendLockedOut(res, retryAfter, 'ACCOUNT_LOCKED');
+      return await completeLogin(req, res, ldap.user);
+    }
+
     const userByEmail = await UserModel.findByEmail(identifier);
     const user = userByEmail || await UserModel.findByUsername(identifier);
-    if (!user) return res.status(401).json({ success: false, message: 'Invalid credentials' });
+    if (!user) {
+      await LoginProtectionService.recordFailure(ip);
+      await recordFailedLogin(req, String(identifier), 'Unknown account');
+      return res.status(401).json({ success: false, message: 'Invalid credentials' });
+    }
 
-    const isMatch = await bcrypt.compare(password, user.password);
-    if (!isMatch) return res.status(401).json({ success: false, message: 'Invalid credentials' });
+    // Checked before the password so a locked account cannot be probed with guesses
+    const retryAfter = await LoginProtectionService.getRetryAfterSeconds('account', String(user.id));
+    if (retryAfter > 0) return sendLockedOut(res, retryAfter, 'ACCOUNT_LOCKED');
 
-    // For custodians, get hostel_id from custodians table if not in users table
-    let hostelId = user.hostel_id || null;
-    if (!hostelId && user.role === 'custodian') {
-      const custodianResult = await pool.query('SELECT hostel_id FROM custodians WHERE user_id = $1', [user.id]);
-      hostelId = custodianResult.rows[0]?.hostel_id || null;
+    const isMatch = await bcrypt.compare(password, user.password);
+    if (!isMatch) {
+      const { accountLocked } = await LoginProtectionService.recordFailure(ip, user);
+      await recordFailedLogin(req, String(identifier), 'Invalid password', user, accountLocked);
+      if (accountLocked) {
+        return sendLockedOut(res, await LoginProtectionService.getRetryAfterSeconds('account', String(user.id)), 'ACCOUNT_LOCKED');
+      }
+      return res.status(401).json({ success: false, message: 'Invalid credentials' });
     }
 
-    // Enforce subscription status for hostel_admin and custodian
-    let subscriptionWarningDays: number | null = null;
-    if ((user.role === 'hostel_admin' || user.role === 'custodian') && hostelId) {
-      // Fetch current or latest subscription for the user's hostel
-      const subResult = await pool.query(
-        `SELECT hs.id, hs.status, hs.end_date
-         FROM hostels h
-         LEFT JOIN hostel_subscriptions hs ON h.current_subscription_id = hs.id
-         WHERE h.id = $1`,
-        [hostelId]
-      );
+    await completeLogin(req, res, user);
+  } catch (e) {
+    console.error('Login error:', e);
+    console.error('Login error details:', JSON.stringify(e, null, 2));
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Begin 2FA enrollment for a user whose login was challenged with setup_required
+router.post('/login/2fa/setup', async (req, res) => {
+  try {
+    const { challenge_token } = req.body as any;
+    const challenge = challenge_token ? verifyTwoFactorChallenge(challenge_token) : null;
+    if (!challenge) return res.status(401).json({ success: false, message: 'Invalid or expired challenge' });
+    if (!challenge.setup) return res.status(400).json({ success: false, message: 'Two-factor authentication is already set up' });
+
+    const user = await UserModel.findById(challenge.userId);
+    if (!user) return res.status(401).json({ success: false, message: 'Invalid or expired challenge' });
 
-      let sub = subResult.rows[0];
-      if (!sub) {
-        // Fallback: latest subscription by end_date
-        const fallback = await pool.query(
-          `SELECT id, status, end_date
-           FROM hostel_subscriptions
-           WHERE hostel_id = $1
-           ORDER BY end_date DESC
-           LIMIT 1`,
-          [hostelId]
-        );
-        sub = fallback.rows[0];
+    // A stale setup challenge must not be able to replace an already enabled secret
+    const existing = await AuthSettingsModel.getUserTwoFactor(user.id);
+    if (existing?.is_enabled) return res.status(400).json({ success: false, message: 'Two-factor authentication is already set up' });
+
+    const setup = await TwoFactorAuth.setupTwoFactor(user.email);
+    await AuthSettingsModel.createUserTwoFactor(user.id, setup.secret, setup.backupCodes);
+
+    res.json({
+      success: true,
+      data: {
+        qrCodeUrl: setup.qrCodeUrl,
+        manualEntryKey: setup.manualEntryKey,
+        backupCodes: setup.backupCodes
       }
+    });
+  } catch (e) {
+    console.error('Login 2FA setup error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
 
-      if (sub) {
-        const endDate = sub.end_date ? new Date(sub.end_date) : null;
-        const now = new Date();
-        const msPerDay = 1000 * 60 * 60 * 24;
-        const daysLeft = endDate ? Math.ceil((endDate.getTime() - now.getTime()) / msPerDay) : -1;
+// Complete login with a TOTP code or a one-time backup code
+router.post('/login/2fa', async (req, res) => {
+  try {
+    const { challenge_token, code } = req.body as any;
+    if (!challenge_token || !code) return res.status(400).json({ success: false, message: 'challenge_token and code are required' });
 
-        // Block login if expired or status not active
-        if (sub.status !== 'active' || !endDate || endDate < now) {
-          return res.status(403).json({
-            success: false,
-            message: 'This hostel\'s subscription has expired. Please contact the Super Admin to renew your subscription.',
-            code: 'SUBSCRIPTION_EXPIRED'
-          });
-        }
+    const challenge = verifyTwoFactorChallenge(challenge_token);
+    if (!challenge) return res.status(401).json({ success: false, message: 'Invalid or expired challenge' });
 
-        // Warn if <= 30 days remain
-        if (daysLeft <= 30) {
-          subscriptionWarningDays = daysLeft;
-        }
-      } else {
-        // No subscription found at all -> block login
-        return res.status(403).json({
-          success: false,
-          message: 'This hostel has no active subscription. Please contact the Super Admin to subscribe.',
-          code: 'SUBSCRIPTION_MISSING'
-        });
+    const user = await UserModel.findById(challenge.userId);
+    if (!user) return res.status(401).json({ success: false, message: 'Invalid or expired challenge' });
+
+    // Wrong codes count towards the same lockout as wrong passwords
+    const retryAfter = await LoginProtectionService.getRetryAfterSeconds('account', String(user.id));
+    if (retryAfter > 0) return sendLockedOut(res, retryAfter, 'ACCOUNT_LOCKED');
+
+    const user2FA = await AuthSettingsModel.getUserTwoFactor(user.id);
+    if (!user2FA || !user2FA.secret_key) {
+      return res.status(400).json({ success: false, message: '2FA not set up for this user' });
+    }
+
+    const token = String(code).trim();
+    if (challenge.setup) {
+      // Enrollment must be confirmed with the authenticator app, not a backup code
+      if (!TwoFactorAuth.verifyToken(user2FA.secret_key, token)) {
+        const { accountLocked } = await LoginProtectionService.recordFailure(clientIp(req), user);
+        await recordFailedLogin(req, user.email, 'Invalid two-factor code', user, accountLocked);
+        return res.status(401).json({ success: false, message: 'Invalid code' });
+      }
+      await AuthSettingsModel.enableUserTwoFactor(user.id);
+      await AuthSettingsModel.recordTwoFactorUse(user.id);
+    } else {
+      if (!user2FA.is_enabled) return res.status(400).json({ success: false, message: '2FA not enabled for this user' });
+      const totpValid = TwoFactorAuth.verifyToken(user2FA.secret_key, token);
+      if (totpValid) {
+        await AuthSettingsModel.recordTwoFactorUse(user.id);
+      } else if (!(await AuthSettingsModel.consumeBackupCode(user.id, token.toUpperCase()))) {
+        const { accountLocked } = await LoginProtectionService.recordFailure(clientIp(req), user);
+        await recordFailedLogin(req, user.email, 'Invalid two-factor code', user, accountLocked);
+        return res.status(401).json({ success: false, message: 'Invalid code' });
       }
     }
 
-    const token = jwt.sign({ userId: user.id, role: user.role, hostel_id: hostelId || null }, process.env.JWT_SECRET || 'fallback_secret', { expiresIn: '12h' });
+    // Subscription state may have changed since the password step
+    const eligibility = await checkLoginEligibility(user);
+    if (!eligibility.allowed) return res.status(403).json(eligibility.error);
 
-    res.json({ success: true, token, user: { id: user.id, email: user.email, name: user.name, role: user.role, hostel_id: hostelId || null, profile_picture: user.profile_picture },
-      warning: subscriptionWarningDays !== null ? { type: 'subscription_expiring', daysLeft: subscriptionWarningDays } : undefined
+    await sendLoginSuccess(req, res, user, eligibility);
+  } catch (e) {
+    console.error('Login 2FA error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// List enabled SSO providers for the login page (no secrets)
+// oauth2 providers use /sso/:providerId/start; ldap providers pass provider_id to /login
+router.get('/sso/providers', async (req, res) => {
+  try {
+    const providers = await AuthSettingsModel.getSSOProviders();
+    res.json({
+      success: true,
+      data: providers
+        .filter(p => p.is_enabled && (p.provider_type === 'oauth2' || p.provider_type === 'ldap'))
+        .map(p => ({ id: p.id, name: p.name, provider_type: p.provider_type }))
     });
   } catch (e) {
-    console.error('Login error:', e);
-    console.error('Login error details:', JSON.stringify(e, null, 2));
+    console.error('List SSO providers error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// The state of the SSO login this browser started; the callback only accepts that state
+const SSO_STATE_COOKIE = 'sso_state';
+const SSO_STATE_COOKIE_PATH = '/api/auth/sso';
+
+function readCookie(req: express.Request, name: string): string | null {
+  for (const part of (req.headers.cookie || '').split(';')) {
+    const index = part.indexOf('=');
+    if (index > -1 && part.slice(0, index).trim() === name) return decodeURIComponent(part.slice(index + 1).trim());
+  }
+  return null;
+}
+
+function stateMatchesCookie(req: express.Request, state: string): boolean {
+  const cookie = readCookie(req, SSO_STATE_COOKIE);
+  if (!cookie) return false;
+  const expected = Buffer.from(cookie);
+  const received = Buffer.from(state);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+// Start the authorization-code flow (PKCE + state) for an SSO provider.
+// The state is also set as a cookie, so API clients must call this with credentials from the browser that will log in.
+router.get('/sso/:providerId/start', async (req, res) => {
+  try {
+    const providerId = Number(req.params.providerId);
+    if (!Number.isFinite(providerId)) return res.status(400).json({ success: false, message: 'Invalid provider id' });
+
+    const result = await SSOService.startLogin(providerId);
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+
+    // SameSite=Lax still sends the cookie on the provider's top-level redirect back to the callback
+    res.cookie(SSO_STATE_COOKIE, result.state, {
+      httpOnly: true,
+      sameSite: 'lax',
+      secure: req.secure || process.env.NODE_ENV === 'production',
+      path: SSO_STATE_COOKIE_PATH,
+      maxAge: SSO_LOGIN_STATE_TTL_MINUTES * 60 * 1000
+    });
+
+    // Browsers navigating here directly are sent straight to the provider; API clients get the URL back
+    if (req.query.redirect === 'true') return res.redirect(result.authorizationUrl);
+    res.json({ success: true, data: { authorization_url: result.authorizationUrl, state: result.state } });
+  } catch (e) {
+    console.error('SSO start error:', e);
     res.status(500).json({ success: false, message: 'Internal server error' });
   }
 });
+
+// Provider redirect target: exchange the code and log the mapped user in like /login does
+router.get('/sso/:providerId/callback', async (req, res) => {
+  try {
+    const providerId = Number(req.params.providerId);
+    const { code, state, error, error_description } = req.query as Record<string, string | undefined>;
+    if (error) return res.status(400).json({ success: false, message: error_description || error });
+    if (!Number.isFinite(providerId) || !code || !state) {
+      return res.status(400).json({ success: false, message: 'Missing code or state' });
+    }
+    const startedHere = stateMatchesCookie(req, state);
+    res.clearCookie(SSO_STATE_COOKIE, { path: SSO_STATE_COOKIE_PATH });
+    if (!startedHere) {
+      return res.status(400).json({ success: false, message: 'SSO login must be completed in the browser that started it' });
+    }
+
+    const result = await SSOService.completeLogin(providerId, state, code);
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+
+    await completeLogin(req, res, result.user);
+  } catch (e) {
+    console.error('SSO callback error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
 // Change username
 router.post('/change-username', async (req, res) => {
   try {
@@ -244,7 +578,8 @@ router.get('/me', async (req, res) => {
       name: user.name,
       role: user.role,
       hostel_id: hostelId,
-      profile_picture: user.profile_picture
+      profile_picture: user.profile_picture,
+      permissions: await PermissionService.getUserPermissions(user)
     };
     console.log('/auth/me - Returning user:', responseUser);
     res.json({
@@ -263,12 +598,215 @@ router.get('/me', async (req, res) => {
   }
 });
 
-// Logout endpoint (client-side token removal)
-router.post('/logout', (req, res) => {
-  res.json({
-    success: true,
-    message: 'Logout successful'
-  });
+// Exchange a refresh token for a new access token; the refresh token is rotated on every call
+router.post('/refresh', async (req, res) => {
+  try {
+    const { refresh_token } = req.body as any;
+    if (!refresh_token) return res.status(400).json({ success: false, message: 'refresh_token is required' });
+
+    const result = await SessionService.rotateRefreshToken(String(refresh_token), req);
+    if (!result.success) return res.status(401).json({ success: false, message: result.message, code: 'SESSION_REVOKED' });
+
+    const user = await UserModel.findById(result.session.user_id);
+    if (!user) return res.status(401).json({ success: false, message: 'User not found', code: 'SESSION_REVOKED' });
+
+    // Role, hostel and subscription are re-read so a refreshed token never outlives a change to them
+    const eligibility = await checkLoginEligibility(user);
+    if (!eligibility.allowed) {
+      await SessionModel.revoke(result.session.id, 'subscription_inactive');
+      return res.status(403).json(eligibility.error);
+    }
+
+    const passwordExpired = await PasswordValidator.isPasswordExpired(user.id);
+    res.json({
+      success: true,
+      token: SessionService.signAccessToken(user, eligibility.hostelId, result.session.id, passwordExpired),
+      refresh_token: result.refreshToken,
+      expires_in: result.expiresIn,
+      ...(passwordExpired ? { code: 'PASSWORD_EXPIRED', password_expired: true } : {})
+    });
+  } catch (e) {
+    console.error('Refresh token error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Logout: revoke the current session (identified by the access token or the refresh token)
+router.post('/logout', async (req, res) => {
+  try {
+    const token = getToken(req);
+    const decoded = token ? verifyToken(token) : null;
+    const { refresh_token } = req.body as any;
+
+    if (decoded?.sid) {
+      await SessionModel.revoke(Number(decoded.sid), 'logout');
+    } else if (refresh_token) {
+      await SessionService.revokeByRefreshToken(String(refresh_token), 'logout');
+    }
+
+    res.json({
+      success: true,
+      message: 'Logout successful'
+    });
+  } catch (e) {
+    console.error('Logout error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Logout everywhere: revoke every session of the current user
+router.post('/logout-all', async (req, res) => {
+  try {
+    const token = getToken(req);
+    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
+    const decoded = verifyToken(token);
+    if (!decoded?.userId) return res.status(401).json({ success: false, message: 'Invalid token' });
+
+    const revoked = await SessionModel.revokeAllForUser(decoded.userId, 'logout_all');
+    res.json({ success: true, message: 'Logged out of all sessions', data: { revoked } });
+  } catch (e) {
+    console.error('Logout all error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Shape a session row for the device list, flagging the one the caller is using
+function toSessionView(session: { id: number; ip_address?: string | null; user_agent?: string | null; created_at: Date; last_used_at: Date; expires_at: Date }, currentSessionId?: number) {
+  return {
+    id: session.id,
+    user_agent: session.user_agent || null,
+    ip_address: session.ip_address || null,
+    created_at: session.created_at,
+    last_seen_at: session.last_used_at,
+    expires_at: session.expires_at,
+    is_current: session.id === currentSessionId
+  };
+}
+
+// List the current user's active sessions (devices)
+router.get('/sessions', async (req, res) => {
+  try {
+    const token = getToken(req);
+    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
+    const decoded = verifyToken(token);
+    if (!decoded?.userId) return res.status(401).json({ success: false, message: 'Invalid token' });
+
+    const sessions = await SessionModel.listActiveForUser(decoded.userId);
+    res.json({ success: true, data: sessions.map(s => toSessionView(s, Number(decoded.sid))) });
+  } catch (e) {
+    console.error('List sessions error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Revoke one of the current user's sessions
+router.delete('/sessions/:sessionId', async (req, res) => {
+  try {
+    const token = getToken(req);
+    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
+    const decoded = verifyToken(token);
+    if (!decoded?.userId) return res.status(401).json({ success: false, message: 'Invalid token' });
+
+    const revoked = await SessionModel.revokeForUser(Number(req.params.sessionId), decoded.userId, 'revoked_by_user');
+    if (!revoked) return res.status(404).json({ success: false, message: 'Session not found' });
+    res.json({ success: true, message: 'Session revoked' });
+  } catch (e) {
+    console.error('Revoke session error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Super admin: resolve the caller from the database rather than trusting the token role
+async function requireUserPermission(req: express.Request, res: express.Response, permission: string): Promise<User | null> {
+  const token = getToken(req);
+  if (!token) {
+    res.status(401).json({ success: false, message: 'No token provided' });
+    return null;
+  }
+  const decoded = verifyToken(token);
+  const currentUser = decoded?.userId ? await UserModel.findById(decoded.userId) : null;
+  if (!currentUser || !(await PermissionService.hasPermission(currentUser, permission))) {
+    res.status(403).json({ success: false, message: 'Access denied' });
+    return null;
+  }
+  return currentUser;
+}
+
+// Admin (users.manage_sessions): list a user's active sessions
+router.get('/users/:userId/sessions', async (req, res) => {
+  try {
+    const admin = await requireUserPermission(req, res, 'users.manage_sessions');
+    if (!admin) return;
+
+    const target = await UserModel.findById(Number(req.params.userId));
+    if (!target) return res.status(404).json({ success: false, message: 'User not found' });
+
+    const sessions = await SessionModel.listActiveForUser(target.id);
+    res.json({
+      success: true,
+      data: {
+        user: { id: target.id, name: target.name, email: target.email, role: target.role },
+        sessions: sessions.map(s => toSessionView(s))
+      }
+    });
+  } catch (e) {
+    console.error('List user sessions error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Admin (users.manage_sessions): revoke one session of a user
+router.delete('/users/:userId/sessions/:sessionId', async (req, res) => {
+  try {
+    const admin = await requireUserPermission(req, res, 'users.manage_sessions');
+    if (!admin) return;
+
+    const revoked = await SessionModel.revokeForUser(Number(req.params.sessionId), Number(req.params.userId), 'revoked_by_admin');
+    if (!revoked) return res.status(404).json({ success: false, message: 'Session not found' });
+    res.json({ success: true, message: 'Session revoked' });
+  } catch (e) {
+    console.error('Admin revoke session error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Admin (users.manage_sessions): revoke every session of a user (e.g. a compromised account)
+router.delete('/users/:userId/sessions', async (req, res) => {
+  try {
+    const admin = await requireUserPermission(req, res, 'users.manage_sessions');
+    if (!admin) return;
+
+    const revoked = await SessionModel.revokeAllForUser(Number(req.params.userId), 'revoked_by_admin');
+    res.json({ success: true, message: 'All sessions revoked', data: { revoked } });
+  } catch (e) {
+    console.error('Admin revoke all sessions error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Admin (users.unlock): lift a lockout on a user's account (and optionally on an IP address)
+router.post('/users/:userId/unlock', async (req, res) => {
+  try {
+    const admin = await requireUserPermission(req, res, 'users.unlock');
+    if (!admin) return;
+
+    const target = await UserModel.findById(Number(req.params.userId));
+    if (!target) return res.status(404).json({ success: false, message: 'User not found' });
+
+    const accountUnlocked = await LoginProtectionService.unlockAccount(target.id);
+    const { ip } = req.body as any;
+    const ipUnlocked = ip ? await LoginProtectionService.unlockIp(String(ip)) : false;
+
+    await AuditService.record(req, {
+      action: 'account_unlock', requesterUserId: admin.id, targetUserId: target.id, targetHostelId: target.hostel_id ?? null,
+      after: { account_unlocked: accountUnlocked, ip: ip || null, ip_unlocked: ipUnlocked }
+    });
+
+    res.json({ success: true, message: 'Account unlocked', data: { account_unlocked: accountUnlocked, ip_unlocked: ipUnlocked } });
+  } catch (e) {
+    console.error('Unlock account error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
 });
 
 // Change password
@@ -295,6 +833,13 @@ router.post('/change-password', async (req, res) => {
       });
     }
 
+    if (!currentPassword || !newPassword) {
+      return res.status(400).json({
+        success: false,
+        message: 'Current and new password are required'
+      });
+    }
+
     // Verify current password
     const isCurrentPasswordValid = await bcrypt.compare(currentPassword, user.password);
     if (!isCurrentPasswordValid) {
@@ -304,12 +849,24 @@ router.post('/change-password', async (req, res) => {
       });
     }
 
+    // Complexity rules and password history
+    const validation = await PasswordValidator.validateNewPassword(user.id, newPassword, { name: user.name, email: user.email }, user.password);
+    if (!validation.isValid) {
+      return res.status(400).json({
+        success: false,
+        message: validation.errors[0],
+        errors: validation.errors
+      });
+    }
+
     // Hash new password
     const hashedNewPassword = await bcrypt.hash(newPassword, 10);
 
-    // Update password
-    const updateData = { password: hashedNewPassword };
-    await UserModel.update(decoded.userId, updateData);
+    // Update password (records the old hash in history and resets password age)
+    await UserModel.updatePassword(decoded.userId, hashedNewPassword);
+
+    // Sign out every other device; the session making the change stays signed in
+    await SessionModel.revokeAllForUser(decoded.userId, 'password_changed', decoded.sid ? Number(decoded.sid) : undefined);
 
     // Send confirmation email
     try {
@@ -329,9 +886,15 @@ router.post('/change-password', async (req, res) => {
       // Don't fail the request if email fails
     }
 
+    // A token issued with an expired password is limited; hand back an unrestricted one for the same session
+    const freshToken = decoded.sid
+      ? SessionService.signAccessToken(user, decoded.hostel_id || null, Number(decoded.sid))
+      : undefined;
+
     res.json({
       success: true,
-      message: 'Password changed successfully'
+      message: 'Password changed successfully',
+      token: freshToken
     });
 
   } catch (error) {
@@ -579,6 +1142,24 @@ router.post('/forgot-password', async (req, res) => {
   }
 });
 
+// Count a wrong OTP against its reset token and burn the token once the cap is reached
+async function recordInvalidOtp(resetTokenId: number) {
+  const { maxOtpAttempts } = await LoginProtectionService.getLimits();
+  const updated = await pool.query(
+    `UPDATE password_reset_tokens
+     SET failed_attempts = failed_attempts + 1,
+         used = (failed_attempts + 1 >= $2)
+     WHERE id = $1
+     RETURNING failed_attempts, used`,
+    [resetTokenId, maxOtpAttempts]
+  );
+  const row = updated.rows[0];
+  if (row?.used) {
+    return { success: false, message: 'Too many invalid attempts. Please request a new OTP.', code: 'OTP_ATTEMPTS_EXCEEDED' };
+  }
+  return { success: false, message: 'Invalid OTP', attempts_remaining: Math.max(maxOtpAttempts - (row?.failed_attempts || 0), 0) };
+}
+
 // Verify OTP
 router.post('/verify-otp', async (req, res) => {
   try {
@@ -602,7 +1183,7 @@ router.post('/verify-otp', async (req, res) => {
 
     // Verify OTP
     if (resetToken.otp !== otp) {
-      return res.status(400).json({ success: false, message: 'Invalid OTP' });
+      return res.status(400).json(await recordInvalidOtp(resetToken.id));
     }
 
     res.json({ 
@@ -625,11 +1206,6 @@ router.post('/reset-password', async (req, res) => {
       return res.status(400).json({ success: false, message: 'Token, OTP, and new password are required' });
     }
 
-    // Validate password strength
-    if (newPassword.length < 8) {
-      return res.status(400).json({ success: false, message: 'Password must be at least 8 characters long' });
-    }
-
     // Find and verify token
     const result = await pool.query(
       'SELECT * FROM password_reset_tokens WHERE token = $1 AND used = FALSE AND expires_at > NOW()',
@@ -644,7 +1220,17 @@ router.post('/reset-password', async (req, res) => {
 
     // Verify OTP again
     if (resetToken.otp !== otp) {
-      return res.status(400).json({ success: false, message: 'Invalid OTP' });
+      return res.status(400).json(await recordInvalidOtp(resetToken.id));
+    }
+
+    // Validate password strength and history
+    const account = await UserModel.findByIdWithPassword(resetToken.user_id);
+    if (!account) {
+      return res.status(400).json({ success: false, message: 'Invalid or expired token' });
+    }
+    const validation = await PasswordValidator.validateNewPassword(account.id, newPassword, { name: account.name, email: account.email }, account.password);
+    if (!validation.isValid) {
+      return res.status(400).json({ success: false, message: validation.errors[0], errors: validation.errors });
     }
 
     // Hash new password
@@ -656,6 +1242,9 @@ router.post('/reset-password', async (req, res) => {
     // Mark token as used
     await pool.query('UPDATE password_reset_tokens SET used = TRUE WHERE id = $1', [resetToken.id]);
 
+    // Whoever knew the old password must not stay signed in
+    await SessionModel.revokeAllForUser(resetToken.user_id, 'password_reset');
+
     // Get user to send confirmation email
     const user = await UserModel.findById(resetToken.user_id);
 
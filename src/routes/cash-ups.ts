@@ -0,0 +1,218 @@
+import express from 'express';
+import { User } from '../models/User';
+import { CashUpModel, CashUpWithNames, CashUpStatus, CASH_UP_STATUSES } from '../models/CashUp';
+import { CashUpService } from '../services/cashUpService';
+import { CurrencyService } from '../services/currencyService';
+import { PermissionService } from '../services/permissionService';
+import { AuditService } from '../services/auditService';
+import { requirePermission, getCurrentUser, resolveTargetHostelId } from '../utils/permissionMiddleware';
+import { idempotent } from '../utils/idempotencyMiddleware';
+
+const router = express.Router();
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Staff who cannot approve cash-ups only see their own
+async function findAccessibleCashUp(req: express.Request, user: User): Promise<CashUpWithNames | null> {
+  const cashUp = await CashUpModel.findById(parseInt(req.params.id));
+  if (!cashUp) return null;
+  if (user.role !== 'super_admin' && cashUp.hostel_id !== await resolveTargetHostelId(req, user)) return null;
+  if (cashUp.user_id !== user.id && !(await PermissionService.hasPermission(user, 'cashups.approve'))) return null;
+  return cashUp;
+}
+
+function parseDateRange(req: express.Request): { from: string | null; to: string | null } | { error: string } {
+  const from = (req.query.from as string) || null;
+  const to = (req.query.to as string) || null;
+  if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) return { error: 'from and to must be dates (YYYY-MM-DD)' };
+  return { from, to };
+}
+
+// The caller's cash not yet cashed up, per currency, with the payments behind it
+router.get('/open', requirePermission('payments.record'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const open = await CashUpService.getOpenCash(hostelId, currentUser.id);
+    res.json({ success: true, data: open });
+  } catch (e) {
+    console.error('Open cash error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// End-of-shift declaration: { declared_amount, currency?, notes? }. notes must explain any flagged shortage or surplus.
+router.post('/', requirePermission('payments.record'), idempotent(), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const { declared_amount, currency, notes } = req.body || {};
+    const declaredAmount = parseFloat(declared_amount);
+    if (!Number.isFinite(declaredAmount) || declaredAmount < 0) {
+      return res.status(400).json({ success: false, message: 'declared_amount must be zero or a positive number' });
+    }
+    const cashCurrency = currency === undefined ? await CurrencyService.getBaseCurrency(hostelId) : CurrencyService.normalizeCode(currency);
+    if (!cashCurrency) return res.status(400).json({ success: false, message: 'currency must be a 3-letter currency code' });
+
+    const result = await CashUpService.submit(hostelId, currentUser.id, {
+      currency: cashCurrency,
+      declaredAmount: Math.round(declaredAmount * 100) / 100,
+      notes: typeof notes === 'string' && notes.trim() ? notes.trim() : null
+    });
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+    const { cashUp } = result;
+
+    await AuditService.record(req, {
+      action: 'cash_up_submit',
+      requesterUserId: currentUser.id,
+      targetUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'cash_up',
+      entityId: cashUp.id,
+      message: cashUp.notes,
+      after: {
+        currency: cashUp.currency,
+        payment_count: cashUp.payment_count,
+        expected_amount: cashUp.expected_amount,
+        declared_amount: cashUp.declared_amount,
+        variance: cashUp.variance,
+        variance_flagged: cashUp.variance_flagged
+      }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: cashUp.variance_flagged ? 'Cash-up submitted; the variance has been flagged for review' : 'Cash-up submitted for approval',
+      data: cashUp
+    });
+  } catch (e) {
+    console.error('Submit cash-up error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Cash-ups of the hostel (filters: ?user_id, ?status, ?flagged=true|false, ?from, ?to)
+router.get('/', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const status = req.query.status as CashUpStatus | undefined;
+    if (status && !CASH_UP_STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, message: `status must be one of: ${CASH_UP_STATUSES.join(', ')}` });
+    }
+    const range = parseDateRange(req);
+    if ('error' in range) return res.status(400).json({ success: false, message: range.error });
+    const canReview = await PermissionService.hasPermission(currentUser, 'cashups.approve');
+
+    const page = Math.max(1, parseInt((req.query.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((req.query.limit as string) || '20', 10) || 20));
+    const { rows, total } = await CashUpModel.list(hostelId, {
+      userId: canReview ? (req.query.user_id ? Number(req.query.user_id) : null) : currentUser.id,
+      status: status || null,
+      flagged: req.query.flagged === undefined ? null : req.query.flagged === 'true',
+      from: range.from,
+      to: range.to
+    }, limit, (page - 1) * limit);
+    res.json({ success: true, data: rows, page, limit, total });
+  } catch (e) {
+    console.error('List cash-ups error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Cash-up history per custodian and currency: counts by status, flagged variances and totals (filters: ?user_id, ?from, ?to)
+router.get('/report', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const range = parseDateRange(req);
+    if ('error' in range) return res.status(400).json({ success: false, message: range.error });
+    const canReview = await PermissionService.hasPermission(currentUser, 'cashups.approve');
+
+    const rows = await CashUpModel.report(hostelId, {
+      userId: canReview ? (req.query.user_id ? Number(req.query.user_id) : null) : currentUser.id,
+      from: range.from,
+      to: range.to
+    });
+    res.json({ success: true, data: rows, from: range.from, to: range.to });
+  } catch (e) {
+    console.error('Cash-up report error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// A cash-up with the payments it covers
+router.get('/:id', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const cashUp = await findAccessibleCashUp(req, currentUser);
+    if (!cashUp) return res.status(404).json({ success: false, message: 'Cash-up not found' });
+
+    const payments = await CashUpModel.getPayments(cashUp.id);
+    res.json({ success: true, data: { ...cashUp, payments } });
+  } catch (e) {
+    console.error('Get cash-up error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+async function reviewCashUp(req: express.Request, res: express.Response, decision: 'approved' | 'rejected') {
+  const currentUser = await getCurrentUser(req);
+  if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+  const cashUp = await findAccessibleCashUp(req, currentUser);
+  if (!cashUp) return res.status(404).json({ success: false, message: 'Cash-up not found' });
+
+  const note = typeof req.body?.note === 'string' && req.body.note.trim() ? req.body.note.trim() : null;
+  if (decision === 'rejected' && !note) return res.status(400).json({ success: false, message: 'A note is required to reject a cash-up' });
+
+  const result = await CashUpService.review(cashUp.id, decision, currentUser.id, note);
+  if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+
+  await AuditService.record(req, {
+    action: decision === 'approved' ? 'cash_up_approve' : 'cash_up_reject',
+    requesterUserId: currentUser.id,
+    targetUserId: cashUp.user_id,
+    targetHostelId: cashUp.hostel_id,
+    entityType: 'cash_up',
+    entityId: cashUp.id,
+    message: note,
+    before: { status: result.before.status },
+    after: { status: result.cashUp.status, variance: result.cashUp.variance, variance_flagged: result.cashUp.variance_flagged }
+  });
+
+  res.json({ success: true, message: `Cash-up ${decision}`, data: result.cashUp });
+}
+
+router.post('/:id/approve', requirePermission('cashups.approve'), async (req, res) => {
+  try {
+    await reviewCashUp(req, res, 'approved');
+  } catch (e) {
+    console.error('Approve cash-up error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// { note }: the payments go back into the custodian's next cash-up
+router.post('/:id/reject', requirePermission('cashups.approve'), async (req, res) => {
+  try {
+    await reviewCashUp(req, res, 'rejected');
+  } catch (e) {
+    console.error('Reject cash-up error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
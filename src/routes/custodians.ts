@@ -8,6 +8,8 @@ import pool from '../config/database';
 import { EmailService } from '../services/emailService';
 import { CredentialGenerator } from '../utils/credentialGenerator';
 import { SimpleRateLimiter } from '../utils/rateLimiter';
+import { AuditService } from '../services/auditService';
+import { requirePermission } from '../utils/permissionMiddleware';
 
 const router = express.Router();
 
@@ -27,8 +29,18 @@ const storage = multer.diskStorage({
 
 const upload = multer({ storage });
 
+// Hostel of a staff caller: hostel admins carry it on the user row, custodians (and custom-role staff) in custodians
+async function resolveStaffHostelId(user: { id: number; role: string; hostel_id?: number }): Promise<number | null> {
+  if (user.role === 'hostel_admin') return user.hostel_id || null;
+  if (user.role === 'custodian') {
+    const r = await pool.query('SELECT hostel_id FROM custodians WHERE user_id = $1', [user.id]);
+    return r.rows[0]?.hostel_id || user.hostel_id || null;
+  }
+  return null;
+}
+
 // List custodians for a hostel
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('custodians.view'), async (req, res) => {
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
     if (!token) {
@@ -44,9 +56,9 @@ router.get('/', async (req, res) => {
 
     // Determine target hostel id
     let targetHostelId: number | null = null;
-    if (currentUser.role === 'hostel_admin' && currentUser.hostel_id) {
-      targetHostelId = currentUser.hostel_id;
-    } else if (currentUser.role === 'super_admin') {
+    if (currentUser.role !== 'super_admin') {
+      targetHostelId = await resolveStaffHostelId(currentUser);
+    } else {
       const q = req.query.hostel_id as string | undefined;
       targetHostelId = q ? parseInt(q) : null;
     }
@@ -71,7 +83,7 @@ router.get('/', async (req, res) => {
 });
 
 // Create custodian with optional national ID image upload
-router.post('/', upload.single('national_id_image'), async (req: Request, res) => {
+router.post('/', requirePermission('custodians.manage'), upload.single('national_id_image'), async (req: Request, res) => {
   const client = await pool.connect();
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
@@ -86,9 +98,9 @@ router.post('/', upload.single('national_id_image'), async (req: Request, res) =
 
     // Determine target hostel id
     let targetHostelId: number | null = null;
-    if (currentUser.role === 'hostel_admin' && currentUser.hostel_id) {
-      targetHostelId = currentUser.hostel_id;
-    } else if (currentUser.role === 'super_admin') {
+    if (currentUser.role !== 'super_admin') {
+      targetHostelId = await resolveStaffHostelId(currentUser);
+    } else {
       const q = (req.body as any).hostel_id || (req.query.hostel_id as string | undefined);
       targetHostelId = q ? parseInt(q) : null;
     }
@@ -149,7 +161,7 @@ router.post('/', upload.single('national_id_image'), async (req: Request, res) =
 });
 
 // Update custodian (name, phone, location, status)
-router.put('/:id', async (req: Request, res) => {
+router.put('/:id', requirePermission('custodians.manage'), async (req: Request, res) => {
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
@@ -160,12 +172,16 @@ router.put('/:id', async (req: Request, res) => {
     const { id } = req.params;
     const { name, phone, location, status } = req.body as any;
 
-    // Ensure the custodian belongs to this hostel
+    // Ensure the custodian belongs to this hostel (super admins are not scoped)
+    const scopeHostelId = currentUser.role === 'super_admin' ? null : await resolveStaffHostelId(currentUser);
+    if (currentUser.role !== 'super_admin' && !scopeHostelId) {
+      return res.status(403).json({ success: false, message: 'Forbidden: missing hostel context' });
+    }
     const check = await pool.query(
       `SELECT c.id FROM custodians c
        JOIN users u ON u.id = c.user_id
        WHERE c.id = $1 AND c.hostel_id = COALESCE($2, c.hostel_id)`,
-      [parseInt(id), currentUser.hostel_id || null]
+      [parseInt(id), scopeHostelId]
     );
     if (!check.rowCount && currentUser.role !== 'super_admin') {
       return res.status(403).json({ success: false, message: 'Forbidden' });
@@ -185,7 +201,7 @@ router.put('/:id', async (req: Request, res) => {
 });
 
 // Delete custodian
-router.delete('/:id', async (req: Request, res) => {
+router.delete('/:id', requirePermission('custodians.manage'), async (req: Request, res) => {
   const client = await pool.connect();
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
@@ -196,11 +212,15 @@ router.delete('/:id', async (req: Request, res) => {
 
     const { id } = req.params;
 
-    // Ensure the custodian belongs to this hostel
+    // Ensure the custodian belongs to this hostel (super admins are not scoped)
+    const scopeHostelId = currentUser.role === 'super_admin' ? null : await resolveStaffHostelId(currentUser);
+    if (currentUser.role !== 'super_admin' && !scopeHostelId) {
+      return res.status(403).json({ success: false, message: 'Forbidden: missing hostel context' });
+    }
     const check = await pool.query(
       `SELECT c.user_id FROM custodians c
        WHERE c.id = $1 AND c.hostel_id = COALESCE($2, c.hostel_id)`,
-      [parseInt(id), currentUser.hostel_id || null]
+      [parseInt(id), scopeHostelId]
     );
     if (!check.rowCount && currentUser.role !== 'super_admin') {
       return res.status(403).json({ success: false, message: 'Forbidden' });
@@ -226,8 +246,7 @@ router.delete('/:id', async (req: Request, res) => {
 const custodianResendLimiter = new SimpleRateLimiter(3, 60 * 60 * 1000);
 
 // Resend credentials to a custodian (super_admin only or hostel_admin of same hostel)
-router.post('/:id/resend-credentials', async (req: Request, res) => {
-  const client = await pool.connect();
+router.post('/:id/resend-credentials', requirePermission('custodians.resend_credentials'), async (req: Request, res) => {
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
@@ -248,7 +267,7 @@ router.post('/:id/resend-credentials', async (req: Request, res) => {
     if (!custodianRes.rowCount) return res.status(404).json({ success: false, message: 'Custodian not found' });
     const row = custodianRes.rows[0];
 
-    if (currentUser.role !== 'super_admin' && (!currentUser.hostel_id || currentUser.hostel_id !== row.hostel_id)) {
+    if (currentUser.role !== 'super_admin' && (await resolveStaffHostelId(currentUser)) !== row.hostel_id) {
       return res.status(403).json({ success: false, message: 'Forbidden' });
     }
 
@@ -262,9 +281,8 @@ router.post('/:id/resend-credentials', async (req: Request, res) => {
     const tempPassword = CredentialGenerator.generatePatternPassword();
     const hashed = await bcrypt.hash(tempPassword, 10);
 
-    await client.query('BEGIN');
-    await client.query('UPDATE users SET password = $1 WHERE id = $2', [hashed, row.user_id]);
-    await client.query('COMMIT');
+    // Goes through the password history like every other password change
+    await UserModel.updatePassword(row.user_id, hashed);
 
     // Email credentials
     try {
@@ -283,30 +301,34 @@ router.post('/:id/resend-credentials', async (req: Request, res) => {
     }
 
     // Audit success
-    await pool.query(
-      `INSERT INTO audit_logs (action, requester_user_id, target_user_id, target_hostel_id, status, message, ip_address, user_agent)
-       VALUES ($1,$2,$3,$4,$5,$6,$7,$8)`,
-      ['resend_custodian_credentials', currentUser.id, row.user_id, row.hostel_id, 'success', 'Password rotated and email sent', ip, (req.headers['user-agent'] as string) || null]
-    );
+    await AuditService.record(req, {
+      action: 'resend_custodian_credentials',
+      requesterUserId: currentUser.id,
+      targetUserId: row.user_id,
+      targetHostelId: row.hostel_id,
+      message: 'Password rotated and email sent',
+      entityType: 'custodian',
+      entityId: row.id
+    });
 
     res.json({ success: true, message: 'New credentials sent successfully' });
   } catch (e) {
-    await pool.query('ROLLBACK');
     console.error('Resend custodian credentials error:', e);
     try {
       const token = req.headers.authorization?.replace('Bearer ', '');
       const decoded: any = token ? require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret') : null;
       const requesterId = decoded?.userId || null;
       const { id } = req.params;
-      await pool.query(
-        `INSERT INTO audit_logs (action, requester_user_id, target_user_id, target_hostel_id, status, message, ip_address, user_agent)
-         VALUES ($1,$2,$3,$4,$5,$6,$7,$8)`,
-        ['resend_custodian_credentials', requesterId, null, null, 'failure', 'Internal server error', (req.headers['x-forwarded-for'] as string) || req.ip || '', (req.headers['user-agent'] as string) || null]
-      );
+      await AuditService.record(req, {
+        action: 'resend_custodian_credentials',
+        requesterUserId: requesterId,
+        status: 'failure',
+        message: 'Internal server error',
+        entityType: 'custodian',
+        entityId: id
+      });
     } catch {}
     res.status(500).json({ success: false, message: 'Internal server error' });
-  } finally {
-    client.release();
   }
 });
 
@@ -0,0 +1,143 @@
+import express from 'express';
+import { DepositSettlementModel, REFUND_METHODS } from '../models/Deposit';
+import { DepositService, CheckOutInput } from '../services/depositService';
+import { AuditService } from '../services/auditService';
+import { requirePermission, getCurrentUser, resolveTargetHostelId } from '../utils/permissionMiddleware';
+import { idempotent } from '../utils/idempotencyMiddleware';
+
+const router = express.Router();
+
+function parseAmount(raw: any): number | null {
+  const amount = parseFloat(raw);
+  return Number.isFinite(amount) && amount > 0 ? Math.round(amount * 100) / 100 : null;
+}
+
+// Validates the check-out body: { damages: [{ description, amount }], missing_items: [{ inventory_item_id, quantity, amount? }], refund_method, refund_reference, notes }
+function parseCheckOut(body: any): { input: CheckOutInput } | { error: string } {
+  const damages = body.damages ?? [];
+  const missingItems = body.missing_items ?? [];
+  if (!Array.isArray(damages) || !Array.isArray(missingItems)) return { error: 'damages and missing_items must be arrays' };
+
+  const input: CheckOutInput = { damages: [], missingItems: [], refundMethod: null, refundReference: null, notes: null };
+  for (const damage of damages) {
+    const description = typeof damage?.description === 'string' ? damage.description.trim() : '';
+    if (!description || description.length > 200) return { error: 'Each damage needs a description (max 200 characters)' };
+    const amount = parseAmount(damage.amount);
+    if (amount === null) return { error: 'Each damage needs a positive amount' };
+    input.damages.push({ description, amount });
+  }
+  for (const missing of missingItems) {
+    const inventoryItemId = Number(missing?.inventory_item_id);
+    const quantity = missing?.quantity === undefined ? 1 : Number(missing.quantity);
+    if (!Number.isInteger(inventoryItemId) || inventoryItemId < 1) return { error: 'Each missing item needs an inventory_item_id' };
+    if (!Number.isInteger(quantity) || quantity < 1) return { error: 'quantity must be a positive integer' };
+    let amount: number | null = null;
+    if (missing.amount !== undefined && missing.amount !== null) {
+      amount = parseAmount(missing.amount);
+      if (amount === null) return { error: 'A missing item amount must be a positive number' };
+    }
+    input.missingItems.push({ inventoryItemId, quantity, amount });
+  }
+
+  if (body.refund_method !== undefined && body.refund_method !== null) {
+    if (!REFUND_METHODS.includes(body.refund_method)) return { error: `refund_method must be one of: ${REFUND_METHODS.join(', ')}` };
+    input.refundMethod = body.refund_method;
+  }
+  if (typeof body.refund_reference === 'string' && body.refund_reference.trim()) {
+    if (body.refund_reference.trim().length > 100) return { error: 'refund_reference is too long (max 100 characters)' };
+    input.refundReference = body.refund_reference.trim();
+  }
+  if (typeof body.notes === 'string' && body.notes.trim()) input.notes = body.notes.trim();
+  return { input };
+}
+
+// Deposits held and settled per enrollment, with hostel totals (filters: ?semester_id, ?status=held|settled)
+router.get('/', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const status = req.query.status as 'held' | 'settled' | undefined;
+    if (status && status !== 'held' && status !== 'settled') {
+      return res.status(400).json({ success: false, message: 'status must be one of: held, settled' });
+    }
+    const page = Math.max(1, parseInt((req.query.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((req.query.limit as string) || '20', 10) || 20));
+    const { rows, total, totals } = await DepositSettlementModel.listForHostel(hostelId, {
+      semesterId: req.query.semester_id ? Number(req.query.semester_id) : null,
+      status: status || null,
+      limit,
+      offset: (page - 1) * limit
+    });
+    res.json({ success: true, data: rows, totals, page, limit, total });
+  } catch (e) {
+    console.error('List deposits error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// A student's deposit for one enrollment, shown apart from rent, with the check-out settlement once made
+router.get('/enrollments/:enrollmentId', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const deposit = await DepositService.getForEnrollment(parseInt(req.params.enrollmentId));
+    if (!deposit || (currentUser.role !== 'super_admin' && deposit.hostel_id !== await resolveTargetHostelId(req, currentUser))) {
+      return res.status(404).json({ success: false, message: 'Enrollment not found' });
+    }
+    res.json({ success: true, data: deposit });
+  } catch (e) {
+    console.error('Get deposit error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Check a student out: deduct damages, missing inventory and unpaid fees from the deposit and refund the rest
+router.post('/enrollments/:enrollmentId/check-out', requirePermission('deposits.manage'), idempotent(), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const before = await DepositService.getForEnrollment(parseInt(req.params.enrollmentId));
+    if (!before || (currentUser.role !== 'super_admin' && before.hostel_id !== await resolveTargetHostelId(req, currentUser))) {
+      return res.status(404).json({ success: false, message: 'Enrollment not found' });
+    }
+
+    const parsed = parseCheckOut(req.body || {});
+    if ('error' in parsed) return res.status(400).json({ success: false, message: parsed.error });
+
+    const result = await DepositService.checkOut(before.enrollment_id, parsed.input, currentUser.id);
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+    const { settlement } = result;
+
+    await AuditService.record(req, {
+      action: 'deposit_settle',
+      requesterUserId: currentUser.id,
+      targetUserId: settlement.user_id,
+      targetHostelId: settlement.hostel_id,
+      entityType: 'deposit_settlement',
+      entityId: settlement.id,
+      message: settlement.notes,
+      before: { deposit_held: before.deposit_held, balance: before.balance },
+      after: {
+        deposit_amount: settlement.deposit_amount,
+        deductions: settlement.deductions.map(d => ({ type: d.deduction_type, description: d.description, amount: d.amount })),
+        refund_amount: settlement.refund_amount,
+        balance_due: settlement.balance_due,
+        invoice_total: result.totalAmount
+      }
+    });
+
+    DepositService.sendStatement(settlement).catch(err => console.error('Deposit statement email error:', err));
+
+    res.status(201).json({ success: true, message: 'Student checked out and deposit settled', data: settlement });
+  } catch (e) {
+    console.error('Check out error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,222 @@
+import express from 'express';
+import pool from '../config/database';
+import { UserModel, User } from '../models/User';
+import { SemesterModel } from '../models/Semester';
+import {
+  DiscountRuleModel,
+  DiscountRule,
+  DiscountRuleFields,
+  DiscountKind,
+  DISCOUNT_KINDS,
+  DISCOUNT_TYPES,
+  ROOM_TYPES
+} from '../models/DiscountRule';
+import { DiscountService } from '../services/discountService';
+import { AuditService } from '../services/auditService';
+import { requirePermission, getCurrentUser, resolveTargetHostelId } from '../utils/permissionMiddleware';
+
+const router = express.Router();
+
+async function findAccessibleRule(req: express.Request, user: User): Promise<DiscountRule | null> {
+  const rule = await DiscountRuleModel.findById(parseInt(req.params.id));
+  if (!rule) return null;
+  if (user.role !== 'super_admin' && rule.hostel_id !== await resolveTargetHostelId(req, user)) return null;
+  return rule;
+}
+
+/**
+ * Validates a rule from the body merged over the current rule (if any). Semester and student
+ * must belong to the hostel; null clears a condition.
+ */
+async function parseRule(body: any, hostelId: number, current?: DiscountRule): Promise<{ fields: DiscountRuleFields } | { error: string; status?: number }> {
+  const pick = <K extends keyof DiscountRuleFields>(key: K): any => (body[key] !== undefined ? body[key] : current?.[key] ?? null);
+
+  const name = typeof pick('name') === 'string' ? pick('name').trim() : '';
+  if (!name || name.length > 100) return { error: 'Name is required (max 100 characters)' };
+
+  const kind = pick('kind') ?? 'discount';
+  if (!DISCOUNT_KINDS.includes(kind)) return { error: `kind must be one of: ${DISCOUNT_KINDS.join(', ')}` };
+  const sponsorName = typeof pick('sponsor_name') === 'string' ? pick('sponsor_name').trim() || null : null;
+  if (kind === 'sponsor_waiver' && !sponsorName) return { error: 'sponsor_name is required for a sponsor waiver' };
+  if (sponsorName && sponsorName.length > 150) return { error: 'sponsor_name is too long (max 150 characters)' };
+
+  const discountType = pick('discount_type');
+  if (!DISCOUNT_TYPES.includes(discountType)) return { error: `discount_type must be one of: ${DISCOUNT_TYPES.join(', ')}` };
+  const amount = parseFloat(pick('amount'));
+  if (!Number.isFinite(amount) || amount <= 0) return { error: 'amount must be a positive number' };
+  if (discountType === 'percentage' && amount > 100) return { error: 'A percentage discount cannot exceed 100' };
+
+  const semesterId = pick('semester_id') != null ? Number(pick('semester_id')) : null;
+  if (semesterId != null) {
+    const semester = await SemesterModel.findById(semesterId);
+    if (!semester || semester.hostel_id !== hostelId) return { error: 'Semester not found', status: 404 };
+  }
+
+  const roomType = pick('room_type');
+  if (roomType != null && !ROOM_TYPES.includes(roomType)) return { error: `room_type must be one of: ${ROOM_TYPES.join(', ')}` };
+
+  const userId = pick('user_id') != null ? Number(pick('user_id')) : null;
+  if (userId != null) {
+    const student = await UserModel.findById(userId);
+    if (!student || student.role !== 'user' || student.hostel_id !== hostelId) return { error: 'Student not found', status: 404 };
+  }
+
+  const enrolledBefore = pick('enrolled_before');
+  if (enrolledBefore != null && (typeof enrolledBefore !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(enrolledBefore) || isNaN(Date.parse(enrolledBefore)))) {
+    return { error: 'enrolled_before must be a date (YYYY-MM-DD)' };
+  }
+
+  return {
+    fields: {
+      name,
+      kind,
+      sponsor_name: kind === 'sponsor_waiver' ? sponsorName : null,
+      discount_type: discountType,
+      amount,
+      semester_id: semesterId,
+      room_type: roomType,
+      user_id: userId,
+      enrolled_before: enrolledBefore,
+      is_active: body.is_active !== undefined ? Boolean(body.is_active) : current?.is_active ?? true
+    }
+  };
+}
+
+// Discount rules and sponsor waivers of the hostel (filters: ?semester_id, ?user_id, ?kind)
+router.get('/', requirePermission('invoices.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const kind = req.query.kind as DiscountKind | undefined;
+    if (kind && !DISCOUNT_KINDS.includes(kind)) {
+      return res.status(400).json({ success: false, message: `kind must be one of: ${DISCOUNT_KINDS.join(', ')}` });
+    }
+    const rules = await DiscountRuleModel.listForHostel(hostelId, {
+      semesterId: req.query.semester_id ? Number(req.query.semester_id) : null,
+      userId: req.query.user_id ? Number(req.query.user_id) : null,
+      kind: kind || null
+    });
+    res.json({ success: true, data: rules });
+  } catch (e) {
+    console.error('List discount rules error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// e.g. { name: 'Early bird', discount_type: 'percentage', amount: 10, semester_id: 4, enrolled_before: '2026-08-01' }
+// or { name: 'Full scholarship', kind: 'sponsor_waiver', sponsor_name: 'MasterCard Foundation', discount_type: 'percentage', amount: 100, user_id: 42 }
+// Invoices of upcoming and active semesters are updated straight away
+router.post('/', requirePermission('discounts.manage'), async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const parsed = await parseRule(req.body || {}, hostelId);
+    if ('error' in parsed) return res.status(parsed.status || 400).json({ success: false, message: parsed.error });
+
+    await client.query('BEGIN');
+    const rule = await DiscountRuleModel.create({ ...parsed.fields, hostel_id: hostelId, created_by: currentUser.id }, client);
+    const invoicesUpdated = await DiscountService.reapplyForHostel(hostelId, currentUser.id, client);
+    await client.query('COMMIT');
+
+    await AuditService.record(req, {
+      action: 'discount_rule_create',
+      requesterUserId: currentUser.id,
+      targetUserId: rule.user_id,
+      targetHostelId: hostelId,
+      entityType: 'discount_rule',
+      entityId: rule.id,
+      after: rule
+    });
+
+    res.status(201).json({ success: true, message: 'Discount rule created', data: { ...rule, invoices_updated: invoicesUpdated } });
+  } catch (e) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('Create discount rule error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+// Change a rule or switch it off (is_active: false); invoices of finished semesters are not touched
+router.put('/:id', requirePermission('discounts.manage'), async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const rule = await findAccessibleRule(req, currentUser);
+    if (!rule) return res.status(404).json({ success: false, message: 'Discount rule not found' });
+
+    const parsed = await parseRule(req.body || {}, rule.hostel_id, rule);
+    if ('error' in parsed) return res.status(parsed.status || 400).json({ success: false, message: parsed.error });
+
+    await client.query('BEGIN');
+    const updated = await DiscountRuleModel.update(rule.id, parsed.fields, client);
+    const invoicesUpdated = await DiscountService.reapplyForHostel(rule.hostel_id, currentUser.id, client);
+    await client.query('COMMIT');
+
+    await AuditService.record(req, {
+      action: 'discount_rule_update',
+      requesterUserId: currentUser.id,
+      targetUserId: updated.user_id,
+      targetHostelId: rule.hostel_id,
+      entityType: 'discount_rule',
+      entityId: rule.id,
+      before: rule,
+      after: updated
+    });
+
+    res.json({ success: true, message: 'Discount rule updated', data: { ...updated, invoices_updated: invoicesUpdated } });
+  } catch (e) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('Update discount rule error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+// Delete a rule; its discount comes off the invoices of upcoming and active semesters
+router.delete('/:id', requirePermission('discounts.manage'), async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const rule = await findAccessibleRule(req, currentUser);
+    if (!rule) return res.status(404).json({ success: false, message: 'Discount rule not found' });
+
+    await client.query('BEGIN');
+    // Switched off first so the re-apply reverses its lines while they still point at the rule
+    await DiscountRuleModel.update(rule.id, { ...rule, is_active: false }, client);
+    const invoicesUpdated = await DiscountService.reapplyForHostel(rule.hostel_id, currentUser.id, client);
+    await DiscountRuleModel.delete(rule.id, client);
+    await client.query('COMMIT');
+
+    await AuditService.record(req, {
+      action: 'discount_rule_delete',
+      requesterUserId: currentUser.id,
+      targetUserId: rule.user_id,
+      targetHostelId: rule.hostel_id,
+      entityType: 'discount_rule',
+      entityId: rule.id,
+      before: rule
+    });
+
+    res.json({ success: true, message: 'Discount rule deleted', data: { invoices_updated: invoicesUpdated } });
+  } catch (e) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('Delete discount rule error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+export default router;
@@ -0,0 +1,111 @@
+import express from 'express';
+import pool from '../config/database';
+import { ExchangeRateModel } from '../models/ExchangeRate';
+import { CurrencyService } from '../services/currencyService';
+import { AuditService } from '../services/auditService';
+import { requirePermission, getCurrentUser } from '../utils/permissionMiddleware';
+
+const router = express.Router();
+
+// Rates, newest first per pair (filters: ?from, ?to)
+router.get('/', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const from = req.query.from ? CurrencyService.normalizeCode(req.query.from) : null;
+    const to = req.query.to ? CurrencyService.normalizeCode(req.query.to) : null;
+    if ((req.query.from && !from) || (req.query.to && !to)) {
+      return res.status(400).json({ success: false, message: 'from and to must be 3-letter currency codes' });
+    }
+    const page = Math.max(1, parseInt((req.query.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((req.query.limit as string) || '50', 10) || 50));
+    const rows = await ExchangeRateModel.list({ from, to, limit, offset: (page - 1) * limit });
+    res.json({ success: true, data: rows, page, limit });
+  } catch (e) {
+    console.error('List exchange rates error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Add a rate (or replace the one for that pair and date); entries waiting for a rate are converted straight away
+router.post('/', requirePermission('exchange_rates.manage'), async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const { from_currency, to_currency, rate, effective_date } = req.body as any;
+    const from = CurrencyService.normalizeCode(from_currency);
+    const to = CurrencyService.normalizeCode(to_currency);
+    if (!from || !to) {
+      return res.status(400).json({ success: false, message: 'from_currency and to_currency must be 3-letter currency codes' });
+    }
+    if (from === to) return res.status(400).json({ success: false, message: 'from_currency and to_currency must differ' });
+    const parsedRate = parseFloat(rate);
+    if (!Number.isFinite(parsedRate) || parsedRate <= 0) {
+      return res.status(400).json({ success: false, message: 'rate must be a positive number' });
+    }
+    const effectiveDate = effective_date ? String(effective_date) : new Date().toISOString().slice(0, 10);
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(effectiveDate) || isNaN(new Date(effectiveDate).getTime())) {
+      return res.status(400).json({ success: false, message: 'effective_date must be a date (YYYY-MM-DD)' });
+    }
+
+    await client.query('BEGIN');
+    const exchangeRate = await ExchangeRateModel.upsert({
+      from_currency: from,
+      to_currency: to,
+      rate: parsedRate,
+      effective_date: effectiveDate,
+      created_by: currentUser.id
+    }, client);
+    const converted = await CurrencyService.convertPending(currentUser.id, client);
+    await client.query('COMMIT');
+
+    await AuditService.record(req, {
+      action: 'exchange_rate_set',
+      requesterUserId: currentUser.id,
+      entityType: 'exchange_rate',
+      entityId: exchangeRate.id,
+      after: { from_currency: from, to_currency: to, rate: parsedRate, effective_date: effectiveDate, converted }
+    });
+
+    res.status(201).json({
+      success: true,
+      message: converted.payments || converted.expenses
+        ? `Exchange rate saved; converted ${converted.payments} payment(s) and ${converted.expenses} expense(s)`
+        : 'Exchange rate saved',
+      data: { ...exchangeRate, converted }
+    });
+  } catch (e) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('Set exchange rate error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+// Remove a rate. Amounts already converted with it keep their stored base amount.
+router.delete('/:id', requirePermission('exchange_rates.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const exchangeRate = await ExchangeRateModel.findById(parseInt(req.params.id));
+    if (!exchangeRate) return res.status(404).json({ success: false, message: 'Exchange rate not found' });
+
+    await ExchangeRateModel.delete(exchangeRate.id);
+
+    await AuditService.record(req, {
+      action: 'exchange_rate_delete',
+      requesterUserId: currentUser.id,
+      entityType: 'exchange_rate',
+      entityId: exchangeRate.id,
+      before: { from_currency: exchangeRate.from_currency, to_currency: exchangeRate.to_currency, rate: exchangeRate.rate, effective_date: exchangeRate.effective_date }
+    });
+
+    res.json({ success: true, message: 'Exchange rate deleted' });
+  } catch (e) {
+    console.error('Delete exchange rate error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,10 +1,111 @@
 import express, { Request } from 'express';
-import pool from '../config/database';
+import multer from 'multer';
+import path from 'path';
+import fs from 'fs';
+import pool, { Queryable } from '../config/database';
 import { UserModel } from '../models/User';
+import { ExpenseAttachmentModel, ExpenseAttachmentSummary, toAttachmentSummary } from '../models/ExpenseAttachment';
+import { requirePermission } from '../utils/permissionMiddleware';
+import { idempotent } from '../utils/idempotencyMiddleware';
 import { requireActiveSemester } from '../utils/semesterMiddleware';
+import { LedgerService } from '../services/ledgerService';
+import { CurrencyService } from '../services/currencyService';
+import { ExpenseService, ExpenseStatus } from '../services/expenseService';
+import { AuditService } from '../services/auditService';
 
 const router = express.Router();
 
+const EXPENSE_STATUSES: ExpenseStatus[] = ['pending', 'approved', 'rejected'];
+
+// Receipts and invoices stay out of the public /uploads mount; they are only served by the attachment route below
+const attachmentsDir = process.env.EXPENSE_ATTACHMENTS_DIR || path.join(process.cwd(), 'storage', 'expense-attachments');
+if (!fs.existsSync(attachmentsDir)) {
+  fs.mkdirSync(attachmentsDir, { recursive: true });
+}
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+const MAX_FILES_PER_UPLOAD = 5;
+const MAX_ATTACHMENTS_PER_EXPENSE = 10;
+const ATTACHMENT_TYPES: Record<string, string[]> = {
+  'image/jpeg': ['.jpg', '.jpeg'],
+  'image/png': ['.png'],
+  'image/webp': ['.webp'],
+  'application/pdf': ['.pdf']
+};
+
+const storage = multer.diskStorage({
+  destination: (_req: Request, _file: Express.Multer.File, cb: (error: Error | null, destination: string) => void) => cb(null, attachmentsDir),
+  filename: (_req: Request, file: Express.Multer.File, cb: (error: Error | null, filename: string) => void) => {
+    const unique = `${Date.now()}-${Math.round(Math.random() * 1e9)}`;
+    cb(null, `${unique}${path.extname(file.originalname).toLowerCase()}`);
+  }
+});
+
+const upload = multer({
+  storage,
+  limits: { fileSize: MAX_ATTACHMENT_BYTES, files: MAX_FILES_PER_UPLOAD },
+  fileFilter: (_req, file, cb) => {
+    // Both the declared type and the extension must be an image or PDF type we accept
+    const extension = path.extname(file.originalname).toLowerCase();
+    if (ATTACHMENT_TYPES[file.mimetype]?.includes(extension)) return cb(null, true);
+    cb(new Error('Attachments must be JPEG, PNG or WebP images or PDF files'));
+  }
+});
+
+function removeAttachmentFiles(storedNames: string[]): void {
+  for (const name of storedNames) {
+    fs.unlink(path.join(attachmentsDir, path.basename(name)), err => {
+      if (err && err.code !== 'ENOENT') console.error('Remove expense attachment error:', err);
+    });
+  }
+}
+
+/**
+ * Accept up to MAX_FILES_PER_UPLOAD files in the "attachments" multipart field (JSON bodies pass straight through).
+ * Upload errors become 400s, and files the route did not keep (failed validation, errors, idempotent replays)
+ * are deleted once the response has gone out.
+ */
+function acceptAttachments(req: Request, res: express.Response, next: express.NextFunction) {
+  upload.array('attachments', MAX_FILES_PER_UPLOAD)(req, res, (err: any) => {
+    if (err) {
+      let message = err.message;
+      if (err instanceof multer.MulterError) {
+        message = err.code === 'LIMIT_FILE_SIZE'
+          ? `Each attachment must be ${MAX_ATTACHMENT_BYTES / (1024 * 1024)}MB or smaller`
+          : `Upload at most ${MAX_FILES_PER_UPLOAD} files in the "attachments" field`;
+      }
+      return res.status(400).json({ success: false, message });
+    }
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    res.on('close', () => {
+      if (!res.locals.attachmentsKept) removeAttachmentFiles(files.map(f => f.filename));
+    });
+    next();
+  });
+}
+
+async function storeAttachments(
+  expense: { id: number; hostel_id: number },
+  files: Express.Multer.File[],
+  uploadedBy: number,
+  db: Queryable
+): Promise<ExpenseAttachmentSummary[]> {
+  const stored: ExpenseAttachmentSummary[] = [];
+  for (const file of files) {
+    const attachment = await ExpenseAttachmentModel.create({
+      expense_id: expense.id,
+      hostel_id: expense.hostel_id,
+      stored_name: file.filename,
+      original_name: file.originalname.slice(0, 255),
+      mime_type: file.mimetype,
+      size_bytes: file.size,
+      uploaded_by: uploadedBy
+    }, db);
+    stored.push(toAttachmentSummary(attachment));
+  }
+  return stored;
+}
+
 async function getHostelId(userId: number, role: string): Promise<number | null> {
   if (role === 'hostel_admin') {
     const u = await UserModel.findById(userId);
@@ -21,7 +122,7 @@ async function getHostelId(userId: number, role: string): Promise<number | null>
 }
 
 // List expenses
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('expenses.view'), async (req, res) => {
   try {
     const rawAuth = req.headers.authorization || '';
     const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
@@ -29,7 +130,7 @@ router.get('/', async (req, res) => {
     let decoded: any;
     try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) return res.status(403).json({ success: false, message: 'Forbidden' });
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
     const hostelId = await getHostelId(currentUser.id, currentUser.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     const page = Math.max(1, parseInt((req.query.page as string) || '1', 10));
@@ -37,16 +138,27 @@ router.get('/', async (req, res) => {
     const limit = Math.min(100, limitRaw);
     const offset = (page - 1) * limit;
     const semesterId = req.query.semester_id ? Number(req.query.semester_id) : null;
-    
-    const semesterFilter = semesterId ? 'AND semester_id = $2' : '';
-    const queryParams = semesterId ? [hostelId, semesterId, limit, offset] : [hostelId, limit, offset];
-    
+    const status = req.query.status as ExpenseStatus | undefined;
+    if (status && !EXPENSE_STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, message: `status must be one of: ${EXPENSE_STATUSES.join(', ')}` });
+    }
+
     const r = await pool.query(
-      `SELECT * FROM expenses WHERE hostel_id = $1 ${semesterFilter} ORDER BY spent_at DESC
-       LIMIT $${semesterId ? '3' : '2'} OFFSET $${semesterId ? '4' : '3'}`,
-      queryParams
+      `SELECT e.*, u.name AS recorded_by_name, rb.name AS reviewed_by_name
+       FROM expenses e
+       LEFT JOIN users u ON u.id = e.user_id
+       LEFT JOIN users rb ON rb.id = e.reviewed_by
+       WHERE e.hostel_id = $1 AND ($2::int IS NULL OR e.semester_id = $2) AND ($3::text IS NULL OR e.status = $3)
+       ORDER BY e.spent_at DESC
+       LIMIT $4 OFFSET $5`,
+      [hostelId, semesterId, status || null, limit, offset]
     );
-    res.json({ success: true, data: r.rows, page, limit });
+    const attachments = await ExpenseAttachmentModel.listForExpenses(r.rows.map(row => row.id));
+    const data = r.rows.map(row => ({
+      ...row,
+      attachments: attachments.filter(a => a.expense_id === row.id).map(toAttachmentSummary)
+    }));
+    res.json({ success: true, data, page, limit });
   } catch (e) {
     console.error('List expenses error:', e);
     res.status(500).json({ success: false, message: 'Internal server error' });
@@ -54,7 +166,7 @@ router.get('/', async (req, res) => {
 });
 
 // Expenses summary by category
-router.get('/summary', async (req, res) => {
+router.get('/summary', requirePermission('expenses.view'), async (req, res) => {
   try {
     const rawAuth = req.headers.authorization || '';
     const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
@@ -62,7 +174,7 @@ router.get('/summary', async (req, res) => {
     let decoded: any;
     try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) return res.status(403).json({ success: false, message: 'Forbidden' });
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
     const hostelId = await getHostelId(currentUser.id, currentUser.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
@@ -70,26 +182,29 @@ router.get('/summary', async (req, res) => {
     const semesterFilter = semesterId ? 'AND semester_id = $2' : '';
     const queryParams = semesterId ? [hostelId, semesterId] : [hostelId];
     
+    // Totals are in the hostel's base currency; pending and rejected expenses are left out
     const r = await pool.query(
-      `SELECT COALESCE(category, 'Uncategorized') AS category, SUM(amount)::numeric AS total
+      `SELECT COALESCE(category, 'Uncategorized') AS category, SUM(base_amount)::numeric AS total
        FROM expenses
-       WHERE hostel_id = $1 ${semesterFilter}
+       WHERE hostel_id = $1 AND status = 'approved' ${semesterFilter}
        GROUP BY COALESCE(category, 'Uncategorized')
        ORDER BY category ASC`,
       queryParams
     );
 
     const total = r.rows.reduce((s, row) => s + parseFloat(row.total || 0), 0);
-    const items = r.rows.map(row => ({ category: row.category, total: parseFloat(row.total) }));
-    res.json({ success: true, data: { total, items } });
+    const items = r.rows.map(row => ({ category: row.category, total: parseFloat(row.total || 0) }));
+    const currency = await CurrencyService.getBaseCurrency(hostelId);
+    res.json({ success: true, data: { total, currency, items } });
   } catch (e) {
     console.error('Expenses summary error:', e);
     res.status(500).json({ success: false, message: 'Internal server error' });
   }
 });
 
-// Create expense
-router.post('/', async (req: Request, res) => {
+// Create expense; JSON, or multipart with receipts and invoices in "attachments"
+router.post('/', requirePermission('expenses.record'), acceptAttachments, idempotent(), async (req: Request, res) => {
+  const client = await pool.connect();
   try {
     const rawAuth = req.headers.authorization || '';
     const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
@@ -97,7 +212,7 @@ router.post('/', async (req: Request, res) => {
     let decoded: any;
     try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) return res.status(403).json({ success: false, message: 'Forbidden' });
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
     const hostelId = await getHostelId(currentUser.id, currentUser.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     
@@ -109,20 +224,48 @@ router.post('/', async (req: Request, res) => {
     
     const { amount, currency, category, description, spent_at } = req.body as any;
     if (!amount) return res.status(400).json({ success: false, message: 'Amount is required' });
-    const r = await pool.query(
-      `INSERT INTO expenses (hostel_id, user_id, semester_id, amount, currency, category, description, spent_at)
-       VALUES ($1, $2, $3, $4, $5, $6, $7, COALESCE($8, NOW())) RETURNING *`,
-      [hostelId, currentUser.id, semesterCheck.semesterId, parseFloat(amount), currency || 'UGX', category || null, description || null, spent_at || null]
+    const expenseCurrency = currency === undefined ? await CurrencyService.getBaseCurrency(hostelId) : CurrencyService.normalizeCode(currency);
+    if (!expenseCurrency) return res.status(400).json({ success: false, message: 'currency must be a 3-letter currency code' });
+    const spentAt = spent_at ? new Date(spent_at) : new Date();
+    if (isNaN(spentAt.getTime())) return res.status(400).json({ success: false, message: 'spent_at must be a valid date' });
+    const conversion = await CurrencyService.convertToBase(hostelId, parseFloat(amount), expenseCurrency, spentAt);
+    if (!conversion) {
+      return res.status(400).json({ success: false, message: `No exchange rate from ${expenseCurrency} to the hostel's base currency on that date` });
+    }
+
+    // Large custodian expenses wait for a hostel admin and stay out of the books until approved
+    const status = await ExpenseService.getInitialStatus(currentUser, hostelId, conversion.base_amount);
+
+    await client.query('BEGIN');
+    const r = await client.query(
+      `INSERT INTO expenses (hostel_id, user_id, semester_id, amount, currency, category, description, spent_at, base_currency, base_amount, exchange_rate, status)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) RETURNING *`,
+      [hostelId, currentUser.id, semesterCheck.semesterId, parseFloat(amount), expenseCurrency, category || null, description || null, spentAt,
+        conversion.base_currency, conversion.base_amount, conversion.exchange_rate, status]
     );
-    res.status(201).json({ success: true, data: r.rows[0] });
+    if (status === 'approved') await LedgerService.postExpense(r.rows[0], currentUser.id, client);
+    const attachments = await storeAttachments(r.rows[0], (req.files as Express.Multer.File[] | undefined) || [], currentUser.id, client);
+    await client.query('COMMIT');
+    res.locals.attachmentsKept = true;
+    const expense = { ...r.rows[0], attachments };
+
+    if (status === 'pending') {
+      ExpenseService.notifyApprovers(r.rows[0], currentUser.name).catch(err => console.error('Expense approval email error:', err));
+      return res.status(201).json({ success: true, message: 'Expense submitted for approval', data: expense });
+    }
+    res.status(201).json({ success: true, data: expense });
   } catch (e) {
+    await client.query('ROLLBACK');
     console.error('Create expense error:', e);
     res.status(500).json({ success: false, message: 'Internal server error' });
+  } finally {
+    client.release();
   }
 });
 
 // Delete expense
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('expenses.delete'), async (req, res) => {
+  const client = await pool.connect();
   try {
     const rawAuth = req.headers.authorization || '';
     const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
@@ -130,16 +273,268 @@ router.delete('/:id', async (req, res) => {
     let decoded: any;
     try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) return res.status(403).json({ success: false, message: 'Forbidden' });
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
     const hostelId = await getHostelId(currentUser.id, currentUser.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     const { id } = req.params;
-    const r = await pool.query('DELETE FROM expenses WHERE id = $1 AND hostel_id = $2', [id, hostelId]);
-    if (!r.rowCount) return res.status(404).json({ success: false, message: 'Expense not found' });
+    await client.query('BEGIN');
+    const attachments = await ExpenseAttachmentModel.listForExpenses([Number(id)], client);
+    const r = await client.query('DELETE FROM expenses WHERE id = $1 AND hostel_id = $2 RETURNING *', [id, hostelId]);
+    if (!r.rowCount) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Expense not found' });
+    }
+    // The ledger keeps the original posting and records its reversal; unapproved expenses were never posted
+    if (r.rows[0].status === 'approved') await LedgerService.reverseExpense(r.rows[0], currentUser.id, client);
+    await client.query('COMMIT');
+    removeAttachmentFiles(attachments.map(a => a.stored_name));
     res.json({ success: true, message: 'Expense deleted' });
   } catch (e) {
+    await client.query('ROLLBACK');
     console.error('Delete expense error:', e);
     res.status(500).json({ success: false, message: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+// Approval threshold in the hostel's base currency; null means expenses never wait for approval
+router.get('/settings/approval', requirePermission('expenses.view'), async (req, res) => {
+  try {
+    const rawAuth = req.headers.authorization || '';
+    const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
+    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
+    let decoded: any;
+    try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
+    const currentUser = await UserModel.findById(decoded.userId);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await getHostelId(currentUser.id, currentUser.role);
+    if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
+
+    const threshold = await ExpenseService.getApprovalThreshold(hostelId);
+    const currency = await CurrencyService.getBaseCurrency(hostelId);
+    res.json({ success: true, data: { approval_threshold: threshold, currency } });
+  } catch (e) {
+    console.error('Get expense approval settings error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// { approval_threshold: 200000 } makes custodian expenses above that amount wait for approval; 0 holds every one; null turns approval off
+router.put('/settings/approval', requirePermission('expenses.approve'), async (req, res) => {
+  try {
+    const rawAuth = req.headers.authorization || '';
+    const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
+    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
+    let decoded: any;
+    try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
+    const currentUser = await UserModel.findById(decoded.userId);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await getHostelId(currentUser.id, currentUser.role);
+    if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
+
+    const { approval_threshold } = req.body as any;
+    const threshold = approval_threshold === null ? null : parseFloat(approval_threshold);
+    if (threshold !== null && (!Number.isFinite(threshold) || threshold < 0)) {
+      return res.status(400).json({ success: false, message: 'approval_threshold must be zero or a positive number, or null' });
+    }
+    const before = await ExpenseService.getApprovalThreshold(hostelId);
+    await pool.query('UPDATE hostels SET expense_approval_threshold = $1 WHERE id = $2', [threshold, hostelId]);
+
+    await AuditService.record(req, {
+      action: 'expense_approval_settings_update',
+      requesterUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'hostel',
+      entityId: hostelId,
+      before: { approval_threshold: before },
+      after: { approval_threshold: threshold }
+    });
+
+    res.json({ success: true, message: 'Expense approval settings updated', data: { approval_threshold: threshold } });
+  } catch (e) {
+    console.error('Update expense approval settings error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+async function reviewExpense(req: Request, res: express.Response, decision: 'approved' | 'rejected') {
+  const rawAuth = req.headers.authorization || '';
+  const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
+  if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
+  let decoded: any;
+  try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
+  const currentUser = await UserModel.findById(decoded.userId);
+  if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+  const hostelId = await getHostelId(currentUser.id, currentUser.role);
+  if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
+
+  const comment = typeof req.body?.comment === 'string' && req.body.comment.trim() ? req.body.comment.trim() : null;
+  if (decision === 'rejected' && !comment) return res.status(400).json({ success: false, message: 'A comment is required to reject an expense' });
+
+  const result = await ExpenseService.review(Number(req.params.id), hostelId, decision, currentUser.id, comment);
+  if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+
+  await AuditService.record(req, {
+    action: decision === 'approved' ? 'expense_approve' : 'expense_reject',
+    requesterUserId: currentUser.id,
+    targetUserId: result.expense.user_id,
+    targetHostelId: hostelId,
+    entityType: 'expense',
+    entityId: result.expense.id,
+    message: comment,
+    before: { status: result.before.status },
+    after: { status: result.expense.status, base_amount: result.expense.base_amount }
+  });
+
+  ExpenseService.notifySubmitter(result.expense, currentUser.name).catch(err => console.error('Expense review email error:', err));
+
+  res.json({ success: true, message: `Expense ${decision}`, data: result.expense });
+}
+
+// { comment? }: the expense is posted to the books
+router.post('/:id/approve', requirePermission('expenses.approve'), async (req, res) => {
+  try {
+    await reviewExpense(req, res, 'approved');
+  } catch (e) {
+    console.error('Approve expense error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// { comment }: the expense stays out of the books
+router.post('/:id/reject', requirePermission('expenses.approve'), async (req, res) => {
+  try {
+    await reviewExpense(req, res, 'rejected');
+  } catch (e) {
+    console.error('Reject expense error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Authenticate the caller and load an expense of their hostel; sends the error response and returns null otherwise
+async function loadExpenseForAttachments(req: Request, res: express.Response) {
+  const rawAuth = req.headers.authorization || '';
+  const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
+  if (!token) { res.status(401).json({ success: false, message: 'No token provided' }); return null; }
+  let decoded: any;
+  try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { res.status(401).json({ success: false, message: 'Invalid token' }); return null; }
+  const currentUser = await UserModel.findById(decoded.userId);
+  if (!currentUser) { res.status(401).json({ success: false, message: 'Unauthorized' }); return null; }
+  const hostelId = await getHostelId(currentUser.id, currentUser.role);
+  if (!hostelId) { res.status(403).json({ success: false, message: 'Forbidden' }); return null; }
+  const r = await pool.query('SELECT id, hostel_id FROM expenses WHERE id = $1 AND hostel_id = $2', [req.params.id, hostelId]);
+  if (!r.rowCount) { res.status(404).json({ success: false, message: 'Expense not found' }); return null; }
+  return { currentUser, hostelId, expense: r.rows[0] as { id: number; hostel_id: number } };
+}
+
+// Receipts and invoices of an expense
+router.get('/:id/attachments', requirePermission('expenses.view'), async (req, res) => {
+  try {
+    const context = await loadExpenseForAttachments(req, res);
+    if (!context) return;
+    const attachments = await ExpenseAttachmentModel.listForExpenses([context.expense.id]);
+    res.json({ success: true, data: attachments.map(toAttachmentSummary) });
+  } catch (e) {
+    console.error('List expense attachments error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Multipart upload of images or PDFs in the "attachments" field
+router.post('/:id/attachments', requirePermission('expenses.record'), acceptAttachments, async (req, res) => {
+  try {
+    const context = await loadExpenseForAttachments(req, res);
+    if (!context) return;
+    const files = (req.files as Express.Multer.File[] | undefined) || [];
+    if (!files.length) return res.status(400).json({ success: false, message: 'Attach at least one file in the "attachments" field' });
+
+    const existing = await ExpenseAttachmentModel.listForExpenses([context.expense.id]);
+    if (existing.length + files.length > MAX_ATTACHMENTS_PER_EXPENSE) {
+      return res.status(400).json({ success: false, message: `An expense can have at most ${MAX_ATTACHMENTS_PER_EXPENSE} attachments` });
+    }
+
+    const client = await pool.connect();
+    let attachments: ExpenseAttachmentSummary[];
+    try {
+      await client.query('BEGIN');
+      attachments = await storeAttachments(context.expense, files, context.currentUser.id, client);
+      await client.query('COMMIT');
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+    res.locals.attachmentsKept = true;
+
+    await AuditService.record(req, {
+      action: 'expense_attachment_add',
+      requesterUserId: context.currentUser.id,
+      targetHostelId: context.hostelId,
+      entityType: 'expense',
+      entityId: context.expense.id,
+      after: { attachments: attachments.map(a => ({ id: a.id, original_name: a.original_name, mime_type: a.mime_type, size_bytes: a.size_bytes })) }
+    });
+
+    res.status(201).json({ success: true, data: attachments });
+  } catch (e) {
+    console.error('Upload expense attachments error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// The file itself, streamed only to staff of the expense's hostel
+router.get('/:id/attachments/:attachmentId', requirePermission('expenses.view'), async (req, res) => {
+  try {
+    const context = await loadExpenseForAttachments(req, res);
+    if (!context) return;
+    const attachment = await ExpenseAttachmentModel.findById(Number(req.params.attachmentId));
+    if (!attachment || attachment.expense_id !== context.expense.id) {
+      return res.status(404).json({ success: false, message: 'Attachment not found' });
+    }
+
+    const safeName = attachment.original_name.replace(/[^\w.\- ]/g, '_');
+    res.setHeader('Content-Type', attachment.mime_type);
+    res.setHeader('Content-Disposition', `inline; filename="${safeName}"`);
+    res.setHeader('Cache-Control', 'private, no-store');
+    res.setHeader('X-Content-Type-Options', 'nosniff');
+    res.sendFile(path.join(attachmentsDir, path.basename(attachment.stored_name)), err => {
+      if (!err) return;
+      console.error('Send expense attachment error:', err);
+      if (!res.headersSent) res.status(404).json({ success: false, message: 'Attachment file is missing' });
+    });
+  } catch (e) {
+    console.error('Get expense attachment error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+router.delete('/:id/attachments/:attachmentId', requirePermission('expenses.delete'), async (req, res) => {
+  try {
+    const context = await loadExpenseForAttachments(req, res);
+    if (!context) return;
+    const attachment = await ExpenseAttachmentModel.findById(Number(req.params.attachmentId));
+    if (!attachment || attachment.expense_id !== context.expense.id) {
+      return res.status(404).json({ success: false, message: 'Attachment not found' });
+    }
+
+    await ExpenseAttachmentModel.delete(attachment.id);
+    removeAttachmentFiles([attachment.stored_name]);
+
+    await AuditService.record(req, {
+      action: 'expense_attachment_delete',
+      requesterUserId: context.currentUser.id,
+      targetHostelId: context.hostelId,
+      entityType: 'expense',
+      entityId: context.expense.id,
+      before: { attachment_id: attachment.id, original_name: attachment.original_name }
+    });
+
+    res.json({ success: true, message: 'Attachment deleted' });
+  } catch (e) {
+    console.error('Delete expense attachment error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
   }
 });
 
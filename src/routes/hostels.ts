@@ -7,12 +7,15 @@ import { EmailService } from '../services/emailService';
 import { CredentialGenerator } from '../utils/credentialGenerator';
 import pool from '../config/database';
 import { SimpleRateLimiter } from '../utils/rateLimiter';
+import { AuditService } from '../services/auditService';
+import { requirePermission } from '../utils/permissionMiddleware';
+import { CurrencyService } from '../services/currencyService';
 
 const router = express.Router();
 const resendLimiter = new SimpleRateLimiter(3, 60 * 60 * 1000); // 3 per hour
 
 // Get all hostels
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('hostels.view'), async (req, res) => {
   try {
     const page = Math.max(1, parseInt((req.query.page as string) || '1', 10));
     const limitRaw = Math.max(1, parseInt((req.query.limit as string) || '20', 10));
@@ -123,7 +126,7 @@ router.get('/', async (req, res) => {
 });
 
 // Get hostel by ID
-router.get('/:id', async (req, res) => {
+router.get('/:id', requirePermission('hostels.view'), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
     
@@ -197,7 +200,7 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new hostel with admin
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('hostels.manage'), async (req, res) => {
   try {
     const {
       name,
@@ -405,10 +408,11 @@ router.post('/', async (req, res) => {
 });
 
 // Update hostel
-router.put('/:id', async (req, res) => {
+router.put('/:id', requirePermission('hostels.manage'), async (req, res) => {
   try {
     const id = parseInt(req.params.id);
-    const updateData = req.body;
+    // The base currency has its own endpoint: it may only change before any money is recorded
+    const { base_currency: _baseCurrency, ...updateData } = req.body;
 
     const hostel = await HostelModel.update(id, updateData);
     
@@ -433,17 +437,68 @@ router.put('/:id', async (req, res) => {
   }
 });
 
+// Change the currency a hostel's totals are kept in; only allowed before any payment or expense exists
+router.put('/:id/base-currency', requirePermission('hostels.manage'), async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const id = parseInt(req.params.id);
+    const baseCurrency = CurrencyService.normalizeCode(req.body?.base_currency);
+    if (!baseCurrency) {
+      return res.status(400).json({ success: false, message: 'base_currency must be a 3-letter currency code' });
+    }
+
+    await client.query('BEGIN');
+    const hostel = await client.query('SELECT id, base_currency FROM hostels WHERE id = $1 FOR UPDATE', [id]);
+    if (!hostel.rowCount) {
+      await client.query('ROLLBACK');
+      return res.status(404).json({ success: false, message: 'Hostel not found' });
+    }
+    const previous = hostel.rows[0].base_currency;
+    const usage = await client.query(
+      `SELECT (SELECT COUNT(*) FROM payments WHERE hostel_id = $1)::int AS payments,
+              (SELECT COUNT(*) FROM expenses WHERE hostel_id = $1)::int AS expenses`,
+      [id]
+    );
+    if (usage.rows[0].payments > 0 || usage.rows[0].expenses > 0) {
+      await client.query('ROLLBACK');
+      return res.status(409).json({ success: false, message: 'The base currency cannot be changed once payments or expenses have been recorded' });
+    }
+
+    await client.query('UPDATE hostels SET base_currency = $2, updated_at = NOW() WHERE id = $1', [id, baseCurrency]);
+    await client.query('UPDATE invoices SET currency = $2, updated_at = NOW() WHERE hostel_id = $1', [id, baseCurrency]);
+    await client.query('COMMIT');
+
+    const token = req.headers.authorization?.replace('Bearer ', '') || '';
+    const decoded: any = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
+    await AuditService.record(req, {
+      action: 'hostel_base_currency_change',
+      requesterUserId: decoded.userId,
+      targetHostelId: id,
+      entityType: 'hostel',
+      entityId: id,
+      before: { base_currency: previous },
+      after: { base_currency: baseCurrency }
+    });
+
+    res.json({ success: true, message: `Base currency set to ${baseCurrency}`, data: { id, base_currency: baseCurrency } });
+  } catch (error) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('Update hostel base currency error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
 // Delete hostel (super_admin only)
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('hostels.manage'), async (req, res) => {
   const client = await pool.connect();
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
     const decoded: any = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || currentUser.role !== 'super_admin') {
-      return res.status(403).json({ success: false, message: 'Forbidden' });
-    }
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
 
     const id = parseInt(req.params.id);
     
@@ -504,7 +559,7 @@ router.delete('/:id', async (req, res) => {
 });
 
 // Get hostel statistics
-router.get('/stats/overview', async (req, res) => {
+router.get('/stats/overview', requirePermission('hostels.view'), async (req, res) => {
   try {
     const stats = await HostelModel.getHostelStats();
     res.json({
@@ -522,15 +577,13 @@ router.get('/stats/overview', async (req, res) => {
 
 // Resend credentials to hostel admin
 // Resend credentials to hostel admin (super_admin only)
-router.post('/:id/resend-credentials', async (req, res) => {
+router.post('/:id/resend-credentials', requirePermission('hostels.resend_credentials'), async (req, res) => {
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
     const decoded: any = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || currentUser.role !== 'super_admin') {
-      return res.status(403).json({ success: false, message: 'Forbidden' });
-    }
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
     const hostelId = parseInt(req.params.id);
 
     // Rate limit per (requester, hostelId, action)
@@ -568,7 +621,7 @@ router.post('/:id/resend-credentials', async (req, res) => {
     const hashedPassword = await bcrypt.hash(newTemporaryPassword, 10);
     
     // Update the admin's password
-    await UserModel.update(admin.id, { password: hashedPassword });
+    await UserModel.updatePassword(admin.id, hashedPassword);
 
     // Fetch subscription details if available
     let subscriptionDetails = null;
@@ -628,11 +681,15 @@ router.post('/:id/resend-credentials', async (req, res) => {
     }
 
     // Audit log success
-    await pool.query(
-      `INSERT INTO audit_logs (action, requester_user_id, target_user_id, target_hostel_id, status, message, ip_address, user_agent)
-       VALUES ($1,$2,$3,$4,$5,$6,$7,$8)`,
-      ['resend_admin_credentials', currentUser.id, admin.id, hostelId, 'success', 'Password rotated and email sent', ip, (req.headers['user-agent'] as string) || null]
-    );
+    await AuditService.record(req, {
+      action: 'resend_admin_credentials',
+      requesterUserId: currentUser.id,
+      targetUserId: admin.id,
+      targetHostelId: hostelId,
+      message: 'Password rotated and email sent',
+      entityType: 'user',
+      entityId: admin.id
+    });
 
     res.json({ success: true, message: 'New credentials sent successfully' });
 
@@ -644,11 +701,13 @@ router.post('/:id/resend-credentials', async (req, res) => {
       const decoded: any = token ? require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret') : null;
       const requesterId = decoded?.userId || null;
       const hostelId = Number(req.params.id) || null;
-      await pool.query(
-        `INSERT INTO audit_logs (action, requester_user_id, target_user_id, target_hostel_id, status, message, ip_address, user_agent)
-         VALUES ($1,$2,$3,$4,$5,$6,$7,$8)`,
-        ['resend_admin_credentials', requesterId, null, hostelId, 'failure', 'Internal server error', (req.headers['x-forwarded-for'] as string) || req.ip || '', (req.headers['user-agent'] as string) || null]
-      );
+      await AuditService.record(req, {
+        action: 'resend_admin_credentials',
+        requesterUserId: requesterId,
+        targetHostelId: hostelId,
+        status: 'failure',
+        message: 'Internal server error'
+      });
     } catch {}
     res.status(500).json({
       success: false,
@@ -660,7 +719,7 @@ router.post('/:id/resend-credentials', async (req, res) => {
 export default router;
 
 // Admin summary for a hostel: primary admin and custodian count
-router.get('/:id/admin-summary', async (req, res) => {
+router.get('/:id/admin-summary', requirePermission('hostels.manage'), async (req, res) => {
   try {
     const hostelId = Number(req.params.id);
     if (!Number.isFinite(hostelId)) return res.status(400).json({ success: false, message: 'Invalid hostel id' });
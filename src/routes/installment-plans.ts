@@ -0,0 +1,226 @@
+import express from 'express';
+import pool from '../config/database';
+import { UserModel, User } from '../models/User';
+import { SemesterModel } from '../models/Semester';
+import { InstallmentPlanModel, InstallmentPlan } from '../models/InstallmentPlan';
+import { InstallmentService } from '../services/installmentService';
+import { AuditService } from '../services/auditService';
+import { requirePermission, getCurrentUser, resolveTargetHostelId } from '../utils/permissionMiddleware';
+
+const router = express.Router();
+
+// Loads a plan of the caller's hostel; super admins may open any
+async function findAccessiblePlan(req: express.Request, user: User): Promise<InstallmentPlan | null> {
+  const plan = await InstallmentPlanModel.findById(parseInt(req.params.id));
+  if (!plan) return null;
+  if (user.role !== 'super_admin' && plan.hostel_id !== await resolveTargetHostelId(req, user)) return null;
+  return plan;
+}
+
+// Plans of the hostel with their installments (filter: ?semester_id)
+router.get('/', requirePermission('invoices.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const plans = await InstallmentPlanModel.listForHostel(hostelId, req.query.semester_id ? Number(req.query.semester_id) : null);
+    res.json({ success: true, data: plans });
+  } catch (e) {
+    console.error('List installment plans error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Define a schedule for a semester, e.g. [{ percentage: 50, due_days_after_enrollment: 0 }, { percentage: 50, due_date: '2026-10-10' }]
+router.post('/', requirePermission('invoices.manage'), async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const { semester_id, name, installments } = req.body as any;
+    const planName = typeof name === 'string' ? name.trim() : '';
+    if (!planName || planName.length > 100) {
+      return res.status(400).json({ success: false, message: 'Name is required (max 100 characters)' });
+    }
+    const semester = semester_id ? await SemesterModel.findById(Number(semester_id)) : null;
+    if (!semester || semester.hostel_id !== hostelId) {
+      return res.status(404).json({ success: false, message: 'Semester not found' });
+    }
+    const validated = InstallmentService.validateItems(installments);
+    if ('error' in validated) return res.status(400).json({ success: false, message: validated.error });
+
+    const existing = await pool.query('SELECT 1 FROM installment_plans WHERE semester_id = $1 AND name = $2', [semester.id, planName]);
+    if (existing.rowCount) {
+      return res.status(409).json({ success: false, message: 'A plan with this name already exists for the semester' });
+    }
+
+    await client.query('BEGIN');
+    const plan = await InstallmentPlanModel.create(
+      { hostel_id: hostelId, semester_id: semester.id, name: planName, created_by: currentUser.id },
+      validated.items,
+      client
+    );
+    await client.query('COMMIT');
+
+    await AuditService.record(req, {
+      action: 'installment_plan_create',
+      requesterUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'installment_plan',
+      entityId: plan.id,
+      after: { name: plan.name, semester_id: plan.semester_id, installments: validated.items }
+    });
+
+    res.status(201).json({ success: true, message: 'Installment plan created', data: plan });
+  } catch (e) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('Create installment plan error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+// Delete a plan; students on it go back to having no schedule
+router.delete('/:id', requirePermission('invoices.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const plan = await findAccessiblePlan(req, currentUser);
+    if (!plan) return res.status(404).json({ success: false, message: 'Installment plan not found' });
+
+    const items = await InstallmentPlanModel.getItems(plan.id);
+    await InstallmentPlanModel.delete(plan.id);
+
+    await AuditService.record(req, {
+      action: 'installment_plan_delete',
+      requesterUserId: currentUser.id,
+      targetHostelId: plan.hostel_id,
+      entityType: 'installment_plan',
+      entityId: plan.id,
+      before: { name: plan.name, semester_id: plan.semester_id, installments: items }
+    });
+
+    res.json({ success: true, message: 'Installment plan deleted' });
+  } catch (e) {
+    console.error('Delete installment plan error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Put students on a plan (body: { user_ids: [...] }); replaces any other plan they had for the semester
+router.post('/:id/assignments', requirePermission('invoices.manage'), async (req, res) => {
+  const client = await pool.connect();
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const plan = await findAccessiblePlan(req, currentUser);
+    if (!plan) return res.status(404).json({ success: false, message: 'Installment plan not found' });
+
+    const { user_ids } = req.body as any;
+    if (!Array.isArray(user_ids) || !user_ids.length) {
+      return res.status(400).json({ success: false, message: 'user_ids must be a non-empty array' });
+    }
+    const userIds = [...new Set(user_ids.map((id: any) => Number(id)))];
+    const enrolled = await pool.query(
+      `SELECT user_id FROM semester_enrollments
+       WHERE semester_id = $1 AND enrollment_status = 'active' AND user_id = ANY($2::int[])`,
+      [plan.semester_id, userIds]
+    );
+    const enrolledIds = new Set(enrolled.rows.map(r => r.user_id));
+    const notEnrolled = userIds.filter(id => !enrolledIds.has(id));
+    if (notEnrolled.length) {
+      return res.status(400).json({ success: false, message: `Not enrolled in the plan's semester: ${notEnrolled.join(', ')}` });
+    }
+
+    await client.query('BEGIN');
+    for (const userId of userIds) {
+      await InstallmentPlanModel.assign(plan.id, userId, plan.semester_id, currentUser.id, client);
+    }
+    await client.query('COMMIT');
+
+    for (const userId of userIds) {
+      await AuditService.record(req, {
+        action: 'installment_plan_assign',
+        requesterUserId: currentUser.id,
+        targetUserId: userId,
+        targetHostelId: plan.hostel_id,
+        entityType: 'installment_plan',
+        entityId: plan.id,
+        after: { plan: plan.name, semester_id: plan.semester_id }
+      });
+    }
+
+    res.json({ success: true, message: `${userIds.length} student(s) assigned to ${plan.name}` });
+  } catch (e) {
+    await client.query('ROLLBACK').catch(() => {});
+    console.error('Assign installment plan error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  } finally {
+    client.release();
+  }
+});
+
+router.delete('/:id/assignments/:userId', requirePermission('invoices.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const plan = await findAccessiblePlan(req, currentUser);
+    if (!plan) return res.status(404).json({ success: false, message: 'Installment plan not found' });
+
+    const userId = parseInt(req.params.userId);
+    const removed = await InstallmentPlanModel.unassign(plan.id, userId);
+    if (!removed) return res.status(404).json({ success: false, message: 'Student is not on this plan' });
+
+    await AuditService.record(req, {
+      action: 'installment_plan_unassign',
+      requesterUserId: currentUser.id,
+      targetUserId: userId,
+      targetHostelId: plan.hostel_id,
+      entityType: 'installment_plan',
+      entityId: plan.id,
+      before: { plan: plan.name, semester_id: plan.semester_id }
+    });
+
+    res.json({ success: true, message: 'Student removed from the plan' });
+  } catch (e) {
+    console.error('Unassign installment plan error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// A student's installments with due dates, what is paid and what is overdue (?semester_id, default: the current one)
+router.get('/students/:userId/schedule', requirePermission('invoices.view', { allowSelfParam: 'userId' }), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const userId = parseInt(req.params.userId);
+    const student = await UserModel.findById(userId);
+    const hostelId = currentUser.id === userId ? student?.hostel_id : await resolveTargetHostelId(req, currentUser);
+    if (!student || (currentUser.role !== 'super_admin' && student.hostel_id !== hostelId)) {
+      return res.status(404).json({ success: false, message: 'Student not found' });
+    }
+
+    let semesterId = req.query.semester_id ? Number(req.query.semester_id) : null;
+    if (!semesterId && student.hostel_id) {
+      const current = await SemesterModel.findCurrentByHostelId(student.hostel_id);
+      semesterId = current?.id || null;
+    }
+    if (!semesterId) return res.status(400).json({ success: false, message: 'semester_id is required' });
+
+    const schedule = await InstallmentService.getStudentSchedule(userId, semesterId);
+    if (!schedule) return res.status(404).json({ success: false, message: 'Student has no installment plan for this semester' });
+    res.json({ success: true, data: schedule });
+  } catch (e) {
+    console.error('Installment schedule error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,6 +1,7 @@
 import express, { Request } from 'express';
 import pool from '../config/database';
 import { UserModel } from '../models/User';
+import { requirePermission } from '../utils/permissionMiddleware';
 import { requireActiveSemester } from '../utils/semesterMiddleware';
 
 const router = express.Router();
@@ -18,7 +19,7 @@ async function getHostelId(userId: number, role: string): Promise<number | null>
 }
 
 // List inventory items
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('inventory.view'), async (req, res) => {
   try {
     const rawAuth = req.headers.authorization || '';
     const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
@@ -26,7 +27,7 @@ router.get('/', async (req, res) => {
     let decoded: any;
     try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) return res.status(403).json({ success: false, message: 'Forbidden' });
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
     const hostelId = await getHostelId(currentUser.id, currentUser.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     const page = Math.max(1, parseInt((req.query.page as string) || '1', 10));
@@ -46,7 +47,7 @@ router.get('/', async (req, res) => {
 });
 
 // Create inventory item
-router.post('/', async (req: Request, res) => {
+router.post('/', requirePermission('inventory.manage'), async (req: Request, res) => {
   try {
     const rawAuth = req.headers.authorization || '';
     const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
@@ -54,7 +55,7 @@ router.post('/', async (req: Request, res) => {
     let decoded: any;
     try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) return res.status(403).json({ success: false, message: 'Forbidden' });
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
     const hostelId = await getHostelId(currentUser.id, currentUser.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     
@@ -79,7 +80,7 @@ router.post('/', async (req: Request, res) => {
 });
 
 // Update inventory item
-router.put('/:id', async (req: Request, res) => {
+router.put('/:id', requirePermission('inventory.manage'), async (req: Request, res) => {
   try {
     const rawAuth = req.headers.authorization || '';
     const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
@@ -87,7 +88,7 @@ router.put('/:id', async (req: Request, res) => {
     let decoded: any;
     try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) return res.status(403).json({ success: false, message: 'Forbidden' });
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
     const hostelId = await getHostelId(currentUser.id, currentUser.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     const { id } = req.params;
@@ -116,7 +117,7 @@ router.put('/:id', async (req: Request, res) => {
 });
 
 // Delete inventory item
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('inventory.manage'), async (req, res) => {
   try {
     const rawAuth = req.headers.authorization || '';
     const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
@@ -124,7 +125,7 @@ router.delete('/:id', async (req, res) => {
     let decoded: any;
     try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) return res.status(403).json({ success: false, message: 'Forbidden' });
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
     const hostelId = await getHostelId(currentUser.id, currentUser.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     const { id } = req.params;
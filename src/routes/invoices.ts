@@ -0,0 +1,328 @@
+import express from 'express';
+import pool from '../config/database';
+import { User } from '../models/User';
+import { InvoiceModel, FeeTemplateModel, FeeTemplate, FEE_TYPES, FeeType, Invoice } from '../models/Invoice';
+import { DepositSettlementModel } from '../models/Deposit';
+import { InvoiceService } from '../services/invoiceService';
+import { DiscountService } from '../services/discountService';
+import { AuditService } from '../services/auditService';
+import { requirePermission, getCurrentUser, resolveTargetHostelId } from '../utils/permissionMiddleware';
+import { idempotent } from '../utils/idempotencyMiddleware';
+
+const router = express.Router();
+
+// Room charges come from the room assignment, late fees from penalty rules and discounts from discount rules;
+// none of them is added or removed by hand
+const MANUAL_FEE_TYPES = FEE_TYPES.filter(t => t !== 'room' && t !== 'late_fee' && t !== 'discount') as Exclude<FeeType, 'room' | 'late_fee' | 'discount'>[];
+
+// Loads an invoice of the caller's hostel; super admins may open any
+async function findAccessibleInvoice(req: express.Request, user: User): Promise<Invoice | null> {
+  const invoice = await InvoiceModel.findById(parseInt(req.params.id));
+  if (!invoice) return null;
+  if (user.role !== 'super_admin' && invoice.hostel_id !== await resolveTargetHostelId(req, user)) return null;
+  return invoice;
+}
+
+async function findAccessibleTemplate(req: express.Request, user: User): Promise<FeeTemplate | null> {
+  const template = await FeeTemplateModel.findById(parseInt(req.params.id));
+  if (!template) return null;
+  if (user.role !== 'super_admin' && template.hostel_id !== await resolveTargetHostelId(req, user)) return null;
+  return template;
+}
+
+function parseAmount(value: any): number | null {
+  const amount = typeof value === 'number' ? value : parseFloat(value);
+  return Number.isFinite(amount) && amount >= 0 ? amount : null;
+}
+
+// ===== Fee templates =====
+
+router.get('/fee-templates', requirePermission('invoices.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const templates = await FeeTemplateModel.listForHostel(hostelId, req.query.active === 'true');
+    res.json({ success: true, data: templates, fee_types: MANUAL_FEE_TYPES });
+  } catch (e) {
+    console.error('List fee templates error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+router.post('/fee-templates', requirePermission('invoices.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const { name, fee_type, amount, auto_apply } = req.body as any;
+    const templateName = typeof name === 'string' ? name.trim() : '';
+    if (!templateName || templateName.length > 100) {
+      return res.status(400).json({ success: false, message: 'Name is required (max 100 characters)' });
+    }
+    if (!MANUAL_FEE_TYPES.includes(fee_type)) {
+      return res.status(400).json({ success: false, message: `fee_type must be one of: ${MANUAL_FEE_TYPES.join(', ')}` });
+    }
+    const parsedAmount = parseAmount(amount);
+    if (parsedAmount === null) return res.status(400).json({ success: false, message: 'amount must be a non-negative number' });
+
+    const template = await FeeTemplateModel.create({
+      hostel_id: hostelId,
+      name: templateName,
+      fee_type,
+      amount: parsedAmount,
+      auto_apply: auto_apply === undefined ? true : !!auto_apply
+    });
+
+    await AuditService.record(req, {
+      action: 'fee_template_create',
+      requesterUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'fee_template',
+      entityId: template.id,
+      after: { name: template.name, fee_type: template.fee_type, amount: template.amount, auto_apply: template.auto_apply }
+    });
+
+    res.status(201).json({ success: true, message: 'Fee template created', data: template });
+  } catch (e) {
+    console.error('Create fee template error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Changes apply to invoices generated afterwards; existing line items keep their amounts
+router.put('/fee-templates/:id', requirePermission('invoices.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const template = await findAccessibleTemplate(req, currentUser);
+    if (!template) return res.status(404).json({ success: false, message: 'Fee template not found' });
+
+    const { name, fee_type, amount, auto_apply, is_active } = req.body as any;
+    const templateName = typeof name === 'string' ? name.trim() : undefined;
+    if (templateName !== undefined && (!templateName || templateName.length > 100)) {
+      return res.status(400).json({ success: false, message: 'Name must be 1-100 characters' });
+    }
+    if (fee_type !== undefined && !MANUAL_FEE_TYPES.includes(fee_type)) {
+      return res.status(400).json({ success: false, message: `fee_type must be one of: ${MANUAL_FEE_TYPES.join(', ')}` });
+    }
+    const parsedAmount = amount === undefined ? undefined : parseAmount(amount);
+    if (parsedAmount === null) return res.status(400).json({ success: false, message: 'amount must be a non-negative number' });
+
+    const updated = await FeeTemplateModel.update(template.id, {
+      name: templateName,
+      fee_type,
+      amount: parsedAmount,
+      auto_apply: auto_apply === undefined ? undefined : !!auto_apply,
+      is_active: is_active === undefined ? undefined : !!is_active
+    });
+
+    await AuditService.record(req, {
+      action: 'fee_template_update',
+      requesterUserId: currentUser.id,
+      targetHostelId: template.hostel_id,
+      entityType: 'fee_template',
+      entityId: template.id,
+      before: { name: template.name, fee_type: template.fee_type, amount: template.amount, auto_apply: template.auto_apply, is_active: template.is_active },
+      after: updated ? { name: updated.name, fee_type: updated.fee_type, amount: updated.amount, auto_apply: updated.auto_apply, is_active: updated.is_active } : null
+    });
+
+    res.json({ success: true, message: 'Fee template updated', data: updated });
+  } catch (e) {
+    console.error('Update fee template error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+router.delete('/fee-templates/:id', requirePermission('invoices.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const template = await findAccessibleTemplate(req, currentUser);
+    if (!template) return res.status(404).json({ success: false, message: 'Fee template not found' });
+
+    await FeeTemplateModel.delete(template.id);
+
+    await AuditService.record(req, {
+      action: 'fee_template_delete',
+      requesterUserId: currentUser.id,
+      targetHostelId: template.hostel_id,
+      entityType: 'fee_template',
+      entityId: template.id,
+      before: { name: template.name, fee_type: template.fee_type, amount: template.amount }
+    });
+
+    res.json({ success: true, message: 'Fee template deleted' });
+  } catch (e) {
+    console.error('Delete fee template error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// ===== Invoices =====
+
+// List invoices with paid and balance (filters: ?semester_id, ?user_id)
+router.get('/', requirePermission('invoices.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const page = Math.max(1, parseInt((req.query.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((req.query.limit as string) || '20', 10) || 20));
+    const { rows, total } = await InvoiceModel.listForHostel(hostelId, {
+      semesterId: req.query.semester_id ? Number(req.query.semester_id) : null,
+      userId: req.query.user_id ? Number(req.query.user_id) : null,
+      limit,
+      offset: (page - 1) * limit
+    });
+
+    res.json({ success: true, data: rows, page, limit, total });
+  } catch (e) {
+    console.error('List invoices error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Single invoice with its line items
+router.get('/:id', requirePermission('invoices.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const invoice = await findAccessibleInvoice(req, currentUser);
+    if (!invoice) return res.status(404).json({ success: false, message: 'Invoice not found' });
+
+    const withLines = await InvoiceService.getWithLines(invoice.id);
+    const paid = await InvoiceModel.getPaidAmount(invoice.user_id, invoice.semester_id);
+    res.json({ success: true, data: { ...withLines, paid, balance: invoice.total_amount - paid } });
+  } catch (e) {
+    console.error('Get invoice error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Add a charge (damages, utilities, ...) either from a fee template or ad hoc
+router.post('/:id/line-items', requirePermission('invoices.manage'), idempotent(), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const invoice = await findAccessibleInvoice(req, currentUser);
+    if (!invoice) return res.status(404).json({ success: false, message: 'Invoice not found' });
+
+    const { fee_template_id, fee_type, description, quantity, unit_amount } = req.body as any;
+    const qty = quantity === undefined ? 1 : parseInt(quantity, 10);
+    if (!Number.isInteger(qty) || qty < 1) return res.status(400).json({ success: false, message: 'quantity must be a positive integer' });
+
+    let item: { fee_type: FeeType; description: string; unit_amount: number; fee_template_id: number | null };
+    if (fee_template_id) {
+      const template = await FeeTemplateModel.findById(Number(fee_template_id));
+      if (!template || template.hostel_id !== invoice.hostel_id || !template.is_active) {
+        return res.status(400).json({ success: false, message: 'Invalid fee template' });
+      }
+      item = { fee_type: template.fee_type, description: template.name, unit_amount: template.amount, fee_template_id: template.id };
+    } else {
+      if (!MANUAL_FEE_TYPES.includes(fee_type)) {
+        return res.status(400).json({ success: false, message: `fee_type must be one of: ${MANUAL_FEE_TYPES.join(', ')}` });
+      }
+      const text = typeof description === 'string' ? description.trim() : '';
+      if (!text || text.length > 255) return res.status(400).json({ success: false, message: 'Description is required (max 255 characters)' });
+      const parsedAmount = parseAmount(unit_amount);
+      if (parsedAmount === null) return res.status(400).json({ success: false, message: 'unit_amount must be a non-negative number' });
+      item = { fee_type, description: text, unit_amount: parsedAmount, fee_template_id: null };
+    }
+
+    const client = await pool.connect();
+    let lineItem;
+    let updated;
+    try {
+      await client.query('BEGIN');
+      lineItem = await InvoiceService.addLine(invoice, { ...item, quantity: qty, created_by: currentUser.id }, client);
+      await DiscountService.applyToInvoice(invoice, currentUser.id, client);
+      updated = await InvoiceModel.refreshTotal(invoice.id, client);
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    await AuditService.record(req, {
+      action: 'invoice_line_add',
+      requesterUserId: currentUser.id,
+      targetUserId: invoice.user_id,
+      targetHostelId: invoice.hostel_id,
+      entityType: 'invoice',
+      entityId: invoice.id,
+      before: { total_amount: invoice.total_amount },
+      after: { line_item_id: lineItem.id, fee_type: lineItem.fee_type, description: lineItem.description, amount: lineItem.amount, total_amount: updated.total_amount }
+    });
+
+    res.status(201).json({ success: true, message: 'Charge added to invoice', data: lineItem, total_amount: updated.total_amount });
+  } catch (e) {
+    console.error('Add invoice line error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+router.delete('/:id/line-items/:itemId', requirePermission('invoices.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const invoice = await findAccessibleInvoice(req, currentUser);
+    if (!invoice) return res.status(404).json({ success: false, message: 'Invoice not found' });
+
+    const lineItem = await InvoiceModel.findLineItem(invoice.id, parseInt(req.params.itemId));
+    if (!lineItem) return res.status(404).json({ success: false, message: 'Line item not found' });
+    if (lineItem.fee_type === 'room') {
+      return res.status(400).json({ success: false, message: 'The room charge follows the room assignment and cannot be removed' });
+    }
+    if (lineItem.fee_type === 'late_fee') {
+      return res.status(400).json({ success: false, message: 'Late fees are removed by waiving them under /api/penalties' });
+    }
+    if (lineItem.fee_type === 'discount') {
+      return res.status(400).json({ success: false, message: 'Discounts follow their discount rule; change or deactivate the rule under /api/discounts' });
+    }
+    if ((lineItem.fee_type === 'security_deposit' || lineItem.fee_type === 'damages') && await DepositSettlementModel.existsForInvoice(invoice.id)) {
+      return res.status(400).json({ success: false, message: 'The deposit on this invoice was settled at check-out' });
+    }
+
+    const client = await pool.connect();
+    let updated;
+    try {
+      await client.query('BEGIN');
+      await InvoiceService.removeLine(invoice, lineItem, currentUser.id, client);
+      await DiscountService.applyToInvoice(invoice, currentUser.id, client);
+      updated = await InvoiceModel.refreshTotal(invoice.id, client);
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    await AuditService.record(req, {
+      action: 'invoice_line_remove',
+      requesterUserId: currentUser.id,
+      targetUserId: invoice.user_id,
+      targetHostelId: invoice.hostel_id,
+      entityType: 'invoice',
+      entityId: invoice.id,
+      before: { line_item_id: lineItem.id, fee_type: lineItem.fee_type, description: lineItem.description, amount: lineItem.amount, total_amount: invoice.total_amount },
+      after: { total_amount: updated.total_amount }
+    });
+
+    res.json({ success: true, message: 'Charge removed from invoice', total_amount: updated.total_amount });
+  } catch (e) {
+    console.error('Remove invoice line error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
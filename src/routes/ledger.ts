@@ -0,0 +1,139 @@
+import express from 'express';
+import { UserModel } from '../models/User';
+import { LedgerModel } from '../models/Ledger';
+import { LEDGER_ACCOUNTS } from '../services/ledgerService';
+import { requirePermission, getCurrentUser, resolveTargetHostelId } from '../utils/permissionMiddleware';
+
+const router = express.Router();
+
+// undefined when the value is present but not a date, so the route can reject it
+function parseDate(value: any): Date | null | undefined {
+  if (value === undefined || value === '') return null;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+// Trial balance per account (?as_of); total debits always equal total credits
+router.get('/trial-balance', requirePermission('ledger.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const asOf = parseDate(req.query.as_of);
+    if (asOf === undefined) return res.status(400).json({ success: false, message: 'as_of must be a valid date' });
+
+    const accounts = await LedgerModel.trialBalance(hostelId, asOf);
+    const totalDebit = accounts.reduce((sum, a) => sum + a.debit, 0);
+    const totalCredit = accounts.reduce((sum, a) => sum + a.credit, 0);
+
+    res.json({
+      success: true,
+      data: {
+        as_of: asOf,
+        accounts,
+        total_debit: totalDebit,
+        total_credit: totalCredit,
+        balanced: Math.round(totalDebit * 100) === Math.round(totalCredit * 100)
+      }
+    });
+  } catch (e) {
+    console.error('Trial balance error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Postings of one account with a running balance (?account_code, ?from, ?to)
+router.get('/general-ledger', requirePermission('ledger.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const code = String(req.query.account_code || '');
+    if (!code) return res.status(400).json({ success: false, message: 'account_code is required' });
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === undefined || to === undefined) return res.status(400).json({ success: false, message: 'from and to must be valid dates' });
+
+    const account = await LedgerModel.findAccount(hostelId, code);
+    if (!account) return res.status(404).json({ success: false, message: 'Account not found' });
+
+    const ledger = await LedgerModel.accountLedger(account, { from, to });
+    res.json({ success: true, data: { account, from, to, ...ledger } });
+  } catch (e) {
+    console.error('General ledger error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// A student's receivable account: charges, payments and adjustments with the running amount owed
+router.get('/students/:userId/statement', requirePermission('ledger.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const userId = parseInt(req.params.userId);
+    const student = await UserModel.findById(userId);
+    if (!student || student.role !== 'user' || (currentUser.role !== 'super_admin' && student.hostel_id !== hostelId)) {
+      return res.status(404).json({ success: false, message: 'Student not found' });
+    }
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === undefined || to === undefined) return res.status(400).json({ success: false, message: 'from and to must be valid dates' });
+
+    const account = await LedgerModel.findAccount(hostelId, LEDGER_ACCOUNTS.receivables.code);
+    const ledger = account
+      ? await LedgerModel.accountLedger(account, { from, to, userId })
+      : { opening_balance: 0, lines: [], closing_balance: 0 };
+
+    res.json({
+      success: true,
+      data: {
+        student: { id: student.id, name: student.name, email: student.email },
+        from,
+        to,
+        ...ledger
+      }
+    });
+  } catch (e) {
+    console.error('Student statement error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Journal entries with their postings, newest first (?from, ?to, ?source_type)
+router.get('/journal', requirePermission('ledger.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const from = parseDate(req.query.from);
+    const to = parseDate(req.query.to);
+    if (from === undefined || to === undefined) return res.status(400).json({ success: false, message: 'from and to must be valid dates' });
+
+    const page = Math.max(1, parseInt((req.query.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((req.query.limit as string) || '20', 10) || 20));
+    const entries = await LedgerModel.listJournal(hostelId, {
+      from,
+      to,
+      sourceType: req.query.source_type ? String(req.query.source_type) : null,
+      limit,
+      offset: (page - 1) * limit
+    });
+
+    res.json({ success: true, data: entries, page, limit });
+  } catch (e) {
+    console.error('List journal error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,197 @@
+import express from 'express';
+import pool from '../config/database';
+import { UserModel } from '../models/User';
+import { MobileMoneyCollectionModel, CollectionStatus, MobileMoneyNetwork } from '../models/MobileMoneyCollection';
+import { MobileMoneyService } from '../services/mobileMoneyService';
+import { PaymentService } from '../services/paymentService';
+import { AuditService } from '../services/auditService';
+import { CurrencyService } from '../services/currencyService';
+import { requireActiveSemester } from '../utils/semesterMiddleware';
+import { requirePermission, getRequestCaller, resolveTargetHostelId } from '../utils/permissionMiddleware';
+import { idempotent } from '../utils/idempotencyMiddleware';
+
+const router = express.Router();
+
+const COLLECTION_STATUSES: CollectionStatus[] = ['pending', 'successful', 'failed'];
+const NETWORKS: MobileMoneyNetwork[] = ['mtn', 'airtel'];
+
+// Push a payment prompt to a student's phone (defaults to student_profiles.phone)
+router.post('/collections', requirePermission('payments.record', { apiKeyScope: 'payments:write' }), idempotent(), async (req, res) => {
+  try {
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
+    const hostelId = caller.apiKey ? caller.apiKey.hostel_id : await resolveTargetHostelId(req, caller.user);
+    if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
+
+    const semesterCheck = await requireActiveSemester(caller.actorUserId, hostelId);
+    if (!semesterCheck.success || !semesterCheck.semesterId) {
+      return res.status(400).json({ success: false, message: semesterCheck.message });
+    }
+
+    const { user_id, amount, currency, purpose, phone, network } = req.body as any;
+    const parsedAmount = parseFloat(amount);
+    if (!user_id || !Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+      return res.status(400).json({ success: false, message: 'user_id and a positive amount are required' });
+    }
+    const collectionCurrency = currency === undefined ? await CurrencyService.getBaseCurrency(hostelId) : CurrencyService.normalizeCode(currency);
+    if (!collectionCurrency) return res.status(400).json({ success: false, message: 'currency must be a 3-letter currency code' });
+    if (!(await CurrencyService.convertToBase(hostelId, parsedAmount, collectionCurrency, new Date()))) {
+      return res.status(400).json({ success: false, message: `No exchange rate from ${collectionCurrency} to the hostel's base currency` });
+    }
+    if (network !== undefined && !NETWORKS.includes(network)) {
+      return res.status(400).json({ success: false, message: `network must be one of: ${NETWORKS.join(', ')}` });
+    }
+
+    const student = await pool.query(
+      `SELECT u.id, u.name, sp.phone
+       FROM users u LEFT JOIN student_profiles sp ON sp.user_id = u.id
+       WHERE u.id = $1 AND u.hostel_id = $2 AND u.role = 'user'`,
+      [user_id, hostelId]
+    );
+    if (!student.rowCount) return res.status(404).json({ success: false, message: 'Student not found in this hostel' });
+    const targetPhone = phone || student.rows[0].phone;
+    if (!targetPhone) return res.status(400).json({ success: false, message: 'Student has no phone number on file; pass phone' });
+
+    const result = await MobileMoneyService.startCollection({
+      hostelId,
+      userId: Number(user_id),
+      semesterId: semesterCheck.semesterId,
+      phone: targetPhone,
+      network: network || null,
+      amount: parsedAmount,
+      currency: collectionCurrency,
+      purpose: purpose || 'booking',
+      requestedBy: caller.actorUserId
+    });
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+    const { collection } = result;
+
+    await AuditService.record(req, {
+      action: 'mobile_money_request',
+      requesterUserId: caller.actorUserId,
+      message: caller.apiKey ? `Via API key ${caller.apiKey.key_prefix}` : null,
+      targetUserId: collection.user_id,
+      targetHostelId: hostelId,
+      entityType: 'mobile_money_collection',
+      entityId: collection.id,
+      after: { provider: collection.provider, network: collection.network, phone: collection.phone, amount: collection.amount, currency: collection.currency, reference: collection.provider_reference }
+    });
+
+    res.status(202).json({
+      success: true,
+      message: `Payment prompt sent via ${MobileMoneyService.getNetworkName(collection.network)}; the payment is recorded once the student approves it`,
+      data: collection
+    });
+  } catch (e) {
+    console.error('Start mobile money collection error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Collection requests with their status (filters: ?status, ?user_id)
+router.get('/collections', requirePermission('payments.view', { apiKeyScope: 'payments:read' }), async (req, res) => {
+  try {
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
+    const hostelId = caller.apiKey ? caller.apiKey.hostel_id : await resolveTargetHostelId(req, caller.user);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const status = req.query.status as CollectionStatus | undefined;
+    if (status && !COLLECTION_STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, message: `status must be one of: ${COLLECTION_STATUSES.join(', ')}` });
+    }
+    const page = Math.max(1, parseInt((req.query.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((req.query.limit as string) || '20', 10) || 20));
+    const rows = await MobileMoneyCollectionModel.listForHostel(hostelId, {
+      status: status || null,
+      userId: req.query.user_id ? Number(req.query.user_id) : null,
+      limit,
+      offset: (page - 1) * limit
+    });
+    res.json({ success: true, data: rows, page, limit });
+  } catch (e) {
+    console.error('List mobile money collections error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+router.get('/collections/:id', requirePermission('payments.view', { apiKeyScope: 'payments:read' }), async (req, res) => {
+  try {
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
+    const collection = await MobileMoneyCollectionModel.findById(parseInt(req.params.id));
+    const callerHostelId = caller.apiKey
+      ? caller.apiKey.hostel_id
+      : caller.user.role === 'super_admin' ? collection?.hostel_id : await resolveTargetHostelId(req, caller.user);
+    if (!collection || collection.hostel_id !== callerHostelId) {
+      return res.status(404).json({ success: false, message: 'Collection not found' });
+    }
+    res.json({ success: true, data: collection });
+  } catch (e) {
+    console.error('Get mobile money collection error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Provider callbacks: unauthenticated, trusted only through the provider's signature check
+router.post('/webhook/:provider', async (req, res) => {
+  try {
+    const rawBody: Buffer = (req as any).rawBody || Buffer.alloc(0);
+    const result = await MobileMoneyService.handleCallback(req.params.provider, rawBody, req.headers, req.body);
+    if (!result.success) {
+      if (result.status === 401) console.warn(`Rejected mobile money callback for ${req.params.provider}: invalid signature`);
+      return res.status(result.status).json({ success: false, message: result.message });
+    }
+
+    const { collection, duplicate, recorded } = result;
+    if (duplicate) return res.json({ success: true, message: 'Callback already processed' });
+
+    if (!recorded) {
+      await AuditService.record(req, {
+        action: 'mobile_money_failed',
+        targetUserId: collection.user_id,
+        targetHostelId: collection.hostel_id,
+        entityType: 'mobile_money_collection',
+        entityId: collection.id,
+        message: collection.failure_reason,
+        after: { provider: collection.provider, reference: collection.provider_reference, transaction_id: collection.provider_transaction_id }
+      });
+      return res.json({ success: true, message: 'Collection marked as failed' });
+    }
+
+    const networkName = MobileMoneyService.getNetworkName(collection.network);
+    await AuditService.record(req, {
+      action: 'payment_record',
+      requesterUserId: collection.requested_by,
+      message: `Via ${networkName} (${collection.provider} ${collection.provider_transaction_id || collection.provider_reference})`,
+      targetUserId: collection.user_id,
+      targetHostelId: collection.hostel_id,
+      entityType: 'payment',
+      entityId: recorded.payment.id,
+      after: {
+        amount: recorded.payment.amount,
+        currency: recorded.payment.currency,
+        purpose: recorded.payment.purpose,
+        semester_id: recorded.payment.semester_id,
+        invoice_number: recorded.invoice?.invoice_number || null,
+        total_paid: recorded.totalPaid,
+        balance_after: recorded.balanceAfter,
+        mobile_money_collection_id: collection.id
+      }
+    });
+
+    // Receipt failures must not make the provider retry a payment that is already recorded
+    const student = await UserModel.findById(collection.user_id);
+    if (student) {
+      PaymentService.sendReceipts(recorded, student, networkName)
+        .catch(err => console.error('Mobile money receipt email error:', err));
+    }
+
+    res.json({ success: true, message: 'Payment recorded' });
+  } catch (e) {
+    console.error('Mobile money webhook error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -1,5 +1,6 @@
 import express from 'express';
 import pool from '../config/database';
+import { requirePermission } from '../utils/permissionMiddleware';
 
 const router = express.Router();
 
@@ -15,7 +16,7 @@ const getUserContext = (req: any) => {
 };
 
 // Super Admin Analytics - Platform-wide statistics
-router.get('/platform/overview', async (req, res) => {
+router.get('/platform/overview', requirePermission('analytics.view_platform'), async (req, res) => {
   try {
     const query = `
       WITH active_assignments AS (
@@ -66,7 +67,7 @@ router.get('/platform/overview', async (req, res) => {
 });
 
 // University-wise analytics
-router.get('/universities/stats', async (req, res) => {
+router.get('/universities/stats', requirePermission('analytics.view_platform'), async (req, res) => {
   try {
     const query = `
       WITH active_assignments AS (
@@ -117,7 +118,7 @@ router.get('/universities/stats', async (req, res) => {
 });
 
 // Region-wise analytics (works across all universities)
-router.get('/regions/stats', async (req, res) => {
+router.get('/regions/stats', requirePermission('analytics.view_platform'), async (req, res) => {
   try {
     const query = `
       WITH active_assignments AS (
@@ -168,7 +169,7 @@ router.get('/regions/stats', async (req, res) => {
 });
 
 // University Admin Analytics - University-specific statistics
-router.get('/university/:universityId/overview', async (req, res) => {
+router.get('/university/:universityId/overview', requirePermission('analytics.view_platform'), async (req, res) => {
   try {
     const { universityId } = req.params;
     const userContext = getUserContext(req);
@@ -229,7 +230,7 @@ router.get('/university/:universityId/overview', async (req, res) => {
 });
 
 // Hostel Admin Analytics - Hostel-specific statistics
-router.get('/hostel/:hostelId/overview', async (req, res) => {
+router.get('/hostel/:hostelId/overview', requirePermission('analytics.view_hostel'), async (req, res) => {
   try {
     const { hostelId } = req.params;
     const userContext = getUserContext(req);
@@ -295,7 +296,7 @@ router.get('/hostel/:hostelId/overview', async (req, res) => {
 });
 
 // Get all regions for dropdowns
-router.get('/regions', async (req, res) => {
+router.get('/regions', requirePermission('analytics.view_platform'), async (req, res) => {
   try {
     const query = 'SELECT * FROM regions ORDER BY name';
     const result = await pool.query(query);
@@ -1,8 +1,17 @@
 import express, { Request } from 'express';
 import pool from '../config/database';
-import { UserModel } from '../models/User';
-import { EmailService } from '../services/emailService';
+import { User } from '../models/User';
+import { PaymentAdjustmentModel, PaymentAdjustment, AdjustmentStatus } from '../models/PaymentAdjustment';
 import { requireActiveSemester } from '../utils/semesterMiddleware';
+import { AuditService } from '../services/auditService';
+import { PaymentAdjustmentService, ADJUSTMENT_TYPES } from '../services/paymentAdjustmentService';
+import { PermissionService } from '../services/permissionService';
+import { PaymentService, PAYMENT_METHODS } from '../services/paymentService';
+import { ReceiptService } from '../services/receiptService';
+import { CurrencyService } from '../services/currencyService';
+import { InstallmentService } from '../services/installmentService';
+import { requirePermission, getRequestCaller, getCurrentUser, resolveTargetHostelId } from '../utils/permissionMiddleware';
+import { idempotent } from '../utils/idempotencyMiddleware';
 
 const router = express.Router();
 
@@ -11,125 +20,83 @@ type SummaryCacheItem = { data: any; expiresAt: number };
 const summaryCache: Map<number, SummaryCacheItem> = new Map();
 const SUMMARY_TTL_MS = 10_000; // 10 seconds
 
-async function resolveHostelIdForUser(userId: number, role: string): Promise<number | null> {
-  if (role === 'hostel_admin') {
-    const u = await UserModel.findById(userId);
-    return u?.hostel_id || null;
-  }
-  if (role === 'custodian') {
-    const r = await pool.query('SELECT hostel_id FROM custodians WHERE user_id = $1', [userId]);
-    const fromCustodians = r.rows[0]?.hostel_id || null;
-    if (fromCustodians) return fromCustodians;
-    const u = await UserModel.findById(userId);
-    return u?.hostel_id || null;
-  }
-  return null;
-}
-
 // Record a payment for a student in current hostel and send receipt
-router.post('/', async (req: Request, res) => {
+router.post('/', requirePermission('payments.record', { apiKeyScope: 'payments:write' }), idempotent(), async (req: Request, res) => {
   const client = await pool.connect();
   try {
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-    const decoded: any = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
 
-    const hostelId = await resolveHostelIdForUser(currentUser.id, currentUser.role);
+    const hostelId = caller.apiKey ? caller.apiKey.hostel_id : await resolveTargetHostelId(req, caller.user);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
     // Check for active semester before allowing payment recording
-    const semesterCheck = await requireActiveSemester(currentUser.id, hostelId);
-    if (!semesterCheck.success) {
+    const semesterCheck = await requireActiveSemester(caller.actorUserId, hostelId);
+    if (!semesterCheck.success || !semesterCheck.semesterId) {
       return res.status(400).json({ success: false, message: semesterCheck.message });
     }
 
-    const { user_id, amount, currency, purpose } = req.body as any;
-    if (!user_id || !amount) return res.status(400).json({ success: false, message: 'user_id and amount are required' });
+    const { user_id, amount, currency, purpose, payment_method, payment_reference } = req.body as any;
+    // Money only leaves through the approval-gated void/refund/correction flow, so a payment must be positive
+    const parsedAmount = parseFloat(amount);
+    if (!user_id || !Number.isFinite(parsedAmount) || parsedAmount <= 0) {
+      return res.status(400).json({ success: false, message: 'user_id and a positive amount are required' });
+    }
+    // Staff mostly take cash at the desk, so that stays their default. Integrations never hold cash, and a cash
+    // default would count their payments as cash in hand for whoever issued the key.
+    const paymentMethod = payment_method ?? (caller.apiKey ? 'bank_transfer' : 'cash');
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      return res.status(400).json({ success: false, message: `payment_method must be one of: ${PAYMENT_METHODS.join(', ')}` });
+    }
+    const paymentReference = typeof payment_reference === 'string' && payment_reference.trim() ? payment_reference.trim() : null;
+    if (paymentReference && paymentReference.length > 100) {
+      return res.status(400).json({ success: false, message: 'payment_reference is too long (max 100 characters)' });
+    }
+    const paymentCurrency = currency === undefined ? await CurrencyService.getBaseCurrency(hostelId) : CurrencyService.normalizeCode(currency);
+    if (!paymentCurrency) return res.status(400).json({ success: false, message: 'currency must be a 3-letter currency code' });
+    if (!(await CurrencyService.convertToBase(hostelId, parsedAmount, paymentCurrency, new Date()))) {
+      return res.status(400).json({ success: false, message: `No exchange rate from ${paymentCurrency} to the hostel's base currency` });
+    }
 
     // Validate student belongs to hostel
     const student = await pool.query('SELECT id, email, name FROM users WHERE id = $1 AND hostel_id = $2 AND role = \'user\'', [user_id, hostelId]);
     if (!student.rowCount) return res.status(404).json({ success: false, message: 'Student not found in this hostel' });
 
-    // Compute balance (simple: sum of payments negative; could be extended with expected fees table)
     await client.query('BEGIN');
-    const payRes = await client.query(
-      'INSERT INTO payments (user_id, hostel_id, semester_id, amount, currency, purpose) VALUES ($1, $2, $3, $4, $5, $6) RETURNING id, created_at',
-      [user_id, hostelId, semesterCheck.semesterId, parseFloat(amount), currency || 'UGX', purpose || 'booking']
-    );
-
-    // Get room assignment and expected price for this semester
-    const roomRes = await client.query(
-      `SELECT rm.room_number, rm.price::numeric AS expected_price
-       FROM student_room_assignments sra
-       JOIN rooms rm ON rm.id = sra.room_id
-       WHERE sra.user_id = $1 AND sra.semester_id = $2 AND sra.status = 'active'
-       LIMIT 1`,
-      [user_id, semesterCheck.semesterId]
-    );
-    const room = roomRes.rows[0] || null;
-
-    // Compute totals AFTER this payment for this semester
-    const sumRes = await client.query('SELECT COALESCE(SUM(amount),0) as total_paid FROM payments WHERE user_id = $1 AND semester_id = $2', [user_id, semesterCheck.semesterId]);
-    const totalPaidAfter = parseFloat(sumRes.rows[0]?.total_paid || '0');
-    const expected = room?.expected_price != null ? parseFloat(room.expected_price) : null;
-    const balanceAfter = expected != null ? (expected - totalPaidAfter) : null;
-
+    const recorded = await PaymentService.record({
+      hostelId,
+      userId: Number(user_id),
+      semesterId: semesterCheck.semesterId,
+      amount: parsedAmount,
+      currency: paymentCurrency,
+      purpose,
+      paymentMethod,
+      paymentReference,
+      recordedBy: caller.actorUserId
+    }, client);
     await client.query('COMMIT');
+    const { payment, expected, invoice, totalPaid: totalPaidAfter, balanceAfter } = recorded;
 
     // Invalidate cached summary for this hostel
     if (hostelId) {
       summaryCache.delete(hostelId);
     }
 
-    // Email receipt (hostel-branded)
-    const s = student.rows[0];
-    const hostelMeta = await pool.query('SELECT name FROM hostels WHERE id = $1', [hostelId]);
-    const hostelName = hostelMeta.rows[0]?.name || undefined;
-    const html = EmailService.generatePaymentReceiptEmail(
-      s.name,
-      s.email,
-      parseFloat(amount),
-      currency || 'UGX',
-      balanceAfter,
-      room?.room_number || null,
-      null,
-      new Date(payRes.rows[0].created_at).toLocaleString(),
-      hostelName,
-      currentUser.name,
-      'Cleared by',
-      null,
-      expected
-    );
-    // Send receipt
-    await EmailService.sendEmail({ to: s.email, subject: 'Payment Receipt - LTS Portal', html });
-
-    // If fully paid now, send thank you & welcome email
-    if (expected != null && balanceAfter != null && balanceAfter <= 0) {
-      // Fetch student profile for access_number
-      const profileRes = await pool.query('SELECT access_number FROM student_profiles WHERE user_id = $1', [user_id]);
-      const accessNumber = profileRes.rows[0]?.access_number || null;
-      
-      const thankYouHtml = EmailService.generateThankYouWelcomeEmail(
-        s.name,
-        s.email,
-        hostelName || 'Our Hostel',
-        room?.room_number || null,
-        accessNumber,
-        parseFloat(amount),
-        currency || 'UGX',
-        totalPaidAfter,
-        expected
-      );
-      await EmailService.sendEmail({ 
-        to: s.email, 
-        subject: `Thank You & Welcome to ${hostelName}! - All Balance Paid`, 
-        html: thankYouHtml 
-      });
-    }
-
-    res.status(201).json({ success: true, message: 'Payment recorded and receipt sent', data: { total_paid: totalPaidAfter, expected, balance_after: balanceAfter } });
+    await AuditService.record(req, {
+      action: 'payment_record',
+      requesterUserId: caller.actorUserId,
+      message: caller.apiKey ? `Via API key ${caller.apiKey.key_prefix}` : null,
+      targetUserId: Number(user_id),
+      targetHostelId: hostelId,
+      entityType: 'payment',
+      entityId: payment.id,
+      after: { amount: payment.amount, currency: payment.currency, base_amount: payment.base_amount, base_currency: payment.base_currency, purpose: payment.purpose, payment_method: payment.payment_method, semester_id: semesterCheck.semesterId, invoice_number: invoice?.invoice_number || null, total_paid: totalPaidAfter, balance_after: balanceAfter }
+    });
+
+    // Email receipt (hostel-branded), and the thank you & welcome email once fully paid
+    await PaymentService.sendReceipts(recorded, student.rows[0], caller.actorName);
+
+    res.status(201).json({ success: true, message: 'Payment recorded and receipt sent', data: { receipt_number: payment.receipt_number, base_amount: payment.base_amount, base_currency: payment.base_currency, total_paid: totalPaidAfter, expected, balance_after: balanceAfter, invoice_number: invoice?.invoice_number || null } });
   } catch (e) {
     await client.query('ROLLBACK');
     console.error('Record payment error:', e);
@@ -140,20 +107,19 @@ router.post('/', async (req: Request, res) => {
 });
 
 // Payments summary for current hostel (super_admin may pass ?hostel_id=...)
-router.get('/summary', async (req, res) => {
+router.get('/summary', requirePermission('payments.view', { apiKeyScope: 'payments:read' }), async (req, res) => {
   try {
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-    const decoded: any = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
 
     let hostelId: number | null = null;
-    if (currentUser.role === 'super_admin') {
+    if (caller.apiKey) {
+      hostelId = caller.apiKey.hostel_id;
+    } else if (caller.user.role === 'super_admin') {
       hostelId = req.query.hostel_id ? Number(req.query.hostel_id) : null;
       if (!hostelId) return res.status(400).json({ success: false, message: 'hostel_id is required for super_admin' });
     } else {
-      hostelId = await resolveHostelIdForUser(currentUser.id, currentUser.role);
+      hostelId = await resolveTargetHostelId(req, caller.user);
     }
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
@@ -167,12 +133,28 @@ router.get('/summary', async (req, res) => {
       return res.json({ success: true, data: cached.data });
     }
 
-    // Total collected (filtered by semester if provided)
+    // Total collected (filtered by semester if provided). All totals are in the hostel's base currency;
+    // foreign-currency payments still waiting for an exchange rate are counted separately.
     const totalPaidQuery = semesterId
-      ? 'SELECT COALESCE(SUM(amount),0) AS total_collected FROM payments WHERE hostel_id = $1 AND semester_id = $2'
-      : 'SELECT COALESCE(SUM(amount),0) AS total_collected FROM payments WHERE hostel_id = $1';
+      ? 'SELECT COALESCE(SUM(base_amount),0) AS total_collected, COUNT(*) FILTER (WHERE base_amount IS NULL)::int AS unconverted FROM payments WHERE hostel_id = $1 AND semester_id = $2'
+      : 'SELECT COALESCE(SUM(base_amount),0) AS total_collected, COUNT(*) FILTER (WHERE base_amount IS NULL)::int AS unconverted FROM payments WHERE hostel_id = $1';
     const totalPaidRes = await pool.query(totalPaidQuery, semesterId ? [hostelId, semesterId] : [hostelId]);
     const total_collected = parseFloat(totalPaidRes.rows[0]?.total_collected || '0');
+    const unconverted_payments = totalPaidRes.rows[0]?.unconverted || 0;
+    const currency = await CurrencyService.getBaseCurrency(hostelId);
+
+    // Voids, refunds and corrections are already netted out of total_collected; these show how much
+    const adjustmentsQuery = `SELECT
+        COALESCE(SUM(CASE WHEN entry_type = 'void' THEN -base_amount ELSE 0 END),0) AS total_voided,
+        COALESCE(SUM(CASE WHEN entry_type = 'refund' THEN -base_amount ELSE 0 END),0) AS total_refunded,
+        COALESCE(SUM(CASE WHEN entry_type = 'correction' THEN base_amount ELSE 0 END),0) AS total_corrections
+      FROM payments WHERE hostel_id = $1 AND entry_type <> 'payment' ${semesterId ? 'AND semester_id = $2' : ''}`;
+    const adjustmentsRes = await pool.query(adjustmentsQuery, semesterId ? [hostelId, semesterId] : [hostelId]);
+    const adjustments = {
+      total_voided: parseFloat(adjustmentsRes.rows[0]?.total_voided || '0'),
+      total_refunded: parseFloat(adjustmentsRes.rows[0]?.total_refunded || '0'),
+      total_corrections: parseFloat(adjustmentsRes.rows[0]?.total_corrections || '0')
+    };
 
     // Per-student expected vs paid (with optional semester filtering)
     const assignmentFilter = semesterId ? 'AND sra.semester_id = $2' : '';
@@ -181,14 +163,15 @@ router.get('/summary', async (req, res) => {
     
     const rowsRes = await pool.query(
       `       WITH active_assignment AS (
-        SELECT sra.user_id, rm.price::numeric AS expected, rm.room_number
+        SELECT sra.user_id, COALESCE(inv.total_amount, rm.price)::numeric AS expected, rm.room_number
         FROM student_room_assignments sra
         JOIN rooms rm ON rm.id = sra.room_id
+        LEFT JOIN invoices inv ON inv.user_id = sra.user_id AND inv.semester_id = sra.semester_id
         WHERE sra.status = 'active'
         ${assignmentFilter}
       ),
       paid AS (
-        SELECT user_id, COALESCE(SUM(amount),0)::numeric AS paid
+        SELECT user_id, COALESCE(SUM(base_amount),0)::numeric AS paid
         FROM payments
         WHERE hostel_id = $1
         ${paymentFilter}
@@ -208,6 +191,9 @@ router.get('/summary', async (req, res) => {
       queryParams
     );
 
+    // Students on an installment plan with a past-due installment show as overdue rather than partial/unpaid
+    const overdueByStudent = await InstallmentService.getOverdueByStudent(hostelId, semesterId);
+
     const students = rowsRes.rows.map(r => ({
       user_id: r.user_id,
       name: r.name,
@@ -219,12 +205,17 @@ router.get('/summary', async (req, res) => {
       expected: r.expected !== null ? parseFloat(r.expected) : null,
       paid: parseFloat(r.paid || 0),
       balance: r.balance !== null ? parseFloat(r.balance) : null,
-      status: r.expected === null ? 'unassigned' : (parseFloat(r.paid || 0) >= parseFloat(r.expected || 0) ? 'paid' : (parseFloat(r.paid || 0) > 0 ? 'partial' : 'unpaid'))
+      overdue_amount: overdueByStudent.get(r.user_id) || 0,
+      status: r.expected === null ? 'unassigned'
+        : parseFloat(r.paid || 0) >= parseFloat(r.expected || 0) ? 'paid'
+        : overdueByStudent.has(r.user_id) ? 'overdue'
+        : parseFloat(r.paid || 0) > 0 ? 'partial' : 'unpaid'
     }));
 
     const total_outstanding = students.reduce((sum, s) => sum + (s.balance && s.balance > 0 ? s.balance : 0), 0);
+    const total_overdue = students.reduce((sum, s) => sum + s.overdue_amount, 0);
 
-    const payload = { total_collected, total_outstanding, students };
+    const payload = { currency, total_collected, total_outstanding, total_overdue, unconverted_payments, ...adjustments, students };
     summaryCache.set(hostelId, { data: payload, expiresAt: now + SUMMARY_TTL_MS });
     res.json({ success: true, data: payload });
   } catch (e) {
@@ -234,20 +225,19 @@ router.get('/summary', async (req, res) => {
 });
 
 // List payments (super_admin may pass ?hostel_id=...)
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('payments.view', { apiKeyScope: 'payments:read' }), async (req, res) => {
   try {
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-    const decoded: any = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
 
     let hostelId: number | null = null;
-    if (currentUser.role === 'super_admin') {
+    if (caller.apiKey) {
+      hostelId = caller.apiKey.hostel_id;
+    } else if (caller.user.role === 'super_admin') {
       hostelId = req.query.hostel_id ? Number(req.query.hostel_id) : null;
       if (!hostelId) return res.status(400).json({ success: false, message: 'hostel_id is required for super_admin' });
     } else {
-      hostelId = await resolveHostelIdForUser(currentUser.id, currentUser.role);
+      hostelId = await resolveTargetHostelId(req, caller.user);
     }
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
@@ -274,17 +264,41 @@ router.get('/', async (req, res) => {
       params.push(userIdFilter);
       paramIndex++;
     }
+    const entryType = req.query.entry_type as string | undefined;
+    if (entryType) {
+      where.push(`p.entry_type = $${paramIndex}`);
+      params.push(entryType);
+      paramIndex++;
+    }
+    const paymentMethod = req.query.payment_method as string | undefined;
+    if (paymentMethod) {
+      where.push(`p.payment_method = $${paramIndex}`);
+      params.push(paymentMethod);
+      paramIndex++;
+    }
+    const recordedBy = req.query.recorded_by ? Number(req.query.recorded_by) : undefined;
+    if (typeof recordedBy === 'number' && !Number.isNaN(recordedBy)) {
+      where.push(`p.recorded_by = $${paramIndex}`);
+      params.push(recordedBy);
+      paramIndex++;
+    }
     if (search) {
-      where.push(`(LOWER(u.name) LIKE $${paramIndex} OR LOWER(u.email) LIKE $${paramIndex} OR LOWER(p.purpose) LIKE $${paramIndex})`);
+      where.push(`(LOWER(u.name) LIKE $${paramIndex} OR LOWER(u.email) LIKE $${paramIndex} OR LOWER(p.purpose) LIKE $${paramIndex} OR LOWER(p.receipt_number) LIKE $${paramIndex})`);
       params.push(`%${search}%`);
       paramIndex++;
     }
 
     const query = `
-      SELECT p.id, p.user_id, p.amount, p.currency, p.purpose, p.created_at,
+      SELECT p.id, p.user_id, p.amount, p.currency, p.base_amount, p.base_currency, p.exchange_rate, p.purpose, p.created_at, p.receipt_number,
+             p.entry_type, p.adjusts_payment_id, p.adjustment_reason, p.payment_method, p.payment_reference, p.recorded_by, p.cash_up_id,
+             rb.name AS recorded_by_name,
+             CASE WHEN p.entry_type = 'payment'
+                  THEN p.amount + COALESCE((SELECT SUM(a.amount) FROM payments a WHERE a.adjusts_payment_id = p.id), 0)
+             END AS net_amount,
              u.name as student_name, u.email as student_email
       FROM payments p
       JOIN users u ON u.id = p.user_id
+      LEFT JOIN users rb ON rb.id = p.recorded_by
       WHERE ${where.join(' AND ')}
       ORDER BY p.created_at DESC
       LIMIT ${limit} OFFSET ${offset}`;
@@ -297,6 +311,252 @@ router.get('/', async (req, res) => {
   }
 });
 
+// Download a payment's PDF receipt
+router.get('/:id/receipt.pdf', requirePermission('payments.view', { apiKeyScope: 'payments:read' }), async (req, res) => {
+  try {
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
+
+    const paymentRes = await pool.query('SELECT id, hostel_id FROM payments WHERE id = $1', [parseInt(req.params.id)]);
+    const payment = paymentRes.rows[0];
+    const callerHostelId = caller.apiKey
+      ? caller.apiKey.hostel_id
+      : caller.user.role === 'super_admin' ? payment?.hostel_id : await resolveTargetHostelId(req, caller.user);
+    if (!payment || payment.hostel_id !== callerHostelId) return res.status(404).json({ success: false, message: 'Payment not found' });
+
+    const receipt = await ReceiptService.getReceiptData(payment.id);
+    if (!receipt) return res.status(404).json({ success: false, message: 'This entry has no receipt' });
+    const pdf = await ReceiptService.generatePdf(receipt);
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${receipt.receipt_number}.pdf"`);
+    res.send(pdf);
+  } catch (e) {
+    console.error('Payment receipt PDF error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+async function recordAppliedAdjustment(req: Request, adjustment: PaymentAdjustment, actor: User) {
+  summaryCache.delete(adjustment.hostel_id);
+
+  const payment = await pool.query('SELECT user_id, amount FROM payments WHERE id = $1', [adjustment.payment_id]);
+  await AuditService.record(req, {
+    action: `payment_${adjustment.adjustment_type}`,
+    requesterUserId: actor.id,
+    targetUserId: payment.rows[0]?.user_id ?? null,
+    targetHostelId: adjustment.hostel_id,
+    entityType: 'payment',
+    entityId: adjustment.payment_id,
+    message: adjustment.reason,
+    before: { amount: payment.rows[0] ? parseFloat(payment.rows[0].amount) : null },
+    after: { adjustment_id: adjustment.id, applied_amount: adjustment.applied_amount, entry_payment_id: adjustment.entry_payment_id, requested_by: adjustment.requested_by }
+  });
+
+  try {
+    await PaymentAdjustmentService.sendCorrectedReceipt(adjustment, actor.name);
+  } catch (e) {
+    console.warn('Corrected receipt email failed:', e);
+  }
+}
+
+// Whether voids, refunds and corrections in this hostel wait for approval
+router.get('/adjustments/settings', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const result = await pool.query('SELECT payment_adjustment_approval FROM hostels WHERE id = $1', [hostelId]);
+    if (!result.rowCount) return res.status(404).json({ success: false, message: 'Hostel not found' });
+    res.json({ success: true, data: { require_approval: !!result.rows[0].payment_adjustment_approval } });
+  } catch (e) {
+    console.error('Get adjustment settings error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+router.put('/adjustments/settings', requirePermission('payments.approve_adjustments'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const { require_approval } = req.body as any;
+    if (typeof require_approval !== 'boolean') {
+      return res.status(400).json({ success: false, message: 'require_approval must be a boolean' });
+    }
+    await pool.query('UPDATE hostels SET payment_adjustment_approval = $1 WHERE id = $2', [require_approval, hostelId]);
+
+    await AuditService.record(req, {
+      action: 'payment_adjustment_settings_update',
+      requesterUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'hostel',
+      entityId: hostelId,
+      after: { require_approval }
+    });
+
+    res.json({ success: true, message: 'Adjustment settings updated', data: { require_approval } });
+  } catch (e) {
+    console.error('Update adjustment settings error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// List adjustment requests (?status=pending|approved|rejected)
+router.get('/adjustments', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const status = req.query.status as string | undefined;
+    if (status && !['pending', 'approved', 'rejected'].includes(status)) {
+      return res.status(400).json({ success: false, message: 'Invalid status' });
+    }
+    const page = Math.max(1, parseInt((req.query.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((req.query.limit as string) || '20', 10) || 20));
+    const rows = await PaymentAdjustmentModel.listForHostel(hostelId, (status as AdjustmentStatus) || null, limit, (page - 1) * limit);
+
+    res.json({ success: true, data: rows, page, limit });
+  } catch (e) {
+    console.error('List payment adjustments error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Approve a pending adjustment; the compensating entry is posted now
+router.post('/adjustments/:adjustmentId/approve', requirePermission('payments.approve_adjustments'), idempotent(), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const adjustment = await PaymentAdjustmentModel.findById(parseInt(req.params.adjustmentId));
+    if (!adjustment || (currentUser.role !== 'super_admin' && adjustment.hostel_id !== await resolveTargetHostelId(req, currentUser))) {
+      return res.status(404).json({ success: false, message: 'Adjustment not found' });
+    }
+
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() || null : null;
+    const result = await PaymentAdjustmentService.apply(adjustment.id, currentUser.id, note);
+    if (!result.success) return res.status(409).json({ success: false, message: result.message });
+
+    await recordAppliedAdjustment(req, result.adjustment!, currentUser);
+    res.json({ success: true, message: 'Adjustment approved', data: result.adjustment });
+  } catch (e) {
+    console.error('Approve payment adjustment error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+router.post('/adjustments/:adjustmentId/reject', requirePermission('payments.approve_adjustments'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const adjustment = await PaymentAdjustmentModel.findById(parseInt(req.params.adjustmentId));
+    if (!adjustment || (currentUser.role !== 'super_admin' && adjustment.hostel_id !== await resolveTargetHostelId(req, currentUser))) {
+      return res.status(404).json({ success: false, message: 'Adjustment not found' });
+    }
+
+    const note = typeof req.body?.note === 'string' ? req.body.note.trim() || null : null;
+    const rejected = await PaymentAdjustmentModel.markRejected(adjustment.id, currentUser.id, note);
+    if (!rejected) return res.status(409).json({ success: false, message: 'Adjustment is not pending' });
+
+    await AuditService.record(req, {
+      action: 'payment_adjustment_reject',
+      requesterUserId: currentUser.id,
+      targetHostelId: adjustment.hostel_id,
+      entityType: 'payment',
+      entityId: adjustment.payment_id,
+      message: note,
+      after: { adjustment_id: adjustment.id, adjustment_type: adjustment.adjustment_type, reason: adjustment.reason }
+    });
+
+    res.json({ success: true, message: 'Adjustment rejected', data: rejected });
+  } catch (e) {
+    console.error('Reject payment adjustment error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Void, refund or correct a payment: { type, reason, amount (refund), corrected_amount (correction) }.
+// Goes straight through unless the hostel requires approval and the caller cannot approve.
+router.post('/:id/adjustments', requirePermission('payments.adjust'), idempotent(), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const paymentRes = await pool.query('SELECT id, hostel_id, entry_type FROM payments WHERE id = $1', [req.params.id]);
+    const payment = paymentRes.rows[0];
+    if (!payment || (currentUser.role !== 'super_admin' && payment.hostel_id !== await resolveTargetHostelId(req, currentUser))) {
+      return res.status(404).json({ success: false, message: 'Payment not found' });
+    }
+    if (payment.entry_type !== 'payment') {
+      return res.status(400).json({ success: false, message: 'Adjustment entries cannot themselves be adjusted' });
+    }
+
+    const { type, reason, amount, corrected_amount } = req.body as any;
+    if (!ADJUSTMENT_TYPES.includes(type)) {
+      return res.status(400).json({ success: false, message: `type must be one of: ${ADJUSTMENT_TYPES.join(', ')}` });
+    }
+    const reasonText = typeof reason === 'string' ? reason.trim() : '';
+    if (!reasonText || reasonText.length > 500) {
+      return res.status(400).json({ success: false, message: 'A reason is required (max 500 characters)' });
+    }
+    const rawAmount = type === 'refund' ? amount : type === 'correction' ? corrected_amount : null;
+    const requestedAmount = rawAmount === null || rawAmount === undefined ? null : parseFloat(rawAmount);
+
+    if (await PaymentAdjustmentModel.hasPending(payment.id)) {
+      return res.status(409).json({ success: false, message: 'This payment already has a pending adjustment' });
+    }
+    const net = await PaymentAdjustmentService.getNetAmount(payment.id);
+    const check = PaymentAdjustmentService.computeAppliedAmount(type, net, requestedAmount);
+    if (!check.success) return res.status(400).json({ success: false, message: check.message });
+
+    const adjustment = await PaymentAdjustmentModel.create({
+      payment_id: payment.id,
+      hostel_id: payment.hostel_id,
+      adjustment_type: type,
+      requested_amount: requestedAmount,
+      reason: reasonText,
+      requested_by: currentUser.id
+    });
+
+    const hostelRes = await pool.query('SELECT payment_adjustment_approval FROM hostels WHERE id = $1', [payment.hostel_id]);
+    const needsApproval = !!hostelRes.rows[0]?.payment_adjustment_approval
+      && !(await PermissionService.hasPermission(currentUser, 'payments.approve_adjustments'));
+
+    if (needsApproval) {
+      await AuditService.record(req, {
+        action: 'payment_adjustment_request',
+        requesterUserId: currentUser.id,
+        targetHostelId: payment.hostel_id,
+        entityType: 'payment',
+        entityId: payment.id,
+        message: reasonText,
+        after: { adjustment_id: adjustment.id, adjustment_type: type, requested_amount: requestedAmount }
+      });
+      return res.status(202).json({ success: true, message: 'Adjustment submitted for approval', data: adjustment });
+    }
+
+    const result = await PaymentAdjustmentService.apply(adjustment.id, currentUser.id, null);
+    if (!result.success) {
+      await PaymentAdjustmentModel.markRejected(adjustment.id, currentUser.id, result.message || null);
+      return res.status(409).json({ success: false, message: result.message });
+    }
+
+    await recordAppliedAdjustment(req, result.adjustment!, currentUser);
+    res.status(201).json({ success: true, message: 'Adjustment applied and corrected receipt sent', data: result.adjustment });
+  } catch (e) {
+    console.error('Adjust payment error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
 export default router;
 
 
@@ -0,0 +1,232 @@
+import express from 'express';
+import { User } from '../models/User';
+import { PenaltyRuleModel, PenaltyChargeModel, PenaltyRule, PenaltyChargeStatus, PENALTY_TYPES, PenaltyType } from '../models/Penalty';
+import { PenaltyService } from '../services/penaltyService';
+import { AuditService } from '../services/auditService';
+import { requirePermission, getCurrentUser, resolveTargetHostelId } from '../utils/permissionMiddleware';
+import { idempotent } from '../utils/idempotencyMiddleware';
+
+const router = express.Router();
+
+const CHARGE_STATUSES: PenaltyChargeStatus[] = ['applied', 'waived'];
+
+async function findAccessibleRule(req: express.Request, user: User): Promise<PenaltyRule | null> {
+  const rule = await PenaltyRuleModel.findById(parseInt(req.params.id));
+  if (!rule) return null;
+  if (user.role !== 'super_admin' && rule.hostel_id !== await resolveTargetHostelId(req, user)) return null;
+  return rule;
+}
+
+type RuleFields = { name?: string; penalty_type?: PenaltyType; amount?: number; days_overdue?: number; cap?: number | null; recurring_weekly?: boolean; is_active?: boolean };
+
+// Validates the rule fields present in the body; `required` makes name, penalty_type and amount mandatory
+function parseRuleFields(body: any, required: boolean, current?: PenaltyRule): { fields: RuleFields } | { error: string } {
+  const fields: RuleFields = {};
+  if (body.name !== undefined || required) {
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+    if (!name || name.length > 100) return { error: 'Name is required (max 100 characters)' };
+    fields.name = name;
+  }
+  if (body.penalty_type !== undefined || required) {
+    if (!PENALTY_TYPES.includes(body.penalty_type)) return { error: `penalty_type must be one of: ${PENALTY_TYPES.join(', ')}` };
+    fields.penalty_type = body.penalty_type;
+  }
+  if (body.amount !== undefined || required) {
+    const amount = parseFloat(body.amount);
+    if (!Number.isFinite(amount) || amount <= 0) return { error: 'amount must be a positive number' };
+    fields.amount = amount;
+  }
+  const penaltyType = fields.penalty_type || current?.penalty_type;
+  const amount = fields.amount ?? current?.amount;
+  if (penaltyType === 'percentage' && amount !== undefined && amount > 100) {
+    return { error: 'A percentage penalty cannot exceed 100' };
+  }
+  if (body.days_overdue !== undefined) {
+    const days = Number(body.days_overdue);
+    if (!Number.isInteger(days) || days < 0) return { error: 'days_overdue must be a whole number of days' };
+    fields.days_overdue = days;
+  }
+  if (body.cap !== undefined) {
+    const cap = body.cap === null ? null : parseFloat(body.cap);
+    if (cap !== null && (!Number.isFinite(cap) || cap <= 0)) return { error: 'cap must be a positive number or null' };
+    fields.cap = cap;
+  }
+  if (body.recurring_weekly !== undefined) fields.recurring_weekly = Boolean(body.recurring_weekly);
+  if (body.is_active !== undefined) fields.is_active = Boolean(body.is_active);
+  return { fields };
+}
+
+// ===== Rules =====
+
+router.get('/rules', requirePermission('invoices.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const rules = await PenaltyRuleModel.listForHostel(hostelId);
+    res.json({ success: true, data: rules });
+  } catch (e) {
+    console.error('List penalty rules error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// e.g. { name: 'Late payment', penalty_type: 'percentage', amount: 5, days_overdue: 7, cap: 50000, recurring_weekly: true }
+router.post('/rules', requirePermission('penalties.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const parsed = parseRuleFields(req.body || {}, true);
+    if ('error' in parsed) return res.status(400).json({ success: false, message: parsed.error });
+    const { fields } = parsed;
+
+    const rule = await PenaltyRuleModel.create({
+      hostel_id: hostelId,
+      name: fields.name!,
+      penalty_type: fields.penalty_type!,
+      amount: fields.amount!,
+      days_overdue: fields.days_overdue ?? 0,
+      cap: fields.cap ?? null,
+      recurring_weekly: fields.recurring_weekly ?? false,
+      created_by: currentUser.id
+    });
+
+    await AuditService.record(req, {
+      action: 'penalty_rule_create',
+      requesterUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'penalty_rule',
+      entityId: rule.id,
+      after: rule
+    });
+
+    res.status(201).json({ success: true, message: 'Penalty rule created', data: rule });
+  } catch (e) {
+    console.error('Create penalty rule error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Change a rule or switch it off (is_active: false); fees already charged are not touched
+router.put('/rules/:id', requirePermission('penalties.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const rule = await findAccessibleRule(req, currentUser);
+    if (!rule) return res.status(404).json({ success: false, message: 'Penalty rule not found' });
+
+    const parsed = parseRuleFields(req.body || {}, false, rule);
+    if ('error' in parsed) return res.status(400).json({ success: false, message: parsed.error });
+
+    const updated = await PenaltyRuleModel.update(rule.id, parsed.fields);
+
+    await AuditService.record(req, {
+      action: 'penalty_rule_update',
+      requesterUserId: currentUser.id,
+      targetHostelId: rule.hostel_id,
+      entityType: 'penalty_rule',
+      entityId: rule.id,
+      before: rule,
+      after: updated
+    });
+
+    res.json({ success: true, message: 'Penalty rule updated', data: updated });
+  } catch (e) {
+    console.error('Update penalty rule error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Run the late fee job now for the caller's hostel instead of waiting for the daily run
+router.post('/run', requirePermission('penalties.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const charged = await PenaltyService.applyPenalties(hostelId);
+    res.json({ success: true, message: `${charged} late fee(s) charged`, data: { charged } });
+  } catch (e) {
+    console.error('Run penalties error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// ===== Charges =====
+
+// Late fees charged to students (filters: ?status, ?user_id, ?semester_id)
+router.get('/charges', requirePermission('invoices.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const status = req.query.status as PenaltyChargeStatus | undefined;
+    if (status && !CHARGE_STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, message: `status must be one of: ${CHARGE_STATUSES.join(', ')}` });
+    }
+    const page = Math.max(1, parseInt((req.query.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((req.query.limit as string) || '20', 10) || 20));
+    const { rows, total } = await PenaltyChargeModel.listForHostel(hostelId, {
+      status: status || null,
+      userId: req.query.user_id ? Number(req.query.user_id) : null,
+      semesterId: req.query.semester_id ? Number(req.query.semester_id) : null,
+      limit,
+      offset: (page - 1) * limit
+    });
+    res.json({ success: true, data: rows, page, limit, total });
+  } catch (e) {
+    console.error('List penalty charges error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Waive a late fee; a reason is required and the student is emailed
+router.post('/charges/:id/waive', requirePermission('penalties.waive'), idempotent(), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const charge = await PenaltyChargeModel.findById(parseInt(req.params.id));
+    if (!charge || (currentUser.role !== 'super_admin' && charge.hostel_id !== await resolveTargetHostelId(req, currentUser))) {
+      return res.status(404).json({ success: false, message: 'Late fee not found' });
+    }
+
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason || reason.length > 500) {
+      return res.status(400).json({ success: false, message: 'A reason is required (max 500 characters)' });
+    }
+
+    const result = await PenaltyService.waive(charge.id, currentUser.id, reason);
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+
+    const rule = await PenaltyRuleModel.findById(charge.rule_id);
+    await AuditService.record(req, {
+      action: 'penalty_waive',
+      requesterUserId: currentUser.id,
+      targetUserId: charge.user_id,
+      targetHostelId: charge.hostel_id,
+      entityType: 'penalty_charge',
+      entityId: charge.id,
+      message: reason,
+      before: { status: charge.status, amount: charge.amount, rule: rule?.name },
+      after: { status: result.charge.status, invoice_total: result.totalAmount }
+    });
+
+    PenaltyService.sendLateFeeNotice(result.charge, { name: rule?.name || 'Late fee' }, currentUser.name)
+      .catch(err => console.error('Late fee waiver email error:', err));
+
+    res.json({ success: true, message: 'Late fee waived', data: result.charge });
+  } catch (e) {
+    console.error('Waive penalty error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
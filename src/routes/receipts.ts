@@ -0,0 +1,57 @@
+import express from 'express';
+import { ReceiptService } from '../services/receiptService';
+
+const router = express.Router();
+
+const STATUS_LABELS: Record<string, string> = {
+  valid: 'Genuine receipt',
+  adjusted: 'Genuine receipt - the payment has since been partly refunded or corrected',
+  voided: 'Genuine receipt - the payment has since been voided'
+};
+
+function escapeHtml(value: unknown): string {
+  return String(value ?? '').replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+// Public: the QR code on a PDF receipt opens this. Browsers get a small page, API clients JSON.
+router.get('/verify/:code', async (req, res) => {
+  try {
+    const receipt = await ReceiptService.verify(req.params.code);
+    const wantsHtml = req.accepts(['json', 'html']) === 'html';
+
+    if (!receipt) {
+      if (wantsHtml) {
+        return res.status(404).send('<!DOCTYPE html><html><body style="font-family:Arial,sans-serif;padding:24px"><h2>Receipt not found</h2><p>This receipt could not be verified. It may not have been issued by LTS Portal.</p></body></html>');
+      }
+      return res.status(404).json({ success: false, message: 'Receipt not found' });
+    }
+
+    if (wantsHtml) {
+      const rows: Array<[string, unknown]> = [
+        ['Receipt No.', receipt.receipt_number],
+        ['Hostel', receipt.hostel_name],
+        ['Student', receipt.student_name],
+        ['Semester', receipt.semester_name || '-'],
+        ['Amount', `${receipt.currency} ${Number(receipt.amount).toFixed(2)}`],
+        ['Paid on', new Date(receipt.paid_at).toLocaleString()]
+      ];
+      return res.send(`<!DOCTYPE html>
+<html>
+<head><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1.0"><title>Receipt ${escapeHtml(receipt.receipt_number)}</title></head>
+<body style="font-family:Arial,sans-serif;padding:24px;max-width:560px;margin:auto">
+  <h2 style="color:${receipt.status === 'valid' ? '#15803d' : '#b45309'}">${escapeHtml(STATUS_LABELS[receipt.status])}</h2>
+  <table style="border-collapse:collapse;width:100%">
+    ${rows.map(([label, value]) => `<tr><td style="padding:6px 0;font-weight:bold">${escapeHtml(label)}</td><td style="padding:6px 0">${escapeHtml(value)}</td></tr>`).join('')}
+  </table>
+</body>
+</html>`);
+    }
+
+    res.json({ success: true, data: receipt });
+  } catch (e) {
+    console.error('Verify receipt error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,484 @@
+import express from 'express';
+import multer from 'multer';
+import { User } from '../models/User';
+import {
+  StatementMappingModel,
+  StatementMapping,
+  StatementMappingFields,
+  StatementImportModel,
+  StatementLineModel,
+  StatementLine,
+  StatementLineStatus,
+  STATEMENT_SOURCE_TYPES,
+  STATEMENT_DATE_FORMATS,
+  STATEMENT_LINE_STATUSES
+} from '../models/Statement';
+import { ReconciliationService } from '../services/reconciliationService';
+import { PaymentService } from '../services/paymentService';
+import { CurrencyService } from '../services/currencyService';
+import { AuditService } from '../services/auditService';
+import { requirePermission, getCurrentUser, resolveTargetHostelId } from '../utils/permissionMiddleware';
+import { idempotent } from '../utils/idempotencyMiddleware';
+
+const router = express.Router();
+
+const MAX_STATEMENT_BYTES = 5 * 1024 * 1024;
+
+// Statements are parsed in memory and never written to disk
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: { fileSize: MAX_STATEMENT_BYTES, files: 1 }
+});
+
+// Accept one statement in the "file" field; upload errors become 400s instead of reaching the global error handler
+function acceptStatement(req: express.Request, res: express.Response, next: express.NextFunction) {
+  upload.single('file')(req, res, (err: any) => {
+    if (!err) return next();
+    let message = err.message;
+    if (err instanceof multer.MulterError) {
+      message = err.code === 'LIMIT_FILE_SIZE'
+        ? `The statement must be ${MAX_STATEMENT_BYTES / (1024 * 1024)}MB or smaller`
+        : 'Upload a single CSV statement in the "file" field';
+    }
+    res.status(400).json({ success: false, message });
+  });
+}
+
+const DELIMITERS = [',', ';', '\t', '|'];
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+async function findAccessibleMapping(req: express.Request, user: User): Promise<StatementMapping | null> {
+  const mapping = await StatementMappingModel.findById(parseInt(req.params.id));
+  if (!mapping) return null;
+  if (user.role !== 'super_admin' && mapping.hostel_id !== await resolveTargetHostelId(req, user)) return null;
+  return mapping;
+}
+
+async function findAccessibleLine(req: express.Request, user: User): Promise<StatementLine | null> {
+  const line = await StatementLineModel.findById(parseInt(req.params.id));
+  if (!line) return null;
+  if (user.role !== 'super_admin' && line.hostel_id !== await resolveTargetHostelId(req, user)) return null;
+  return line;
+}
+
+/**
+ * Validates a column mapping from the body merged over the current mapping (if any). Columns are header names,
+ * or 1-based column numbers when has_header is false; the amount is either amount_column or credit_column
+ * (minus debit_column when given).
+ */
+async function parseMapping(body: any, current?: StatementMapping): Promise<{ fields: StatementMappingFields } | { error: string }> {
+  const pick = <K extends keyof StatementMappingFields>(key: K): any => (body[key] !== undefined ? body[key] : current?.[key] ?? null);
+  const column = (key: keyof StatementMappingFields): string | null | { error: string } => {
+    const value = pick(key);
+    if (value === null || value === '') return null;
+    const text = String(value).trim();
+    if (!text || text.length > 100) return { error: `${key} must be a column name (max 100 characters)` };
+    return text;
+  };
+
+  const name = typeof pick('name') === 'string' ? pick('name').trim() : '';
+  if (!name || name.length > 100) return { error: 'Name is required (max 100 characters)' };
+  const sourceType = pick('source_type');
+  if (!STATEMENT_SOURCE_TYPES.includes(sourceType)) return { error: `source_type must be one of: ${STATEMENT_SOURCE_TYPES.join(', ')}` };
+  const currency = CurrencyService.normalizeCode(pick('currency'));
+  if (!currency) return { error: 'currency must be a 3-letter currency code' };
+  const delimiter = pick('delimiter') === 'tab' ? '\t' : pick('delimiter') ?? ',';
+  if (!DELIMITERS.includes(delimiter)) return { error: 'delimiter must be one of: , ; | tab' };
+  const skipRows = pick('skip_rows') === null ? 0 : Number(pick('skip_rows'));
+  if (!Number.isInteger(skipRows) || skipRows < 0 || skipRows > 50) return { error: 'skip_rows must be a whole number from 0 to 50' };
+  const dateFormat = pick('date_format') ?? 'YYYY-MM-DD';
+  if (!STATEMENT_DATE_FORMATS.includes(dateFormat)) return { error: `date_format must be one of: ${STATEMENT_DATE_FORMATS.join(', ')}` };
+
+  const columns: Record<string, string | null> = {};
+  for (const key of ['date_column', 'amount_column', 'credit_column', 'debit_column', 'reference_column', 'description_column', 'payer_column'] as const) {
+    const value = column(key);
+    if (value && typeof value === 'object') return value;
+    columns[key] = value;
+  }
+  if (!columns.date_column) return { error: 'date_column is required' };
+  if (!columns.amount_column && !columns.credit_column) return { error: 'Give amount_column, or credit_column (and debit_column)' };
+  if (columns.amount_column && (columns.credit_column || columns.debit_column)) {
+    return { error: 'Use either amount_column or credit_column/debit_column, not both' };
+  }
+
+  return {
+    fields: {
+      name,
+      source_type: sourceType,
+      currency,
+      delimiter,
+      has_header: body.has_header !== undefined ? Boolean(body.has_header) : current?.has_header ?? true,
+      skip_rows: skipRows,
+      date_column: columns.date_column,
+      date_format: dateFormat,
+      amount_column: columns.amount_column,
+      credit_column: columns.credit_column,
+      debit_column: columns.debit_column,
+      reference_column: columns.reference_column,
+      description_column: columns.description_column,
+      payer_column: columns.payer_column
+    }
+  };
+}
+
+// Column mappings of the hostel's bank and mobile-money statement layouts
+router.get('/mappings', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const mappings = await StatementMappingModel.listForHostel(hostelId);
+    res.json({ success: true, data: mappings });
+  } catch (e) {
+    console.error('List statement mappings error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// e.g. { name: 'Stanbic current account', source_type: 'bank', currency: 'UGX', skip_rows: 4, date_column: 'Value Date',
+//   date_format: 'DD/MM/YYYY', credit_column: 'Credit', debit_column: 'Debit', reference_column: 'Reference', description_column: 'Narration' }
+router.post('/mappings', requirePermission('payments.reconcile'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const parsed = await parseMapping(req.body || {});
+    if ('error' in parsed) return res.status(400).json({ success: false, message: parsed.error });
+    if (await StatementMappingModel.findByName(hostelId, parsed.fields.name)) {
+      return res.status(409).json({ success: false, message: 'A mapping with this name already exists' });
+    }
+
+    const mapping = await StatementMappingModel.create(hostelId, parsed.fields, currentUser.id);
+    await AuditService.record(req, {
+      action: 'statement_mapping_create',
+      requesterUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'statement_mapping',
+      entityId: mapping.id,
+      after: mapping
+    });
+
+    res.status(201).json({ success: true, message: 'Statement mapping created', data: mapping });
+  } catch (e) {
+    console.error('Create statement mapping error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+router.put('/mappings/:id', requirePermission('payments.reconcile'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const mapping = await findAccessibleMapping(req, currentUser);
+    if (!mapping) return res.status(404).json({ success: false, message: 'Statement mapping not found' });
+
+    const parsed = await parseMapping(req.body || {}, mapping);
+    if ('error' in parsed) return res.status(400).json({ success: false, message: parsed.error });
+    const sameName = await StatementMappingModel.findByName(mapping.hostel_id, parsed.fields.name);
+    if (sameName && sameName.id !== mapping.id) {
+      return res.status(409).json({ success: false, message: 'A mapping with this name already exists' });
+    }
+
+    const updated = await StatementMappingModel.update(mapping.id, parsed.fields);
+    await AuditService.record(req, {
+      action: 'statement_mapping_update',
+      requesterUserId: currentUser.id,
+      targetHostelId: mapping.hostel_id,
+      entityType: 'statement_mapping',
+      entityId: mapping.id,
+      before: mapping,
+      after: updated
+    });
+
+    res.json({ success: true, message: 'Statement mapping updated', data: updated });
+  } catch (e) {
+    console.error('Update statement mapping error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Imports made with the mapping keep their lines
+router.delete('/mappings/:id', requirePermission('payments.reconcile'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const mapping = await findAccessibleMapping(req, currentUser);
+    if (!mapping) return res.status(404).json({ success: false, message: 'Statement mapping not found' });
+
+    await StatementMappingModel.delete(mapping.id);
+    await AuditService.record(req, {
+      action: 'statement_mapping_delete',
+      requesterUserId: currentUser.id,
+      targetHostelId: mapping.hostel_id,
+      entityType: 'statement_mapping',
+      entityId: mapping.id,
+      before: mapping
+    });
+
+    res.json({ success: true, message: 'Statement mapping deleted' });
+  } catch (e) {
+    console.error('Delete statement mapping error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Upload a CSV statement (multipart: file, mapping_id). Lines already imported are skipped and the rest are
+// matched to recorded payments straight away.
+router.post('/imports', requirePermission('payments.reconcile'), acceptStatement, async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+    if (!req.file) return res.status(400).json({ success: false, message: 'A CSV statement file is required' });
+
+    const mapping = await StatementMappingModel.findById(Number(req.body?.mapping_id));
+    if (!mapping || mapping.hostel_id !== hostelId) return res.status(404).json({ success: false, message: 'Statement mapping not found' });
+
+    const result = await ReconciliationService.importStatement(
+      hostelId,
+      mapping,
+      { name: req.file.originalname ? req.file.originalname.slice(0, 255) : null, text: req.file.buffer.toString('utf8') },
+      currentUser.id
+    );
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message, errors: result.errors });
+    const { statementImport, autoMatched } = result;
+
+    await AuditService.record(req, {
+      action: 'statement_import',
+      requesterUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'statement_import',
+      entityId: statementImport.id,
+      message: statementImport.file_name,
+      after: {
+        mapping: mapping.name,
+        period_start: statementImport.period_start,
+        period_end: statementImport.period_end,
+        line_count: statementImport.line_count,
+        duplicate_count: statementImport.duplicate_count,
+        auto_matched: autoMatched
+      }
+    });
+
+    res.status(201).json({ success: true, message: 'Statement imported', data: { ...statementImport, auto_matched: autoMatched } });
+  } catch (e) {
+    console.error('Import statement error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+router.get('/imports', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const page = Math.max(1, parseInt((req.query.page as string) || '1', 10) || 1);
+    const limit = Math.min(100, Math.max(1, parseInt((req.query.limit as string) || '20', 10) || 20));
+    const { rows, total } = await StatementImportModel.listForHostel(hostelId, limit, (page - 1) * limit);
+    res.json({ success: true, data: rows, page, limit, total });
+  } catch (e) {
+    console.error('List statement imports error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// An import with its lines (filter: ?status=unmatched|matched|ignored)
+router.get('/imports/:id', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const statementImport = await StatementImportModel.findById(parseInt(req.params.id));
+    if (!statementImport || (currentUser.role !== 'super_admin' && statementImport.hostel_id !== await resolveTargetHostelId(req, currentUser))) {
+      return res.status(404).json({ success: false, message: 'Statement import not found' });
+    }
+
+    const status = req.query.status as StatementLineStatus | undefined;
+    if (status && !STATEMENT_LINE_STATUSES.includes(status)) {
+      return res.status(400).json({ success: false, message: `status must be one of: ${STATEMENT_LINE_STATUSES.join(', ')}` });
+    }
+    const lines = await StatementLineModel.list(statementImport.hostel_id, { importId: statementImport.id, status: status || null });
+    res.json({ success: true, data: { ...statementImport, lines } });
+  } catch (e) {
+    console.error('Get statement import error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// What is left to reconcile: statement lines with no payment (with suggested payments and students) and payments
+// no statement line accounts for (filters: ?import_id, ?from, ?to; the period defaults to the unmatched lines' dates)
+router.get('/unmatched', requirePermission('payments.view'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const from = (req.query.from as string) || null;
+    const to = (req.query.to as string) || null;
+    if ((from && !DATE_PATTERN.test(from)) || (to && !DATE_PATTERN.test(to))) {
+      return res.status(400).json({ success: false, message: 'from and to must be dates (YYYY-MM-DD)' });
+    }
+    const result = await ReconciliationService.getUnmatched(hostelId, {
+      importId: req.query.import_id ? Number(req.query.import_id) : null,
+      from,
+      to
+    });
+    res.json({ success: true, data: { statement_lines: result.lines, payments: result.payments, from: result.from, to: result.to } });
+  } catch (e) {
+    console.error('Unmatched reconciliation items error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Run the automatic matching again, e.g. after late payments were recorded
+router.post('/auto-match', requirePermission('payments.reconcile'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveTargetHostelId(req, currentUser);
+    if (!hostelId) return res.status(400).json({ success: false, message: 'Missing hostel context' });
+
+    const matched = await ReconciliationService.autoMatch(hostelId);
+    res.json({ success: true, message: `${matched} statement line(s) matched`, data: { matched } });
+  } catch (e) {
+    console.error('Auto-match statement lines error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// { payment_id }: the line is the bank's record of a payment already in the system
+router.post('/lines/:id/match', requirePermission('payments.reconcile'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const line = await findAccessibleLine(req, currentUser);
+    if (!line) return res.status(404).json({ success: false, message: 'Statement line not found' });
+    const paymentId = Number(req.body?.payment_id);
+    if (!Number.isInteger(paymentId) || paymentId < 1) return res.status(400).json({ success: false, message: 'payment_id is required' });
+
+    const result = await ReconciliationService.matchLine(line.id, paymentId, currentUser.id);
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+
+    await AuditService.record(req, {
+      action: 'statement_line_match',
+      requesterUserId: currentUser.id,
+      targetHostelId: line.hostel_id,
+      entityType: 'statement_line',
+      entityId: line.id,
+      before: { status: result.before.status, payment_id: result.before.payment_id },
+      after: { status: result.line.status, payment_id: result.line.payment_id }
+    });
+
+    res.json({ success: true, message: 'Statement line matched', data: result.line });
+  } catch (e) {
+    console.error('Match statement line error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// { reason }: bank charges, transfers between the hostel's own accounts and other lines that are not student payments
+router.post('/lines/:id/ignore', requirePermission('payments.reconcile'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const line = await findAccessibleLine(req, currentUser);
+    if (!line) return res.status(404).json({ success: false, message: 'Statement line not found' });
+    const reason = typeof req.body?.reason === 'string' ? req.body.reason.trim() : '';
+    if (!reason) return res.status(400).json({ success: false, message: 'A reason is required' });
+
+    const result = await ReconciliationService.ignoreLine(line.id, reason, currentUser.id);
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+
+    await AuditService.record(req, {
+      action: 'statement_line_ignore',
+      requesterUserId: currentUser.id,
+      targetHostelId: line.hostel_id,
+      entityType: 'statement_line',
+      entityId: line.id,
+      message: reason,
+      before: { status: result.before.status },
+      after: { status: result.line.status }
+    });
+
+    res.json({ success: true, message: 'Statement line ignored', data: result.line });
+  } catch (e) {
+    console.error('Ignore statement line error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Undo a match or ignore; a payment recorded from the line stays recorded
+router.post('/lines/:id/unmatch', requirePermission('payments.reconcile'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const line = await findAccessibleLine(req, currentUser);
+    if (!line) return res.status(404).json({ success: false, message: 'Statement line not found' });
+
+    const result = await ReconciliationService.unmatchLine(line.id);
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+
+    await AuditService.record(req, {
+      action: 'statement_line_unmatch',
+      requesterUserId: currentUser.id,
+      targetHostelId: line.hostel_id,
+      entityType: 'statement_line',
+      entityId: line.id,
+      before: { status: result.before.status, payment_id: result.before.payment_id, resolution_note: result.before.resolution_note },
+      after: { status: result.line.status }
+    });
+
+    res.json({ success: true, message: 'Statement line is unmatched again', data: result.line });
+  } catch (e) {
+    console.error('Unmatch statement line error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// { user_id, purpose? }: record an unrecorded deposit as the student's payment in the current semester
+router.post('/lines/:id/record-payment', requirePermission('payments.reconcile'), idempotent(), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const line = await findAccessibleLine(req, currentUser);
+    if (!line) return res.status(404).json({ success: false, message: 'Statement line not found' });
+    const userId = Number(req.body?.user_id);
+    if (!Number.isInteger(userId) || userId < 1) return res.status(400).json({ success: false, message: 'user_id is required' });
+    const purpose = typeof req.body?.purpose === 'string' && req.body.purpose.trim() ? req.body.purpose.trim().slice(0, 100) : null;
+
+    const result = await ReconciliationService.recordPayment(line.id, { userId, purpose }, currentUser.id);
+    if (!result.success) return res.status(result.status).json({ success: false, message: result.message });
+    const { payment, totalPaid, balanceAfter, invoice } = result.recorded;
+
+    await AuditService.record(req, {
+      action: 'payment_record',
+      requesterUserId: currentUser.id,
+      message: `From statement line ${line.id}${line.reference ? ` (${line.reference})` : ''}`,
+      targetUserId: userId,
+      targetHostelId: line.hostel_id,
+      entityType: 'payment',
+      entityId: payment.id,
+      after: { amount: payment.amount, currency: payment.currency, base_amount: payment.base_amount, base_currency: payment.base_currency, purpose: payment.purpose, semester_id: payment.semester_id, invoice_number: invoice?.invoice_number || null, total_paid: totalPaid, balance_after: balanceAfter }
+    });
+
+    await PaymentService.sendReceipts(result.recorded, result.student, currentUser.name);
+
+    res.status(201).json({
+      success: true,
+      message: 'Payment recorded and matched to the statement line',
+      data: { line: result.line, receipt_number: payment.receipt_number, base_amount: payment.base_amount, base_currency: payment.base_currency, total_paid: totalPaid, balance_after: balanceAfter }
+    });
+  } catch (e) {
+    console.error('Record payment from statement error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
@@ -0,0 +1,263 @@
+import express from 'express';
+import pool from '../config/database';
+import { UserModel, User } from '../models/User';
+import { RoleModel } from '../models/Role';
+import { PermissionService } from '../services/permissionService';
+import { AuditService } from '../services/auditService';
+import { requirePermission, getCurrentUser } from '../utils/permissionMiddleware';
+import { PERMISSIONS, BUILT_IN_ROLES, isKnownPermission } from '../utils/permissions';
+
+const router = express.Router();
+
+async function resolveHostelIdForUser(user: User): Promise<number | null> {
+  if (user.role === 'hostel_admin') return user.hostel_id || null;
+  if (user.role === 'custodian') {
+    const r = await pool.query('SELECT hostel_id FROM custodians WHERE user_id = $1', [user.id]);
+    return r.rows[0]?.hostel_id || user.hostel_id || null;
+  }
+  return null;
+}
+
+/**
+ * Permissions the caller may put on a custom role: known, hostel-scoped, and (below super admin) held by the caller,
+ * so nobody can hand out more than they have themselves.
+ */
+async function validateGrantablePermissions(currentUser: User, permissions: any, allowPlatform: boolean): Promise<string | null> {
+  if (!Array.isArray(permissions)) return 'permissions must be an array of permission keys';
+  const unknown = permissions.filter(p => typeof p !== 'string' || !isKnownPermission(p));
+  if (unknown.length) return `Unknown permissions: ${unknown.join(', ')}`;
+  if (!allowPlatform) {
+    const platform = permissions.filter(p => PERMISSIONS[p].scope === 'platform');
+    if (platform.length) return `Platform permissions cannot be granted to hostel roles: ${platform.join(', ')}`;
+  }
+  if (currentUser.role !== 'super_admin') {
+    const held = await PermissionService.getUserPermissions(currentUser);
+    const notHeld = permissions.filter(p => !held.includes(p));
+    if (notHeld.length) return `You cannot grant permissions you do not hold: ${notHeld.join(', ')}`;
+  }
+  return null;
+}
+
+function isBuiltInName(name: string): boolean {
+  return (BUILT_IN_ROLES as readonly string[]).includes(name.trim().toLowerCase());
+}
+
+// Permission catalogue
+router.get('/permissions', requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const permissions = await RoleModel.listPermissions();
+    res.json({ success: true, data: permissions });
+  } catch (e) {
+    console.error('List permissions error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// List built-in roles and custom roles (own hostel, or ?hostel_id / all hostels for super admin)
+router.get('/', requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    let hostelId: number | null;
+    if (currentUser.role === 'super_admin') {
+      hostelId = req.query.hostel_id ? parseInt(req.query.hostel_id as string) : null;
+    } else {
+      hostelId = await resolveHostelIdForUser(currentUser);
+      if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden: missing hostel context' });
+    }
+
+    const roles = await RoleModel.list(hostelId);
+    res.json({ success: true, data: roles });
+  } catch (e) {
+    console.error('List roles error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Create a custom role for a hostel
+router.post('/', requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const { name, description, permissions = [], hostel_id } = req.body as any;
+    const hostelId = currentUser.role === 'super_admin' ? Number(hostel_id) || null : await resolveHostelIdForUser(currentUser);
+    if (!hostelId) {
+      return res.status(currentUser.role === 'super_admin' ? 400 : 403).json({
+        success: false,
+        message: currentUser.role === 'super_admin' ? 'hostel_id is required' : 'Forbidden: missing hostel context'
+      });
+    }
+
+    const roleName = typeof name === 'string' ? name.trim() : '';
+    if (roleName.length < 2 || roleName.length > 100) {
+      return res.status(400).json({ success: false, message: 'Role name must be between 2 and 100 characters' });
+    }
+    if (isBuiltInName(roleName)) {
+      return res.status(400).json({ success: false, message: 'Role name is reserved for a built-in role' });
+    }
+
+    const permissionError = await validateGrantablePermissions(currentUser, permissions, false);
+    if (permissionError) return res.status(400).json({ success: false, message: permissionError });
+
+    if (await RoleModel.findByName(hostelId, roleName)) {
+      return res.status(409).json({ success: false, message: 'A role with this name already exists for the hostel' });
+    }
+
+    const role = await RoleModel.create(hostelId, roleName, description || null, permissions);
+
+    await AuditService.record(req, {
+      action: 'role_create',
+      requesterUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'role',
+      entityId: role.id,
+      after: { name: role.name, permissions: role.permissions }
+    });
+
+    res.status(201).json({ success: true, data: role });
+  } catch (e) {
+    console.error('Create role error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Update a role's name, description or permissions. Built-in roles are super admin only.
+router.put('/:id', requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const role = await RoleModel.findById(parseInt(req.params.id));
+    if (!role) return res.status(404).json({ success: false, message: 'Role not found' });
+
+    if (role.is_system) {
+      if (currentUser.role !== 'super_admin') return res.status(403).json({ success: false, message: 'Only super admins can change built-in roles' });
+      if (role.name === 'super_admin') return res.status(400).json({ success: false, message: 'The super_admin role always holds every permission' });
+    } else if (currentUser.role !== 'super_admin' && role.hostel_id !== await resolveHostelIdForUser(currentUser)) {
+      return res.status(404).json({ success: false, message: 'Role not found' });
+    }
+
+    const { name, description, permissions } = req.body as any;
+    let roleName: string | undefined;
+    if (name !== undefined) {
+      if (role.is_system) return res.status(400).json({ success: false, message: 'Built-in roles cannot be renamed' });
+      roleName = typeof name === 'string' ? name.trim() : '';
+      if (roleName.length < 2 || roleName.length > 100) {
+        return res.status(400).json({ success: false, message: 'Role name must be between 2 and 100 characters' });
+      }
+      if (isBuiltInName(roleName)) {
+        return res.status(400).json({ success: false, message: 'Role name is reserved for a built-in role' });
+      }
+      const clash = await RoleModel.findByName(role.hostel_id, roleName);
+      if (clash && clash.id !== role.id) {
+        return res.status(409).json({ success: false, message: 'A role with this name already exists for the hostel' });
+      }
+    }
+
+    if (permissions !== undefined) {
+      const permissionError = await validateGrantablePermissions(currentUser, permissions, role.is_system);
+      if (permissionError) return res.status(400).json({ success: false, message: permissionError });
+    }
+
+    const updated = await RoleModel.update(role.id, { name: roleName, description, permissions });
+
+    await AuditService.record(req, {
+      action: 'role_update',
+      requesterUserId: currentUser.id,
+      targetHostelId: role.hostel_id,
+      entityType: 'role',
+      entityId: role.id,
+      before: { name: role.name, description: role.description, permissions: role.permissions },
+      after: updated ? { name: updated.name, description: updated.description, permissions: updated.permissions } : null
+    });
+
+    res.json({ success: true, data: updated });
+  } catch (e) {
+    console.error('Update role error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Delete a custom role; its users fall back to their base role
+router.delete('/:id', requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const role = await RoleModel.findById(parseInt(req.params.id));
+    if (!role) return res.status(404).json({ success: false, message: 'Role not found' });
+    if (role.is_system) return res.status(400).json({ success: false, message: 'Built-in roles cannot be deleted' });
+    if (currentUser.role !== 'super_admin' && role.hostel_id !== await resolveHostelIdForUser(currentUser)) {
+      return res.status(404).json({ success: false, message: 'Role not found' });
+    }
+
+    await RoleModel.delete(role.id);
+
+    await AuditService.record(req, {
+      action: 'role_delete',
+      requesterUserId: currentUser.id,
+      targetHostelId: role.hostel_id,
+      entityType: 'role',
+      entityId: role.id,
+      before: { name: role.name, permissions: role.permissions, user_count: role.user_count }
+    });
+
+    res.json({ success: true, message: 'Role deleted' });
+  } catch (e) {
+    console.error('Delete role error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+// Assign a custom role to a staff member of the hostel, or clear it with role_id: null
+router.put('/users/:userId', requirePermission('roles.manage'), async (req, res) => {
+  try {
+    const currentUser = await getCurrentUser(req);
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+    const target = await UserModel.findById(parseInt(req.params.userId));
+    if (!target || target.role !== 'custodian') {
+      return res.status(404).json({ success: false, message: 'Staff member not found' });
+    }
+    const targetHostelId = await resolveHostelIdForUser(target);
+    if (currentUser.role !== 'super_admin' && (!targetHostelId || targetHostelId !== await resolveHostelIdForUser(currentUser))) {
+      return res.status(404).json({ success: false, message: 'Staff member not found' });
+    }
+
+    const { role_id } = req.body as any;
+    const roleId = role_id === null || role_id === undefined ? null : Number(role_id);
+    if (roleId !== null) {
+      const role = await RoleModel.findById(roleId);
+      if (!role || role.is_system || role.hostel_id !== targetHostelId) {
+        return res.status(400).json({ success: false, message: 'Role must be a custom role of the staff member\'s hostel' });
+      }
+      if (currentUser.role !== 'super_admin') {
+        const permissionError = await validateGrantablePermissions(currentUser, role.permissions, false);
+        if (permissionError) return res.status(403).json({ success: false, message: permissionError });
+      }
+    }
+
+    const before = await pool.query('SELECT custom_role_id FROM users WHERE id = $1', [target.id]);
+    await RoleModel.assignToUser(target.id, roleId);
+
+    await AuditService.record(req, {
+      action: 'role_assign',
+      requesterUserId: currentUser.id,
+      targetUserId: target.id,
+      targetHostelId,
+      entityType: 'user',
+      entityId: target.id,
+      before: { custom_role_id: before.rows[0]?.custom_role_id ?? null },
+      after: { custom_role_id: roleId }
+    });
+
+    res.json({ success: true, message: roleId ? 'Role assigned' : 'Custom role removed' });
+  } catch (e) {
+    console.error('Assign role error:', e);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+});
+
+export default router;
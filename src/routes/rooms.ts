@@ -1,6 +1,9 @@
 import express, { Request } from 'express';
 import pool from '../config/database';
 import { UserModel } from '../models/User';
+import { AuditService } from '../services/auditService';
+import { PermissionService } from '../services/permissionService';
+import { requirePermission, getRequestCaller } from '../utils/permissionMiddleware';
 
 const router = express.Router();
 
@@ -19,23 +22,12 @@ async function resolveHostelIdForUser(userId: number, role: string): Promise<num
   return null;
 }
 
-// List rooms for current user's hostel (hostel_admin or custodian)
-router.get('/', async (req, res) => {
+// List rooms for current user's hostel (hostel staff, or an API key with rooms:read)
+router.get('/', requirePermission('rooms.view', { apiKeyScope: 'rooms:read' }), async (req, res) => {
   try {
-    const rawAuth = req.headers.authorization || '';
-    const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
-    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-    let decoded: any;
-    try {
-      decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    } catch (err) {
-      return res.status(401).json({ success: false, message: 'Invalid token' });
-    }
-    const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) {
-      return res.status(403).json({ success: false, message: 'Forbidden' });
-    }
-    const hostelId = await resolveHostelIdForUser(currentUser.id, currentUser.role);
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
+    const hostelId = caller.apiKey ? caller.apiKey.hostel_id : await resolveHostelIdForUser(caller.user.id, caller.user.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     const page = Math.max(1, parseInt((req.query.page as string) || '1', 10));
     const limitRaw = Math.max(1, parseInt((req.query.limit as string) || '20', 10));
@@ -54,22 +46,11 @@ router.get('/', async (req, res) => {
 });
 
 // List available rooms only
-router.get('/available', async (req, res) => {
+router.get('/available', requirePermission('rooms.view', { apiKeyScope: 'rooms:read' }), async (req, res) => {
   try {
-    const rawAuth = req.headers.authorization || '';
-    const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
-    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-    let decoded: any;
-    try {
-      decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    } catch (err) {
-      return res.status(401).json({ success: false, message: 'Invalid token' });
-    }
-    const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) {
-      return res.status(403).json({ success: false, message: 'Forbidden' });
-    }
-    const hostelId = await resolveHostelIdForUser(currentUser.id, currentUser.role);
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
+    const hostelId = caller.apiKey ? caller.apiKey.hostel_id : await resolveHostelIdForUser(caller.user.id, caller.user.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     
     // Get rooms that have available space based on capacity
@@ -95,15 +76,15 @@ router.get('/available', async (req, res) => {
 });
 
 // Create room
-router.post('/', async (req: Request, res) => {
+router.post('/', requirePermission('rooms.manage'), async (req: Request, res) => {
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
     const decoded: any = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || currentUser.role !== 'hostel_admin' || !currentUser.hostel_id) {
-      return res.status(403).json({ success: false, message: 'Forbidden' });
-    }
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveHostelIdForUser(currentUser.id, currentUser.role);
+    if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
     const { room_number, price, description, self_contained, capacity } = req.body as any;
     if (!room_number || price === undefined) {
@@ -114,7 +95,7 @@ router.post('/', async (req: Request, res) => {
     const result = await pool.query(
       `INSERT INTO rooms (hostel_id, room_number, price, description, self_contained, capacity, status, created_at, updated_at)
        VALUES ($1, $2, $3, $4, COALESCE($5,false), $6, 'available', NOW(), NOW()) RETURNING *`,
-      [currentUser.hostel_id, room_number, price, description || null, !!self_contained, roomCapacity]
+      [hostelId, room_number, price, description || null, !!self_contained, roomCapacity]
     );
     res.status(201).json({ success: true, data: result.rows[0] });
   } catch (e) {
@@ -123,22 +104,31 @@ router.post('/', async (req: Request, res) => {
   }
 });
 
-// Update room
+// Update room: price changes need rooms.update_price, any other field rooms.manage
 router.put('/:id', async (req: Request, res) => {
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
     const decoded: any = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || currentUser.role !== 'hostel_admin' || !currentUser.hostel_id) {
-      return res.status(403).json({ success: false, message: 'Forbidden' });
-    }
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveHostelIdForUser(currentUser.id, currentUser.role);
+    if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     const { id } = req.params;
     const { room_number, price, description, status, self_contained, capacity } = req.body as any;
     // Ensure ownership
-    const check = await pool.query('SELECT id FROM rooms WHERE id = $1 AND hostel_id = $2', [id, currentUser.hostel_id]);
+    const check = await pool.query('SELECT id, room_number, price FROM rooms WHERE id = $1 AND hostel_id = $2', [id, hostelId]);
     if (!check.rowCount) return res.status(404).json({ success: false, message: 'Room not found' });
 
+    const changesPrice = price !== undefined && price !== null && Number(price) !== Number(check.rows[0].price);
+    const changesOther = [room_number, description, status, self_contained, capacity].some(v => v !== undefined);
+    if (changesPrice && !(await PermissionService.hasPermission(currentUser, 'rooms.update_price'))) {
+      return res.status(403).json({ success: false, message: 'Forbidden: missing permission', code: 'PERMISSION_DENIED', permission: 'rooms.update_price' });
+    }
+    if ((changesOther || !changesPrice) && !(await PermissionService.hasPermission(currentUser, 'rooms.manage'))) {
+      return res.status(403).json({ success: false, message: 'Forbidden: missing permission', code: 'PERMISSION_DENIED', permission: 'rooms.manage' });
+    }
+
     // If marking as available, check current capacity - allow if not full
     if (status === 'available') {
       const active = await pool.query(
@@ -168,7 +158,22 @@ router.put('/:id', async (req: Request, res) => {
        WHERE id = $7 RETURNING *`,
       [room_number || null, price ?? null, description || null, (self_contained === undefined ? null : !!self_contained), roomCapacity, status || null, id]
     );
-    res.json({ success: true, data: result.rows[0] });
+
+    const before = check.rows[0];
+    const updated = result.rows[0];
+    if (updated && Number(before.price) !== Number(updated.price)) {
+      await AuditService.record(req, {
+        action: 'room_price_change',
+        requesterUserId: currentUser.id,
+        targetHostelId: hostelId,
+        entityType: 'room',
+        entityId: id,
+        before: { room_number: before.room_number, price: before.price },
+        after: { room_number: updated.room_number, price: updated.price }
+      });
+    }
+
+    res.json({ success: true, data: updated });
   } catch (e) {
     console.error('Update room error:', e);
     res.status(500).json({ success: false, message: 'Internal server error' });
@@ -176,15 +181,15 @@ router.put('/:id', async (req: Request, res) => {
 });
 
 // Delete room
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('rooms.manage'), async (req, res) => {
   try {
     const token = req.headers.authorization?.replace('Bearer ', '');
     if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
     const decoded: any = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || currentUser.role !== 'hostel_admin' || !currentUser.hostel_id) {
-      return res.status(403).json({ success: false, message: 'Forbidden' });
-    }
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const hostelId = await resolveHostelIdForUser(currentUser.id, currentUser.role);
+    if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
     const { id } = req.params;
 
     // Prevent deleting a room that has an active assignment
@@ -193,7 +198,7 @@ router.delete('/:id', async (req, res) => {
       return res.status(400).json({ success: false, message: 'Cannot delete room with an active student assignment' });
     }
 
-    const result = await pool.query('DELETE FROM rooms WHERE id = $1 AND hostel_id = $2', [id, currentUser.hostel_id]);
+    const result = await pool.query('DELETE FROM rooms WHERE id = $1 AND hostel_id = $2', [id, hostelId]);
     if (!result.rowCount) return res.status(404).json({ success: false, message: 'Room not found' });
     res.json({ success: true, message: 'Room deleted' });
   } catch (e) {
@@ -3,6 +3,9 @@ import { SemesterModel, SemesterEnrollmentModel, GlobalSemesterModel } from '../
 import { SemesterService } from '../services/semesterService';
 import pool from '../config/database';
 import jwt from 'jsonwebtoken';
+import { AuditService } from '../services/auditService';
+import { InvoiceService } from '../services/invoiceService';
+import { requirePermission } from '../utils/permissionMiddleware';
 
 const router = express.Router();
 
@@ -43,7 +46,7 @@ async function getHostelIdForUser(userId: number, role: string): Promise<number
 }
 
 // Get all semesters for a hostel
-router.get('/hostel/:hostelId', async (req, res) => {
+router.get('/hostel/:hostelId', requirePermission('semesters.view'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -68,7 +71,7 @@ router.get('/hostel/:hostelId', async (req, res) => {
 });
 
 // Get current semester for a hostel
-router.get('/hostel/:hostelId/current', async (req, res) => {
+router.get('/hostel/:hostelId/current', requirePermission('semesters.view'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -98,7 +101,7 @@ router.get('/hostel/:hostelId/current', async (req, res) => {
 // ========== GLOBAL SEMESTER ROUTES (Super Admin only) ==========
 
 // Get all global semester templates (available to all authenticated users)
-router.get('/global', async (req, res) => {
+router.get('/global', requirePermission('semesters.view'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -114,10 +117,10 @@ router.get('/global', async (req, res) => {
 });
 
 // Create a global semester template
-router.post('/global', async (req, res) => {
+router.post('/global', requirePermission('semesters.manage_global'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
+    if (!decoded) {
       return res.status(403).json({ success: false, message: 'Access denied' });
     }
 
@@ -139,10 +142,10 @@ router.post('/global', async (req, res) => {
 });
 
 // Update a global semester template
-router.patch('/global/:id', async (req, res) => {
+router.patch('/global/:id', requirePermission('semesters.manage_global'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
+    if (!decoded) {
       return res.status(403).json({ success: false, message: 'Access denied' });
     }
 
@@ -168,10 +171,10 @@ router.patch('/global/:id', async (req, res) => {
 });
 
 // Delete a global semester template
-router.delete('/global/:id', async (req, res) => {
+router.delete('/global/:id', requirePermission('semesters.manage_global'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
+    if (!decoded) {
       return res.status(403).json({ success: false, message: 'Access denied' });
     }
 
@@ -192,10 +195,10 @@ router.delete('/global/:id', async (req, res) => {
 // ========== HOSTEL SEMESTER ROUTES ==========
 
 // Create a new semester for a hostel (Hostel Admin or Super Admin)
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('semesters.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || (decoded.role !== 'super_admin' && decoded.role !== 'hostel_admin' && decoded.role !== 'custodian')) {
+    if (!decoded) {
       return res.status(403).json({ success: false, message: 'Access denied' });
     }
 
@@ -250,7 +253,7 @@ router.post('/', async (req, res) => {
 });
 
 // Set a semester as current (Hostel Admin, Custodian, or Super Admin)
-router.post('/:semesterId/set-current', async (req, res) => {
+router.post('/:semesterId/set-current', requirePermission('semesters.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -280,7 +283,7 @@ router.post('/:semesterId/set-current', async (req, res) => {
 });
 
 // Get semester by ID
-router.get('/:id', async (req, res) => {
+router.get('/:id', requirePermission('semesters.view'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -308,7 +311,7 @@ router.get('/:id', async (req, res) => {
 });
 
 // Get semester statistics
-router.get('/:id/stats', async (req, res) => {
+router.get('/:id/stats', requirePermission('semesters.view'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -337,11 +340,12 @@ router.get('/:id/stats', async (req, res) => {
     // Calculate outstanding balance
     const outstandingResult = await pool.query(
       `SELECT 
-        COALESCE(SUM(rm.price - COALESCE(total_paid.paid, 0)), 0) as outstanding
+        COALESCE(SUM(COALESCE(inv.total_amount, rm.price) - COALESCE(total_paid.paid, 0)), 0) as outstanding
       FROM semester_enrollments se
       LEFT JOIN rooms rm ON se.room_id = rm.id
+      LEFT JOIN invoices inv ON inv.user_id = se.user_id AND inv.semester_id = se.semester_id
       LEFT JOIN (
-        SELECT user_id, SUM(amount) as paid
+        SELECT user_id, SUM(base_amount) as paid
         FROM payments
         WHERE semester_id = $1
         GROUP BY user_id
@@ -375,7 +379,7 @@ router.get('/:id/stats', async (req, res) => {
 });
 
 // Update semester status (Hostel Admin, Custodian, or Super Admin)
-router.patch('/:id/status', async (req, res) => {
+router.patch('/:id/status', requirePermission('semesters.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -408,6 +412,16 @@ router.patch('/:id/status', async (req, res) => {
       return res.status(404).json({ success: false, message: 'Semester not found' });
     }
 
+    await AuditService.record(req, {
+      action: 'semester_status_change',
+      requesterUserId: decoded.userId,
+      targetHostelId: semester.hostel_id,
+      entityType: 'semester',
+      entityId: semesterId,
+      before: { status: semester.status },
+      after: { status }
+    });
+
     res.json({ success: true, message: 'Semester status updated successfully' });
   } catch (error) {
     console.error('Error updating semester status:', error);
@@ -416,10 +430,10 @@ router.patch('/:id/status', async (req, res) => {
 });
 
 // Delete a semester
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('semesters.manage_global'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
+    if (!decoded) {
       return res.status(403).json({ success: false, message: 'Access denied' });
     }
 
@@ -438,7 +452,7 @@ router.delete('/:id', async (req, res) => {
 });
 
 // Enroll a student in a semester
-router.post('/:semesterId/enrollments', async (req, res) => {
+router.post('/:semesterId/enrollments', requirePermission('enrollments.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -463,8 +477,37 @@ router.post('/:semesterId/enrollments', async (req, res) => {
       return res.status(403).json({ success: false, message: 'Access denied' });
     }
 
+    if (room_id) {
+      const roomCheck = await pool.query('SELECT id FROM rooms WHERE id = $1 AND hostel_id = $2', [room_id, semester.hostel_id]);
+      if (!roomCheck.rowCount) {
+        return res.status(400).json({ success: false, message: 'Invalid room' });
+      }
+    }
+
     const enrollment = await SemesterEnrollmentModel.enroll(semesterId, user_id, room_id || null);
 
+    // Enrollments with a room are billed like a registration
+    if (room_id && semester.hostel_id) {
+      const client = await pool.connect();
+      try {
+        await client.query('BEGIN');
+        await InvoiceService.generateForEnrollment({
+          hostelId: semester.hostel_id,
+          userId: Number(user_id),
+          semesterId,
+          roomId: Number(room_id),
+          enrollmentId: enrollment.id,
+          createdBy: decoded.userId
+        }, client);
+        await client.query('COMMIT');
+      } catch (err) {
+        await client.query('ROLLBACK');
+        throw err;
+      } finally {
+        client.release();
+      }
+    }
+
     res.status(201).json({ success: true, enrollment });
   } catch (error) {
     console.error('Error enrolling student:', error);
@@ -473,7 +516,7 @@ router.post('/:semesterId/enrollments', async (req, res) => {
 });
 
 // Get all enrollments for a semester
-router.get('/:semesterId/enrollments', async (req, res) => {
+router.get('/:semesterId/enrollments', requirePermission('semesters.view'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -503,7 +546,7 @@ router.get('/:semesterId/enrollments', async (req, res) => {
 });
 
 // Get enrollments for current semester of a hostel
-router.get('/hostel/:hostelId/enrollments/current', async (req, res) => {
+router.get('/hostel/:hostelId/enrollments/current', requirePermission('semesters.view'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -533,7 +576,7 @@ router.get('/hostel/:hostelId/enrollments/current', async (req, res) => {
 });
 
 // Update enrollment status
-router.patch('/enrollments/:enrollmentId/status', async (req, res) => {
+router.patch('/enrollments/:enrollmentId/status', requirePermission('enrollments.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -580,7 +623,7 @@ router.patch('/enrollments/:enrollmentId/status', async (req, res) => {
 });
 
 // Drop a student from a semester
-router.post('/enrollments/:enrollmentId/drop', async (req, res) => {
+router.post('/enrollments/:enrollmentId/drop', requirePermission('enrollments.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -621,10 +664,10 @@ router.post('/enrollments/:enrollmentId/drop', async (req, res) => {
 });
 
 // Transfer a student to a different semester
-router.post('/enrollments/:enrollmentId/transfer', async (req, res) => {
+router.post('/enrollments/:enrollmentId/transfer', requirePermission('semesters.manage_global'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
+    if (!decoded) {
       return res.status(403).json({ success: false, message: 'Access denied' });
     }
 
@@ -645,10 +688,10 @@ router.post('/enrollments/:enrollmentId/transfer', async (req, res) => {
 });
 
 // Enable/disable semester mode for a hostel
-router.patch('/hostel/:hostelId/semester-mode', async (req, res) => {
+router.patch('/hostel/:hostelId/semester-mode', requirePermission('semesters.manage_global'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
+    if (!decoded) {
       return res.status(403).json({ success: false, message: 'Access denied' });
     }
 
@@ -688,7 +731,7 @@ router.patch('/hostel/:hostelId/semester-mode', async (req, res) => {
 });
 
 // Rollover semester - create new semester based on previous one (Hostel Admin, Custodian, or Super Admin)
-router.post('/:semesterId/rollover', async (req, res) => {
+router.post('/:semesterId/rollover', requirePermission('semesters.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
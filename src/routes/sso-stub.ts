@@ -0,0 +1,140 @@
+import express from 'express';
+import crypto from 'crypto';
+
+/**
+ * Stub OAuth2/OIDC identity provider for trying the SSO login flow locally. It is mounted at /api/sso-stub only
+ * when SSO_STUB_ENABLED=true and NODE_ENV is not production. Point an oauth2 sso_providers row at it:
+ *   client_id:         SSO_STUB_CLIENT_ID (default lts-stub)
+ *   client_secret:     SSO_STUB_CLIENT_SECRET (default lts-stub-secret)
+ *   authorization_url: http://localhost:5000/api/sso-stub/authorize
+ *   token_url:         http://localhost:5000/api/sso-stub/token
+ *   user_info_url:     http://localhost:5000/api/sso-stub/userinfo
+ *   redirect_uri:      http://localhost:5000/api/auth/sso/<provider id>/callback
+ * Then open /api/auth/sso/<provider id>/start?redirect=true in a browser. The stub's sign-in page asks for the
+ * identity to return (sub, email, name) and whether the email counts as verified, so every branch of the
+ * account-matching rules can be exercised.
+ */
+const router = express.Router();
+
+const CODE_TTL_MS = 2 * 60 * 1000;
+const TOKEN_TTL_SECONDS = 300;
+
+interface StubClaims {
+  sub: string;
+  email: string;
+  name: string;
+  email_verified: boolean;
+}
+
+const codes = new Map<string, { redirectUri: string; codeChallenge: string; claims: StubClaims; expiresAt: number }>();
+const tokens = new Map<string, { claims: StubClaims; expiresAt: number }>();
+
+function getClientId(): string {
+  return process.env.SSO_STUB_CLIENT_ID || 'lts-stub';
+}
+
+function getClientSecret(): string {
+  return process.env.SSO_STUB_CLIENT_SECRET || 'lts-stub-secret';
+}
+
+function purgeExpired(): void {
+  const now = Date.now();
+  for (const [code, entry] of codes) if (entry.expiresAt < now) codes.delete(code);
+  for (const [token, entry] of tokens) if (entry.expiresAt < now) tokens.delete(token);
+}
+
+function escapeHtml(value: string): string {
+  return value.replace(/[&<>"']/g, c => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[c]!));
+}
+
+// The authorization request parameters the stub needs, or an error message
+function readAuthorizationRequest(params: Record<string, any>): { redirectUri: string; state: string; codeChallenge: string } | { error: string } {
+  if (params.response_type !== 'code') return { error: 'response_type must be code' };
+  if (params.client_id !== getClientId()) return { error: 'Unknown client_id' };
+  if (typeof params.redirect_uri !== 'string' || !/^https?:\/\//.test(params.redirect_uri)) return { error: 'redirect_uri is required' };
+  if (typeof params.state !== 'string' || !params.state) return { error: 'state is required' };
+  if (params.code_challenge_method !== 'S256' || typeof params.code_challenge !== 'string' || !params.code_challenge) {
+    return { error: 'A S256 code_challenge is required' };
+  }
+  return { redirectUri: params.redirect_uri, state: params.state, codeChallenge: params.code_challenge };
+}
+
+// Sign-in page: choose the identity the stub returns
+router.get('/authorize', (req, res) => {
+  const request = readAuthorizationRequest(req.query);
+  if ('error' in request) return res.status(400).json({ success: false, message: request.error });
+
+  const hidden = ['response_type', 'client_id', 'redirect_uri', 'state', 'code_challenge', 'code_challenge_method']
+    .map(name => `<input type="hidden" name="${name}" value="${escapeHtml(String(req.query[name]))}">`)
+    .join('');
+  const loginHint = typeof req.query.login_hint === 'string' ? escapeHtml(req.query.login_hint) : '';
+
+  res.type('html').send(`<!doctype html>
+<html><head><title>Stub identity provider</title></head>
+<body>
+  <h1>Stub identity provider</h1>
+  <form method="post" action="authorize">
+    ${hidden}
+    <p><label>Email <input name="email" type="email" value="${loginHint}" required></label></p>
+    <p><label>Name <input name="name"></label></p>
+    <p><label>Subject (sub) <input name="sub" placeholder="defaults to the email"></label></p>
+    <p><label><input name="email_verified" type="checkbox" value="true" checked> Email verified</label></p>
+    <button type="submit">Sign in</button>
+  </form>
+</body></html>`);
+});
+
+// Issue a single-use code for the chosen identity and send the browser back to the client
+router.post('/authorize', (req, res) => {
+  const request = readAuthorizationRequest(req.body || {});
+  if ('error' in request) return res.status(400).json({ success: false, message: request.error });
+  const email = String(req.body.email || '').trim();
+  if (!email) return res.status(400).json({ success: false, message: 'email is required' });
+
+  purgeExpired();
+  const code = crypto.randomBytes(24).toString('base64url');
+  codes.set(code, {
+    redirectUri: request.redirectUri,
+    codeChallenge: request.codeChallenge,
+    claims: {
+      sub: String(req.body.sub || '').trim() || email.toLowerCase(),
+      email,
+      name: String(req.body.name || '').trim() || email,
+      email_verified: req.body.email_verified === 'true'
+    },
+    expiresAt: Date.now() + CODE_TTL_MS
+  });
+
+  const redirect = new URL(request.redirectUri);
+  redirect.searchParams.set('code', code);
+  redirect.searchParams.set('state', request.state);
+  res.redirect(redirect.toString());
+});
+
+// Code exchange: checks the client credentials, redirect_uri and PKCE verifier like a real provider
+router.post('/token', (req, res) => {
+  const { grant_type, code, redirect_uri, client_id, client_secret, code_verifier } = req.body || {};
+  if (grant_type !== 'authorization_code') return res.status(400).json({ error: 'unsupported_grant_type' });
+  if (client_id !== getClientId() || client_secret !== getClientSecret()) return res.status(401).json({ error: 'invalid_client' });
+
+  purgeExpired();
+  const entry = typeof code === 'string' ? codes.get(code) : undefined;
+  if (entry) codes.delete(code);
+  if (!entry || entry.redirectUri !== redirect_uri) return res.status(400).json({ error: 'invalid_grant' });
+  const challenge = crypto.createHash('sha256').update(String(code_verifier || '')).digest('base64url');
+  if (challenge !== entry.codeChallenge) return res.status(400).json({ error: 'invalid_grant', error_description: 'PKCE verification failed' });
+
+  const accessToken = crypto.randomBytes(32).toString('base64url');
+  tokens.set(accessToken, { claims: entry.claims, expiresAt: Date.now() + TOKEN_TTL_SECONDS * 1000 });
+  res.json({ access_token: accessToken, token_type: 'Bearer', expires_in: TOKEN_TTL_SECONDS });
+});
+
+router.get('/userinfo', (req, res) => {
+  purgeExpired();
+  const token = req.headers.authorization?.replace('Bearer ', '') || '';
+  const entry = tokens.get(token);
+  if (!entry) return res.status(401).json({ error: 'invalid_token' });
+  res.json(entry.claims);
+});
+
+export default router;
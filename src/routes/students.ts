@@ -6,6 +6,13 @@ import { CredentialGenerator } from '../utils/credentialGenerator';
 import { EmailService } from '../services/emailService';
 import { requireActiveSemester } from '../utils/semesterMiddleware';
 import { SemesterEnrollmentModel } from '../models/Semester';
+import { AuditService } from '../services/auditService';
+import { InvoiceService } from '../services/invoiceService';
+import { PaymentService, RecordedPayment, PAYMENT_METHODS } from '../services/paymentService';
+import { ReceiptService } from '../services/receiptService';
+import { CurrencyService } from '../services/currencyService';
+import { requirePermission, getRequestCaller } from '../utils/permissionMiddleware';
+import { idempotent } from '../utils/idempotencyMiddleware';
 
 const router = express.Router();
 
@@ -25,21 +32,12 @@ async function getHostelIdForUser(userId: number, role: string): Promise<number
 }
 
 // List students for current hostel (custodian or hostel_admin)
-router.get('/', async (req, res) => {
+router.get('/', requirePermission('students.view', { apiKeyScope: 'students:read' }), async (req, res) => {
   try {
-    const rawAuth = req.headers.authorization || '';
-    const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
-    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-    let decoded: any;
-    try {
-      decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    } catch (err) {
-      return res.status(401).json({ success: false, message: 'Invalid token' });
-    }
-    const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
 
-    const hostelId = await getHostelIdForUser(currentUser.id, currentUser.role);
+    const hostelId = caller.apiKey ? caller.apiKey.hostel_id : await getHostelIdForUser(caller.user.id, caller.user.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
     // Pagination
@@ -81,26 +79,17 @@ router.get('/', async (req, res) => {
 });
 
 // Create student for current hostel
-router.post('/', async (req: Request, res) => {
+router.post('/', requirePermission('students.create', { apiKeyScope: 'students:write' }), idempotent(), async (req: Request, res) => {
   const client = await pool.connect();
   try {
-    const rawAuth = req.headers.authorization || '';
-    const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
-    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-    let decoded: any;
-    try {
-      decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    } catch (err) {
-      return res.status(401).json({ success: false, message: 'Invalid token' });
-    }
-    const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
 
-    const hostelId = await getHostelIdForUser(currentUser.id, currentUser.role);
+    const hostelId = caller.apiKey ? caller.apiKey.hostel_id : await getHostelIdForUser(caller.user.id, caller.user.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
     // Check for active semester before allowing student creation
-    const semesterCheck = await requireActiveSemester(currentUser.id, hostelId);
+    const semesterCheck = await requireActiveSemester(caller.actorUserId, hostelId);
     if (!semesterCheck.success || !semesterCheck.semesterId) {
       return res.status(400).json({ success: false, message: semesterCheck.message });
     }
@@ -111,13 +100,23 @@ router.post('/', async (req: Request, res) => {
       name, email,
       gender, date_of_birth, access_number,
       phone, whatsapp, emergency_contact,
-      room_id, initial_payment_amount, currency
+      room_id, initial_payment_amount, currency, payment_method
     } = req.body as any;
     if (!name || !email) return res.status(400).json({ success: false, message: 'Name and email are required' });
     if (!room_id) return res.status(400).json({ success: false, message: 'Room assignment is required' });
-    if (!initial_payment_amount || parseFloat(initial_payment_amount) <= 0) {
+    if (!Number.isFinite(parseFloat(initial_payment_amount)) || parseFloat(initial_payment_amount) <= 0) {
       return res.status(400).json({ success: false, message: 'Booking fee is required and must be greater than 0' });
     }
+    const paymentCurrency = currency === undefined ? await CurrencyService.getBaseCurrency(hostelId) : CurrencyService.normalizeCode(currency);
+    if (!paymentCurrency) return res.status(400).json({ success: false, message: 'currency must be a 3-letter currency code' });
+    // Same defaults as POST /api/payments: cash at the desk, bank transfer for API key callers
+    const paymentMethod = payment_method ?? (caller.apiKey ? 'bank_transfer' : 'cash');
+    if (!PAYMENT_METHODS.includes(paymentMethod)) {
+      return res.status(400).json({ success: false, message: `payment_method must be one of: ${PAYMENT_METHODS.join(', ')}` });
+    }
+    if (!(await CurrencyService.convertToBase(hostelId, parseFloat(initial_payment_amount), paymentCurrency, new Date()))) {
+      return res.status(400).json({ success: false, message: `No exchange rate from ${paymentCurrency} to the hostel's base currency` });
+    }
 
     // Check if user already exists by email
     await client.query('BEGIN');
@@ -172,7 +171,7 @@ router.post('/', async (req: Request, res) => {
     }
 
     // Store room metadata for email and enrollments
-    let roomMeta: { room_number: string | null; price: number | null } = { room_number: null, price: null };
+    let roomMeta: { room_number: string | null } = { room_number: null };
     
     // Assign room if provided
     if (room_id) {
@@ -200,7 +199,7 @@ router.post('/', async (req: Request, res) => {
         return res.status(400).json({ success: false, message: 'This room is already at full capacity' });
       }
       
-      roomMeta = { room_number: room.room_number, price: parseFloat(room.price) };
+      roomMeta = { room_number: room.room_number };
       
       // Check if student already has an active assignment for this semester
       const existingAssignment = await client.query(
@@ -229,7 +228,7 @@ router.post('/', async (req: Request, res) => {
     }
 
     // Create semester enrollment for this student
-    await client.query(
+    const enrollmentRes = await client.query(
       `INSERT INTO semester_enrollments (semester_id, user_id, room_id, enrollment_status)
        VALUES ($1, $2, $3, 'active')
        ON CONFLICT (semester_id, user_id) 
@@ -238,22 +237,52 @@ router.post('/', async (req: Request, res) => {
       [semesterId, createdUser.id, room_id || null]
     );
 
+    // Bill the semester: room charge plus the hostel's standard fees
+    const invoice = await InvoiceService.generateForEnrollment({
+      hostelId,
+      userId: createdUser.id,
+      semesterId,
+      roomId: Number(room_id),
+      enrollmentId: enrollmentRes.rows[0]?.id ?? null,
+      createdBy: caller.actorUserId
+    }, client);
+
     // Record initial payment if provided
     let initialPayment = 0;
+    let bookingPayment: RecordedPayment['payment'] | null = null;
     if (initial_payment_amount) {
       initialPayment = parseFloat(initial_payment_amount);
-      await client.query(
-        `INSERT INTO payments (user_id, hostel_id, semester_id, amount, currency, purpose) VALUES ($1, $2, $3, $4, $5, 'booking')`,
-        [createdUser.id, hostelId, semesterId, initialPayment, currency || 'UGX']
-      );
+      const booking = await PaymentService.record({
+        hostelId,
+        userId: createdUser.id,
+        semesterId,
+        amount: initialPayment,
+        currency: paymentCurrency,
+        purpose: 'booking',
+        paymentMethod,
+        recordedBy: caller.actorUserId
+      }, client);
+      bookingPayment = booking.payment;
     }
 
     await client.query('COMMIT');
 
+    await AuditService.record(req, {
+      action: 'student_create',
+      requesterUserId: caller.actorUserId,
+      message: caller.apiKey ? `Via API key ${caller.apiKey.key_prefix}` : null,
+      targetUserId: createdUser.id,
+      targetHostelId: hostelId,
+      entityType: 'student',
+      entityId: createdUser.id,
+      after: { name, email, access_number: access_number || null, room_id, semester_id: semesterId, invoice_number: invoice.invoice_number, invoice_total: invoice.total_amount, initial_payment: initialPayment, currency: paymentCurrency }
+    });
+
     // ALWAYS send a booking confirmation email with all details
     try {
-      const totalPaid = initialPayment;
-      const balanceAfter = roomMeta.price != null ? Math.max(0, roomMeta.price - totalPaid) : null;
+      // Invoice totals are in the hostel's base currency, so the booking payment is shown converted
+      const totalPaid = bookingPayment?.base_amount || 0;
+      const balanceAfter = Math.max(0, invoice.total_amount - totalPaid);
       const hostelMeta = await pool.query('SELECT name FROM hostels WHERE id = $1', [hostelId]);
       const hostelName = hostelMeta.rows[0]?.name || undefined;
       
@@ -261,32 +290,35 @@ router.post('/', async (req: Request, res) => {
       const html = EmailService.generatePaymentReceiptEmail(
         name,
         email,
-        initialPayment,
-        currency || 'UGX',
+        totalPaid,
+        invoice.currency,
         balanceAfter,
         roomMeta.room_number,
         null,
         new Date().toLocaleString(),
         hostelName,
-        currentUser.name,
+        caller.actorName,
         'Registered by',
         access_number || null,
-        roomMeta.price
+        invoice.total_amount,
+        invoice.line_items,
+        bookingPayment?.receipt_number || null
       );
-      await EmailService.sendEmail({ to: email, subject: `Booking Confirmation - ${hostelName || 'Hostel'}`, html });
+      const attachments = bookingPayment ? await ReceiptService.getEmailAttachments(bookingPayment.id) : [];
+      await EmailService.sendEmail({ to: email, subject: `Booking Confirmation - ${hostelName || 'Hostel'}`, html, attachments });
       
       // If fully paid at registration, also send thank you & welcome email
-      if (balanceAfter !== null && balanceAfter === 0 && initialPayment > 0) {
+      if (balanceAfter !== null && balanceAfter === 0 && totalPaid > 0) {
         const thankYouHtml = EmailService.generateThankYouWelcomeEmail(
           name,
           email,
           hostelName || 'Our Hostel',
           roomMeta.room_number,
           access_number || null,
-          initialPayment,
-          currency || 'UGX',
           totalPaid,
-          roomMeta.price
+          invoice.currency,
+          totalPaid,
+          invoice.total_amount
         );
         await EmailService.sendEmail({ 
           to: email, 
@@ -309,21 +341,12 @@ router.post('/', async (req: Request, res) => {
 });
 
 // Get single student with profile (for editing)
-router.get('/:id', async (req, res) => {
+router.get('/:id', requirePermission('students.view', { apiKeyScope: 'students:read' }), async (req, res) => {
   try {
-    const rawAuth = req.headers.authorization || '';
-    const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
-    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-    let decoded: any;
-    try {
-      decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    } catch (err) {
-      return res.status(401).json({ success: false, message: 'Invalid token' });
-    }
-    const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
 
-    const hostelId = await getHostelIdForUser(currentUser.id, currentUser.role);
+    const hostelId = caller.apiKey ? caller.apiKey.hostel_id : await getHostelIdForUser(caller.user.id, caller.user.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
     const { id } = req.params;
@@ -366,22 +389,13 @@ router.get('/:id', async (req, res) => {
 });
 
 // Update student (custodian/hostel_admin) - allows updating profile info
-router.put('/:id', async (req: Request, res) => {
+router.put('/:id', requirePermission('students.update', { apiKeyScope: 'students:write' }), async (req: Request, res) => {
   const client = await pool.connect();
   try {
-    const rawAuth = req.headers.authorization || '';
-    const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
-    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
-    let decoded: any;
-    try {
-      decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    } catch (err) {
-      return res.status(401).json({ success: false, message: 'Invalid token' });
-    }
-    const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+    const caller = await getRequestCaller(req, res);
+    if (!caller) return;
 
-    const hostelId = await getHostelIdForUser(currentUser.id, currentUser.role);
+    const hostelId = caller.apiKey ? caller.apiKey.hostel_id : await getHostelIdForUser(caller.user.id, caller.user.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
     const { id } = req.params;
@@ -393,8 +407,14 @@ router.put('/:id', async (req: Request, res) => {
 
     if (!name || !email) return res.status(400).json({ success: false, message: 'Name and email are required' });
 
-    // Verify the student belongs to this hostel
-    const student = await pool.query("SELECT id FROM users WHERE id = $1 AND hostel_id = $2 AND role = 'user'", [id, hostelId]);
+    // Verify the student belongs to this hostel (and keep the current values for the audit trail)
+    const student = await pool.query(
+      `SELECT u.id, u.name, u.email, sp.gender, sp.date_of_birth, sp.access_number, sp.phone, sp.whatsapp, sp.emergency_contact
+       FROM users u
+       LEFT JOIN student_profiles sp ON sp.user_id = u.id
+       WHERE u.id = $1 AND u.hostel_id = $2 AND u.role = 'user'`,
+      [id, hostelId]
+    );
     if (!student.rowCount) return res.status(404).json({ success: false, message: 'Student not found' });
 
     await client.query('BEGIN');
@@ -438,6 +458,29 @@ router.put('/:id', async (req: Request, res) => {
 
     await client.query('COMMIT');
 
+    const before = student.rows[0];
+    await AuditService.record(req, {
+      action: 'student_update',
+      requesterUserId: caller.actorUserId,
+      message: caller.apiKey ? `Via API key ${caller.apiKey.key_prefix}` : null,
+      targetUserId: Number(id),
+      targetHostelId: hostelId,
+      entityType: 'student',
+      entityId: id,
+      before,
+      after: {
+        id: before.id,
+        name: name || before.name,
+        email: email || before.email,
+        gender: gender || before.gender,
+        date_of_birth: date_of_birth || before.date_of_birth,
+        access_number: access_number || before.access_number,
+        phone: phone || before.phone,
+        whatsapp: whatsapp || before.whatsapp,
+        emergency_contact: emergency_contact || before.emergency_contact
+      }
+    });
+
     res.json({ success: true, message: 'Student updated successfully' });
   } catch (e) {
     await client.query('ROLLBACK');
@@ -449,7 +492,7 @@ router.put('/:id', async (req: Request, res) => {
 });
 
 // Delete student (custodian/hostel_admin) from their hostel
-router.delete('/:id', async (req: Request, res) => {
+router.delete('/:id', requirePermission('students.delete'), async (req: Request, res) => {
   const client = await pool.connect();
   try {
     const rawAuth = req.headers.authorization || '';
@@ -478,7 +521,7 @@ router.delete('/:id', async (req: Request, res) => {
     const { id } = req.params;
 
     // Verify the student belongs to this hostel
-    const s = await pool.query("SELECT id FROM users WHERE id = $1 AND hostel_id = $2 AND role = 'user'", [id, hostelId]);
+    const s = await pool.query("SELECT id, name, email FROM users WHERE id = $1 AND hostel_id = $2 AND role = 'user'", [id, hostelId]);
     if (!s.rowCount) return res.status(404).json({ success: false, message: 'Student not found' });
 
     await client.query('BEGIN');
@@ -489,6 +532,16 @@ router.delete('/:id', async (req: Request, res) => {
     await client.query('DELETE FROM users WHERE id = $1', [id]);
     await client.query('COMMIT');
 
+    // The user row is gone, so reference it by entity id only
+    await AuditService.record(req, {
+      action: 'student_delete',
+      requesterUserId: currentUser.id,
+      targetHostelId: hostelId,
+      entityType: 'student',
+      entityId: id,
+      before: s.rows[0]
+    });
+
     res.json({ success: true, message: 'Student deleted' });
   } catch (e) {
     await client.query('ROLLBACK');
@@ -500,7 +553,7 @@ router.delete('/:id', async (req: Request, res) => {
 });
 
 // Send notification email to one student or all students in current hostel
-router.post('/notify', async (req, res) => {
+router.post('/notify', requirePermission('students.notify'), async (req, res) => {
   try {
     const rawAuth = req.headers.authorization || '';
     const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
@@ -508,9 +561,7 @@ router.post('/notify', async (req, res) => {
     let decoded: any;
     try { decoded = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret'); } catch { return res.status(401).json({ success: false, message: 'Invalid token' }); }
     const currentUser = await UserModel.findById(decoded.userId);
-    if (!currentUser || (currentUser.role !== 'hostel_admin' && currentUser.role !== 'custodian')) {
-      return res.status(403).json({ success: false, message: 'Forbidden' });
-    }
+    if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
     const hostelId = await getHostelIdForUser(currentUser.id, currentUser.role);
     if (!hostelId) return res.status(403).json({ success: false, message: 'Forbidden' });
 
@@ -2,6 +2,11 @@ import express from 'express';
 import jwt from 'jsonwebtoken';
 import { SubscriptionPlanModel, HostelSubscriptionModel } from '../models/SubscriptionPlan';
 import { UserModel } from '../models/User';
+import { SessionModel } from '../models/Session';
+import { ApiKeyModel } from '../models/ApiKey';
+import { AuditService } from '../services/auditService';
+import { LedgerService } from '../services/ledgerService';
+import { requirePermission } from '../utils/permissionMiddleware';
 import pool from '../config/database';
 
 const router = express.Router();
@@ -47,11 +52,11 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new subscription plan (Super Admin only)
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('subscriptions.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
-      return res.status(403).json({ success: false, message: 'Access denied' });
+    if (!decoded) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
     }
 
     const { name, description, duration_months, price_per_month } = req.body;
@@ -104,11 +109,11 @@ router.post('/', async (req, res) => {
 });
 
 // Update subscription plan (Super Admin only)
-router.put('/:id', async (req, res) => {
+router.put('/:id', requirePermission('subscriptions.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
-      return res.status(403).json({ success: false, message: 'Access denied' });
+    if (!decoded) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
     }
 
     const planId = parseInt(req.params.id);
@@ -138,11 +143,11 @@ router.put('/:id', async (req, res) => {
 });
 
 // Delete subscription plan (Super Admin only)
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('subscriptions.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
-      return res.status(403).json({ success: false, message: 'Access denied' });
+    if (!decoded) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
     }
 
     const planId = parseInt(req.params.id);
@@ -160,7 +165,7 @@ router.delete('/:id', async (req, res) => {
 });
 
 // Get hostel subscriptions
-router.get('/hostel/:hostelId', async (req, res) => {
+router.get('/hostel/:hostelId', requirePermission('subscriptions.view'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
     if (!decoded) {
@@ -168,6 +173,13 @@ router.get('/hostel/:hostelId', async (req, res) => {
     }
 
     const hostelId = parseInt(req.params.hostelId);
+    // Outside the platform team, subscriptions are only visible for the caller's own hostel
+    if (decoded.role !== 'super_admin') {
+      const user = await UserModel.findById(decoded.userId);
+      if (!user || user.hostel_id !== hostelId) {
+        return res.status(403).json({ success: false, message: 'Access denied' });
+      }
+    }
     const subscriptions = await HostelSubscriptionModel.findByHostelId(hostelId);
     
     res.json({ success: true, subscriptions });
@@ -178,11 +190,11 @@ router.get('/hostel/:hostelId', async (req, res) => {
 });
 
 // Create hostel subscription
-router.post('/hostel/:hostelId/subscribe', async (req, res) => {
+router.post('/hostel/:hostelId/subscribe', requirePermission('subscriptions.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
-      return res.status(403).json({ success: false, message: 'Access denied' });
+    if (!decoded) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
     }
 
     const hostelId = parseInt(req.params.hostelId);
@@ -201,15 +213,36 @@ router.post('/hostel/:hostelId/subscribe', async (req, res) => {
     const endDate = new Date();
     endDate.setMonth(endDate.getMonth() + plan.duration_months);
 
-    const subscription = await HostelSubscriptionModel.create({
-      hostel_id: hostelId,
-      plan_id: plan_id,
-      start_date: startDate,
-      end_date: endDate,
-      amount_paid: plan.total_price,
-      status: 'active',
-      payment_method: payment_method || 'cash',
-      payment_reference: payment_reference || `REF-${Date.now()}`
+    const client = await pool.connect();
+    let subscription;
+    try {
+      await client.query('BEGIN');
+      subscription = await HostelSubscriptionModel.create({
+        hostel_id: hostelId,
+        plan_id: plan_id,
+        start_date: startDate,
+        end_date: endDate,
+        amount_paid: plan.total_price,
+        status: 'active',
+        payment_method: payment_method || 'cash',
+        payment_reference: payment_reference || `REF-${Date.now()}`
+      }, client);
+      await LedgerService.postSubscriptionCharge(subscription, decoded.userId, client);
+      await client.query('COMMIT');
+    } catch (err) {
+      await client.query('ROLLBACK');
+      throw err;
+    } finally {
+      client.release();
+    }
+
+    await AuditService.record(req, {
+      action: 'subscription_subscribe',
+      requesterUserId: decoded.userId,
+      targetHostelId: hostelId,
+      entityType: 'hostel_subscription',
+      entityId: subscription.id,
+      after: { plan_id, plan_name: plan.name, amount_paid: subscription.amount_paid, start_date: startDate, end_date: endDate }
     });
 
     res.status(201).json({ success: true, subscription });
@@ -219,12 +252,51 @@ router.post('/hostel/:hostelId/subscribe', async (req, res) => {
   }
 });
 
+// Cancel a hostel subscription; the hostel's staff are signed out and its API keys revoked immediately
+router.post('/subscriptions/:id/cancel', requirePermission('subscriptions.manage'), async (req, res) => {
+  try {
+    const decoded = verifyToken(req);
+    if (!decoded) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
+    }
+
+    const subscriptionId = parseInt(req.params.id);
+    const existing = await pool.query('SELECT id, hostel_id, status FROM hostel_subscriptions WHERE id = $1', [subscriptionId]);
+    const subscription = existing.rows[0];
+    if (!subscription) {
+      return res.status(404).json({ success: false, message: 'Subscription not found' });
+    }
+    if (subscription.status === 'cancelled') {
+      return res.status(400).json({ success: false, message: 'Subscription is already cancelled' });
+    }
+
+    await HostelSubscriptionModel.updateStatus(subscriptionId, 'cancelled');
+    const revokedSessions = await SessionModel.revokeAllForHostelStaff(subscription.hostel_id, 'subscription_cancelled');
+    const revokedApiKeys = await ApiKeyModel.revokeAllForHostel(subscription.hostel_id);
+
+    await AuditService.record(req, {
+      action: 'subscription_cancel',
+      requesterUserId: decoded.userId,
+      targetHostelId: subscription.hostel_id,
+      entityType: 'hostel_subscription',
+      entityId: subscriptionId,
+      before: { status: subscription.status },
+      after: { status: 'cancelled', revoked_sessions: revokedSessions, revoked_api_keys: revokedApiKeys }
+    });
+
+    res.json({ success: true, message: 'Subscription cancelled', revokedSessions, revokedApiKeys });
+  } catch (error) {
+    console.error('Error cancelling hostel subscription:', error);
+    res.status(500).json({ success: false, message: 'Failed to cancel hostel subscription' });
+  }
+});
+
 // Get expired subscriptions
-router.get('/expired/all', async (req, res) => {
+router.get('/expired/all', requirePermission('subscriptions.manage'), async (req, res) => {
   try {
     const decoded = verifyToken(req);
-    if (!decoded || decoded.role !== 'super_admin') {
-      return res.status(403).json({ success: false, message: 'Access denied' });
+    if (!decoded) {
+      return res.status(401).json({ success: false, message: 'Unauthorized' });
     }
 
     const expiredSubscriptions = await HostelSubscriptionModel.getExpiredSubscriptions();
@@ -236,12 +308,12 @@ router.get('/expired/all', async (req, res) => {
 });
 
 // Renew subscription for a hostel
-router.post('/hostel/:hostelId/renew', async (req, res) => {
+router.post('/hostel/:hostelId/renew', requirePermission('subscriptions.manage'), async (req, res) => {
   try {
     const { hostelId } = req.params;
     const { plan_id, payment_method = 'cash', payment_reference } = req.body;
 
-    // Check if user is super admin
+    // Resolve the acting user for the audit trail
     const token = req.headers.authorization?.replace('Bearer ', '');
     if (!token) {
       return res.status(401).json({ success: false, message: 'No token provided' });
@@ -250,7 +322,7 @@ router.post('/hostel/:hostelId/renew', async (req, res) => {
     const decoded = jwt.verify(token, process.env.JWT_SECRET!) as any;
     const user = await UserModel.findById(decoded.userId);
     
-    if (!user || user.role !== 'super_admin') {
+    if (!user) {
       return res.status(403).json({ success: false, message: 'Access denied' });
     }
 
@@ -283,7 +355,8 @@ router.post('/hostel/:hostelId/renew', async (req, res) => {
         status: 'active',
         payment_method: payment_method,
         payment_reference: payment_reference || `RENEWAL-${hostelId}-${Date.now()}`
-      });
+      }, client);
+      await LedgerService.postSubscriptionCharge(subscription, user.id, client);
 
       // Update hostel's current subscription
       await client.query(
@@ -293,6 +366,15 @@ router.post('/hostel/:hostelId/renew', async (req, res) => {
 
       await client.query('COMMIT');
 
+      await AuditService.record(req, {
+        action: 'subscription_renew',
+        requesterUserId: user.id,
+        targetHostelId: parseInt(hostelId),
+        entityType: 'hostel_subscription',
+        entityId: subscription.id,
+        after: { plan_id, plan_name: plan.name, amount_paid: subscription.amount_paid, start_date: startDate, end_date: endDate }
+      });
+
       res.json({
         success: true,
         message: 'Subscription renewed successfully',
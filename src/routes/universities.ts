@@ -1,28 +1,9 @@
 import express from 'express';
 import { UniversityModel } from '../models/University';
-import { UserModel } from '../models/User';
+import { requirePermission } from '../utils/permissionMiddleware';
 
 const router = express.Router();
 
-// Helper function to verify super admin
-async function verifySuperAdmin(req: express.Request): Promise<{ userId: number; role: string } | null> {
-  try {
-    const token = req.headers.authorization?.replace('Bearer ', '');
-    if (!token) return null;
-    
-    const decoded: any = require('jsonwebtoken').verify(token, process.env.JWT_SECRET || 'fallback_secret');
-    const user = await UserModel.findById(decoded.userId);
-    
-    if (!user || user.role !== 'super_admin') {
-      return null;
-    }
-    
-    return { userId: user.id, role: user.role };
-  } catch {
-    return null;
-  }
-}
-
 // Get all universities
 router.get('/', async (req, res) => {
   try {
@@ -67,17 +48,8 @@ router.get('/:id', async (req, res) => {
 });
 
 // Create new university
-router.post('/', async (req, res) => {
+router.post('/', requirePermission('universities.manage'), async (req, res) => {
   try {
-    // Verify super admin
-    const auth = await verifySuperAdmin(req);
-    if (!auth) {
-      return res.status(403).json({
-        success: false,
-        message: 'Forbidden: Only super admin can create universities'
-      });
-    }
-    
     const universityData = req.body;
     
     // Validate required fields
@@ -114,17 +86,8 @@ router.post('/', async (req, res) => {
 });
 
 // Update university
-router.put('/:id', async (req, res) => {
+router.put('/:id', requirePermission('universities.manage'), async (req, res) => {
   try {
-    // Verify super admin
-    const auth = await verifySuperAdmin(req);
-    if (!auth) {
-      return res.status(403).json({
-        success: false,
-        message: 'Forbidden: Only super admin can update universities'
-      });
-    }
-    
     const { id } = req.params;
     const updateData = req.body;
     
@@ -161,17 +124,8 @@ router.put('/:id', async (req, res) => {
 });
 
 // Delete university
-router.delete('/:id', async (req, res) => {
+router.delete('/:id', requirePermission('universities.manage'), async (req, res) => {
   try {
-    // Verify super admin
-    const auth = await verifySuperAdmin(req);
-    if (!auth) {
-      return res.status(403).json({
-        success: false,
-        message: 'Forbidden: Only super admin can delete universities'
-      });
-    }
-    
     const { id } = req.params;
     
     const deleted = await UniversityModel.delete(parseInt(id));
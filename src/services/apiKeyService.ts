@@ -0,0 +1,81 @@
+import crypto from 'crypto';
+import pool from '../config/database';
+import { ApiKeyModel, ApiKey } from '../models/ApiKey';
+
+// Scopes an integration key may carry; each maps onto one group of hostel routes
+export const API_KEY_SCOPES = ['rooms:read', 'students:read', 'students:write', 'payments:read', 'payments:write'] as const;
+export type ApiKeyScope = typeof API_KEY_SCOPES[number];
+
+const KEY_PREFIX = 'lts';
+
+type ApiKeyAuthResult = { success: true; apiKey: ApiKey } | { success: false; status: number; message: string };
+
+export class ApiKeyService {
+  static hashKey(rawKey: string): string {
+    return crypto.createHash('sha256').update(rawKey).digest('hex');
+  }
+
+  static isValidScope(scope: string): scope is ApiKeyScope {
+    return (API_KEY_SCOPES as readonly string[]).includes(scope);
+  }
+
+  /**
+   * Issue a key for a hostel. The plaintext key is returned once and only its hash is stored.
+   */
+  static async createKey(
+    hostelId: number,
+    name: string,
+    scopes: ApiKeyScope[],
+    createdBy: number | null,
+    expiresAt: Date | null
+  ): Promise<{ key: string; apiKey: ApiKey }> {
+    const publicPart = crypto.randomBytes(4).toString('hex');
+    const secret = crypto.randomBytes(24).toString('base64url');
+    const key = `${KEY_PREFIX}_${publicPart}_${secret}`;
+
+    const apiKey = await ApiKeyModel.create({
+      hostel_id: hostelId,
+      name,
+      key_prefix: `${KEY_PREFIX}_${publicPart}`,
+      key_hash: this.hashKey(key),
+      scopes: Array.from(new Set(scopes)),
+      created_by: createdBy,
+      expires_at: expiresAt
+    });
+    return { key, apiKey };
+  }
+
+  /**
+   * Resolve a presented key. Like staff logins, keys stop working while the hostel's subscription has lapsed.
+   */
+  static async authenticate(rawKey: string): Promise<ApiKeyAuthResult> {
+    const apiKey = rawKey.startsWith(`${KEY_PREFIX}_`) ? await ApiKeyModel.findActiveByHash(this.hashKey(rawKey)) : null;
+    if (!apiKey) return { success: false, status: 401, message: 'Invalid or expired API key' };
+    if (!(await this.isSubscriptionActive(apiKey.hostel_id))) {
+      return { success: false, status: 403, message: 'This hostel\'s subscription has expired. API keys are disabled until it is renewed.' };
+    }
+    return { success: true, apiKey };
+  }
+
+  // Same rule as the login check: the current (or latest) subscription must be active and not past its end date
+  private static async isSubscriptionActive(hostelId: number): Promise<boolean> {
+    const result = await pool.query(
+      `SELECT hs.status, hs.end_date
+       FROM hostels h
+       LEFT JOIN hostel_subscriptions hs ON hs.id = COALESCE(
+         h.current_subscription_id,
+         (SELECT id FROM hostel_subscriptions WHERE hostel_id = h.id ORDER BY end_date DESC LIMIT 1)
+       )
+       WHERE h.id = $1`,
+      [hostelId]
+    );
+    const sub = result.rows[0];
+    return !!sub && sub.status === 'active' && !!sub.end_date && new Date(sub.end_date) >= new Date();
+  }
+
+  // Usage logging must never fail the request it describes
+  static recordUsage(apiKey: ApiKey, method: string, path: string, statusCode: number | null, ip: string | null): void {
+    ApiKeyModel.recordUsage(apiKey.id, method, path, statusCode, ip)
+      .catch(err => console.error('API key usage log error:', err));
+  }
+}
@@ -0,0 +1,43 @@
+import express from 'express';
+import { AuditLogModel } from '../models/AuditLog';
+
+export interface AuditEntry {
+  action: string;
+  requesterUserId?: number | null;
+  targetUserId?: number | null;
+  targetHostelId?: number | null;
+  status?: 'success' | 'failure';
+  message?: string | null;
+  entityType?: string | null;
+  entityId?: string | number | null;
+  before?: any;
+  after?: any;
+}
+
+export class AuditService {
+  /**
+   * Write an audit entry. Never throws: a failed audit write is logged but must not fail the action itself.
+   * Call after the action has committed; for deletions pass entityId rather than targetUserId,
+   * because the FK would reject a reference to a row that no longer exists.
+   */
+  static async record(req: express.Request | null, entry: AuditEntry): Promise<void> {
+    try {
+      await AuditLogModel.create({
+        action: entry.action,
+        requester_user_id: entry.requesterUserId ?? null,
+        target_user_id: entry.targetUserId ?? null,
+        target_hostel_id: entry.targetHostelId ?? null,
+        status: entry.status || 'success',
+        message: entry.message ?? null,
+        ip_address: req ? (req.ip || req.socket.remoteAddress || null) : null,
+        user_agent: req ? ((req.headers['user-agent'] as string) || null) : null,
+        entity_type: entry.entityType ?? null,
+        entity_id: entry.entityId == null ? null : String(entry.entityId),
+        before_data: entry.before ?? null,
+        after_data: entry.after ?? null
+      });
+    } catch (error) {
+      console.error('Audit log write failed:', entry.action, error);
+    }
+  }
+}
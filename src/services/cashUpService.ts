@@ -0,0 +1,132 @@
+import pool from '../config/database';
+import { CashUpModel, CashUpWithNames, CashPayment } from '../models/CashUp';
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface OpenCash {
+  currency: string;
+  payment_count: number;
+  expected_amount: number;
+  payments: CashPayment[];
+}
+
+type CashUpResult<T> = ({ success: true } & T) | { success: false; status: number; message: string };
+
+// Shortages or surpluses larger than this need an explanation and are flagged for the hostel admin
+function getVarianceTolerance(): number {
+  const tolerance = parseFloat(process.env.CASH_UP_VARIANCE_TOLERANCE || '0');
+  return Number.isFinite(tolerance) && tolerance >= 0 ? tolerance : 0;
+}
+
+export class CashUpService {
+  /**
+   * Cash the staff member should be holding: cash payments (less cash refunds) recorded since their last cash-up, per currency
+   */
+  static async getOpenCash(hostelId: number, userId: number): Promise<OpenCash[]> {
+    const payments = await CashUpModel.getUncovered(hostelId, userId, null);
+    const byCurrency = new Map<string, OpenCash>();
+    for (const payment of payments) {
+      const open = byCurrency.get(payment.currency) || { currency: payment.currency, payment_count: 0, expected_amount: 0, payments: [] };
+      open.payment_count++;
+      open.expected_amount = roundCents(open.expected_amount + payment.amount);
+      open.payments.push(payment);
+      byCurrency.set(payment.currency, open);
+    }
+    return [...byCurrency.values()];
+  }
+
+  static computeVariance(expected: number, declared: number): { variance: number; flagged: boolean } {
+    const variance = roundCents(declared - expected);
+    return { variance, flagged: Math.abs(variance) > getVarianceTolerance() };
+  }
+
+  /**
+   * Declare the cash on hand in one currency. The cash-up covers every cash payment the staff member recorded
+   * in that currency that no earlier cash-up covers.
+   */
+  static async submit(
+    hostelId: number,
+    userId: number,
+    input: { currency: string; declaredAmount: number; notes: string | null }
+  ): Promise<CashUpResult<{ cashUp: CashUpWithNames }>> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const payments = await CashUpModel.getUncovered(hostelId, userId, input.currency, client, true);
+      if (!payments.length && input.declaredAmount === 0) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 400, message: `You have no ${input.currency} cash payments to cash up` };
+      }
+
+      const expected = roundCents(payments.reduce((sum, p) => sum + p.amount, 0));
+      const { variance, flagged } = this.computeVariance(expected, input.declaredAmount);
+      if (flagged && !input.notes) {
+        await client.query('ROLLBACK');
+        return {
+          success: false,
+          status: 400,
+          message: `The cash on hand is ${variance < 0 ? 'short' : 'over'} by ${Math.abs(variance).toFixed(2)} ${input.currency}; explain the difference in notes`
+        };
+      }
+
+      const created = await CashUpModel.create({
+        hostel_id: hostelId,
+        user_id: userId,
+        currency: input.currency,
+        payment_count: payments.length,
+        expected_amount: expected,
+        declared_amount: input.declaredAmount,
+        variance,
+        variance_flagged: flagged,
+        notes: input.notes
+      }, client);
+      await CashUpModel.attachPayments(created.id, payments.map(p => p.id), client);
+      await client.query('COMMIT');
+      return { success: true, cashUp: (await CashUpModel.findById(created.id))! };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Approve or reject a pending cash-up; nobody reviews their own. Rejecting hands the payments back so the
+   * staff member recounts and submits again.
+   */
+  static async review(
+    cashUpId: number,
+    decision: 'approved' | 'rejected',
+    reviewedBy: number,
+    note: string | null
+  ): Promise<CashUpResult<{ cashUp: CashUpWithNames; before: CashUpWithNames }>> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const cashUp = await CashUpModel.lockById(cashUpId, client);
+      if (!cashUp) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 404, message: 'Cash-up not found' };
+      }
+      if (cashUp.status !== 'pending') {
+        await client.query('ROLLBACK');
+        return { success: false, status: 409, message: `The cash-up has already been ${cashUp.status}` };
+      }
+      if (cashUp.user_id === reviewedBy) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 403, message: 'You cannot review your own cash-up' };
+      }
+
+      if (decision === 'rejected') await CashUpModel.releasePayments(cashUp.id, client);
+      const reviewed = await CashUpModel.markReviewed(cashUp.id, decision, reviewedBy, note, client);
+      await client.query('COMMIT');
+      return { success: true, cashUp: reviewed, before: cashUp };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import pool, { Queryable } from '../config/database';
+import { ExchangeRateModel } from '../models/ExchangeRate';
+import { LedgerService } from './ledgerService';
+
+export interface BaseConversion {
+  base_currency: string;
+  base_amount: number;
+  exchange_rate: number;
+}
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export class CurrencyService {
+  /**
+   * Upper-cased ISO 4217 style code, or null when the value is not three letters
+   */
+  static normalizeCode(raw: unknown): string | null {
+    const code = String(raw ?? '').trim().toUpperCase();
+    return /^[A-Z]{3}$/.test(code) ? code : null;
+  }
+
+  static async getBaseCurrency(hostelId: number, db: Queryable = pool): Promise<string> {
+    const result = await db.query('SELECT base_currency FROM hostels WHERE id = $1', [hostelId]);
+    return result.rows[0]?.base_currency || 'UGX';
+  }
+
+  /**
+   * Convert an amount into the hostel's base currency at the rate effective on the given date.
+   * Null when no exchange rate covers the pair on that date.
+   */
+  static async convertToBase(hostelId: number, amount: number, currency: string, onDate: Date, db: Queryable = pool): Promise<BaseConversion | null> {
+    const baseCurrency = await this.getBaseCurrency(hostelId, db);
+    if (currency === baseCurrency) return { base_currency: baseCurrency, base_amount: amount, exchange_rate: 1 };
+    const rate = await ExchangeRateModel.findEffective(currency, baseCurrency, onDate, db);
+    if (rate === null) return null;
+    return { base_currency: baseCurrency, base_amount: roundCents(amount * rate), exchange_rate: rate };
+  }
+
+  /**
+   * Convert payments and expenses still waiting for a rate (entered before one existed for their currency),
+   * and bring the ledger in line: held-back rows are posted and face-value postings are restated.
+   * Returns how many rows of each were converted.
+   */
+  static async convertPending(convertedBy: number | null, db: Queryable = pool): Promise<{ payments: number; expenses: number }> {
+    const converted = { payments: 0, expenses: 0 };
+    for (const [table, dateColumn] of [['payments', 'created_at'], ['expenses', 'spent_at']] as const) {
+      const pending = await db.query(
+        `SELECT id, hostel_id, amount, COALESCE(currency, 'UGX') AS currency, COALESCE(${dateColumn}, created_at) AS entry_date
+         FROM ${table} WHERE base_amount IS NULL AND hostel_id IS NOT NULL`
+      );
+      for (const row of pending.rows) {
+        const conversion = await this.convertToBase(row.hostel_id, parseFloat(row.amount), row.currency.toUpperCase(), row.entry_date, db);
+        if (!conversion) continue;
+        const updated = await db.query(
+          `UPDATE ${table} SET base_currency = $2, base_amount = $3, exchange_rate = $4 WHERE id = $1 RETURNING *`,
+          [row.id, conversion.base_currency, conversion.base_amount, conversion.exchange_rate]
+        );
+        if (table === 'payments') {
+          await LedgerService.restatePayment(updated.rows[0], convertedBy, db);
+        } else if (updated.rows[0].status === 'approved') {
+          // Pending expenses are posted when approved; rejected ones never are
+          await LedgerService.restateExpense(updated.rows[0], convertedBy, db);
+        }
+        converted[table]++;
+      }
+    }
+    return converted;
+  }
+}
@@ -0,0 +1,268 @@
+import pool, { Queryable } from '../config/database';
+import { InvoiceModel } from '../models/Invoice';
+import { DepositSettlementModel, DepositSettlementWithDeductions, DepositDeduction, RefundMethod } from '../models/Deposit';
+import { InvoiceService } from './invoiceService';
+import { LedgerService } from './ledgerService';
+import { CurrencyService } from './currencyService';
+import { EmailService } from './emailService';
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface CheckOutInput {
+  damages: Array<{ description: string; amount: number }>;
+  // amount defaults to the item's purchase price times the quantity
+  missingItems: Array<{ inventoryItemId: number; quantity: number; amount: number | null }>;
+  refundMethod: RefundMethod | null;
+  refundReference: string | null;
+  notes: string | null;
+}
+
+export interface EnrollmentDeposit {
+  enrollment_id: number;
+  hostel_id: number;
+  user_id: number;
+  semester_id: number;
+  enrollment_status: string;
+  invoice_number: string | null;
+  // Rent and other fees, kept apart from the refundable deposit
+  fees: number;
+  deposit_charged: number;
+  deposit_held: number;
+  paid: number;
+  balance: number;
+  settlement: DepositSettlementWithDeductions | null;
+}
+
+type CheckOutResult =
+  | { success: true; settlement: DepositSettlementWithDeductions; totalAmount: number }
+  | { success: false; status: number; message: string };
+
+async function findEnrollment(enrollmentId: number, db: Queryable, forUpdate = false) {
+  const result = await db.query(
+    `SELECT se.id, se.user_id, se.semester_id, se.enrollment_status, s.hostel_id
+     FROM semester_enrollments se
+     JOIN semesters s ON s.id = se.semester_id
+     WHERE se.id = $1 ${forUpdate ? 'FOR UPDATE OF se' : ''}`,
+    [enrollmentId]
+  );
+  return result.rows[0] as { id: number; user_id: number; semester_id: number; enrollment_status: string; hostel_id: number } | undefined;
+}
+
+export class DepositService {
+  /**
+   * Settle a deposit once damages are on the invoice and the deposit line has been released: the deposit pays off
+   * whatever the student still owes and the rest is refunded. `invoiceTotal` is the invoice after both changes.
+   */
+  static computeSettlement(depositAmount: number, itemizedTotal: number, invoiceTotal: number, paid: number) {
+    const refund = roundCents(Math.min(depositAmount, Math.max(0, paid - invoiceTotal)));
+    const totalDeductions = roundCents(depositAmount - refund);
+    return {
+      refund,
+      totalDeductions,
+      unpaidBalance: roundCents(Math.max(0, totalDeductions - itemizedTotal)),
+      balanceDue: roundCents(Math.max(0, invoiceTotal - (paid - refund)))
+    };
+  }
+
+  /**
+   * A student's deposit for an enrollment next to their other fees. Payments count towards the deposit first.
+   */
+  static async getForEnrollment(enrollmentId: number, db: Queryable = pool): Promise<EnrollmentDeposit | null> {
+    const enrollment = await findEnrollment(enrollmentId, db);
+    if (!enrollment) return null;
+
+    const invoice = await InvoiceModel.findByUserAndSemester(enrollment.user_id, enrollment.semester_id, db);
+    const lines = invoice ? await InvoiceModel.getLineItems(invoice.id, db) : [];
+    const settlement = await DepositSettlementModel.findByEnrollment(enrollment.id, db);
+    // Nets to zero once the deposit was released at check-out
+    const depositLines = lines.filter(l => l.fee_type === 'security_deposit').reduce((sum, l) => sum + l.amount, 0);
+    const depositCharged = settlement ? settlement.deposit_amount : depositLines;
+    const paid = await InvoiceModel.getPaidAmount(enrollment.user_id, enrollment.semester_id, db);
+    const total = invoice?.total_amount ?? 0;
+
+    return {
+      enrollment_id: enrollment.id,
+      hostel_id: enrollment.hostel_id,
+      user_id: enrollment.user_id,
+      semester_id: enrollment.semester_id,
+      enrollment_status: enrollment.enrollment_status,
+      invoice_number: invoice?.invoice_number || null,
+      fees: roundCents(total - depositLines),
+      deposit_charged: roundCents(depositCharged),
+      deposit_held: settlement ? 0 : roundCents(Math.min(depositCharged, Math.max(0, paid))),
+      paid: roundCents(paid),
+      balance: roundCents(total - paid),
+      settlement
+    };
+  }
+
+  /**
+   * Check a student out of an enrollment: charge damages and missing inventory on the invoice, release the deposit
+   * against the balance, record the refund as a refund payment and end the room assignment.
+   */
+  static async checkOut(enrollmentId: number, input: CheckOutInput, settledBy: number): Promise<CheckOutResult> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const enrollment = await findEnrollment(enrollmentId, client, true);
+      if (!enrollment) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 404, message: 'Enrollment not found' };
+      }
+      if (await DepositSettlementModel.findByEnrollment(enrollment.id, client)) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 409, message: 'The student has already been checked out of this semester' };
+      }
+      const invoice = await InvoiceModel.findByUserAndSemester(enrollment.user_id, enrollment.semester_id, client);
+      if (!invoice) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 400, message: 'The student has no invoice for this semester' };
+      }
+      await client.query('SELECT id FROM invoices WHERE id = $1 FOR UPDATE', [invoice.id]);
+
+      const itemized: Array<Omit<DepositDeduction, 'id' | 'settlement_id' | 'created_at'>> = [];
+      for (const damage of input.damages) {
+        const line = await InvoiceService.addLine(invoice, {
+          fee_type: 'damages',
+          description: `Damages: ${damage.description}`,
+          quantity: 1,
+          unit_amount: damage.amount,
+          created_by: settledBy
+        }, client);
+        itemized.push({ deduction_type: 'damages', description: damage.description, inventory_item_id: null, quantity: null, amount: damage.amount, invoice_line_item_id: line.id });
+      }
+      for (const missing of input.missingItems) {
+        const itemRes = await client.query(
+          'SELECT id, name, purchase_price FROM inventory_items WHERE id = $1 AND hostel_id = $2 FOR UPDATE',
+          [missing.inventoryItemId, enrollment.hostel_id]
+        );
+        const item = itemRes.rows[0];
+        if (!item) {
+          await client.query('ROLLBACK');
+          return { success: false, status: 404, message: `Inventory item ${missing.inventoryItemId} not found` };
+        }
+        const amount = missing.amount ?? (item.purchase_price != null ? roundCents(parseFloat(item.purchase_price) * missing.quantity) : null);
+        if (!amount || amount <= 0) {
+          await client.query('ROLLBACK');
+          return { success: false, status: 400, message: `Inventory item "${item.name}" has no purchase price; give an amount` };
+        }
+        const description = `Missing ${item.name} x${missing.quantity}`;
+        const line = await InvoiceService.addLine(invoice, { fee_type: 'damages', description, quantity: 1, unit_amount: amount, created_by: settledBy }, client);
+        await client.query('UPDATE inventory_items SET quantity = GREATEST(quantity - $2, 0), updated_at = NOW() WHERE id = $1', [item.id, missing.quantity]);
+        itemized.push({ deduction_type: 'missing_inventory', description, inventory_item_id: item.id, quantity: missing.quantity, amount, invoice_line_item_id: line.id });
+      }
+
+      // Releasing the deposit moves it from the deposits held account onto the student's balance
+      const depositAmount = roundCents((await InvoiceModel.getLineItems(invoice.id, client))
+        .filter(l => l.fee_type === 'security_deposit')
+        .reduce((sum, l) => sum + l.amount, 0));
+      let releaseLineId: number | null = null;
+      if (depositAmount > 0) {
+        const release = await InvoiceService.addLine(invoice, {
+          fee_type: 'security_deposit',
+          description: 'Security deposit released at check-out',
+          quantity: 1,
+          unit_amount: -depositAmount,
+          created_by: settledBy
+        }, client);
+        releaseLineId = release.id;
+      }
+      const updated = await InvoiceModel.refreshTotal(invoice.id, client);
+      const paid = await InvoiceModel.getPaidAmount(enrollment.user_id, enrollment.semester_id, client);
+      const itemizedTotal = itemized.reduce((sum, d) => sum + d.amount, 0);
+      const computed = this.computeSettlement(depositAmount, itemizedTotal, updated.total_amount, paid);
+
+      let refundPaymentId: number | null = null;
+      if (computed.refund > 0) {
+        const baseCurrency = await CurrencyService.getBaseCurrency(enrollment.hostel_id, client);
+        const refundRes = await client.query(
+          `INSERT INTO payments (user_id, hostel_id, semester_id, amount, currency, purpose, entry_type, adjustment_reason,
+                                 base_currency, base_amount, exchange_rate, payment_method, payment_reference, recorded_by)
+           VALUES ($1, $2, $3, $4, $5, 'deposit_refund', 'refund', 'Security deposit refund at check-out', $5, $4, 1, $6, $7, $8)
+           RETURNING *`,
+          [enrollment.user_id, enrollment.hostel_id, enrollment.semester_id, -computed.refund, baseCurrency, input.refundMethod, input.refundReference, settledBy]
+        );
+        await LedgerService.postPayment(refundRes.rows[0], settledBy, client);
+        refundPaymentId = refundRes.rows[0].id;
+      }
+
+      const settlement = await DepositSettlementModel.create({
+        hostel_id: enrollment.hostel_id,
+        enrollment_id: enrollment.id,
+        user_id: enrollment.user_id,
+        semester_id: enrollment.semester_id,
+        invoice_id: invoice.id,
+        deposit_amount: depositAmount,
+        total_deductions: computed.totalDeductions,
+        refund_amount: computed.refund,
+        balance_due: computed.balanceDue,
+        refund_payment_id: refundPaymentId,
+        refund_method: computed.refund > 0 ? input.refundMethod : null,
+        refund_reference: computed.refund > 0 ? input.refundReference : null,
+        release_line_item_id: releaseLineId,
+        notes: input.notes,
+        settled_by: settledBy
+      }, client);
+      const deductions: DepositDeduction[] = [];
+      for (const deduction of itemized) {
+        deductions.push(await DepositSettlementModel.addDeduction({ ...deduction, settlement_id: settlement.id }, client));
+      }
+      if (computed.unpaidBalance > 0) {
+        deductions.push(await DepositSettlementModel.addDeduction({
+          settlement_id: settlement.id,
+          deduction_type: 'unpaid_balance',
+          description: 'Unpaid fees',
+          inventory_item_id: null,
+          quantity: null,
+          amount: computed.unpaidBalance,
+          invoice_line_item_id: null
+        }, client));
+      }
+
+      await client.query(
+        "UPDATE student_room_assignments SET status = 'ended', ended_at = NOW() WHERE user_id = $1 AND semester_id = $2 AND status = 'active'",
+        [enrollment.user_id, enrollment.semester_id]
+      );
+      await client.query(
+        "UPDATE semester_enrollments SET enrollment_status = 'completed', completed_at = NOW(), updated_at = NOW() WHERE id = $1 AND enrollment_status = 'active'",
+        [enrollment.id]
+      );
+
+      await client.query('COMMIT');
+      return { success: true, settlement: { ...settlement, deductions }, totalAmount: updated.total_amount };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Email the student their deposit statement: what was held, each deduction and the refund
+   */
+  static async sendStatement(settlement: DepositSettlementWithDeductions): Promise<void> {
+    const res = await pool.query(
+      `SELECT u.name, u.email, h.name AS hostel_name, h.base_currency, s.name AS semester_name
+       FROM users u, hostels h, semesters s
+       WHERE u.id = $1 AND h.id = $2 AND s.id = $3`,
+      [settlement.user_id, settlement.hostel_id, settlement.semester_id]
+    );
+    const row = res.rows[0];
+    if (!row?.email) return;
+
+    const html = EmailService.generateDepositStatementEmail(
+      row.name,
+      row.hostel_name,
+      row.semester_name,
+      settlement.deposit_amount,
+      settlement.deductions.map(d => ({ description: d.deduction_type === 'damages' ? `Damages: ${d.description}` : d.description, amount: d.amount })),
+      settlement.total_deductions,
+      settlement.refund_amount,
+      settlement.balance_due,
+      row.base_currency,
+      settlement.refund_method
+    );
+    await EmailService.sendEmail({ to: row.email, subject: `Security deposit statement - ${row.hostel_name}`, html });
+  }
+}
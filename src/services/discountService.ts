@@ -0,0 +1,129 @@
+import pool, { Queryable } from '../config/database';
+import { InvoiceModel, Invoice, DISCOUNTABLE_FEE_TYPES } from '../models/Invoice';
+import { DiscountRuleModel, DiscountRule, RoomType } from '../models/DiscountRule';
+import { LedgerService } from './ledgerService';
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+export interface DiscountContext {
+  semesterId: number;
+  userId: number;
+  roomType: RoomType | null;
+  enrollmentDate: string;
+}
+
+export class DiscountService {
+  static matches(rule: DiscountRule, ctx: DiscountContext): boolean {
+    if (!rule.is_active) return false;
+    if (rule.semester_id && rule.semester_id !== ctx.semesterId) return false;
+    if (rule.user_id && rule.user_id !== ctx.userId) return false;
+    if (rule.room_type && rule.room_type !== ctx.roomType) return false;
+    if (rule.enrolled_before && ctx.enrollmentDate > rule.enrolled_before) return false;
+    return true;
+  }
+
+  /**
+   * Discount per matching rule, taken in rule order. Percentages apply to the discountable charges;
+   * together the discounts never exceed them.
+   */
+  static computeDiscounts(rules: DiscountRule[], base: number): Array<{ rule: DiscountRule; amount: number }> {
+    let remaining = roundCents(base);
+    const discounts: Array<{ rule: DiscountRule; amount: number }> = [];
+    for (const rule of rules) {
+      if (remaining <= 0) break;
+      const wanted = rule.discount_type === 'percentage' ? roundCents(base * rule.amount / 100) : rule.amount;
+      const amount = roundCents(Math.min(wanted, remaining));
+      if (amount <= 0) continue;
+      remaining = roundCents(remaining - amount);
+      discounts.push({ rule, amount });
+    }
+    return discounts;
+  }
+
+  static describe(rule: Pick<DiscountRule, 'kind' | 'name' | 'sponsor_name'>): string {
+    return rule.kind === 'sponsor_waiver' ? `Sponsored by ${rule.sponsor_name}: ${rule.name}` : `Discount: ${rule.name}`;
+  }
+
+  /**
+   * Bring an invoice's discount lines in line with the hostel's active rules: lines of rules that no longer
+   * apply (or now give a different amount) are reversed, new ones posted. Pass roomId when the room
+   * assignment is being made on the same transaction. Callers refresh the invoice total.
+   * Returns whether any line changed.
+   */
+  static async applyToInvoice(invoice: Invoice, createdBy: number | null, db: Queryable = pool, roomId?: number): Promise<boolean> {
+    const ctxRes = await db.query(
+      `SELECT
+         COALESCE(
+           (SELECT self_contained FROM rooms WHERE id = $3),
+           (SELECT rm.self_contained FROM student_room_assignments sra JOIN rooms rm ON rm.id = sra.room_id
+            WHERE sra.user_id = $1 AND sra.semester_id = $2 AND sra.status = 'active' LIMIT 1)
+         ) AS self_contained,
+         (SELECT to_char(enrollment_date, 'YYYY-MM-DD') FROM semester_enrollments WHERE user_id = $1 AND semester_id = $2) AS enrollment_date`,
+      [invoice.user_id, invoice.semester_id, roomId ?? null]
+    );
+    const ctxRow = ctxRes.rows[0];
+    const ctx: DiscountContext = {
+      semesterId: invoice.semester_id,
+      userId: invoice.user_id,
+      roomType: ctxRow.self_contained == null ? null : ctxRow.self_contained ? 'self_contained' : 'shared',
+      enrollmentDate: ctxRow.enrollment_date || new Date(invoice.issued_at || Date.now()).toISOString().slice(0, 10)
+    };
+
+    const lines = await InvoiceModel.getLineItems(invoice.id, db);
+    const base = lines.filter(line => DISCOUNTABLE_FEE_TYPES.includes(line.fee_type)).reduce((sum, line) => sum + line.amount, 0);
+    const rules = (await DiscountRuleModel.listForHostel(invoice.hostel_id, { activeOnly: true }, db)).filter(rule => this.matches(rule, ctx));
+    const wanted = new Map(this.computeDiscounts(rules, base).map(d => [d.rule.id, d]));
+
+    let changed = false;
+    const kept = new Set<number>();
+    for (const line of lines.filter(l => l.fee_type === 'discount')) {
+      // Lines of deleted rules only remain on finished semesters' invoices; those stay as they closed
+      if (!line.discount_rule_id) continue;
+      const target = wanted.get(line.discount_rule_id);
+      if (target && !kept.has(target.rule.id) && roundCents(-line.amount) === target.amount && line.description === this.describe(target.rule)) {
+        kept.add(target.rule.id);
+        continue;
+      }
+      await LedgerService.reverseInvoiceLine(invoice, line, createdBy, db, 'discount updated');
+      await InvoiceModel.removeLineItem(line.id, db);
+      changed = true;
+    }
+    for (const { rule, amount } of wanted.values()) {
+      if (kept.has(rule.id)) continue;
+      const line = await InvoiceModel.addLineItem(invoice.id, {
+        fee_type: 'discount',
+        description: this.describe(rule),
+        quantity: 1,
+        unit_amount: -amount,
+        discount_rule_id: rule.id,
+        created_by: createdBy
+      }, db);
+      await LedgerService.postInvoiceLine(invoice, line, createdBy, db);
+      changed = true;
+    }
+    return changed;
+  }
+
+  /**
+   * Re-apply discounts to every invoice of the hostel's upcoming and active semesters, e.g. after a rule changed.
+   * Invoices of finished semesters keep the discounts they closed with. Returns how many invoices changed.
+   */
+  static async reapplyForHostel(hostelId: number, createdBy: number | null, db: Queryable): Promise<number> {
+    const invoices = await db.query(
+      `SELECT i.id FROM invoices i
+       JOIN semesters s ON s.id = i.semester_id
+       WHERE i.hostel_id = $1 AND s.status IN ('upcoming', 'active')
+       ORDER BY i.id`,
+      [hostelId]
+    );
+    let changedCount = 0;
+    for (const row of invoices.rows) {
+      const invoice = (await InvoiceModel.findById(row.id, db))!;
+      if (await this.applyToInvoice(invoice, createdBy, db)) {
+        await InvoiceModel.refreshTotal(invoice.id, db);
+        changedCount++;
+      }
+    }
+    return changedCount;
+  }
+}
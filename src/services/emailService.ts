@@ -8,6 +8,7 @@ export interface EmailOptions {
   subject: string;
   html: string;
   text?: string;
+  attachments?: { filename: string; content: Buffer; contentType?: string }[];
 }
 
 export class EmailService {
@@ -49,6 +50,7 @@ export class EmailService {
         subject: options.subject,
         html: options.html,
         text: options.text,
+        attachments: options.attachments,
       };
 
       const result = await this.transporter.sendMail(mailOptions);
@@ -426,6 +428,85 @@ export class EmailService {
     `;
   }
 
+  static generateAccountLockedEmail(
+    userName: string,
+    lockedUntil: string,
+    ipAddress: string
+  ): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Account Temporarily Locked - LTS Portal</title>
+        <style>
+          body {
+            font-family: Arial, sans-serif;
+            line-height: 1.6;
+            color: #333;
+            max-width: 600px;
+            margin: 0 auto;
+            padding: 20px;
+          }
+          .header {
+            background: linear-gradient(135deg, #dc3545 0%, #fd7e14 100%);
+            color: white;
+            padding: 30px;
+            text-align: center;
+            border-radius: 10px 10px 0 0;
+          }
+          .content {
+            background: #f9f9f9;
+            padding: 30px;
+            border-radius: 0 0 10px 10px;
+          }
+          .warning-box {
+            background: #fff3cd;
+            border: 1px solid #ffeaa7;
+            color: #856404;
+            padding: 15px;
+            border-radius: 5px;
+            margin: 20px 0;
+          }
+          .footer {
+            text-align: center;
+            margin-top: 30px;
+            color: #666;
+            font-size: 14px;
+          }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h1>🔐 Account Temporarily Locked</h1>
+        </div>
+        
+        <div class="content">
+          <h2>Hello ${userName}!</h2>
+          
+          <div class="warning-box">
+            <strong>⚠️ Too many failed sign-in attempts were made on your account.</strong>
+          </div>
+          
+          <p>For your protection, sign-in has been blocked until <strong>${lockedUntil}</strong>.</p>
+          
+          <p>The last failed attempt came from IP address <strong>${ipAddress}</strong>.</p>
+          
+          <p>If this was not you, we recommend resetting your password once the lock expires. If you need access sooner, please contact your administrator.</p>
+          
+          <p><strong>The LTS Portal Team</strong></p>
+        </div>
+        
+        <div class="footer">
+          <p>This email was sent automatically. Please do not reply to this email.</p>
+          <p>© 2024 LTS Portal. All rights reserved.</p>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
   static generatePaymentReceiptEmail(
     studentName: string,
     studentEmail: string,
@@ -439,7 +520,9 @@ export class EmailService {
     performedByName?: string,
     performedByLabel?: string,
     accessNumber?: string | null,
-    expectedPrice?: number | null
+    expectedPrice?: number | null,
+    invoiceLines?: { description: string; amount: number }[] | null,
+    receiptNumber?: string | null
   ): string {
     return `
       <!DOCTYPE html>
@@ -465,12 +548,14 @@ export class EmailService {
           <p>Hello ${studentName}, your hostel booking has been confirmed.</p>
         </div>
         <div class="content">
+          ${receiptNumber ? `<div class="row"><span class="label">Receipt No.</span><span class="value">${receiptNumber}</span></div>` : ''}
           ${hostelName ? `<div class="row"><span class="label">Hostel</span><span class="value">${hostelName}</span></div>` : ''}
           <div class="row"><span class="label">Student Name</span><span class="value">${studentName}</span></div>
           <div class="row"><span class="label">Email</span><span class="value">${studentEmail}</span></div>
           ${accessNumber ? `<div class="row"><span class="label">Access Number</span><span class="value">${accessNumber}</span></div>` : ''}
           ${roomNumber ? `<div class="row"><span class="label">Room Number</span><span class="value">${roomNumber}${roomType ? ` (${roomType})` : ''}</span></div>` : ''}
-          ${expectedPrice ? `<div class="row"><span class="label">Room Price</span><span class="value">${currency} ${expectedPrice.toFixed(2)}</span></div>` : ''}
+          ${invoiceLines && invoiceLines.length ? invoiceLines.map(line => `<div class="row"><span class="label">${line.description}</span><span class="value">${currency} ${line.amount.toFixed(2)}</span></div>`).join('') : ''}
+          ${expectedPrice ? `<div class="row"><span class="label">${invoiceLines && invoiceLines.length ? 'Invoice Total' : 'Room Price'}</span><span class="value">${currency} ${expectedPrice.toFixed(2)}</span></div>` : ''}
           ${amountPaid > 0 ? `<div class="row"><span class="label">Amount Paid</span><span class="value">${currency} ${amountPaid.toFixed(2)}</span></div>` : ''}
           ${balanceAfter !== null ? `<div class="row"><span class="label">Balance Remaining</span><span class="value">${currency} ${balanceAfter.toFixed(2)}</span></div>` : ''}
           <div class="row"><span class="label">Booking Date</span><span class="value">${paidAt}</span></div>
@@ -485,6 +570,298 @@ export class EmailService {
     `;
   }
 
+  static generateCorrectedReceiptEmail(
+    studentName: string,
+    adjustmentType: 'void' | 'refund' | 'correction',
+    originalAmount: number,
+    adjustmentAmount: number,
+    currency: string,
+    reason: string,
+    balanceAfter: number | null,
+    originalPaidAt: string,
+    adjustedAt: string,
+    hostelName?: string,
+    performedByName?: string,
+    balanceCurrency?: string
+  ): string {
+    const titles = { void: 'Payment Voided', refund: 'Refund Issued', correction: 'Payment Corrected' };
+    const title = titles[adjustmentType];
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Corrected Receipt${hostelName ? ' - ' + hostelName : ''}</title>
+        <style>
+          body { font-family: Arial, sans-serif; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #0ea5e9; color: white; padding: 24px; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 24px; border-radius: 0 0 10px 10px; }
+          .row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
+          .row:last-child { border-bottom: none; }
+          .label { color: #666; }
+          .value { font-weight: bold; }
+          .highlight { background: #fff3cd; border-left: 4px solid #ffc107; padding: 12px; margin: 16px 0; border-radius: 4px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h2>${hostelName ? hostelName + ' — ' : ''}Corrected Receipt</h2>
+          <p>Hello ${studentName}, a payment on your account has been adjusted.</p>
+        </div>
+        <div class="content">
+          <div class="row"><span class="label">Adjustment</span><span class="value">${title}</span></div>
+          <div class="row"><span class="label">Original Payment</span><span class="value">${currency} ${originalAmount.toFixed(2)} (${originalPaidAt})</span></div>
+          <div class="row"><span class="label">Adjustment Amount</span><span class="value">${currency} ${adjustmentAmount.toFixed(2)}</span></div>
+          <div class="row"><span class="label">Reason</span><span class="value">${reason}</span></div>
+          ${balanceAfter !== null ? `<div class="row"><span class="label">Balance Remaining</span><span class="value">${balanceCurrency || currency} ${balanceAfter.toFixed(2)}</span></div>` : ''}
+          <div class="row"><span class="label">Adjusted On</span><span class="value">${adjustedAt}</span></div>
+          ${performedByName ? `<div class="row"><span class="label">Approved by</span><span class="value">${performedByName}</span></div>` : ''}
+          <div class="highlight">
+            This receipt replaces the original receipt for this payment. Please keep it for your records.
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  static generateInstallmentOverdueReminder(
+    studentName: string,
+    hostelName: string,
+    semesterName: string,
+    overdueAmount: number,
+    currency: string,
+    openInstallments: { due_date: string; amount: number; paid: number; status: string }[]
+  ): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Overdue Fees - ${hostelName}</title>
+        <style>
+          body { font-family: Arial, sans-serif; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #dc2626; color: white; padding: 24px; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 24px; border-radius: 0 0 10px 10px; }
+          .row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
+          .row:last-child { border-bottom: none; }
+          .label { color: #666; }
+          .value { font-weight: bold; }
+          .overdue { color: #dc2626; }
+          .highlight { background: #fff3cd; border-left: 4px solid #ffc107; padding: 12px; margin: 16px 0; border-radius: 4px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h2>${hostelName} — Payment Overdue</h2>
+          <p>Hello ${studentName}, an installment of your ${semesterName} fees is past its due date.</p>
+        </div>
+        <div class="content">
+          <div class="row"><span class="label">Amount Overdue</span><span class="value overdue">${currency} ${overdueAmount.toFixed(2)}</span></div>
+          ${openInstallments.map(i => `<div class="row"><span class="label">Installment due ${i.due_date}</span><span class="value${i.status === 'overdue' ? ' overdue' : ''}">${currency} ${(i.amount - i.paid).toFixed(2)}${i.status === 'overdue' ? ' (overdue)' : ''}</span></div>`).join('')}
+          <div class="highlight">
+            Please pay the overdue amount as soon as possible. If you have already paid, contact the hostel office with your receipt.
+          </div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  static generateLateFeeEmail(
+    studentName: string,
+    hostelName: string,
+    semesterName: string,
+    status: 'applied' | 'waived',
+    ruleName: string,
+    amount: number,
+    currency: string,
+    balanceAfter: number | null,
+    waiveReason?: string | null,
+    waivedByName?: string
+  ): string {
+    const waived = status === 'waived';
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>${waived ? 'Late Fee Waived' : 'Late Fee Charged'} - ${hostelName}</title>
+        <style>
+          body { font-family: Arial, sans-serif; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: ${waived ? '#15803d' : '#dc2626'}; color: white; padding: 24px; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 24px; border-radius: 0 0 10px 10px; }
+          .row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
+          .row:last-child { border-bottom: none; }
+          .label { color: #666; }
+          .value { font-weight: bold; }
+          .highlight { background: #fff3cd; border-left: 4px solid #ffc107; padding: 12px; margin: 16px 0; border-radius: 4px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h2>${hostelName} — ${waived ? 'Late Fee Waived' : 'Late Fee Charged'}</h2>
+          <p>Hello ${studentName}, ${waived ? 'a late fee on your account has been waived.' : `a late fee has been added to your ${semesterName} fees because an installment is overdue.`}</p>
+        </div>
+        <div class="content">
+          <div class="row"><span class="label">Late Fee</span><span class="value">${ruleName}</span></div>
+          <div class="row"><span class="label">Amount${waived ? ' Waived' : ''}</span><span class="value">${currency} ${amount.toFixed(2)}</span></div>
+          ${waived && waiveReason ? `<div class="row"><span class="label">Reason</span><span class="value">${waiveReason}</span></div>` : ''}
+          ${waived && waivedByName ? `<div class="row"><span class="label">Waived by</span><span class="value">${waivedByName}</span></div>` : ''}
+          ${balanceAfter !== null ? `<div class="row"><span class="label">Balance Remaining</span><span class="value">${currency} ${Math.max(0, balanceAfter).toFixed(2)}</span></div>` : ''}
+          ${waived ? '' : `
+          <div class="highlight">
+            Further late fees may be charged while the installment stays unpaid. Please pay the overdue amount as soon as possible.
+          </div>`}
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  static generateDepositStatementEmail(
+    studentName: string,
+    hostelName: string,
+    semesterName: string,
+    depositAmount: number,
+    deductions: Array<{ description: string; amount: number }>,
+    totalDeductions: number,
+    refundAmount: number,
+    balanceDue: number,
+    currency: string,
+    refundMethod?: string | null
+  ): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Security Deposit Statement - ${hostelName}</title>
+        <style>
+          body { font-family: Arial, sans-serif; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #1d4ed8; color: white; padding: 24px; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 24px; border-radius: 0 0 10px 10px; }
+          .row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
+          .row:last-child { border-bottom: none; }
+          .label { color: #666; }
+          .value { font-weight: bold; }
+          .highlight { background: #fff3cd; border-left: 4px solid #ffc107; padding: 12px; margin: 16px 0; border-radius: 4px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h2>${hostelName} — Security Deposit Statement</h2>
+          <p>Hello ${studentName}, you have been checked out for ${semesterName}. Here is how your security deposit was settled.</p>
+        </div>
+        <div class="content">
+          <div class="row"><span class="label">Deposit Held</span><span class="value">${currency} ${depositAmount.toFixed(2)}</span></div>
+          ${deductions.map(d => `<div class="row"><span class="label">${d.description}</span><span class="value">- ${currency} ${d.amount.toFixed(2)}</span></div>`).join('')}
+          <div class="row"><span class="label">Deducted from Deposit</span><span class="value">${currency} ${totalDeductions.toFixed(2)}</span></div>
+          <div class="row"><span class="label">Refund</span><span class="value">${currency} ${refundAmount.toFixed(2)}${refundAmount > 0 && refundMethod ? ` (${refundMethod.replace('_', ' ')})` : ''}</span></div>
+          ${balanceDue > 0 ? `
+          <div class="highlight">
+            Your deposit did not cover everything you owe. ${currency} ${balanceDue.toFixed(2)} is still outstanding; please settle it with the hostel.
+          </div>` : ''}
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  static generateExpenseApprovalRequestEmail(
+    adminName: string,
+    hostelName: string,
+    submittedByName: string,
+    amount: number,
+    currency: string,
+    category: string | null,
+    description: string | null,
+    spentAt: string
+  ): string {
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Expense Awaiting Approval - ${hostelName}</title>
+        <style>
+          body { font-family: Arial, sans-serif; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: #b45309; color: white; padding: 24px; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 24px; border-radius: 0 0 10px 10px; }
+          .row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
+          .row:last-child { border-bottom: none; }
+          .label { color: #666; }
+          .value { font-weight: bold; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h2>${hostelName} — Expense Awaiting Approval</h2>
+          <p>Hello ${adminName}, ${submittedByName} has recorded an expense that needs your approval before it counts in the books.</p>
+        </div>
+        <div class="content">
+          <div class="row"><span class="label">Amount</span><span class="value">${currency} ${amount.toFixed(2)}</span></div>
+          ${category ? `<div class="row"><span class="label">Category</span><span class="value">${category}</span></div>` : ''}
+          ${description ? `<div class="row"><span class="label">Description</span><span class="value">${description}</span></div>` : ''}
+          <div class="row"><span class="label">Spent on</span><span class="value">${spentAt}</span></div>
+          <div class="row"><span class="label">Submitted by</span><span class="value">${submittedByName}</span></div>
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
+  static generateExpenseReviewedEmail(
+    submitterName: string,
+    hostelName: string,
+    decision: 'approved' | 'rejected',
+    amount: number,
+    currency: string,
+    category: string | null,
+    description: string | null,
+    reviewedByName: string,
+    comment?: string | null
+  ): string {
+    const approved = decision === 'approved';
+    return `
+      <!DOCTYPE html>
+      <html>
+      <head>
+        <meta charset="utf-8">
+        <meta name="viewport" content="width=device-width, initial-scale=1.0">
+        <title>Expense ${approved ? 'Approved' : 'Rejected'} - ${hostelName}</title>
+        <style>
+          body { font-family: Arial, sans-serif; color: #333; max-width: 600px; margin: 0 auto; padding: 20px; }
+          .header { background: ${approved ? '#15803d' : '#dc2626'}; color: white; padding: 24px; border-radius: 10px 10px 0 0; }
+          .content { background: #f9f9f9; padding: 24px; border-radius: 0 0 10px 10px; }
+          .row { display: flex; justify-content: space-between; padding: 8px 0; border-bottom: 1px solid #eee; }
+          .row:last-child { border-bottom: none; }
+          .label { color: #666; }
+          .value { font-weight: bold; }
+          .highlight { background: #fff3cd; border-left: 4px solid #ffc107; padding: 12px; margin: 16px 0; border-radius: 4px; }
+        </style>
+      </head>
+      <body>
+        <div class="header">
+          <h2>${hostelName} — Expense ${approved ? 'Approved' : 'Rejected'}</h2>
+          <p>Hello ${submitterName}, ${reviewedByName} has ${decision} the expense you recorded.</p>
+        </div>
+        <div class="content">
+          <div class="row"><span class="label">Amount</span><span class="value">${currency} ${amount.toFixed(2)}</span></div>
+          ${category ? `<div class="row"><span class="label">Category</span><span class="value">${category}</span></div>` : ''}
+          ${description ? `<div class="row"><span class="label">Description</span><span class="value">${description}</span></div>` : ''}
+          ${comment ? `<div class="highlight">${comment}</div>` : ''}
+        </div>
+      </body>
+      </html>
+    `;
+  }
+
   static generateStudentWelcomeEmail(
     studentName: string,
     studentEmail: string,
@@ -1295,7 +1672,7 @@ export class EmailService {
     amountPaid: number,
     currency: string,
     totalPaid: number,
-    roomPrice: number | null
+    totalFees: number | null
   ): string {
     return `
       <!DOCTYPE html>
@@ -1417,10 +1794,10 @@ export class EmailService {
               <span class="info-value">${roomNumber}</span>
             </div>
             ` : ''}
-            ${roomPrice !== null ? `
+            ${totalFees !== null ? `
             <div class="info-row">
-              <span class="info-label">Room Price:</span>
-              <span class="info-value">${currency} ${roomPrice.toLocaleString()}</span>
+              <span class="info-label">Total Fees:</span>
+              <span class="info-value">${currency} ${totalFees.toLocaleString()}</span>
             </div>
             ` : ''}
             <div class="info-row">
@@ -0,0 +1,117 @@
+import pool from '../config/database';
+import { User } from '../models/User';
+import { LedgerService } from './ledgerService';
+import { EmailService } from './emailService';
+import { PermissionService } from './permissionService';
+
+export type ExpenseStatus = 'pending' | 'approved' | 'rejected';
+
+type ReviewResult =
+  | { success: true; expense: any; before: any }
+  | { success: false; status: number; message: string };
+
+export class ExpenseService {
+  // Amount in the hostel's base currency above which expenses wait for approval; null when approval is off
+  static async getApprovalThreshold(hostelId: number): Promise<number | null> {
+    const result = await pool.query('SELECT expense_approval_threshold FROM hostels WHERE id = $1', [hostelId]);
+    const threshold = result.rows[0]?.expense_approval_threshold;
+    return threshold != null ? parseFloat(threshold) : null;
+  }
+
+  /**
+   * Status a new expense starts in: pending when it is above the hostel's threshold and the recorder
+   * cannot approve expenses themselves (custodians), approved otherwise
+   */
+  static async getInitialStatus(user: Pick<User, 'id' | 'role'>, hostelId: number, baseAmount: number): Promise<ExpenseStatus> {
+    const threshold = await this.getApprovalThreshold(hostelId);
+    if (threshold === null || baseAmount <= threshold) return 'approved';
+    return (await PermissionService.hasPermission(user, 'expenses.approve')) ? 'approved' : 'pending';
+  }
+
+  /**
+   * Approve or reject a pending expense. Only an approved expense is posted to the ledger.
+   */
+  static async review(expenseId: number, hostelId: number, decision: 'approved' | 'rejected', reviewerId: number, comment: string | null): Promise<ReviewResult> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const current = await client.query('SELECT * FROM expenses WHERE id = $1 AND hostel_id = $2 FOR UPDATE', [expenseId, hostelId]);
+      const expense = current.rows[0];
+      if (!expense) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 404, message: 'Expense not found' };
+      }
+      if (expense.status !== 'pending') {
+        await client.query('ROLLBACK');
+        return { success: false, status: 409, message: `The expense has already been ${expense.status}` };
+      }
+      if (expense.user_id === reviewerId) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 403, message: 'You cannot review an expense you recorded' };
+      }
+
+      const updated = await client.query(
+        `UPDATE expenses SET status = $2, reviewed_by = $3, review_comment = $4, reviewed_at = NOW(), updated_at = NOW()
+         WHERE id = $1 RETURNING *`,
+        [expense.id, decision, reviewerId, comment]
+      );
+      if (decision === 'approved') await LedgerService.postExpense(updated.rows[0], reviewerId, client);
+      await client.query('COMMIT');
+      return { success: true, expense: updated.rows[0], before: expense };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Email the hostel's admins that an expense is waiting for them
+   */
+  static async notifyApprovers(expense: any, submittedByName: string): Promise<void> {
+    const meta = await pool.query('SELECT name FROM hostels WHERE id = $1', [expense.hostel_id]);
+    const hostelName = meta.rows[0]?.name || 'Your hostel';
+    const admins = await pool.query("SELECT name, email FROM users WHERE hostel_id = $1 AND role = 'hostel_admin'", [expense.hostel_id]);
+    for (const admin of admins.rows) {
+      const html = EmailService.generateExpenseApprovalRequestEmail(
+        admin.name,
+        hostelName,
+        submittedByName,
+        parseFloat(expense.amount),
+        expense.currency,
+        expense.category,
+        expense.description,
+        new Date(expense.spent_at).toLocaleDateString()
+      );
+      await EmailService.sendEmail({ to: admin.email, subject: `Expense awaiting approval - ${hostelName}`, html });
+    }
+  }
+
+  /**
+   * Email whoever recorded the expense the decision and the reviewer's comment
+   */
+  static async notifySubmitter(expense: any, reviewedByName: string): Promise<void> {
+    const res = await pool.query(
+      `SELECT u.name, u.email, h.name AS hostel_name
+       FROM users u
+       LEFT JOIN hostels h ON h.id = $2
+       WHERE u.id = $1`,
+      [expense.user_id, expense.hostel_id]
+    );
+    const submitter = res.rows[0];
+    if (!submitter) return;
+    const html = EmailService.generateExpenseReviewedEmail(
+      submitter.name,
+      submitter.hostel_name || 'Your hostel',
+      expense.status,
+      parseFloat(expense.amount),
+      expense.currency,
+      expense.category,
+      expense.description,
+      reviewedByName,
+      expense.review_comment
+    );
+    await EmailService.sendEmail({ to: submitter.email, subject: `Expense ${expense.status} - ${submitter.hostel_name || 'LTS Portal'}`, html });
+  }
+}
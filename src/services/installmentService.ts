@@ -0,0 +1,200 @@
+import pool from '../config/database';
+import { InstallmentPlanModel, InstallmentPlanItem, InstallmentDueStatus } from '../models/InstallmentPlan';
+import { CurrencyService } from './currencyService';
+import { EmailService } from './emailService';
+
+export type InstallmentStatus = 'paid' | 'partial' | 'overdue' | 'upcoming';
+
+export interface ScheduledInstallment {
+  sequence: number;
+  percentage: number;
+  due_date: string;
+  amount: number;
+  paid: number;
+  status: InstallmentStatus;
+}
+
+export interface InstallmentSchedule {
+  plan_id: number;
+  plan_name: string;
+  currency: string;
+  expected: number;
+  paid: number;
+  overdue_amount: number;
+  overdue_since: string | null;
+  installments: ScheduledInstallment[];
+}
+
+export type InstallmentItemInput = { percentage: number; due_date: string | null; due_days_after_enrollment: number | null };
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+
+function addDays(date: string, days: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCDate(d.getUTCDate() + days);
+  return d.toISOString().slice(0, 10);
+}
+
+export class InstallmentService {
+  /**
+   * Validate the installments of a new plan: each needs a percentage and either due_date or
+   * due_days_after_enrollment, and the percentages must add up to 100.
+   */
+  static validateItems(raw: unknown): { items: InstallmentItemInput[] } | { error: string } {
+    if (!Array.isArray(raw) || !raw.length) return { error: 'installments must be a non-empty array' };
+    const items: InstallmentItemInput[] = [];
+    for (const entry of raw as any[]) {
+      const percentage = parseFloat(entry?.percentage);
+      if (!Number.isFinite(percentage) || percentage <= 0 || percentage > 100) {
+        return { error: 'Each installment needs a percentage between 0 and 100' };
+      }
+      const hasDate = entry.due_date !== undefined && entry.due_date !== null && entry.due_date !== '';
+      const hasDays = entry.due_days_after_enrollment !== undefined && entry.due_days_after_enrollment !== null;
+      if (hasDate === hasDays) {
+        return { error: 'Each installment needs either due_date or due_days_after_enrollment' };
+      }
+      if (hasDate && (!/^\d{4}-\d{2}-\d{2}$/.test(String(entry.due_date)) || isNaN(new Date(entry.due_date).getTime()))) {
+        return { error: 'due_date must be a date (YYYY-MM-DD)' };
+      }
+      const days = hasDays ? Number(entry.due_days_after_enrollment) : null;
+      if (days !== null && (!Number.isInteger(days) || days < 0)) {
+        return { error: 'due_days_after_enrollment must be a whole number of days (0 = at booking)' };
+      }
+      items.push({ percentage, due_date: hasDate ? String(entry.due_date) : null, due_days_after_enrollment: days });
+    }
+    const total = items.reduce((sum, item) => sum + item.percentage, 0);
+    if (Math.abs(total - 100) > 0.001) return { error: `Installment percentages must add up to 100 (got ${total})` };
+    return { items };
+  }
+
+  /**
+   * Split the expected amount over the plan's installments and apply what has been paid to the earliest first.
+   * The last installment takes the rounding remainder so the amounts add up to the invoice.
+   */
+  static buildSchedule(items: InstallmentPlanItem[], expected: number, paid: number, enrollmentDate: string, today: string): ScheduledInstallment[] {
+    const ordered = items
+      .map(item => ({ item, due_date: item.due_date || addDays(enrollmentDate, item.due_days_after_enrollment || 0) }))
+      .sort((a, b) => a.due_date.localeCompare(b.due_date) || a.item.sequence - b.item.sequence);
+
+    let allocated = 0;
+    let remainingPaid = Math.max(0, paid);
+    return ordered.map(({ item, due_date }, index) => {
+      const amount = index === ordered.length - 1 ? roundCents(expected - allocated) : roundCents(expected * item.percentage / 100);
+      allocated += amount;
+      const applied = roundCents(Math.min(amount, remainingPaid));
+      remainingPaid = roundCents(remainingPaid - applied);
+      let status: InstallmentStatus;
+      if (applied >= amount) status = 'paid';
+      else if (due_date < today) status = 'overdue';
+      else status = applied > 0 ? 'partial' : 'upcoming';
+      return { sequence: item.sequence, percentage: item.percentage, due_date, amount, paid: applied, status };
+    });
+  }
+
+  /**
+   * What is past due and unpaid for an assignment, in base currency
+   */
+  static getOverdueAmount(status: InstallmentDueStatus): number {
+    const overdue = roundCents(status.expected * status.percentage_due / 100 - status.paid);
+    return overdue > 0 ? overdue : 0;
+  }
+
+  /**
+   * Overdue amount per student of a hostel (only students with an installment plan and something overdue)
+   */
+  static async getOverdueByStudent(hostelId: number, semesterId: number | null): Promise<Map<number, number>> {
+    const statuses = await InstallmentPlanModel.listDueStatus({ hostelId, semesterId, activeSemestersOnly: !semesterId });
+    const overdue = new Map<number, number>();
+    for (const status of statuses) {
+      const amount = this.getOverdueAmount(status);
+      if (amount > 0) overdue.set(status.user_id, roundCents((overdue.get(status.user_id) || 0) + amount));
+    }
+    return overdue;
+  }
+
+  static async getStudentSchedule(userId: number, semesterId: number): Promise<InstallmentSchedule | null> {
+    const [status] = await InstallmentPlanModel.listDueStatus({ userId, semesterId });
+    if (!status) return null;
+    const items = await InstallmentPlanModel.getItems(status.plan_id);
+    const enrollmentDate = await InstallmentPlanModel.getEnrollmentDate(userId, semesterId);
+    const today = new Date().toISOString().slice(0, 10);
+    return {
+      plan_id: status.plan_id,
+      plan_name: status.plan_name,
+      currency: await CurrencyService.getBaseCurrency(status.hostel_id),
+      expected: status.expected,
+      paid: status.paid,
+      overdue_amount: this.getOverdueAmount(status),
+      overdue_since: status.overdue_since,
+      installments: this.buildSchedule(items, status.expected, status.paid, enrollmentDate, today)
+    };
+  }
+
+  /**
+   * Flag students whose installments are past due and email them. Runs daily; a student is reminded
+   * again every INSTALLMENT_REMINDER_INTERVAL_DAYS (default 7) while the installment stays unpaid.
+   */
+  static async checkOverdueInstallments(): Promise<void> {
+    try {
+      console.log('🔄 Checking for overdue installments...');
+      const intervalDays = parseInt(process.env.INSTALLMENT_REMINDER_INTERVAL_DAYS || '7', 10);
+      const statuses = await InstallmentPlanModel.listDueStatus({ activeSemestersOnly: true });
+      let reminded = 0;
+
+      for (const status of statuses) {
+        const overdueAmount = this.getOverdueAmount(status);
+        if (overdueAmount <= 0) {
+          if (status.overdue_since) await InstallmentPlanModel.clearOverdue(status.assignment_id);
+          continue;
+        }
+
+        const lastReminder = status.last_reminder_at ? new Date(status.last_reminder_at).getTime() : 0;
+        if (Date.now() - lastReminder < intervalDays * 24 * 60 * 60 * 1000) {
+          if (!status.overdue_since) await InstallmentPlanModel.markOverdue(status.assignment_id, false);
+          continue;
+        }
+
+        try {
+          await this.sendOverdueReminder(status, overdueAmount);
+          await InstallmentPlanModel.markOverdue(status.assignment_id, true);
+          reminded++;
+        } catch (emailError) {
+          console.error(`Failed to send overdue installment reminder to student ${status.user_id}:`, emailError);
+          await InstallmentPlanModel.markOverdue(status.assignment_id, false);
+        }
+      }
+
+      console.log(`✅ Overdue installment check completed (${reminded} reminder(s) sent)`);
+    } catch (error) {
+      console.error('❌ Error checking overdue installments:', error);
+    }
+  }
+
+  private static async sendOverdueReminder(status: InstallmentDueStatus, overdueAmount: number): Promise<void> {
+    const details = await pool.query(
+      `SELECT u.name, u.email, h.name AS hostel_name, h.base_currency, s.name AS semester_name
+       FROM users u, hostels h, semesters s
+       WHERE u.id = $1 AND h.id = $2 AND s.id = $3`,
+      [status.user_id, status.hostel_id, status.semester_id]
+    );
+    const row = details.rows[0];
+    if (!row?.email) return;
+
+    const schedule = await this.getStudentSchedule(status.user_id, status.semester_id);
+    const emailHtml = EmailService.generateInstallmentOverdueReminder(
+      row.name,
+      row.hostel_name,
+      row.semester_name,
+      overdueAmount,
+      row.base_currency,
+      (schedule?.installments || []).filter(i => i.status !== 'paid')
+    );
+
+    await EmailService.sendEmail({
+      to: row.email,
+      subject: `⚠️ Overdue hostel fees - ${row.hostel_name}`,
+      html: emailHtml
+    });
+    console.log(`📧 Sent overdue installment reminder to ${row.email}`);
+  }
+}
@@ -0,0 +1,131 @@
+import pool, { Queryable } from '../config/database';
+import { InvoiceModel, Invoice, InvoiceLineItem, InvoiceWithLines, FeeTemplateModel, FeeType } from '../models/Invoice';
+import { LedgerService } from './ledgerService';
+import { CurrencyService } from './currencyService';
+import { DiscountService } from './discountService';
+
+export class InvoiceService {
+  /**
+   * Create the student's invoice for a semester enrollment, or re-point its room charge when the room changed.
+   * New invoices carry the room price plus the hostel's auto-apply fee templates; other charges on an
+   * existing invoice (damages, manual fees) are kept. Matching discount rules are applied last.
+   */
+  static async generateForEnrollment(
+    params: {
+      hostelId: number;
+      userId: number;
+      semesterId: number;
+      roomId: number;
+      enrollmentId?: number | null;
+      createdBy?: number | null;
+    },
+    db: Queryable = pool
+  ): Promise<InvoiceWithLines> {
+    const roomRes = await db.query('SELECT room_number, price FROM rooms WHERE id = $1 AND hostel_id = $2', [params.roomId, params.hostelId]);
+    const room = roomRes.rows[0];
+    if (!room) throw new Error(`Room ${params.roomId} not found in hostel ${params.hostelId}`);
+
+    let invoice = await InvoiceModel.findByUserAndSemester(params.userId, params.semesterId, db);
+    const isNew = !invoice;
+    if (!invoice) {
+      invoice = await InvoiceModel.create({
+        hostel_id: params.hostelId,
+        user_id: params.userId,
+        semester_id: params.semesterId,
+        enrollment_id: params.enrollmentId ?? null,
+        currency: await CurrencyService.getBaseCurrency(params.hostelId, db)
+      }, db);
+    } else {
+      const roomLines = (await InvoiceModel.getLineItems(invoice.id, db)).filter(line => line.fee_type === 'room');
+      for (const line of roomLines) {
+        await this.removeLine(invoice, line, params.createdBy ?? null, db);
+      }
+    }
+
+    await this.addLine(invoice, {
+      fee_type: 'room',
+      description: `Room ${room.room_number}`,
+      quantity: 1,
+      unit_amount: parseFloat(room.price),
+      created_by: params.createdBy ?? null
+    }, db);
+
+    if (isNew) {
+      const templates = await FeeTemplateModel.listAutoApply(params.hostelId, db);
+      for (const template of templates) {
+        await this.addLine(invoice, {
+          fee_type: template.fee_type,
+          description: template.name,
+          quantity: 1,
+          unit_amount: template.amount,
+          fee_template_id: template.id,
+          created_by: params.createdBy ?? null
+        }, db);
+      }
+    }
+
+    await DiscountService.applyToInvoice(invoice, params.createdBy ?? null, db, params.roomId);
+
+    const updated = await InvoiceModel.refreshTotal(invoice.id, db);
+    return { ...updated, line_items: await InvoiceModel.getLineItems(invoice.id, db) };
+  }
+
+  /**
+   * Add a charge and post it to the student's receivable. Callers refresh the invoice total.
+   */
+  static async addLine(
+    invoice: Invoice,
+    item: { fee_type: FeeType; description: string; quantity: number; unit_amount: number; fee_template_id?: number | null; created_by?: number | null },
+    db: Queryable = pool
+  ): Promise<InvoiceLineItem> {
+    const line = await InvoiceModel.addLineItem(invoice.id, item, db);
+    await LedgerService.postInvoiceLine(invoice, line, item.created_by ?? null, db);
+    return line;
+  }
+
+  // Remove a charge; the ledger keeps the original posting and records its reversal (labelled e.g. 'waived')
+  static async removeLine(invoice: Invoice, line: InvoiceLineItem, removedBy: number | null, db: Queryable = pool, label?: string): Promise<void> {
+    await LedgerService.reverseInvoiceLine(invoice, line, removedBy, db, label);
+    await InvoiceModel.removeLineItem(line.id, db);
+  }
+
+  static async getWithLines(invoiceId: number, db: Queryable = pool): Promise<InvoiceWithLines | null> {
+    const invoice = await InvoiceModel.findById(invoiceId, db);
+    if (!invoice) return null;
+    return { ...invoice, line_items: await InvoiceModel.getLineItems(invoice.id, db) };
+  }
+
+  /**
+   * What a student owes for a semester: the invoice total, or the raw room price for
+   * assignments made before invoicing existed.
+   */
+  static async getExpectedForStudent(
+    userId: number,
+    semesterId: number,
+    db: Queryable = pool
+  ): Promise<{ expected: number | null; roomNumber: string | null; invoice: InvoiceWithLines | null }> {
+    const roomRes = await db.query(
+      `SELECT rm.room_number, rm.price::numeric AS price
+       FROM student_room_assignments sra
+       JOIN rooms rm ON rm.id = sra.room_id
+       WHERE sra.user_id = $1 AND sra.semester_id = $2 AND sra.status = 'active'
+       LIMIT 1`,
+      [userId, semesterId]
+    );
+    const room = roomRes.rows[0] || null;
+
+    const invoice = await InvoiceModel.findByUserAndSemester(userId, semesterId, db);
+    if (invoice) {
+      return {
+        expected: invoice.total_amount,
+        roomNumber: room?.room_number || null,
+        invoice: { ...invoice, line_items: await InvoiceModel.getLineItems(invoice.id, db) }
+      };
+    }
+    return {
+      expected: room?.price != null ? parseFloat(room.price) : null,
+      roomNumber: room?.room_number || null,
+      invoice: null
+    };
+  }
+}
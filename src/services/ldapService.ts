@@ -0,0 +1,162 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { Client } from 'ldapts';
+import { AuthSettingsModel, SSOProvider } from '../models/AuthSettings';
+import { UserModel, User } from '../models/User';
+
+// Directory groups may only grant staff roles; super_admin is never assigned from LDAP
+const MAPPABLE_ROLES: Array<User['role']> = ['hostel_admin', 'custodian'];
+
+/**
+ * LDAP settings, read from sso_providers.additional_config:
+ * - url: ldap:// or ldaps:// server URL; starttls upgrades a plain ldap:// connection
+ * - bind_dn / bind_password: service account used for the user search (anonymous when omitted)
+ * - base_dn / user_filter: search base and filter, {{username}} is replaced with the escaped login name
+ * - attributes: directory attribute names for name and email (default cn / mail)
+ * - group_attribute: attribute listing group DNs on the user entry (default memberOf)
+ * - group_role_map: group DN -> 'hostel_admin' | 'custodian', first match in listed order wins; it decides who may
+ *   sign in without a link and the role of auto-created users, but never changes the role of an existing account
+ * - auto_create_users / default_hostel_id: create a users row for mapped staff without an account
+ */
+interface LdapConfig {
+  url?: string;
+  starttls?: boolean;
+  timeout_ms?: number;
+  bind_dn?: string;
+  bind_password?: string;
+  base_dn?: string;
+  user_filter?: string;
+  attributes?: { name?: string; email?: string };
+  group_attribute?: string;
+  group_role_map?: Record<string, User['role']>;
+  auto_create_users?: boolean;
+  default_hostel_id?: number;
+}
+
+type LdapResult = { success: true; user: User } | { success: false; status: number; message: string };
+
+// RFC 4515 escaping so a login name cannot change the shape of the search filter
+function escapeFilterValue(value: string): string {
+  return value.replace(/[\\*()\0]/g, c => '\\' + c.charCodeAt(0).toString(16).padStart(2, '0'));
+}
+
+function firstValue(value: any): string | undefined {
+  const v = Array.isArray(value) ? value[0] : value;
+  if (v === undefined || v === null) return undefined;
+  return Buffer.isBuffer(v) ? v.toString('utf8') : String(v);
+}
+
+function allValues(value: any): string[] {
+  if (value === undefined || value === null) return [];
+  return (Array.isArray(value) ? value : [value]).map(v => Buffer.isBuffer(v) ? v.toString('utf8') : String(v));
+}
+
+export class LdapService {
+  /**
+   * Bind-and-search login: find the user's entry with the service account, then bind as that entry
+   */
+  static async authenticate(providerId: number, username: string, password: string): Promise<LdapResult> {
+    const provider = await AuthSettingsModel.getSSOProviderById(providerId);
+    if (!provider || !provider.is_enabled || provider.provider_type !== 'ldap') {
+      return { success: false, status: 404, message: 'LDAP provider not found or disabled' };
+    }
+    const config = this.getConfig(provider);
+    if (!config.url || !config.base_dn || !config.user_filter) {
+      return { success: false, status: 500, message: 'LDAP provider is not fully configured' };
+    }
+    // An empty password would turn the user bind into an anonymous bind that many servers accept
+    if (!username || !password) {
+      return { success: false, status: 401, message: 'Invalid credentials' };
+    }
+
+    const client = new Client({
+      url: config.url,
+      timeout: config.timeout_ms || 10000,
+      connectTimeout: config.timeout_ms || 10000
+    });
+
+    try {
+      if (config.starttls) await client.startTLS({});
+      if (config.bind_dn) await client.bind(config.bind_dn, config.bind_password || '');
+
+      const nameAttr = config.attributes?.name || 'cn';
+      const emailAttr = config.attributes?.email || 'mail';
+      const groupAttr = config.group_attribute || 'memberOf';
+
+      const { searchEntries } = await client.search(config.base_dn, {
+        scope: 'sub',
+        filter: config.user_filter.split('{{username}}').join(escapeFilterValue(username)),
+        attributes: ['dn', nameAttr, emailAttr, groupAttr],
+        sizeLimit: 2
+      });
+      if (searchEntries.length !== 1) {
+        return { success: false, status: 401, message: 'Invalid credentials' };
+      }
+      const entry = searchEntries[0];
+
+      try {
+        await client.bind(entry.dn, password);
+      } catch {
+        return { success: false, status: 401, message: 'Invalid credentials' };
+      }
+
+      const email = firstValue(entry[emailAttr])?.trim().toLowerCase();
+      if (!email) {
+        return { success: false, status: 403, message: 'Directory account has no email address' };
+      }
+      const name = firstValue(entry[nameAttr]) || username;
+      const role = this.mapRole(config, allValues(entry[groupAttr]));
+
+      return this.resolveUser(provider, config, entry.dn, email, name, role);
+    } finally {
+      await client.unbind().catch(() => undefined);
+    }
+  }
+
+  private static getConfig(provider: SSOProvider): LdapConfig {
+    const config = provider.additional_config;
+    if (!config) return {};
+    if (typeof config === 'string') {
+      try { return JSON.parse(config); } catch { return {}; }
+    }
+    return config;
+  }
+
+  private static mapRole(config: LdapConfig, groups: string[]): User['role'] | null {
+    const memberOf = new Set(groups.map(g => g.toLowerCase()));
+    for (const [group, role] of Object.entries(config.group_role_map || {})) {
+      if (memberOf.has(group.toLowerCase()) && MAPPABLE_ROLES.includes(role)) return role;
+    }
+    return null;
+  }
+
+  /**
+   * Linked account first; otherwise an email match is only linked when it is a staff account whose role is the one
+   * its directory groups map to. Local roles are never changed here.
+   */
+  private static async resolveUser(provider: SSOProvider, config: LdapConfig, dn: string, email: string, name: string, role: User['role'] | null): Promise<LdapResult> {
+    let user: User | null = null;
+    const account = await AuthSettingsModel.findUserSSOAccount(provider.id, dn);
+    if (account) user = await UserModel.findById(account.user_id);
+
+    if (!user) {
+      user = await UserModel.findByEmail(email);
+      if (user && (!role || user.role !== role)) {
+        return { success: false, status: 403, message: 'This account has not been linked to this directory. Please contact your administrator.' };
+      }
+    }
+
+    if (!user) {
+      if (!role || !config.auto_create_users || !config.default_hostel_id) {
+        return { success: false, status: 403, message: 'No account exists for this directory user. Please contact your administrator.' };
+      }
+      // Directory users never sign in with a local password, so store an unguessable one
+      const password = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+      const created = await UserModel.create({ email, name, password, role });
+      user = (await UserModel.update(created.id, { hostel_id: config.default_hostel_id })) || created;
+    }
+
+    await AuthSettingsModel.linkUserSSOAccount(user.id, provider.id, dn, email, name);
+    return { success: true, user };
+  }
+}
@@ -0,0 +1,289 @@
+import pool, { Queryable } from '../config/database';
+import { Invoice, InvoiceLineItem } from '../models/Invoice';
+
+// Standard chart every hostel ledger starts with; accounts are created on first posting
+export const LEDGER_ACCOUNTS = {
+  cash: { code: '1000', name: 'Cash and Bank', type: 'asset' },
+  receivables: { code: '1100', name: 'Student Receivables', type: 'asset' },
+  deposits: { code: '2100', name: 'Security Deposits Held', type: 'liability' },
+  roomIncome: { code: '4000', name: 'Room Income', type: 'revenue' },
+  feeIncome: { code: '4100', name: 'Other Fee Income', type: 'revenue' },
+  penaltyIncome: { code: '4200', name: 'Late Fee Income', type: 'revenue' },
+  // Contra-revenue: carries a debit balance
+  discounts: { code: '4900', name: 'Discounts and Sponsor Waivers', type: 'revenue' },
+  expenses: { code: '5000', name: 'Operating Expenses', type: 'expense' },
+  subscriptions: { code: '5100', name: 'Platform Subscription Fees', type: 'expense' }
+} as const;
+
+export type LedgerAccountKey = keyof typeof LEDGER_ACCOUNTS;
+
+interface PostingLine {
+  account: LedgerAccountKey;
+  debit?: number;
+  credit?: number;
+  // Student the posting belongs to; set on receivable postings so statements can be drawn per student
+  userId?: number | null;
+}
+
+interface JournalEntryInput {
+  hostelId: number;
+  description: string;
+  sourceType: string;
+  sourceId: number;
+  entryDate?: Date | null;
+  createdBy?: number | null;
+  lines: PostingLine[];
+}
+
+type InvoiceRef = Pick<Invoice, 'hostel_id' | 'user_id' | 'invoice_number'>;
+
+const toCents = (amount: number) => Math.round(amount * 100);
+
+// Debit one account and credit another; a negative amount swaps the sides
+function transfer(debit: LedgerAccountKey, credit: LedgerAccountKey, amount: number, userId: number | null = null): PostingLine[] {
+  const value = Math.abs(amount);
+  const [dr, cr] = amount >= 0 ? [debit, credit] : [credit, debit];
+  return [
+    { account: dr, debit: value, userId: dr === 'receivables' ? userId : null },
+    { account: cr, credit: value, userId: cr === 'receivables' ? userId : null }
+  ];
+}
+
+function incomeAccountFor(feeType: InvoiceLineItem['fee_type']): LedgerAccountKey {
+  if (feeType === 'room') return 'roomIncome';
+  if (feeType === 'security_deposit') return 'deposits';
+  if (feeType === 'late_fee') return 'penaltyIncome';
+  if (feeType === 'discount') return 'discounts';
+  return 'feeIncome';
+}
+
+export class LedgerService {
+  static async ensureAccounts(hostelId: number, db: Queryable = pool): Promise<Record<LedgerAccountKey, number>> {
+    const keys = Object.keys(LEDGER_ACCOUNTS) as LedgerAccountKey[];
+    await db.query(
+      `INSERT INTO ledger_accounts (hostel_id, code, name, account_type)
+       SELECT $1, a.code, a.name, a.account_type
+       FROM UNNEST($2::text[], $3::text[], $4::text[]) AS a(code, name, account_type)
+       ON CONFLICT (hostel_id, code) DO NOTHING`,
+      [hostelId, keys.map(k => LEDGER_ACCOUNTS[k].code), keys.map(k => LEDGER_ACCOUNTS[k].name), keys.map(k => LEDGER_ACCOUNTS[k].type)]
+    );
+    const result = await db.query('SELECT id, code FROM ledger_accounts WHERE hostel_id = $1', [hostelId]);
+    const idByCode = new Map<string, number>(result.rows.map(r => [r.code, r.id]));
+    return keys.reduce((acc, key) => ({ ...acc, [key]: idByCode.get(LEDGER_ACCOUNTS[key].code)! }), {} as Record<LedgerAccountKey, number>);
+  }
+
+  /**
+   * Write a balanced journal entry. Each source document posts once: a second call for the same
+   * source_type/source_id is ignored and returns null. Must run on the source document's transaction.
+   */
+  static async post(entry: JournalEntryInput, db: Queryable = pool): Promise<number | null> {
+    const lines = entry.lines.filter(l => toCents(l.debit || 0) !== 0 || toCents(l.credit || 0) !== 0);
+    if (!lines.length) return null;
+
+    const debits = lines.reduce((sum, l) => sum + toCents(l.debit || 0), 0);
+    const credits = lines.reduce((sum, l) => sum + toCents(l.credit || 0), 0);
+    if (debits !== credits) {
+      throw new Error(`Unbalanced journal entry for ${entry.sourceType} ${entry.sourceId}: debits ${debits / 100} != credits ${credits / 100}`);
+    }
+
+    const existing = await db.query('SELECT id FROM journal_entries WHERE source_type = $1 AND source_id = $2', [entry.sourceType, entry.sourceId]);
+    if (existing.rowCount) return null;
+
+    const accounts = await this.ensureAccounts(entry.hostelId, db);
+    const entryRes = await db.query(
+      `INSERT INTO journal_entries (hostel_id, entry_date, description, source_type, source_id, created_by)
+       VALUES ($1, COALESCE($2, NOW()), $3, $4, $5, $6)
+       RETURNING id`,
+      [entry.hostelId, entry.entryDate || null, entry.description, entry.sourceType, entry.sourceId, entry.createdBy ?? null]
+    );
+    const entryId = entryRes.rows[0].id;
+    for (const line of lines) {
+      await db.query(
+        'INSERT INTO journal_postings (journal_entry_id, account_id, user_id, debit, credit) VALUES ($1, $2, $3, $4, $5)',
+        [entryId, accounts[line.account], line.userId ?? null, line.debit || 0, line.credit || 0]
+      );
+    }
+    return entryId;
+  }
+
+  // Net debit an account carries from the entries posted for a source document; null when none were posted
+  private static async postedAmount(hostelId: number, account: LedgerAccountKey, sourceTypes: string[], sourceId: number, db: Queryable): Promise<number | null> {
+    const result = await db.query(
+      `SELECT COUNT(DISTINCT je.id)::int AS entries, COALESCE(SUM(p.debit - p.credit), 0) AS amount
+       FROM journal_entries je
+       JOIN journal_postings p ON p.journal_entry_id = je.id
+       JOIN ledger_accounts a ON a.id = p.account_id
+       WHERE je.hostel_id = $1 AND je.source_type = ANY($2::text[]) AND je.source_id = $3 AND a.code = $4`,
+      [hostelId, sourceTypes, sourceId, LEDGER_ACCOUNTS[account].code]
+    );
+    return result.rows[0].entries ? parseFloat(result.rows[0].amount) : null;
+  }
+
+  /**
+   * Replace what a document posted at face value (before its base amount was known) with its base amount:
+   * one entry reversing the original posting and reposting it converted. Null when nothing was posted yet
+   * or the amounts already agree.
+   */
+  private static async restate(
+    input: { hostelId: number; sourceType: string; sourceId: number; description: string; debit: LedgerAccountKey; credit: LedgerAccountKey; baseAmount: number; userId?: number | null },
+    createdBy: number | null,
+    db: Queryable
+  ): Promise<number | null> {
+    const restatementType = `${input.sourceType}_restatement`;
+    const posted = await this.postedAmount(input.hostelId, input.debit, [input.sourceType, restatementType], input.sourceId, db);
+    if (posted === null || toCents(posted) === toCents(input.baseAmount)) return null;
+    return this.post({
+      hostelId: input.hostelId,
+      description: input.description,
+      sourceType: restatementType,
+      sourceId: input.sourceId,
+      createdBy,
+      lines: [
+        ...transfer(input.debit, input.credit, -posted, input.userId ?? null),
+        ...transfer(input.debit, input.credit, input.baseAmount, input.userId ?? null)
+      ]
+    }, db);
+  }
+
+  // Money received from (or, for voids/refunds/negative corrections, returned to) a student.
+  // Postings are in the hostel's base currency; a payment still waiting for an exchange rate (base_amount null)
+  // is posted by restatePayment once it is converted.
+  static async postPayment(
+    payment: { id: number; hostel_id: number; user_id: number; amount: number | string; base_amount?: number | string | null; entry_type?: string; purpose?: string | null; created_at?: Date },
+    createdBy: number | null,
+    db: Queryable = pool
+  ): Promise<number | null> {
+    if (payment.base_amount === null) return null;
+    const amount = parseFloat(String(payment.base_amount ?? payment.amount));
+    const kind = payment.entry_type && payment.entry_type !== 'payment' ? payment.entry_type : 'payment';
+    let description = kind === 'payment' ? 'Student payment' : `Payment ${kind} (payment adjustment)`;
+    if (payment.purpose === 'deposit_refund') description = 'Security deposit refund';
+    return this.post({
+      hostelId: payment.hostel_id,
+      description,
+      sourceType: 'payment',
+      sourceId: payment.id,
+      entryDate: payment.created_at || null,
+      createdBy,
+      lines: transfer('cash', 'receivables', amount, payment.user_id)
+    }, db);
+  }
+
+  /**
+   * Called once a foreign-currency payment has its base amount: posts it if it was held back, or restates
+   * an entry posted at face value before multi-currency support
+   */
+  static async restatePayment(
+    payment: { id: number; hostel_id: number; user_id: number; amount: number | string; base_amount: number | string; currency?: string | null; entry_type?: string; purpose?: string | null; created_at?: Date },
+    createdBy: number | null,
+    db: Queryable = pool
+  ): Promise<number | null> {
+    const restated = await this.restate({
+      hostelId: payment.hostel_id,
+      sourceType: 'payment',
+      sourceId: payment.id,
+      description: `Payment restated in base currency (${payment.amount} ${(payment.currency || 'UGX').toUpperCase()})`,
+      debit: 'cash',
+      credit: 'receivables',
+      baseAmount: parseFloat(String(payment.base_amount)),
+      userId: payment.user_id
+    }, createdBy, db);
+    return restated ?? this.postPayment(payment, createdBy, db);
+  }
+
+  // A charge on a student's invoice: the student owes it, the hostel earns (or holds) it
+  static async postInvoiceLine(invoice: InvoiceRef, line: InvoiceLineItem, createdBy: number | null, db: Queryable = pool): Promise<number | null> {
+    return this.post({
+      hostelId: invoice.hostel_id,
+      description: `${invoice.invoice_number}: ${line.description}`,
+      sourceType: 'invoice_line',
+      sourceId: line.id,
+      entryDate: line.created_at || null,
+      createdBy,
+      lines: transfer('receivables', incomeAccountFor(line.fee_type), line.amount, invoice.user_id)
+    }, db);
+  }
+
+  static async reverseInvoiceLine(invoice: InvoiceRef, line: InvoiceLineItem, createdBy: number | null, db: Queryable = pool, label = 'removed'): Promise<number | null> {
+    return this.post({
+      hostelId: invoice.hostel_id,
+      description: `${invoice.invoice_number}: ${line.description} (${label})`,
+      sourceType: 'invoice_line_reversal',
+      sourceId: line.id,
+      createdBy,
+      lines: transfer('receivables', incomeAccountFor(line.fee_type), -line.amount, invoice.user_id)
+    }, db);
+  }
+
+  static async postExpense(
+    expense: { id: number; hostel_id: number; amount: number | string; base_amount?: number | string | null; category?: string | null; description?: string | null; spent_at?: Date | null },
+    createdBy: number | null,
+    db: Queryable = pool
+  ): Promise<number | null> {
+    if (expense.base_amount === null) return null;
+    return this.post({
+      hostelId: expense.hostel_id,
+      description: `Expense${expense.category ? ` (${expense.category})` : ''}${expense.description ? `: ${expense.description}` : ''}`,
+      sourceType: 'expense',
+      sourceId: expense.id,
+      entryDate: expense.spent_at || null,
+      createdBy,
+      lines: transfer('expenses', 'cash', parseFloat(String(expense.base_amount ?? expense.amount)))
+    }, db);
+  }
+
+  /**
+   * Counterpart of restatePayment for approved expenses
+   */
+  static async restateExpense(
+    expense: { id: number; hostel_id: number; amount: number | string; base_amount: number | string; currency?: string | null; category?: string | null; description?: string | null; spent_at?: Date | null },
+    createdBy: number | null,
+    db: Queryable = pool
+  ): Promise<number | null> {
+    const restated = await this.restate({
+      hostelId: expense.hostel_id,
+      sourceType: 'expense',
+      sourceId: expense.id,
+      description: `Expense restated in base currency (${expense.amount} ${(expense.currency || 'UGX').toUpperCase()})`,
+      debit: 'expenses',
+      credit: 'cash',
+      baseAmount: parseFloat(String(expense.base_amount))
+    }, createdBy, db);
+    return restated ?? this.postExpense(expense, createdBy, db);
+  }
+
+  // Reverses whatever the expense actually posted, including any restatement; nothing when it was never posted
+  static async reverseExpense(
+    expense: { id: number; hostel_id: number; category?: string | null },
+    createdBy: number | null,
+    db: Queryable = pool
+  ): Promise<number | null> {
+    const posted = await this.postedAmount(expense.hostel_id, 'expenses', ['expense', 'expense_restatement'], expense.id, db);
+    if (posted === null) return null;
+    return this.post({
+      hostelId: expense.hostel_id,
+      description: `Expense deleted${expense.category ? ` (${expense.category})` : ''}`,
+      sourceType: 'expense_reversal',
+      sourceId: expense.id,
+      createdBy,
+      lines: transfer('expenses', 'cash', -posted)
+    }, db);
+  }
+
+  // What the hostel paid the platform for a subscription period
+  static async postSubscriptionCharge(
+    subscription: { id: number; hostel_id: number; amount_paid: number | string; created_at?: Date },
+    createdBy: number | null,
+    db: Queryable = pool
+  ): Promise<number | null> {
+    return this.post({
+      hostelId: subscription.hostel_id,
+      description: 'Platform subscription',
+      sourceType: 'hostel_subscription',
+      sourceId: subscription.id,
+      entryDate: subscription.created_at || null,
+      createdBy,
+      lines: transfer('subscriptions', 'cash', parseFloat(String(subscription.amount_paid || 0)))
+    }, db);
+  }
+}
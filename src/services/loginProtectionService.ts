@@ -0,0 +1,92 @@
+import { AuthSettingsModel } from '../models/AuthSettings';
+import { LoginLockoutModel, LockoutScope } from '../models/LoginLockout';
+import { EmailService } from './emailService';
+
+interface LockoutLimits {
+  maxAccountAttempts: number;
+  accountLockoutMinutes: number;
+  maxLockoutMinutes: number;
+  windowMinutes: number;
+  maxIpAttempts: number;
+  ipLockoutMinutes: number;
+  maxOtpAttempts: number;
+}
+
+async function numberSetting(key: string, fallback: number): Promise<number> {
+  const value = Number(await AuthSettingsModel.getSetting(key));
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export class LoginProtectionService {
+  /**
+   * Limits come from auth_settings so super admins can tune them without a deploy
+   */
+  static async getLimits(): Promise<LockoutLimits> {
+    return {
+      maxAccountAttempts: await numberSetting('max_login_attempts', 5),
+      accountLockoutMinutes: await numberSetting('lockout_duration_minutes', 30),
+      maxLockoutMinutes: await numberSetting('max_lockout_duration_minutes', 1440),
+      windowMinutes: await numberSetting('failed_login_window_minutes', 15),
+      maxIpAttempts: await numberSetting('max_login_attempts_per_ip', 20),
+      ipLockoutMinutes: await numberSetting('ip_lockout_duration_minutes', 15),
+      maxOtpAttempts: await numberSetting('max_otp_attempts', 5)
+    };
+  }
+
+  /**
+   * Seconds until the account or IP may try again, or 0 when not locked
+   */
+  static async getRetryAfterSeconds(scope: LockoutScope, subject: string): Promise<number> {
+    const row = await LoginLockoutModel.find(scope, subject);
+    if (!row?.locked_until) return 0;
+    const ms = new Date(row.locked_until).getTime() - Date.now();
+    return ms > 0 ? Math.ceil(ms / 1000) : 0;
+  }
+
+  /**
+   * Record a failed password or 2FA code. Each repeated account lockout doubles in length up to the cap.
+   */
+  static async recordFailure(
+    ip: string,
+    account?: { id: number; name: string; email: string }
+  ): Promise<{ accountLocked: boolean }> {
+    const limits = await this.getLimits();
+
+    const ipRow = await LoginLockoutModel.recordFailure('ip', ip, limits.windowMinutes);
+    if (ipRow.failed_count >= limits.maxIpAttempts) {
+      await LoginLockoutModel.lock(ipRow.id, limits.ipLockoutMinutes);
+    }
+
+    if (!account) return { accountLocked: false };
+
+    const row = await LoginLockoutModel.recordFailure('account', String(account.id), limits.windowMinutes);
+    if (row.failed_count < limits.maxAccountAttempts) return { accountLocked: false };
+
+    const minutes = Math.min(limits.accountLockoutMinutes * Math.pow(2, row.lockout_count), limits.maxLockoutMinutes);
+    const locked = await LoginLockoutModel.lock(row.id, minutes);
+    this.sendLockoutEmail(account, new Date(locked.locked_until!), ip);
+    return { accountLocked: true };
+  }
+
+  // A successful login clears the account counter (and its progressive history), never the IP counter
+  static async recordSuccess(userId: number): Promise<void> {
+    await LoginLockoutModel.clear('account', String(userId));
+  }
+
+  static async unlockAccount(userId: number): Promise<boolean> {
+    return LoginLockoutModel.clear('account', String(userId));
+  }
+
+  static async unlockIp(ip: string): Promise<boolean> {
+    return LoginLockoutModel.clear('ip', ip);
+  }
+
+  private static sendLockoutEmail(account: { name: string; email: string }, lockedUntil: Date, ip: string): void {
+    const html = EmailService.generateAccountLockedEmail(account.name, lockedUntil.toLocaleString(), ip);
+    EmailService.sendEmail({
+      to: account.email,
+      subject: 'Account Temporarily Locked - LTS Portal',
+      html
+    }).catch(err => console.error('Error sending account lockout email:', err));
+  }
+}
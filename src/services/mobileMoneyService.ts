@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+import fetch from 'node-fetch';
+import pool from '../config/database';
+import { MobileMoneyCollectionModel, MobileMoneyCollection, MobileMoneyNetwork } from '../models/MobileMoneyCollection';
+import { PaymentService, RecordedPayment } from './paymentService';
+
+export interface CollectionRequest {
+  reference: string;
+  network: MobileMoneyNetwork;
+  // International format without "+", e.g. 256772123456
+  phone: string;
+  amount: number;
+  currency: string;
+  description: string;
+}
+
+export interface CollectionCallback {
+  reference: string;
+  status: 'successful' | 'failed';
+  transactionId: string | null;
+  // Amount the provider says it collected, when the callback carries one
+  amount: number | null;
+  failureReason: string | null;
+}
+
+/**
+ * A mobile money gateway. requestCollection pushes the payment prompt to the phone; the outcome
+ * arrives later on POST /api/mobile-money/webhook/:name, which must pass verifyCallback before parseCallback runs.
+ */
+export interface MobileMoneyProvider {
+  name: string;
+  requestCollection(request: CollectionRequest): Promise<void>;
+  verifyCallback(rawBody: Buffer, headers: IncomingHttpHeaders): boolean;
+  parseCallback(body: any): CollectionCallback | null;
+}
+
+type GatewayResult<T> = ({ success: true } & T) | { success: false; status: number; message: string };
+
+// Uganda mobile prefixes (after the 256 country code)
+const NETWORK_PREFIXES: Record<MobileMoneyNetwork, string[]> = {
+  mtn: ['76', '77', '78', '79'],
+  airtel: ['70', '74', '75']
+};
+
+const NETWORK_NAMES: Record<MobileMoneyNetwork, string> = { mtn: 'MTN Mobile Money', airtel: 'Airtel Money' };
+
+function getWebhookSecret(): string | null {
+  return process.env.MOBILE_MONEY_WEBHOOK_SECRET || null;
+}
+
+function sign(rawBody: string | Buffer, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(rawBody).digest('hex');
+}
+
+function signatureMatches(rawBody: Buffer, header: string | string[] | undefined, secret: string): boolean {
+  if (typeof header !== 'string') return false;
+  const expected = Buffer.from(`sha256=${sign(rawBody, secret)}`);
+  const received = Buffer.from(header);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
+
+/**
+ * Local stand-in for a real gateway: after MOBILE_MONEY_SIMULATOR_DELAY_MS it posts a signed callback
+ * to our own webhook. Phone numbers ending in 0 are declined, everything else succeeds.
+ */
+const simulatorProvider: MobileMoneyProvider = {
+  name: 'simulator',
+
+  async requestCollection(request) {
+    const secret = getWebhookSecret()!;
+    const baseUrl = process.env.MOBILE_MONEY_CALLBACK_BASE_URL || `http://localhost:${process.env.PORT || 5000}`;
+    const delayMs = parseInt(process.env.MOBILE_MONEY_SIMULATOR_DELAY_MS || '5000', 10);
+    const declined = request.phone.endsWith('0');
+
+    setTimeout(async () => {
+      const body = JSON.stringify({
+        reference: request.reference,
+        status: declined ? 'FAILED' : 'SUCCESSFUL',
+        transaction_id: `SIM-${crypto.randomBytes(6).toString('hex').toUpperCase()}`,
+        amount: request.amount,
+        currency: request.currency,
+        reason: declined ? 'Payer declined or has insufficient balance' : null
+      });
+      try {
+        await fetch(`${baseUrl}/api/mobile-money/webhook/simulator`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', 'X-Signature': `sha256=${sign(body, secret)}` },
+          body
+        });
+      } catch (error) {
+        console.error('Mobile money simulator callback error:', error);
+      }
+    }, delayMs);
+  },
+
+  verifyCallback(rawBody, headers) {
+    const secret = getWebhookSecret();
+    return !!secret && signatureMatches(rawBody, headers['x-signature'], secret);
+  },
+
+  parseCallback(body) {
+    if (!body || typeof body.reference !== 'string' || !['SUCCESSFUL', 'FAILED'].includes(body.status)) return null;
+    const amount = parseFloat(body.amount);
+    return {
+      reference: body.reference,
+      status: body.status === 'SUCCESSFUL' ? 'successful' : 'failed',
+      transactionId: body.transaction_id ? String(body.transaction_id) : null,
+      amount: Number.isFinite(amount) ? amount : null,
+      failureReason: body.reason ? String(body.reason) : null
+    };
+  }
+};
+
+const providers = new Map<string, MobileMoneyProvider>([[simulatorProvider.name, simulatorProvider]]);
+
+export class MobileMoneyService {
+  /**
+   * Make a gateway adapter available; MOBILE_MONEY_PROVIDER selects which one new collections use
+   */
+  static registerProvider(provider: MobileMoneyProvider): void {
+    providers.set(provider.name, provider);
+  }
+
+  static getProvider(name: string): MobileMoneyProvider | null {
+    return providers.get(name) || null;
+  }
+
+  static getNetworkName(network: MobileMoneyNetwork): string {
+    return NETWORK_NAMES[network];
+  }
+
+  /**
+   * Local (07XXXXXXXX), bare (7XXXXXXXX) or international (+256 7XXXXXXXX) numbers to 2567XXXXXXXX; null if not a Uganda mobile number
+   */
+  static normalizePhone(raw: string): string | null {
+    const digits = String(raw || '').replace(/\D/g, '');
+    if (/^2567\d{8}$/.test(digits)) return digits;
+    if (/^07\d{8}$/.test(digits)) return `256${digits.slice(1)}`;
+    if (/^7\d{8}$/.test(digits)) return `256${digits}`;
+    return null;
+  }
+
+  static detectNetwork(phone: string): MobileMoneyNetwork | null {
+    const prefix = phone.slice(3, 5);
+    const match = (Object.keys(NETWORK_PREFIXES) as MobileMoneyNetwork[]).find(n => NETWORK_PREFIXES[n].includes(prefix));
+    return match || null;
+  }
+
+  /**
+   * Record a pending collection and push the payment prompt to the student's phone
+   */
+  static async startCollection(data: {
+    hostelId: number;
+    userId: number;
+    semesterId: number;
+    phone: string;
+    network?: MobileMoneyNetwork | null;
+    amount: number;
+    currency: string;
+    purpose: string;
+    requestedBy: number | null;
+  }): Promise<GatewayResult<{ collection: MobileMoneyCollection }>> {
+    const providerName = process.env.MOBILE_MONEY_PROVIDER || 'simulator';
+    const provider = providers.get(providerName);
+    if (!provider) return { success: false, status: 503, message: `Mobile money provider "${providerName}" is not available` };
+    if (!getWebhookSecret()) return { success: false, status: 503, message: 'Mobile money is not configured' };
+
+    const phone = this.normalizePhone(data.phone);
+    if (!phone) return { success: false, status: 400, message: 'A valid Uganda mobile number is required' };
+    const network = data.network || this.detectNetwork(phone);
+    if (!network) return { success: false, status: 400, message: 'Could not tell the mobile network from the phone number; pass network (mtn or airtel)' };
+
+    const collection = await MobileMoneyCollectionModel.create({
+      hostel_id: data.hostelId,
+      user_id: data.userId,
+      semester_id: data.semesterId,
+      provider: provider.name,
+      network,
+      phone,
+      amount: data.amount,
+      currency: data.currency,
+      purpose: data.purpose,
+      provider_reference: crypto.randomUUID(),
+      requested_by: data.requestedBy
+    });
+
+    try {
+      await provider.requestCollection({
+        reference: collection.provider_reference,
+        network,
+        phone,
+        amount: collection.amount,
+        currency: collection.currency,
+        description: `Hostel ${collection.purpose} payment`
+      });
+    } catch (error) {
+      console.error('Mobile money collection request error:', error);
+      const failed = await MobileMoneyCollectionModel.markFailed(collection.id, 'The provider rejected the collection request', null);
+      return { success: false, status: 502, message: `Could not reach ${NETWORK_NAMES[network]}: ${failed.failure_reason}` };
+    }
+    return { success: true, collection };
+  }
+
+  /**
+   * Apply a verified provider callback. Each collection is settled once: repeated callbacks
+   * return the settled collection with duplicate set and record nothing.
+   */
+  static async handleCallback(
+    providerName: string,
+    rawBody: Buffer,
+    headers: IncomingHttpHeaders,
+    body: any
+  ): Promise<GatewayResult<{ collection: MobileMoneyCollection; duplicate: boolean; recorded: RecordedPayment | null }>> {
+    const provider = providers.get(providerName);
+    if (!provider) return { success: false, status: 404, message: 'Unknown provider' };
+    if (!provider.verifyCallback(rawBody, headers)) return { success: false, status: 401, message: 'Invalid signature' };
+    const callback = provider.parseCallback(body);
+    if (!callback) return { success: false, status: 400, message: 'Malformed callback' };
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const collection = await MobileMoneyCollectionModel.lockByReference(provider.name, callback.reference, client);
+      if (!collection) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 404, message: 'Collection not found' };
+      }
+      if (collection.status !== 'pending') {
+        await client.query('ROLLBACK');
+        return { success: true, collection, duplicate: true, recorded: null };
+      }
+
+      if (callback.status === 'failed') {
+        const failed = await MobileMoneyCollectionModel.markFailed(collection.id, callback.failureReason || 'Declined by provider', callback.transactionId, client);
+        await client.query('COMMIT');
+        return { success: true, collection: failed, duplicate: false, recorded: null };
+      }
+
+      if (callback.amount != null && Math.round(callback.amount * 100) !== Math.round(collection.amount * 100)) {
+        const failed = await MobileMoneyCollectionModel.markFailed(
+          collection.id,
+          `Provider reported ${callback.amount} instead of ${collection.amount}; reconcile manually`,
+          callback.transactionId,
+          client
+        );
+        await client.query('COMMIT');
+        return { success: true, collection: failed, duplicate: false, recorded: null };
+      }
+
+      const recorded = await PaymentService.record({
+        hostelId: collection.hostel_id,
+        userId: collection.user_id,
+        semesterId: collection.semester_id,
+        amount: collection.amount,
+        currency: collection.currency,
+        purpose: collection.purpose,
+        paymentMethod: 'mobile_money',
+        paymentReference: callback.transactionId || collection.provider_reference,
+        recordedBy: collection.requested_by
+      }, client);
+      const settled = await MobileMoneyCollectionModel.markSuccessful(collection.id, recorded.payment.id, callback.transactionId, client);
+      await client.query('COMMIT');
+      return { success: true, collection: settled, duplicate: false, recorded };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import pool, { Queryable } from '../config/database';
+import { PaymentAdjustmentModel, PaymentAdjustment, AdjustmentType } from '../models/PaymentAdjustment';
+import { InvoiceService } from './invoiceService';
+import { EmailService } from './emailService';
+import { LedgerService } from './ledgerService';
+
+export const ADJUSTMENT_TYPES: AdjustmentType[] = ['void', 'refund', 'correction'];
+
+export class PaymentAdjustmentService {
+  /**
+   * What is left of an original payment after the voids, refunds and corrections already applied to it
+   */
+  static async getNetAmount(paymentId: number, db: Queryable = pool): Promise<number> {
+    const result = await db.query(
+      `SELECT p.amount + COALESCE((SELECT SUM(a.amount) FROM payments a WHERE a.adjusts_payment_id = p.id), 0) AS net
+       FROM payments p WHERE p.id = $1`,
+      [paymentId]
+    );
+    return parseFloat(result.rows[0]?.net || '0');
+  }
+
+  /**
+   * Signed amount of the compensating entry: a void cancels what is left, a refund takes out part of it
+   * and a correction moves it to the corrected amount.
+   */
+  static computeAppliedAmount(type: AdjustmentType, net: number, requestedAmount: number | null): { success: boolean; amount?: number; message?: string } {
+    if (net <= 0 && type !== 'correction') {
+      return { success: false, message: 'Nothing is left on this payment to adjust' };
+    }
+    if (type === 'void') return { success: true, amount: -net };
+    if (requestedAmount === null || !Number.isFinite(requestedAmount) || requestedAmount < 0) {
+      return { success: false, message: 'A valid amount is required' };
+    }
+    if (type === 'refund') {
+      if (requestedAmount <= 0 || requestedAmount > net) {
+        return { success: false, message: `Refund must be greater than 0 and at most ${net.toFixed(2)}` };
+      }
+      return { success: true, amount: -requestedAmount };
+    }
+    if (requestedAmount === net) return { success: false, message: 'Corrected amount equals the current amount' };
+    return { success: true, amount: requestedAmount - net };
+  }
+
+  /**
+   * Post the compensating payments row for a pending adjustment and mark it approved.
+   * The original payment is locked so concurrent adjustments see each other's effect.
+   */
+  static async apply(
+    adjustmentId: number,
+    reviewedBy: number | null,
+    note: string | null
+  ): Promise<{ success: boolean; message?: string; adjustment?: PaymentAdjustment; entryPaymentId?: number }> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const pending = await client.query("SELECT id FROM payment_adjustments WHERE id = $1 AND status = 'pending' FOR UPDATE", [adjustmentId]);
+      if (!pending.rowCount) {
+        await client.query('ROLLBACK');
+        return { success: false, message: 'Adjustment is not pending' };
+      }
+      const adjustment = (await PaymentAdjustmentModel.findById(adjustmentId, client))!;
+      const paymentRes = await client.query('SELECT * FROM payments WHERE id = $1 FOR UPDATE', [adjustment.payment_id]);
+      const payment = paymentRes.rows[0];
+
+      const net = await this.getNetAmount(payment.id, client);
+      const computed = this.computeAppliedAmount(adjustment.adjustment_type, net, adjustment.requested_amount);
+      if (!computed.success) {
+        await client.query('ROLLBACK');
+        return { success: false, message: computed.message };
+      }
+
+      // Converted at the original payment's rate so a void cancels its base amount exactly.
+      // The entry keeps the original recorder so it offsets their cash, not the reviewer's.
+      const rate = payment.exchange_rate != null ? parseFloat(payment.exchange_rate) : null;
+      const baseAmount = rate != null ? Math.round(computed.amount! * rate * 100) / 100 : null;
+      const entry = await client.query(
+        `INSERT INTO payments (user_id, hostel_id, semester_id, amount, currency, purpose, entry_type, adjusts_payment_id, adjustment_reason,
+                               base_currency, base_amount, exchange_rate, payment_method, recorded_by)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14)
+         RETURNING *`,
+        [payment.user_id, payment.hostel_id, payment.semester_id, computed.amount, payment.currency, adjustment.adjustment_type, adjustment.adjustment_type, payment.id, adjustment.reason,
+          payment.base_currency, baseAmount, rate, payment.payment_method, payment.recorded_by]
+      );
+      await LedgerService.postPayment(entry.rows[0], reviewedBy, client);
+      const approved = await PaymentAdjustmentModel.markApproved(adjustment.id, reviewedBy, computed.amount!, entry.rows[0].id, note, client);
+      await client.query('COMMIT');
+      return { success: true, adjustment: approved, entryPaymentId: entry.rows[0].id };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Email the student a corrected receipt for an applied adjustment
+   */
+  static async sendCorrectedReceipt(adjustment: PaymentAdjustment, performedByName?: string): Promise<void> {
+    const res = await pool.query(
+      `SELECT p.user_id, p.semester_id, p.amount, p.currency, p.created_at, u.name, u.email, h.name AS hostel_name, h.base_currency
+       FROM payments p
+       JOIN users u ON u.id = p.user_id
+       LEFT JOIN hostels h ON h.id = p.hostel_id
+       WHERE p.id = $1`,
+      [adjustment.payment_id]
+    );
+    const row = res.rows[0];
+    if (!row) return;
+
+    let balanceAfter: number | null = null;
+    if (row.semester_id) {
+      const { expected } = await InvoiceService.getExpectedForStudent(row.user_id, row.semester_id);
+      const paidRes = await pool.query('SELECT COALESCE(SUM(base_amount),0) AS paid FROM payments WHERE user_id = $1 AND semester_id = $2', [row.user_id, row.semester_id]);
+      if (expected != null) balanceAfter = expected - parseFloat(paidRes.rows[0].paid);
+    }
+
+    const html = EmailService.generateCorrectedReceiptEmail(
+      row.name,
+      adjustment.adjustment_type,
+      parseFloat(row.amount),
+      adjustment.applied_amount || 0,
+      row.currency || 'UGX',
+      adjustment.reason,
+      balanceAfter,
+      new Date(row.created_at).toLocaleString(),
+      new Date(adjustment.reviewed_at || Date.now()).toLocaleString(),
+      row.hostel_name || undefined,
+      performedByName,
+      row.base_currency || undefined
+    );
+    await EmailService.sendEmail({ to: row.email, subject: 'Corrected Payment Receipt - LTS Portal', html });
+  }
+}
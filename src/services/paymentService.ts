@@ -0,0 +1,132 @@
+import pool, { Queryable } from '../config/database';
+import { InvoiceWithLines } from '../models/Invoice';
+import { InvoiceService } from './invoiceService';
+import { LedgerService } from './ledgerService';
+import { EmailService } from './emailService';
+import { ReceiptService } from './receiptService';
+import { CurrencyService, BaseConversion } from './currencyService';
+
+export const PAYMENT_METHODS = ['cash', 'bank_transfer', 'mobile_money', 'card', 'cheque'] as const;
+export type PaymentMethod = typeof PAYMENT_METHODS[number];
+
+export interface RecordPaymentInput {
+  hostelId: number;
+  userId: number;
+  // Null only when the semester was deleted while a gateway collection was pending
+  semesterId: number | null;
+  amount: number;
+  // Defaults to the hostel's base currency; callers check a rate exists first (CurrencyService.convertToBase)
+  currency?: string | null;
+  purpose?: string | null;
+  // Cash payments count towards the recorder's cash-up
+  paymentMethod?: PaymentMethod | null;
+  // Bank or mobile-money transaction reference
+  paymentReference?: string | null;
+  // Staff member stored on the payment and on its ledger entry; for gateway payments, whoever started the collection
+  recordedBy: number | null;
+}
+
+export interface RecordedPayment {
+  payment: {
+    id: number; user_id: number; hostel_id: number; semester_id: number | null; amount: number; currency: string; purpose: string;
+    payment_method: PaymentMethod | null; recorded_by: number | null; created_at: Date; receipt_number: string; receipt_code: string
+  } & BaseConversion;
+  // Semester totals below are in the hostel's base currency
+  expected: number | null;
+  roomNumber: string | null;
+  invoice: InvoiceWithLines | null;
+  totalPaid: number;
+  balanceAfter: number | null;
+}
+
+export class PaymentService {
+  /**
+   * Insert a payment, number its receipt, post it to the ledger and work out the student's semester balance after it.
+   * Must run on the caller's transaction.
+   */
+  static async record(input: RecordPaymentInput, db: Queryable = pool): Promise<RecordedPayment> {
+    // Voids, refunds and corrections go through PaymentAdjustmentService; a payment is always money received
+    if (!Number.isFinite(input.amount) || input.amount <= 0) throw new Error(`Invalid payment amount: ${input.amount}`);
+    const currency = input.currency || await CurrencyService.getBaseCurrency(input.hostelId, db);
+    const conversion = await CurrencyService.convertToBase(input.hostelId, input.amount, currency, new Date(), db);
+    if (!conversion) throw new Error(`No exchange rate from ${currency} for hostel ${input.hostelId}`);
+
+    const payRes = await db.query(
+      `INSERT INTO payments (user_id, hostel_id, semester_id, amount, currency, purpose, base_currency, base_amount, exchange_rate,
+                             payment_method, payment_reference, recorded_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12) RETURNING *`,
+      [input.userId, input.hostelId, input.semesterId, input.amount, currency, input.purpose || 'booking',
+        conversion.base_currency, conversion.base_amount, conversion.exchange_rate,
+        input.paymentMethod || null, input.paymentReference || null, input.recordedBy]
+    );
+    const receipt = await ReceiptService.assign(payRes.rows[0], db);
+    const payment = { ...payRes.rows[0], ...receipt, amount: parseFloat(payRes.rows[0].amount), ...conversion };
+    await LedgerService.postPayment(payment, input.recordedBy, db);
+
+    if (!input.semesterId) {
+      return { payment, expected: null, roomNumber: null, invoice: null, totalPaid: payment.base_amount, balanceAfter: null };
+    }
+
+    // Amount due this semester: the student's invoice total (room price for pre-invoice assignments)
+    const { expected, roomNumber, invoice } = await InvoiceService.getExpectedForStudent(input.userId, input.semesterId, db);
+
+    const sumRes = await db.query('SELECT COALESCE(SUM(base_amount),0) as total_paid FROM payments WHERE user_id = $1 AND semester_id = $2', [input.userId, input.semesterId]);
+    const totalPaid = parseFloat(sumRes.rows[0]?.total_paid || '0');
+    const balanceAfter = expected != null ? (expected - totalPaid) : null;
+
+    return { payment, expected, roomNumber, invoice, totalPaid, balanceAfter };
+  }
+
+  /**
+   * Email the hostel-branded receipt with its PDF attached, plus the thank-you & welcome email once the balance is cleared.
+   * Call after the payment has committed.
+   */
+  static async sendReceipts(recorded: RecordedPayment, student: { name: string; email: string }, clearedBy?: string): Promise<void> {
+    const { payment, expected, roomNumber, invoice, totalPaid, balanceAfter } = recorded;
+    const hostelMeta = await pool.query('SELECT name FROM hostels WHERE id = $1', [payment.hostel_id]);
+    const hostelName = hostelMeta.rows[0]?.name || undefined;
+
+    // Email figures are in base currency to match the invoice; the attached PDF also shows the amount as paid
+    const html = EmailService.generatePaymentReceiptEmail(
+      student.name,
+      student.email,
+      payment.base_amount,
+      payment.base_currency,
+      balanceAfter,
+      roomNumber,
+      null,
+      new Date(payment.created_at).toLocaleString(),
+      hostelName,
+      clearedBy,
+      'Cleared by',
+      null,
+      expected,
+      invoice?.line_items || null,
+      payment.receipt_number
+    );
+    const attachments = await ReceiptService.getEmailAttachments(payment.id);
+    await EmailService.sendEmail({ to: student.email, subject: `Payment Receipt ${payment.receipt_number} - LTS Portal`, html, attachments });
+
+    if (expected != null && balanceAfter != null && balanceAfter <= 0) {
+      const profileRes = await pool.query('SELECT access_number FROM student_profiles WHERE user_id = $1', [payment.user_id]);
+      const accessNumber = profileRes.rows[0]?.access_number || null;
+
+      const thankYouHtml = EmailService.generateThankYouWelcomeEmail(
+        student.name,
+        student.email,
+        hostelName || 'Our Hostel',
+        roomNumber,
+        accessNumber,
+        payment.base_amount,
+        payment.base_currency,
+        totalPaid,
+        expected
+      );
+      await EmailService.sendEmail({
+        to: student.email,
+        subject: `Thank You & Welcome to ${hostelName}! - All Balance Paid`,
+        html: thankYouHtml
+      });
+    }
+  }
+}
@@ -0,0 +1,207 @@
+import pool from '../config/database';
+import { InvoiceModel } from '../models/Invoice';
+import { InstallmentPlanModel, InstallmentDueStatus } from '../models/InstallmentPlan';
+import { PenaltyRuleModel, PenaltyChargeModel, PenaltyRule, PenaltyCharge } from '../models/Penalty';
+import { InstallmentService } from './installmentService';
+import { InvoiceService } from './invoiceService';
+import { EmailService } from './emailService';
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export class PenaltyService {
+  /**
+   * Charges a rule still has to make: the first once the installment is days_overdue days late, then (for
+   * recurring rules) one per further week. Occurrences already charged, waived ones included, are skipped.
+   * The cap counts only fees that were not waived.
+   */
+  static computeCharges(
+    rule: Pick<PenaltyRule, 'penalty_type' | 'amount' | 'days_overdue' | 'cap' | 'recurring_weekly'>,
+    daysOverdue: number,
+    overdueAmount: number,
+    existing: Pick<PenaltyCharge, 'occurrence' | 'amount' | 'status'>[]
+  ): Array<{ occurrence: number; amount: number }> {
+    if (daysOverdue < rule.days_overdue || overdueAmount <= 0) return [];
+    const occurrences = rule.recurring_weekly ? Math.floor((daysOverdue - rule.days_overdue) / 7) + 1 : 1;
+    const charged = new Set(existing.map(c => c.occurrence));
+    let appliedTotal = existing.filter(c => c.status === 'applied').reduce((sum, c) => sum + c.amount, 0);
+
+    const charges: Array<{ occurrence: number; amount: number }> = [];
+    for (let occurrence = 1; occurrence <= occurrences; occurrence++) {
+      if (charged.has(occurrence)) continue;
+      let amount = rule.penalty_type === 'flat' ? rule.amount : roundCents(overdueAmount * rule.amount / 100);
+      if (rule.cap != null) amount = roundCents(Math.min(amount, rule.cap - appliedTotal));
+      if (amount <= 0) break;
+      appliedTotal += amount;
+      charges.push({ occurrence, amount });
+    }
+    return charges;
+  }
+
+  /**
+   * Charge late fees for every student with an overdue installment in a running semester.
+   * Runs daily after the overdue check; pass hostelId to run it for one hostel only. Returns the fees charged.
+   */
+  static async applyPenalties(hostelId: number | null = null): Promise<number> {
+    let charged = 0;
+    try {
+      console.log('🔄 Applying late fees...');
+      const rulesByHostel = new Map<number, PenaltyRule[]>();
+      const statuses = await InstallmentPlanModel.listDueStatus({ hostelId, activeSemestersOnly: true });
+      const today = new Date().toISOString().slice(0, 10);
+
+      for (const status of statuses) {
+        const overdueAmount = InstallmentService.getOverdueAmount(status);
+        if (overdueAmount <= 0) continue;
+
+        if (!rulesByHostel.has(status.hostel_id)) {
+          rulesByHostel.set(status.hostel_id, await PenaltyRuleModel.listForHostel(status.hostel_id, true));
+        }
+        const rules = rulesByHostel.get(status.hostel_id)!;
+        if (!rules.length) continue;
+
+        const schedule = await InstallmentService.getStudentSchedule(status.user_id, status.semester_id);
+        const firstOverdue = schedule?.installments.find(i => i.status === 'overdue');
+        if (!firstOverdue) continue;
+        const daysOverdue = Math.floor((Date.parse(today) - Date.parse(firstOverdue.due_date)) / DAY_MS);
+
+        for (const rule of rules) {
+          try {
+            const charges = await this.chargeRule(rule, status, daysOverdue, overdueAmount);
+            charged += charges.length;
+            for (const charge of charges) {
+              await this.sendLateFeeNotice(charge, rule).catch(err => console.error(`Late fee notice error for student ${charge.user_id}:`, err));
+            }
+          } catch (error) {
+            console.error(`Failed to apply late fee rule ${rule.id} to student ${status.user_id}:`, error);
+          }
+        }
+      }
+
+      console.log(`✅ Late fees applied (${charged} charge(s))`);
+    } catch (error) {
+      console.error('❌ Error applying late fees:', error);
+    }
+    return charged;
+  }
+
+  private static async chargeRule(rule: PenaltyRule, status: InstallmentDueStatus, daysOverdue: number, overdueAmount: number): Promise<PenaltyCharge[]> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const invoice = await InvoiceModel.findByUserAndSemester(status.user_id, status.semester_id, client);
+      if (!invoice) {
+        await client.query('ROLLBACK');
+        return [];
+      }
+      // Serialises concurrent runs for the same student: the second one sees the first one's charges
+      await client.query('SELECT id FROM invoices WHERE id = $1 FOR UPDATE', [invoice.id]);
+
+      const existing = await PenaltyChargeModel.listForRule(rule.id, status.user_id, status.semester_id, client);
+      const pending = this.computeCharges(rule, daysOverdue, overdueAmount, existing);
+      const created: PenaltyCharge[] = [];
+      for (const { occurrence, amount } of pending) {
+        const line = await InvoiceService.addLine(invoice, {
+          fee_type: 'late_fee',
+          description: rule.recurring_weekly && occurrence > 1 ? `Late fee: ${rule.name} (week ${occurrence})` : `Late fee: ${rule.name}`,
+          quantity: 1,
+          unit_amount: amount,
+          created_by: null
+        }, client);
+        created.push(await PenaltyChargeModel.create({
+          rule_id: rule.id,
+          hostel_id: status.hostel_id,
+          user_id: status.user_id,
+          semester_id: status.semester_id,
+          invoice_line_item_id: line.id,
+          occurrence,
+          overdue_amount: overdueAmount,
+          amount
+        }, client));
+      }
+      if (created.length) await InvoiceModel.refreshTotal(invoice.id, client);
+      await client.query('COMMIT');
+      return created;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Waive a late fee: its invoice line is removed (the ledger records the reversal) and the charge kept as waived
+   */
+  static async waive(
+    chargeId: number,
+    waivedBy: number,
+    reason: string
+  ): Promise<{ success: true; charge: PenaltyCharge; totalAmount: number } | { success: false; status: number; message: string }> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const charge = await PenaltyChargeModel.lockById(chargeId, client);
+      if (!charge) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 404, message: 'Late fee not found' };
+      }
+      if (charge.status !== 'applied') {
+        await client.query('ROLLBACK');
+        return { success: false, status: 400, message: 'Late fee is already waived' };
+      }
+
+      const invoice = await InvoiceModel.findByUserAndSemester(charge.user_id, charge.semester_id, client);
+      let totalAmount = invoice?.total_amount || 0;
+      if (invoice && charge.invoice_line_item_id) {
+        const line = await InvoiceModel.findLineItem(invoice.id, charge.invoice_line_item_id, client);
+        if (line) {
+          await InvoiceService.removeLine(invoice, line, waivedBy, client, 'waived');
+          totalAmount = (await InvoiceModel.refreshTotal(invoice.id, client)).total_amount;
+        }
+      }
+      const waived = await PenaltyChargeModel.markWaived(charge.id, waivedBy, reason, client);
+      await client.query('COMMIT');
+      return { success: true, charge: waived, totalAmount };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  /**
+   * Email the student about a late fee being charged or waived, with their balance afterwards
+   */
+  static async sendLateFeeNotice(charge: PenaltyCharge, rule: Pick<PenaltyRule, 'name'>, waivedByName?: string): Promise<void> {
+    const res = await pool.query(
+      `SELECT u.name, u.email, h.name AS hostel_name, h.base_currency, s.name AS semester_name
+       FROM users u, hostels h, semesters s
+       WHERE u.id = $1 AND h.id = $2 AND s.id = $3`,
+      [charge.user_id, charge.hostel_id, charge.semester_id]
+    );
+    const row = res.rows[0];
+    if (!row?.email) return;
+
+    const { expected } = await InvoiceService.getExpectedForStudent(charge.user_id, charge.semester_id);
+    const paid = await InvoiceModel.getPaidAmount(charge.user_id, charge.semester_id);
+    const html = EmailService.generateLateFeeEmail(
+      row.name,
+      row.hostel_name,
+      row.semester_name,
+      charge.status,
+      rule.name,
+      charge.amount,
+      row.base_currency,
+      expected != null ? expected - paid : null,
+      charge.waive_reason,
+      waivedByName
+    );
+    await EmailService.sendEmail({
+      to: row.email,
+      subject: charge.status === 'waived' ? `Late fee waived - ${row.hostel_name}` : `Late fee charged - ${row.hostel_name}`,
+      html
+    });
+  }
+}
@@ -0,0 +1,20 @@
+import { User } from '../models/User';
+import { RoleModel } from '../models/Role';
+
+export class PermissionService {
+  /**
+   * Effective permissions for a user. Super admins hold every permission regardless of role_permissions.
+   */
+  static async getUserPermissions(user: Pick<User, 'id' | 'role'>): Promise<string[]> {
+    if (user.role === 'super_admin') {
+      return (await RoleModel.listPermissions()).map(p => p.key);
+    }
+    return RoleModel.getPermissionsForUser(user.id);
+  }
+
+  static async hasPermission(user: Pick<User, 'id' | 'role'>, permission: string): Promise<boolean> {
+    if (user.role === 'super_admin') return true;
+    const permissions = await RoleModel.getPermissionsForUser(user.id);
+    return permissions.includes(permission);
+  }
+}
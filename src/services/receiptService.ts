@@ -0,0 +1,243 @@
+import crypto from 'crypto';
+import PDFDocument from 'pdfkit';
+import * as QRCode from 'qrcode';
+import pool, { Queryable } from '../config/database';
+import { InvoiceService } from './invoiceService';
+
+export interface ReceiptData {
+  payment_id: number;
+  receipt_number: string;
+  receipt_code: string;
+  amount: number;
+  // Amount after any voids, refunds and corrections applied to this payment
+  net_amount: number;
+  currency: string;
+  // The amount in the hostel's base currency; fees, totals and balance are in base currency too
+  base_amount: number | null;
+  base_currency: string;
+  exchange_rate: number | null;
+  purpose: string;
+  paid_at: Date;
+  student_name: string;
+  access_number: string | null;
+  hostel_name: string | null;
+  hostel_address: string | null;
+  hostel_phone: string | null;
+  semester_name: string | null;
+  room_number: string | null;
+  invoice_number: string | null;
+  expected: number | null;
+  // Late fees included in expected
+  late_fees: number;
+  // Discounts and sponsor waivers deducted from expected
+  discounts: number;
+  // Refundable security deposit included in expected
+  deposit: number;
+  // Paid this semester up to and including this payment
+  total_paid: number | null;
+  balance_after: number | null;
+}
+
+function formatMoney(amount: number, currency: string): string {
+  return `${currency} ${amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+export class ReceiptService {
+  /**
+   * Give a payment the hostel's next receipt number and an unguessable verification code.
+   * Bumping the hostel's counter row-locks it, so concurrent payments never share a number.
+   * Must run on the payment's transaction.
+   */
+  static async assign(payment: { id: number; hostel_id: number }, db: Queryable = pool): Promise<{ receipt_number: string; receipt_code: string }> {
+    const seq = await db.query(
+      'UPDATE hostels SET last_receipt_number = last_receipt_number + 1 WHERE id = $1 RETURNING last_receipt_number',
+      [payment.hostel_id]
+    );
+    const receiptNumber = `RCT-${payment.hostel_id}-${String(seq.rows[0].last_receipt_number).padStart(6, '0')}`;
+    const receiptCode = crypto.randomBytes(12).toString('base64url');
+    await db.query('UPDATE payments SET receipt_number = $2, receipt_code = $3 WHERE id = $1', [payment.id, receiptNumber, receiptCode]);
+    return { receipt_number: receiptNumber, receipt_code: receiptCode };
+  }
+
+  static getVerificationUrl(code: string): string {
+    const baseUrl = process.env.API_PUBLIC_URL || `http://localhost:${process.env.PORT || 5000}`;
+    return `${baseUrl}/api/receipts/verify/${code}`;
+  }
+
+  static async getReceiptData(paymentId: number): Promise<ReceiptData | null> {
+    const result = await pool.query(
+      `SELECT p.id, p.user_id, p.semester_id, p.amount, p.currency, p.base_amount, p.exchange_rate, p.purpose, p.created_at, p.receipt_number, p.receipt_code,
+              p.amount + COALESCE((SELECT SUM(a.amount) FROM payments a WHERE a.adjusts_payment_id = p.id), 0) AS net_amount,
+              u.name AS student_name, sp.access_number,
+              h.name AS hostel_name, h.base_currency, h.address AS hostel_address, h.contact_phone AS hostel_phone,
+              s.name AS semester_name
+       FROM payments p
+       JOIN users u ON u.id = p.user_id
+       LEFT JOIN student_profiles sp ON sp.user_id = p.user_id
+       LEFT JOIN hostels h ON h.id = p.hostel_id
+       LEFT JOIN semesters s ON s.id = p.semester_id
+       WHERE p.id = $1 AND p.receipt_number IS NOT NULL`,
+      [paymentId]
+    );
+    const row = result.rows[0];
+    if (!row) return null;
+
+    let expected: number | null = null;
+    let roomNumber: string | null = null;
+    let invoiceNumber: string | null = null;
+    let lateFees = 0;
+    let discounts = 0;
+    let deposit = 0;
+    let totalPaid: number | null = null;
+    if (row.semester_id) {
+      const due = await InvoiceService.getExpectedForStudent(row.user_id, row.semester_id);
+      expected = due.expected;
+      roomNumber = due.roomNumber;
+      invoiceNumber = due.invoice?.invoice_number || null;
+      lateFees = (due.invoice?.line_items || []).filter(line => line.fee_type === 'late_fee').reduce((sum, line) => sum + line.amount, 0);
+      discounts = (due.invoice?.line_items || []).filter(line => line.fee_type === 'discount').reduce((sum, line) => sum - line.amount, 0);
+      deposit = (due.invoice?.line_items || []).filter(line => line.fee_type === 'security_deposit').reduce((sum, line) => sum + line.amount, 0);
+      const paidRes = await pool.query(
+        'SELECT COALESCE(SUM(base_amount),0) AS paid FROM payments WHERE user_id = $1 AND semester_id = $2 AND id <= $3',
+        [row.user_id, row.semester_id, row.id]
+      );
+      totalPaid = parseFloat(paidRes.rows[0].paid);
+    }
+
+    return {
+      payment_id: row.id,
+      receipt_number: row.receipt_number,
+      receipt_code: row.receipt_code,
+      amount: parseFloat(row.amount),
+      net_amount: parseFloat(row.net_amount),
+      currency: row.currency || 'UGX',
+      base_amount: row.base_amount != null ? parseFloat(row.base_amount) : null,
+      base_currency: row.base_currency || 'UGX',
+      exchange_rate: row.exchange_rate != null ? parseFloat(row.exchange_rate) : null,
+      purpose: row.purpose,
+      paid_at: row.created_at,
+      student_name: row.student_name,
+      access_number: row.access_number || null,
+      hostel_name: row.hostel_name,
+      hostel_address: row.hostel_address,
+      hostel_phone: row.hostel_phone,
+      semester_name: row.semester_name,
+      room_number: roomNumber,
+      invoice_number: invoiceNumber,
+      expected,
+      late_fees: lateFees,
+      discounts,
+      deposit,
+      total_paid: totalPaid,
+      balance_after: expected != null && totalPaid != null ? expected - totalPaid : null
+    };
+  }
+
+  /**
+   * A4 receipt with a QR code that opens the public verification endpoint
+   */
+  static async generatePdf(receipt: ReceiptData): Promise<Buffer> {
+    const verificationUrl = this.getVerificationUrl(receipt.receipt_code);
+    const qr = await QRCode.toBuffer(verificationUrl, { margin: 1, width: 240 });
+
+    return new Promise((resolve, reject) => {
+      const doc = new PDFDocument({ size: 'A4', margin: 50, info: { Title: `Receipt ${receipt.receipt_number}` } });
+      const chunks: Buffer[] = [];
+      doc.on('data', chunk => chunks.push(chunk));
+      doc.on('end', () => resolve(Buffer.concat(chunks)));
+      doc.on('error', reject);
+
+      doc.fontSize(20).font('Helvetica-Bold').text(receipt.hostel_name || 'LTS Portal');
+      doc.fontSize(10).font('Helvetica').fillColor('#555555');
+      if (receipt.hostel_address) doc.text(receipt.hostel_address);
+      if (receipt.hostel_phone) doc.text(receipt.hostel_phone);
+      doc.moveDown(1.5);
+
+      doc.fillColor('#000000').fontSize(16).font('Helvetica-Bold').text('PAYMENT RECEIPT');
+      doc.fontSize(11).font('Helvetica').text(`Receipt No: ${receipt.receipt_number}`);
+      doc.text(`Date: ${new Date(receipt.paid_at).toLocaleString()}`);
+      doc.moveDown();
+
+      const rows: Array<[string, string]> = [
+        ['Received from', receipt.student_name],
+        ['Access number', receipt.access_number || '-'],
+        ['Semester', receipt.semester_name || '-'],
+        ['Room', receipt.room_number || '-'],
+        ['Invoice', receipt.invoice_number || '-'],
+        ['Purpose', receipt.purpose],
+        ['Amount paid', formatMoney(receipt.amount, receipt.currency)]
+      ];
+      if (receipt.currency !== receipt.base_currency && receipt.base_amount != null) {
+        rows.push([`Value in ${receipt.base_currency}`, `${formatMoney(receipt.base_amount, receipt.base_currency)} (rate ${receipt.exchange_rate})`]);
+      }
+      if (receipt.late_fees > 0) rows.push(['Late fees charged', formatMoney(receipt.late_fees, receipt.base_currency)]);
+      if (receipt.discounts > 0) rows.push(['Discounts and waivers', `-${formatMoney(receipt.discounts, receipt.base_currency)}`]);
+      if (receipt.expected != null) rows.push(['Total fees', formatMoney(receipt.expected, receipt.base_currency)]);
+      if (receipt.deposit > 0) rows.push(['Security deposit (refundable)', formatMoney(receipt.deposit, receipt.base_currency)]);
+      if (receipt.total_paid != null) rows.push(['Total paid to date', formatMoney(receipt.total_paid, receipt.base_currency)]);
+      if (receipt.balance_after != null) rows.push(['Balance after this payment', formatMoney(Math.max(0, receipt.balance_after), receipt.base_currency)]);
+
+      const labelX = 50;
+      const valueX = 230;
+      for (const [label, value] of rows) {
+        const y = doc.y;
+        doc.font('Helvetica-Bold').text(label, labelX, y, { width: 170 });
+        doc.font('Helvetica').text(value, valueX, y, { width: 315 });
+        doc.moveDown(0.4);
+      }
+
+      if (receipt.net_amount !== receipt.amount) {
+        doc.moveDown();
+        doc.fillColor('#b91c1c').font('Helvetica-Bold')
+          .text(`This payment has since been adjusted; its current value is ${formatMoney(receipt.net_amount, receipt.currency)}.`, labelX);
+        doc.fillColor('#000000');
+      }
+
+      doc.moveDown(2);
+      const qrY = doc.y;
+      doc.image(qr, labelX, qrY, { width: 120 });
+      doc.font('Helvetica').fontSize(9).fillColor('#555555')
+        .text('Scan to confirm this receipt is genuine, or open:', 190, qrY + 30, { width: 355 })
+        .text(verificationUrl, 190, doc.y + 2, { width: 355 });
+
+      doc.end();
+    });
+  }
+
+  /**
+   * The PDF receipt as an email attachment; empty when the payment has no receipt or the PDF cannot be built,
+   * so the email still goes out
+   */
+  static async getEmailAttachments(paymentId: number): Promise<{ filename: string; content: Buffer; contentType: string }[]> {
+    try {
+      const receipt = await this.getReceiptData(paymentId);
+      if (!receipt) return [];
+      const pdf = await this.generatePdf(receipt);
+      return [{ filename: `${receipt.receipt_number}.pdf`, content: pdf, contentType: 'application/pdf' }];
+    } catch (error) {
+      console.error('Receipt PDF generation error:', error);
+      return [];
+    }
+  }
+
+  /**
+   * What the public verification endpoint may reveal about a receipt
+   */
+  static async verify(code: string): Promise<Record<string, any> | null> {
+    const res = await pool.query('SELECT id FROM payments WHERE receipt_code = $1', [code]);
+    if (!res.rows[0]) return null;
+    const receipt = await this.getReceiptData(res.rows[0].id);
+    if (!receipt) return null;
+    return {
+      receipt_number: receipt.receipt_number,
+      hostel_name: receipt.hostel_name,
+      student_name: receipt.student_name,
+      amount: receipt.amount,
+      net_amount: receipt.net_amount,
+      currency: receipt.currency,
+      paid_at: receipt.paid_at,
+      semester_name: receipt.semester_name,
+      status: receipt.net_amount <= 0 ? 'voided' : receipt.net_amount !== receipt.amount ? 'adjusted' : 'valid'
+    };
+  }
+}
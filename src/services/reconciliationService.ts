@@ -0,0 +1,642 @@
+import crypto from 'crypto';
+import pool, { Queryable } from '../config/database';
+import {
+  StatementMapping,
+  StatementImportModel,
+  StatementImportSummary,
+  StatementLineModel,
+  StatementLine,
+  StatementSourceType,
+  MatchMethod
+} from '../models/Statement';
+import { parseCsv } from '../utils/csv';
+import { requireActiveSemester } from '../utils/semesterMiddleware';
+import { PaymentService, RecordedPayment } from './paymentService';
+import { CurrencyService } from './currencyService';
+
+// Bank and mobile-money postings usually land within a few days of the receipt being issued
+const AUTO_MATCH_DAYS = 3;
+const SUGGESTION_DAYS = 14;
+const MAX_SUGGESTIONS = 5;
+const MAX_PARSE_ERRORS = 20;
+// Shorter references (e.g. "1") turn up inside unrelated descriptions
+const MIN_REFERENCE_LENGTH = 6;
+
+// Payment methods whose money shows up on each kind of statement. Desk cash (and payments recorded before
+// methods were stored) never reaches one, so it is neither matched nor reported as unreconciled.
+const SOURCE_PAYMENT_METHODS: Record<StatementSourceType, string[]> = {
+  bank: ['bank_transfer', 'card', 'cheque'],
+  mobile_money: ['mobile_money']
+};
+
+export interface ParsedStatementLine {
+  lineNumber: number;
+  transactionDate: string;
+  amount: number;
+  reference: string | null;
+  description: string | null;
+  payer: string | null;
+}
+
+export interface ReconciliationPayment {
+  id: number;
+  user_id: number;
+  student_name: string;
+  amount: number;
+  currency: string;
+  purpose: string | null;
+  entry_type: string;
+  payment_method: string | null;
+  receipt_number: string | null;
+  payment_date: string;
+  created_at: Date;
+  // Receipt number, payment reference and mobile-money references a statement may quote
+  references: string[];
+  statement_line_id: number | null;
+}
+
+export interface StudentCandidate {
+  id: number;
+  name: string;
+  phone: string | null;
+  access_number: string | null;
+  // Current semester balance in the hostel's base currency
+  balance: number | null;
+}
+
+export interface StudentSuggestion {
+  user_id: number;
+  name: string;
+  access_number: string | null;
+  balance: number | null;
+  reasons: string[];
+}
+
+export interface UnmatchedLine extends StatementLine {
+  suggested_payments: Array<Pick<ReconciliationPayment, 'id' | 'user_id' | 'student_name' | 'amount' | 'currency' | 'receipt_number' | 'payment_date'>>;
+  suggested_students: StudentSuggestion[];
+}
+
+export interface AutoMatch {
+  lineId: number;
+  paymentId: number;
+  method: MatchMethod;
+}
+
+type ReconcileResult<T> = ({ success: true } & T) | { success: false; status: number; message: string };
+type ImportResult =
+  | { success: true; statementImport: StatementImportSummary; autoMatched: number }
+  | { success: false; status: number; message: string; errors?: string[] };
+
+const roundCents = (amount: number) => Math.round(amount * 100) / 100;
+const sameAmount = (a: number, b: number) => Math.round(a * 100) === Math.round(b * 100);
+const normalizeRef = (value: string | null | undefined) => (value || '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+function daysBetween(a: string, b: string): number {
+  return Math.round(Math.abs(Date.parse(`${a}T00:00:00Z`) - Date.parse(`${b}T00:00:00Z`)) / 86400000);
+}
+
+function shiftDate(date: string, days: number): string {
+  return new Date(Date.parse(`${date}T00:00:00Z`) + days * 86400000).toISOString().slice(0, 10);
+}
+
+const DATE_PATTERNS: Record<StatementMapping['date_format'], { pattern: RegExp; order: ['y' | 'm' | 'd', 'y' | 'm' | 'd', 'y' | 'm' | 'd'] }> = {
+  'YYYY-MM-DD': { pattern: /^(\d{4})-(\d{1,2})-(\d{1,2})$/, order: ['y', 'm', 'd'] },
+  'DD/MM/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ['d', 'm', 'y'] },
+  'MM/DD/YYYY': { pattern: /^(\d{1,2})\/(\d{1,2})\/(\d{4})$/, order: ['m', 'd', 'y'] },
+  'DD-MM-YYYY': { pattern: /^(\d{1,2})-(\d{1,2})-(\d{4})$/, order: ['d', 'm', 'y'] },
+  'DD.MM.YYYY': { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{4})$/, order: ['d', 'm', 'y'] }
+};
+
+// Statement dates as YYYY-MM-DD; a time after the date (e.g. "12/03/2026 14:05") is ignored
+function parseStatementDate(raw: string, format: StatementMapping['date_format']): string | null {
+  const datePart = raw.trim().split(/[\sT]/)[0];
+  const { pattern, order } = DATE_PATTERNS[format];
+  const match = pattern.exec(datePart);
+  if (!match) return null;
+  const parts: Record<string, number> = {};
+  order.forEach((key, i) => { parts[key] = parseInt(match[i + 1], 10); });
+  const date = new Date(Date.UTC(parts.y, parts.m - 1, parts.d));
+  if (date.getUTCFullYear() !== parts.y || date.getUTCMonth() !== parts.m - 1 || date.getUTCDate() !== parts.d) return null;
+  return date.toISOString().slice(0, 10);
+}
+
+// "UGX 1,250,000.00", "$(500.00)", "500-" and "-500" are all accepted; an empty cell is null
+function parseStatementAmount(raw: string): number | null | undefined {
+  let value = raw.trim();
+  if (!value) return null;
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  // Currency codes and symbols, thousands separators and spaces
+  value = value.replace(/[^\d.-]/g, '');
+  if (value.startsWith('-')) {
+    negative = !negative;
+    value = value.slice(1);
+  } else if (value.endsWith('-')) {
+    negative = !negative;
+    value = value.slice(0, -1);
+  }
+  if (!/^\d+(\.\d+)?$/.test(value)) return undefined;
+  const amount = roundCents(parseFloat(value));
+  return negative ? -amount : amount;
+}
+
+/**
+ * Read a CSV statement with a mapping. Columns are looked up by header name (case-insensitive), or by 1-based
+ * position when the file has no header row. Rows with a zero amount (opening balances, notices) are skipped.
+ * Any unreadable row rejects the whole file so a statement is never half imported.
+ */
+export function parseStatement(text: string, mapping: StatementMapping): { lines: ParsedStatementLine[] } | { errors: string[] } {
+  const rows = parseCsv(text, mapping.delimiter).slice(mapping.skip_rows);
+  const header = mapping.has_header ? rows.shift() : null;
+  if (!rows.length) return { errors: ['The file has no statement rows'] };
+  const firstRow = mapping.skip_rows + (header ? 1 : 0) + 1;
+
+  const errors: string[] = [];
+  const resolveColumn = (column: string | null, label: string): number | null => {
+    if (!column) return null;
+    if (header) {
+      const index = header.findIndex(h => h.trim().toLowerCase() === column.trim().toLowerCase());
+      if (index === -1) errors.push(`Column "${column}" (${label}) is not in the header row`);
+      return index === -1 ? null : index;
+    }
+    const position = parseInt(column, 10);
+    if (!Number.isInteger(position) || position < 1) errors.push(`${label} must be a column number when the file has no header row`);
+    return position >= 1 ? position - 1 : null;
+  };
+  const columns = {
+    date: resolveColumn(mapping.date_column, 'date'),
+    amount: resolveColumn(mapping.amount_column, 'amount'),
+    credit: resolveColumn(mapping.credit_column, 'credit'),
+    debit: resolveColumn(mapping.debit_column, 'debit'),
+    reference: resolveColumn(mapping.reference_column, 'reference'),
+    description: resolveColumn(mapping.description_column, 'description'),
+    payer: resolveColumn(mapping.payer_column, 'payer')
+  };
+  if (errors.length) return { errors };
+
+  const cell = (row: string[], index: number | null) => (index === null ? '' : (row[index] ?? '').trim());
+  const lines: ParsedStatementLine[] = [];
+  rows.forEach((row, i) => {
+    if (errors.length >= MAX_PARSE_ERRORS) return;
+    const lineNumber = firstRow + i;
+
+    const transactionDate = parseStatementDate(cell(row, columns.date), mapping.date_format);
+    if (!transactionDate) {
+      errors.push(`Row ${lineNumber}: "${cell(row, columns.date)}" is not a ${mapping.date_format} date`);
+      return;
+    }
+
+    let amount: number | null | undefined;
+    if (columns.amount !== null) {
+      amount = parseStatementAmount(cell(row, columns.amount));
+    } else {
+      const credit = parseStatementAmount(cell(row, columns.credit));
+      const debit = parseStatementAmount(cell(row, columns.debit));
+      amount = credit === undefined || debit === undefined ? undefined : roundCents(Math.abs(credit || 0) - Math.abs(debit || 0));
+    }
+    if (amount === undefined || amount === null) {
+      errors.push(`Row ${lineNumber}: the amount could not be read`);
+      return;
+    }
+    if (amount === 0) return;
+
+    lines.push({
+      lineNumber,
+      transactionDate,
+      amount,
+      reference: cell(row, columns.reference).slice(0, 255) || null,
+      description: cell(row, columns.description) || null,
+      payer: cell(row, columns.payer).slice(0, 255) || null
+    });
+  });
+
+  if (errors.length) return { errors };
+  if (!lines.length) return { errors: ['The file has no transactions'] };
+  return { lines };
+}
+
+/**
+ * Fingerprints identify a transaction across overlapping downloads of the same account. Identical transactions
+ * on the same day (two equal deposits without references) are told apart by their order in the file.
+ */
+export function fingerprintLines(lines: ParsedStatementLine[], currency: string): string[] {
+  const seen = new Map<string, number>();
+  return lines.map(line => {
+    const key = [currency, line.transactionDate, line.amount.toFixed(2), normalizeRef(line.reference), (line.description || '').trim().toLowerCase()].join('|');
+    const occurrence = (seen.get(key) || 0) + 1;
+    seen.set(key, occurrence);
+    return crypto.createHash('sha256').update(`${key}|${occurrence}`).digest('hex');
+  });
+}
+
+/**
+ * Pair statement lines with recorded payments of the same currency and amount:
+ * first by a payment reference (receipt number, mobile-money reference) quoted on the line, then by date when
+ * exactly one payment within AUTO_MATCH_DAYS fits and no other line competes for it. Anything else is left
+ * for manual resolution.
+ */
+export function findMatches(lines: StatementLine[], payments: ReconciliationPayment[]): AutoMatch[] {
+  const available = new Map(payments.filter(p => p.statement_line_id === null).map(p => [p.id, p]));
+  const matches: AutoMatch[] = [];
+  const remaining: StatementLine[] = [];
+
+  for (const line of lines) {
+    const text = `${normalizeRef(line.reference)}|${normalizeRef(line.description)}`;
+    const candidates = [...available.values()].filter(p =>
+      p.currency === line.currency
+      && sameAmount(p.amount, line.amount)
+      && p.references.some(ref => ref.length >= MIN_REFERENCE_LENGTH && text.includes(ref))
+    );
+    if (candidates.length === 1) {
+      matches.push({ lineId: line.id, paymentId: candidates[0].id, method: 'reference' });
+      available.delete(candidates[0].id);
+    } else {
+      remaining.push(line);
+    }
+  }
+
+  const candidatesByLine = new Map<number, ReconciliationPayment[]>();
+  const claims = new Map<number, number>();
+  for (const line of remaining) {
+    const candidates = [...available.values()].filter(p =>
+      p.currency === line.currency
+      && sameAmount(p.amount, line.amount)
+      && daysBetween(p.payment_date, line.transaction_date) <= AUTO_MATCH_DAYS
+    );
+    candidatesByLine.set(line.id, candidates);
+    candidates.forEach(p => claims.set(p.id, (claims.get(p.id) || 0) + 1));
+  }
+  for (const line of remaining) {
+    const candidates = candidatesByLine.get(line.id) || [];
+    if (candidates.length === 1 && claims.get(candidates[0].id) === 1) {
+      matches.push({ lineId: line.id, paymentId: candidates[0].id, method: 'amount_date' });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Students who may have made an unrecorded deposit: their access number or phone number appears on the line,
+ * their name matches the payer, or their outstanding balance equals the amount.
+ */
+export function suggestStudents(line: StatementLine, students: StudentCandidate[], baseCurrency: string): StudentSuggestion[] {
+  const text = `${line.payer || ''} ${line.description || ''} ${line.reference || ''}`;
+  const refText = normalizeRef(text);
+  const digits = text.replace(/\D/g, '');
+  const words = new Set(text.toLowerCase().split(/[^a-z]+/).filter(Boolean));
+
+  const scored: Array<StudentSuggestion & { score: number }> = [];
+  for (const student of students) {
+    const reasons: string[] = [];
+    let score = 0;
+    const accessNumber = normalizeRef(student.access_number);
+    if (accessNumber.length >= 4 && refText.includes(accessNumber)) {
+      reasons.push('access number');
+      score += 3;
+    }
+    // Last nine digits so 0772..., 256772... and +256 772... all match
+    const phone = (student.phone || '').replace(/\D/g, '').slice(-9);
+    if (phone.length === 9 && digits.includes(phone)) {
+      reasons.push('phone number');
+      score += 3;
+    }
+    const nameParts = student.name.toLowerCase().split(/[^a-z]+/).filter(part => part.length >= 3);
+    const nameHits = nameParts.filter(part => words.has(part)).length;
+    if (nameHits && nameHits === nameParts.length) {
+      reasons.push('name');
+      score += 2;
+    } else if (nameHits) {
+      reasons.push('partial name');
+      score += 1;
+    }
+    if (student.balance !== null && student.balance > 0 && line.currency === baseCurrency && sameAmount(student.balance, line.amount)) {
+      reasons.push('outstanding balance');
+      score += 1;
+    }
+    if (score > 0) {
+      scored.push({ user_id: student.id, name: student.name, access_number: student.access_number, balance: student.balance, reasons, score });
+    }
+  }
+  return scored
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, MAX_SUGGESTIONS)
+    .map(({ score, ...suggestion }) => suggestion);
+}
+
+async function loadPayments(hostelId: number, from: string, to: string, methods: string[], db: Queryable): Promise<ReconciliationPayment[]> {
+  // Voided payments never reach the bank; refunds show up as money going out
+  const result = await db.query(
+    `SELECT p.id, p.user_id, u.name AS student_name, p.amount, p.currency, p.purpose, p.entry_type, p.payment_method,
+            p.receipt_number, p.payment_reference, to_char(p.created_at, 'YYYY-MM-DD') AS payment_date, p.created_at,
+            mmc.provider_reference, mmc.provider_transaction_id, sl.id AS statement_line_id
+     FROM payments p
+     JOIN users u ON u.id = p.user_id
+     LEFT JOIN mobile_money_collections mmc ON mmc.payment_id = p.id
+     LEFT JOIN statement_lines sl ON sl.payment_id = p.id
+     WHERE p.hostel_id = $1
+       AND p.entry_type IN ('payment', 'refund')
+       AND p.created_at::date BETWEEN $2::date AND $3::date
+       AND p.payment_method = ANY($4::text[])
+       AND NOT EXISTS (SELECT 1 FROM payments v WHERE v.adjusts_payment_id = p.id AND v.entry_type = 'void')
+     ORDER BY p.created_at ASC, p.id ASC`,
+    [hostelId, from, to, methods]
+  );
+  return result.rows.map(row => ({
+    id: row.id,
+    user_id: row.user_id,
+    student_name: row.student_name,
+    amount: parseFloat(row.amount),
+    currency: row.currency,
+    purpose: row.purpose,
+    entry_type: row.entry_type,
+    payment_method: row.payment_method,
+    receipt_number: row.receipt_number,
+    payment_date: row.payment_date,
+    created_at: row.created_at,
+    references: [row.receipt_number, row.payment_reference, row.provider_reference, row.provider_transaction_id].map(normalizeRef).filter(Boolean),
+    statement_line_id: row.statement_line_id
+  }));
+}
+
+async function loadStudents(hostelId: number, db: Queryable): Promise<StudentCandidate[]> {
+  const result = await db.query(
+    `SELECT u.id, u.name, sp.phone, sp.access_number,
+            i.total_amount - COALESCE((SELECT SUM(p.base_amount) FROM payments p WHERE p.user_id = u.id AND p.semester_id = i.semester_id), 0) AS balance
+     FROM users u
+     LEFT JOIN student_profiles sp ON sp.user_id = u.id
+     LEFT JOIN semesters s ON s.hostel_id = u.hostel_id AND s.is_current = true
+     LEFT JOIN invoices i ON i.user_id = u.id AND i.semester_id = s.id
+     WHERE u.hostel_id = $1 AND u.role = 'user'`,
+    [hostelId]
+  );
+  return result.rows.map(row => ({ ...row, balance: row.balance === null ? null : parseFloat(row.balance) }));
+}
+
+// Statement kind and currency of each of the hostel's imports
+async function loadImportSources(hostelId: number, db: Queryable): Promise<Map<number, { source_type: StatementSourceType; currency: string }>> {
+  const result = await db.query('SELECT id, source_type, currency FROM statement_imports WHERE hostel_id = $1', [hostelId]);
+  return new Map(result.rows.map(r => [r.id, { source_type: r.source_type, currency: r.currency }]));
+}
+
+function dateRange(lines: StatementLine[], padDays: number): { from: string; to: string } {
+  const dates = lines.map(l => l.transaction_date).sort();
+  return { from: shiftDate(dates[0], -padDays), to: shiftDate(dates[dates.length - 1], padDays) };
+}
+
+export class ReconciliationService {
+  /**
+   * Match the hostel's unmatched statement lines to payments recorded around their dates. Returns how many were matched.
+   * Runs on the caller's transaction when given one.
+   */
+  static async autoMatch(hostelId: number, db: Queryable = pool): Promise<number> {
+    const lines = await StatementLineModel.list(hostelId, { status: 'unmatched' }, db);
+    if (!lines.length) return 0;
+    const sources = await loadImportSources(hostelId, db);
+    let matched = 0;
+    // Bank lines are only matched to bank-type payments and mobile-money lines to mobile-money payments
+    for (const sourceType of Object.keys(SOURCE_PAYMENT_METHODS) as StatementSourceType[]) {
+      const sourceLines = lines.filter(l => sources.get(l.import_id)?.source_type === sourceType);
+      if (!sourceLines.length) continue;
+      const { from, to } = dateRange(sourceLines, SUGGESTION_DAYS);
+      const payments = await loadPayments(hostelId, from, to, SOURCE_PAYMENT_METHODS[sourceType], db);
+      const matches = findMatches(sourceLines, payments);
+      for (const match of matches) {
+        await StatementLineModel.markMatched(match.lineId, match.paymentId, match.method, null, db);
+      }
+      matched += matches.length;
+    }
+    return matched;
+  }
+
+  /**
+   * Parse and store a statement, skipping lines already imported from an earlier statement, then auto-match.
+   */
+  static async importStatement(
+    hostelId: number,
+    mapping: StatementMapping,
+    file: { name: string | null; text: string },
+    importedBy: number
+  ): Promise<ImportResult> {
+    const parsed = parseStatement(file.text, mapping);
+    if ('errors' in parsed) return { success: false, status: 400, message: 'The statement could not be read with this mapping', errors: parsed.errors };
+    const { lines } = parsed;
+    const fingerprints = fingerprintLines(lines, mapping.currency);
+    const dates = lines.map(l => l.transactionDate).sort();
+
+    const client = await pool.connect();
+    let importId: number;
+    let autoMatched: number;
+    try {
+      await client.query('BEGIN');
+      const created = await StatementImportModel.create({
+        hostel_id: hostelId,
+        mapping_id: mapping.id,
+        source_type: mapping.source_type,
+        currency: mapping.currency,
+        file_name: file.name,
+        period_start: dates[0],
+        period_end: dates[dates.length - 1],
+        imported_by: importedBy
+      }, client);
+      let inserted = 0;
+      for (let i = 0; i < lines.length; i++) {
+        const line = await StatementLineModel.insert({
+          import_id: created.id,
+          hostel_id: hostelId,
+          line_number: lines[i].lineNumber,
+          transaction_date: lines[i].transactionDate,
+          amount: lines[i].amount,
+          currency: mapping.currency,
+          reference: lines[i].reference,
+          description: lines[i].description,
+          payer: lines[i].payer,
+          fingerprint: fingerprints[i]
+        }, client);
+        if (line) inserted++;
+      }
+      await StatementImportModel.setCounts(created.id, inserted, lines.length - inserted, client);
+      autoMatched = await ReconciliationService.autoMatch(hostelId, client);
+      await client.query('COMMIT');
+      importId = created.id;
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+
+    const statementImport = await StatementImportModel.findById(importId);
+    return { success: true, statementImport: statementImport!, autoMatched };
+  }
+
+  /**
+   * Both sides of what is left to reconcile: statement lines with no payment (with suggested payments and students)
+   * and payments in the period that no statement line accounts for.
+   */
+  static async getUnmatched(
+    hostelId: number,
+    filters: { importId?: number | null; from?: string | null; to?: string | null }
+  ): Promise<{ lines: UnmatchedLine[]; payments: ReconciliationPayment[]; from: string | null; to: string | null }> {
+    const lines = await StatementLineModel.list(hostelId, { ...filters, status: 'unmatched' });
+
+    let from = filters.from || null;
+    let to = filters.to || null;
+    if ((!from || !to) && lines.length) {
+      const range = dateRange(lines, 0);
+      from = from || range.from;
+      to = to || range.to;
+    }
+
+    const sources = await loadImportSources(hostelId, pool);
+    const methodsFor = (sourceType: StatementSourceType | undefined) => sourceType ? SOURCE_PAYMENT_METHODS[sourceType] : [];
+    // The statements only cover the payment methods and currencies they were downloaded for
+    const covered = new Set(Array.from(sources.values()).flatMap(source => methodsFor(source.source_type).map(method => `${method}:${source.currency}`)));
+    const allMethods = Array.from(new Set(Object.values(SOURCE_PAYMENT_METHODS).flat()));
+
+    let unmatchedPayments: ReconciliationPayment[] = [];
+    let suggestionPool: ReconciliationPayment[] = [];
+    if (from && to) {
+      unmatchedPayments = (await loadPayments(hostelId, from, to, allMethods, pool))
+        .filter(p => p.statement_line_id === null && covered.has(`${p.payment_method}:${p.currency}`));
+      suggestionPool = lines.length
+        ? (await loadPayments(hostelId, shiftDate(from, -SUGGESTION_DAYS), shiftDate(to, SUGGESTION_DAYS), allMethods, pool)).filter(p => p.statement_line_id === null)
+        : [];
+    }
+
+    const students = lines.length ? await loadStudents(hostelId, pool) : [];
+    const baseCurrency = await CurrencyService.getBaseCurrency(hostelId);
+    const withSuggestions: UnmatchedLine[] = lines.map(line => ({
+      ...line,
+      suggested_payments: suggestionPool
+        .filter(p => methodsFor(sources.get(line.import_id)?.source_type).includes(p.payment_method || ''))
+        .filter(p => p.currency === line.currency && sameAmount(p.amount, line.amount) && daysBetween(p.payment_date, line.transaction_date) <= SUGGESTION_DAYS)
+        .sort((a, b) => daysBetween(a.payment_date, line.transaction_date) - daysBetween(b.payment_date, line.transaction_date))
+        .slice(0, MAX_SUGGESTIONS)
+        .map(p => ({ id: p.id, user_id: p.user_id, student_name: p.student_name, amount: p.amount, currency: p.currency, receipt_number: p.receipt_number, payment_date: p.payment_date })),
+      suggested_students: suggestStudents(line, students, baseCurrency)
+    }));
+
+    return { lines: withSuggestions, payments: unmatchedPayments, from, to };
+  }
+
+  static async matchLine(lineId: number, paymentId: number, resolvedBy: number): Promise<ReconcileResult<{ line: StatementLine; before: StatementLine }>> {
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const line = await StatementLineModel.lockById(lineId, client);
+      if (!line) {
+        await client.query('ROLLBACK');
+        return { success: false, status: 404, message: 'Statement line not found' };
+      }
+      if (line.status !== 'unmatched') {
+        await client.query('ROLLBACK');
+        return { success: false, status: 409, message: `The line is already ${line.status}; unmatch it first` };
+      }
+
+      const paymentRes = await client.query(
+        `SELECT p.id, p.hostel_id, p.amount, p.currency, p.entry_type, sl.id AS statement_line_id,
+                EXISTS (SELECT 1 FROM payments v WHERE v.adjusts_payment_id = p.id AND v.entry_type = 'void') AS voided
+         FROM payments p
+         LEFT JOIN statement_lines sl ON sl.payment_id = p.id
+         WHERE p.id = $1`,
+        [paymentId]
+      );
+      const payment = paymentRes.rows[0];
+      let failure: { status: number; message: string } | null = null;
+      if (!payment || payment.hostel_id !== line.hostel_id || !['payment', 'refund'].includes(payment.entry_type)) {
+        failure = { status: 404, message: 'Payment not found' };
+      } else if (payment.voided) {
+        failure = { status: 400, message: 'The payment has been voided' };
+      } else if (payment.statement_line_id) {
+        failure = { status: 409, message: 'The payment is already matched to another statement line' };
+      } else if (payment.currency !== line.currency || !sameAmount(parseFloat(payment.amount), line.amount)) {
+        failure = { status: 400, message: `The payment (${payment.currency} ${parseFloat(payment.amount)}) does not equal the statement line (${line.currency} ${line.amount})` };
+      }
+      if (failure) {
+        await client.query('ROLLBACK');
+        return { success: false, ...failure };
+      }
+
+      const matched = await StatementLineModel.markMatched(line.id, paymentId, 'manual', resolvedBy, client);
+      await client.query('COMMIT');
+      return { success: true, line: matched, before: line };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+
+  static async ignoreLine(lineId: number, reason: string, resolvedBy: number): Promise<ReconcileResult<{ line: StatementLine; before: StatementLine }>> {
+    const line = await StatementLineModel.findById(lineId);
+    if (!line) return { success: false, status: 404, message: 'Statement line not found' };
+    if (line.status !== 'unmatched') return { success: false, status: 409, message: `The line is already ${line.status}; unmatch it first` };
+    const ignored = await StatementLineModel.markIgnored(line.id, reason, resolvedBy);
+    return { success: true, line: ignored, before: line };
+  }
+
+  static async unmatchLine(lineId: number): Promise<ReconcileResult<{ line: StatementLine; before: StatementLine }>> {
+    const line = await StatementLineModel.findById(lineId);
+    if (!line) return { success: false, status: 404, message: 'Statement line not found' };
+    if (line.status === 'unmatched') return { success: false, status: 409, message: 'The line is not matched or ignored' };
+    const reset = await StatementLineModel.reset(line.id);
+    return { success: true, line: reset, before: line };
+  }
+
+  /**
+   * Record an unrecorded deposit as a payment by the student in the current semester and match the line to it.
+   * The caller sends the receipts once this returns.
+   */
+  static async recordPayment(
+    lineId: number,
+    input: { userId: number; purpose: string | null },
+    recordedBy: number
+  ): Promise<ReconcileResult<{ line: StatementLine; recorded: RecordedPayment; student: { name: string; email: string } }>> {
+    const existing = await StatementLineModel.findById(lineId);
+    if (!existing) return { success: false, status: 404, message: 'Statement line not found' };
+    if (existing.amount <= 0) return { success: false, status: 400, message: 'Only money received can be recorded as a payment' };
+
+    const studentRes = await pool.query("SELECT id, name, email FROM users WHERE id = $1 AND hostel_id = $2 AND role = 'user'", [input.userId, existing.hostel_id]);
+    if (!studentRes.rowCount) return { success: false, status: 404, message: 'Student not found in this hostel' };
+    const semesterCheck = await requireActiveSemester(recordedBy, existing.hostel_id);
+    if (!semesterCheck.success || !semesterCheck.semesterId) return { success: false, status: 400, message: semesterCheck.message || 'No active semester' };
+    if (!(await CurrencyService.convertToBase(existing.hostel_id, existing.amount, existing.currency, new Date()))) {
+      return { success: false, status: 400, message: `No exchange rate from ${existing.currency} to the hostel's base currency` };
+    }
+    const statementImport = await StatementImportModel.findById(existing.import_id);
+
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      const line = await StatementLineModel.lockById(lineId, client);
+      if (!line || line.status !== 'unmatched') {
+        await client.query('ROLLBACK');
+        return { success: false, status: 409, message: 'The line has already been resolved' };
+      }
+      const recorded = await PaymentService.record({
+        hostelId: line.hostel_id,
+        userId: input.userId,
+        semesterId: semesterCheck.semesterId,
+        amount: line.amount,
+        currency: line.currency,
+        purpose: input.purpose,
+        paymentMethod: statementImport?.source_type === 'mobile_money' ? 'mobile_money' : 'bank_transfer',
+        paymentReference: line.reference ? line.reference.slice(0, 100) : null,
+        recordedBy
+      }, client);
+      const matched = await StatementLineModel.markMatched(line.id, recorded.payment.id, 'manual', recordedBy, client);
+      await client.query('COMMIT');
+      return { success: true, line: matched, recorded, student: studentRes.rows[0] };
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw error;
+    } finally {
+      client.release();
+    }
+  }
+}
@@ -0,0 +1,80 @@
+import crypto from 'crypto';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { SessionModel, UserSession } from '../models/Session';
+
+// Access tokens are short-lived; the refresh token (rotated on every use) keeps the session going
+const ACCESS_TOKEN_TTL_SECONDS = 15 * 60;
+const REFRESH_TOKEN_TTL_DAYS = 30;
+
+type RefreshResult =
+  | { success: true; session: UserSession; refreshToken: string; expiresIn: number }
+  | { success: false; message: string };
+
+export class SessionService {
+  static hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+
+  // pwd_expired limits the token to changing the password (see sessionMiddleware)
+  static signAccessToken(user: { id: number; role: string }, hostelId: number | null, sessionId: number, passwordExpired: boolean = false): string {
+    return jwt.sign(
+      { userId: user.id, role: user.role, hostel_id: hostelId || null, sid: sessionId, ...(passwordExpired ? { pwd_expired: true } : {}) },
+      process.env.JWT_SECRET || 'fallback_secret',
+      { expiresIn: ACCESS_TOKEN_TTL_SECONDS }
+    );
+  }
+
+  /**
+   * Open a new session for a successful login and return its first token pair
+   */
+  static async createSession(user: { id: number; role: string }, hostelId: number | null, req: express.Request, passwordExpired: boolean = false) {
+    const refreshToken = crypto.randomBytes(48).toString('base64url');
+    const expiresAt = new Date(Date.now() + REFRESH_TOKEN_TTL_DAYS * 24 * 60 * 60 * 1000);
+    const session = await SessionModel.create({
+      user_id: user.id,
+      refresh_token_hash: this.hashToken(refreshToken),
+      ip_address: req.ip,
+      user_agent: req.headers['user-agent'] || null,
+      expires_at: expiresAt
+    });
+
+    return {
+      sessionId: session.id,
+      accessToken: this.signAccessToken(user, hostelId, session.id, passwordExpired),
+      refreshToken,
+      expiresIn: ACCESS_TOKEN_TTL_SECONDS
+    };
+  }
+
+  /**
+   * Exchange a refresh token for a new one. Presenting an already-rotated token means it was
+   * copied somewhere, so the whole session is revoked.
+   */
+  static async rotateRefreshToken(refreshToken: string, req: express.Request): Promise<RefreshResult> {
+    const hash = this.hashToken(refreshToken);
+    const session = await SessionModel.findByRefreshTokenHash(hash);
+
+    if (!session) {
+      const reused = await SessionModel.findByPreviousRefreshTokenHash(hash);
+      if (reused) await SessionModel.revoke(reused.id, 'refresh_token_reuse');
+      return { success: false, message: 'Invalid refresh token' };
+    }
+    if (session.revoked_at || new Date(session.expires_at) <= new Date()) {
+      return { success: false, message: 'Session has expired. Please sign in again.' };
+    }
+
+    const nextToken = crypto.randomBytes(48).toString('base64url');
+    const rotated = await SessionModel.rotate(session.id, hash, this.hashToken(nextToken), req.ip, req.headers['user-agent'] || null);
+    if (!rotated) return { success: false, message: 'Invalid refresh token' };
+
+    return { success: true, session, refreshToken: nextToken, expiresIn: ACCESS_TOKEN_TTL_SECONDS };
+  }
+
+  static async revokeByRefreshToken(refreshToken: string, reason: string): Promise<UserSession | null> {
+    const session = await SessionModel.findByRefreshTokenHash(this.hashToken(refreshToken));
+    if (!session) return null;
+    await SessionModel.revoke(session.id, reason);
+    return session;
+  }
+}
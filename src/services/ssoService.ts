@@ -0,0 +1,184 @@
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import fetch from 'node-fetch';
+import { AuthSettingsModel, SSOProvider } from '../models/AuthSettings';
+import { UserModel, User } from '../models/User';
+
+export const SSO_LOGIN_STATE_TTL_MINUTES = 10;
+
+// Roles an SSO provider may assign to users it auto-creates; admin roles are never provisioned this way
+const PROVISIONABLE_ROLES: Array<User['role']> = ['user', 'tenant'];
+
+// Roles whose existing accounts a provider may claim by verified email; super admins only ever sign in through an explicit link
+const EMAIL_LINKABLE_ROLES: Array<User['role']> = ['user', 'tenant', 'custodian', 'hostel_admin'];
+
+/**
+ * Per-provider rules, read from sso_providers.additional_config:
+ * - auto_create_users: create a users row when no account matches the email (default false)
+ * - link_roles: roles of existing accounts that a verified email may be linked to (default user / tenant; never super_admin)
+ * - allowed_domains: restrict logins to these email domains
+ * - default_role / default_hostel_id: applied to auto-created users
+ * - id_claim / email_claim / name_claim: user-info field names (default sub / email / name)
+ */
+interface SSOProviderRules {
+  auto_create_users?: boolean;
+  link_roles?: Array<User['role']>;
+  allowed_domains?: string[];
+  default_role?: User['role'];
+  default_hostel_id?: number;
+  id_claim?: string;
+  email_claim?: string;
+  name_claim?: string;
+}
+
+type SSOResult<T> = ({ success: true } & T) | { success: false; status: number; message: string };
+
+export class SSOService {
+  /**
+   * Build the provider authorization URL and persist state + PKCE verifier for the callback
+   */
+  static async startLogin(providerId: number): Promise<SSOResult<{ authorizationUrl: string; state: string }>> {
+    const provider = await AuthSettingsModel.getSSOProviderById(providerId);
+    const configError = this.checkProvider(provider);
+    if (configError) return configError;
+
+    const state = crypto.randomBytes(32).toString('base64url');
+    const codeVerifier = crypto.randomBytes(48).toString('base64url');
+    const codeChallenge = crypto.createHash('sha256').update(codeVerifier).digest('base64url');
+
+    await AuthSettingsModel.purgeExpiredSSOLoginStates();
+    await AuthSettingsModel.createSSOLoginState(state, providerId, codeVerifier, SSO_LOGIN_STATE_TTL_MINUTES);
+
+    const url = new URL(provider!.authorization_url!);
+    url.searchParams.set('response_type', 'code');
+    url.searchParams.set('client_id', provider!.client_id!);
+    url.searchParams.set('redirect_uri', provider!.redirect_uri!);
+    url.searchParams.set('scope', provider!.scopes || 'openid email profile');
+    url.searchParams.set('state', state);
+    url.searchParams.set('code_challenge', codeChallenge);
+    url.searchParams.set('code_challenge_method', 'S256');
+
+    return { success: true, authorizationUrl: url.toString(), state };
+  }
+
+  /**
+   * Exchange the authorization code, fetch user info and resolve it to a local user
+   */
+  static async completeLogin(providerId: number, state: string, code: string): Promise<SSOResult<{ user: User }>> {
+    const loginState = await AuthSettingsModel.consumeSSOLoginState(state);
+    if (!loginState || loginState.provider_id !== providerId) {
+      return { success: false, status: 400, message: 'Invalid or expired SSO state' };
+    }
+
+    const provider = await AuthSettingsModel.getSSOProviderById(providerId);
+    const configError = this.checkProvider(provider);
+    if (configError) return configError;
+
+    const tokenRes = await fetch(provider!.token_url!, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded', Accept: 'application/json' },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: provider!.redirect_uri!,
+        client_id: provider!.client_id!,
+        client_secret: provider!.client_secret || '',
+        code_verifier: loginState.code_verifier
+      }).toString()
+    });
+    const tokenData: any = await tokenRes.json().catch(() => ({}));
+    if (!tokenRes.ok || !tokenData.access_token) {
+      console.error('SSO token exchange failed:', tokenRes.status, tokenData.error || tokenData);
+      return { success: false, status: 502, message: 'SSO token exchange failed' };
+    }
+
+    const infoRes = await fetch(provider!.user_info_url!, {
+      headers: { Authorization: `Bearer ${tokenData.access_token}`, Accept: 'application/json' }
+    });
+    const info: any = await infoRes.json().catch(() => null);
+    if (!infoRes.ok || !info) {
+      console.error('SSO user info request failed:', infoRes.status);
+      return { success: false, status: 502, message: 'Could not fetch SSO user info' };
+    }
+
+    return this.resolveUser(provider!, info);
+  }
+
+  private static checkProvider(provider: SSOProvider | null): { success: false; status: number; message: string } | null {
+    if (!provider || !provider.is_enabled) {
+      return { success: false, status: 404, message: 'SSO provider not found or disabled' };
+    }
+    if (provider.provider_type !== 'oauth2') {
+      return { success: false, status: 400, message: 'SSO provider does not support the authorization-code flow' };
+    }
+    if (!provider.client_id || !provider.authorization_url || !provider.token_url || !provider.user_info_url || !provider.redirect_uri) {
+      return { success: false, status: 500, message: 'SSO provider is not fully configured' };
+    }
+    return null;
+  }
+
+  private static getRules(provider: SSOProvider): SSOProviderRules {
+    const config = provider.additional_config;
+    if (!config) return {};
+    if (typeof config === 'string') {
+      try { return JSON.parse(config); } catch { return {}; }
+    }
+    return config;
+  }
+
+  /**
+   * Map user info to a users row: linked account first, then a verified email match on a role the provider
+   * may link, then auto-create if allowed. Anything else needs an existing user_sso_accounts link.
+   */
+  private static async resolveUser(provider: SSOProvider, info: any): Promise<SSOResult<{ user: User }>> {
+    const rules = this.getRules(provider);
+    const externalId = info[rules.id_claim || 'sub'];
+    const email = String(info[rules.email_claim || 'email'] || '').trim().toLowerCase();
+    const name = info[rules.name_claim || 'name'] || email;
+
+    if (!externalId || !email) {
+      return { success: false, status: 400, message: 'SSO user info is missing an id or email' };
+    }
+    const domain = email.split('@')[1];
+    if (rules.allowed_domains?.length && !rules.allowed_domains.map(d => d.toLowerCase()).includes(domain)) {
+      return { success: false, status: 403, message: 'Email domain is not allowed for this SSO provider' };
+    }
+
+    let user: User | null = null;
+    const account = await AuthSettingsModel.findUserSSOAccount(provider.id, String(externalId));
+    if (account) user = await UserModel.findById(account.user_id);
+
+    if (!user) {
+      // Without a link the email is the only proof of identity, so the provider must vouch for it explicitly
+      if (info.email_verified !== true) {
+        return { success: false, status: 403, message: 'SSO email address is not verified' };
+      }
+      user = await UserModel.findByEmail(email);
+      if (user) {
+        const linkRoles = (rules.link_roles || PROVISIONABLE_ROLES).filter(r => EMAIL_LINKABLE_ROLES.includes(r));
+        if (!linkRoles.includes(user.role)) {
+          return { success: false, status: 403, message: 'This account has not been linked to this SSO provider. Please contact your administrator.' };
+        }
+      }
+    }
+
+    if (!user) {
+      if (!rules.auto_create_users) {
+        return { success: false, status: 403, message: 'No account exists for this email. Please contact your administrator.' };
+      }
+      const role = rules.default_role || 'user';
+      if (!PROVISIONABLE_ROLES.includes(role)) {
+        return { success: false, status: 500, message: 'SSO provider default_role is not allowed' };
+      }
+      // SSO users never sign in with a password, so store an unguessable one
+      const password = await bcrypt.hash(crypto.randomBytes(32).toString('hex'), 10);
+      user = await UserModel.create({ email, name, password, role });
+      if (rules.default_hostel_id) {
+        user = (await UserModel.update(user.id, { hostel_id: rules.default_hostel_id })) || user;
+      }
+    }
+
+    await AuthSettingsModel.linkUserSSOAccount(user.id, provider.id, String(externalId), email, name, info.picture);
+    return { success: true, user };
+  }
+}
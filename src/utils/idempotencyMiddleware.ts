@@ -0,0 +1,99 @@
+import express from 'express';
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { ApiKey } from '../models/ApiKey';
+import { IdempotencyKeyModel } from '../models/IdempotencyKey';
+
+const MAX_KEY_LENGTH = 255;
+
+function getTtlHours(): number {
+  const hours = parseInt(process.env.IDEMPOTENCY_KEY_TTL_HOURS || '24', 10);
+  return Number.isInteger(hours) && hours > 0 ? hours : 24;
+}
+
+// Same JSON for the same data whatever the key order the client sent
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    return `{${Object.keys(value).sort().map(k => `${JSON.stringify(k)}:${canonicalJson(value[k])}`).join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Keys are per caller so two custodians can never collide; requirePermission has already checked the credentials
+function getCaller(req: express.Request, res: express.Response): string | null {
+  if (res.locals.apiKey) return `api_key:${(res.locals.apiKey as ApiKey).id}`;
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) return null;
+  try {
+    const decoded: any = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret');
+    return decoded?.userId ? `user:${decoded.userId}` : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Honour an Idempotency-Key header on a POST: the first request runs and its response is stored; a retry with the
+ * same key and body gets that response back (Idempotent-Replayed: true) without running the route again.
+ * Reusing a key with a different body is rejected. Server errors free the key so the client can retry.
+ * Place after requirePermission. Requests without the header run as before.
+ */
+export function idempotent() {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    const header = req.headers['idempotency-key'];
+    if (header === undefined) return next();
+    const key = typeof header === 'string' ? header.trim() : '';
+    if (!key || key.length > MAX_KEY_LENGTH) {
+      return res.status(400).json({ success: false, message: `Idempotency-Key must be 1-${MAX_KEY_LENGTH} characters`, code: 'IDEMPOTENCY_KEY_INVALID' });
+    }
+    const caller = getCaller(req, res);
+    if (!caller) return next();
+
+    const path = req.originalUrl.split('?')[0];
+    const requestHash = crypto.createHash('sha256').update(`${req.method} ${path}\n${canonicalJson(req.body)}`).digest('hex');
+
+    try {
+      const reserved = await IdempotencyKeyModel.reserve({ key, caller, method: req.method, path, requestHash, ttlHours: getTtlHours() });
+      if (!reserved) {
+        const existing = await IdempotencyKeyModel.find(key, caller);
+        if (!existing) {
+          return res.status(409).json({ success: false, message: 'Idempotency-Key is being released; retry the request', code: 'IDEMPOTENCY_KEY_IN_USE' });
+        }
+        if (existing.request_hash !== requestHash) {
+          return res.status(422).json({
+            success: false,
+            message: 'Idempotency-Key was already used for a different request',
+            code: 'IDEMPOTENCY_KEY_MISMATCH'
+          });
+        }
+        if (existing.status !== 'completed') {
+          return res.status(409).json({ success: false, message: 'A request with this Idempotency-Key is still being processed', code: 'IDEMPOTENCY_KEY_IN_USE' });
+        }
+        res.setHeader('Idempotent-Replayed', 'true');
+        return res.status(existing.response_status || 200).json(existing.response_body);
+      }
+
+      let body: any;
+      const json = res.json.bind(res);
+      res.json = (payload: any) => {
+        body = payload;
+        return json(payload);
+      };
+      res.on('finish', () => {
+        const stored = res.statusCode < 500 && body !== undefined
+          ? IdempotencyKeyModel.complete(reserved.id, res.statusCode, body)
+          : IdempotencyKeyModel.release(reserved.id);
+        stored.catch(err => console.error('Idempotency key store error:', err));
+      });
+      // Client went away before a response was written
+      res.on('close', () => {
+        if (!res.writableFinished) IdempotencyKeyModel.release(reserved.id).catch(err => console.error('Idempotency key release error:', err));
+      });
+      next();
+    } catch (error) {
+      console.error('Idempotency key error:', error);
+      res.status(500).json({ success: false, message: 'Internal server error' });
+    }
+  };
+}
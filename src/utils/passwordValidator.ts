@@ -1,4 +1,6 @@
+import bcrypt from 'bcryptjs';
 import { AuthSettingsModel, PasswordRule } from '../models/AuthSettings';
+import { UserModel } from '../models/User';
 
 export interface PasswordValidationResult {
   isValid: boolean;
@@ -97,6 +99,55 @@ export class PasswordValidator {
     };
   }
 
+  /**
+   * Full check for a password a user is about to set: complexity rules plus reuse of the
+   * current password or the last history_count passwords
+   */
+  static async validateNewPassword(
+    userId: number,
+    password: string,
+    userInfo: { name?: string; email?: string },
+    currentHash?: string,
+    ruleName: string = 'default'
+  ): Promise<PasswordValidationResult> {
+    const result = await this.validatePassword(password, userInfo, ruleName);
+    const rules = await AuthSettingsModel.getPasswordRule(ruleName);
+
+    // With the rule set disabled, keep the historic minimum rather than accepting anything
+    if ((!rules || !rules.is_enabled) && password.length < 8) {
+      result.errors.push('Password must be at least 8 characters long');
+    }
+
+    if (rules && rules.is_enabled && rules.history_count > 0) {
+      const previous = await AuthSettingsModel.getPasswordHistory(userId, Math.max(rules.history_count - 1, 0));
+      const hashes = currentHash ? [currentHash, ...previous] : previous;
+      for (const hash of hashes.slice(0, rules.history_count)) {
+        if (await bcrypt.compare(password, hash)) {
+          result.errors.push(`Password cannot be the same as any of your last ${rules.history_count} passwords`);
+          break;
+        }
+      }
+    }
+
+    result.isValid = result.errors.length === 0;
+    return result;
+  }
+
+  /**
+   * Whether the password is older than max_age_days. Accounts linked to SSO/LDAP sign in
+   * through the directory, so their unused local password never expires.
+   */
+  static async isPasswordExpired(userId: number, ruleName: string = 'default'): Promise<boolean> {
+    const rules = await AuthSettingsModel.getPasswordRule(ruleName);
+    if (!rules || !rules.is_enabled || !rules.max_age_days || rules.max_age_days <= 0) return false;
+
+    const status = await UserModel.getPasswordStatus(userId);
+    if (!status || status.sso_linked || !status.password_changed_at) return false;
+
+    const ageMs = Date.now() - new Date(status.password_changed_at).getTime();
+    return ageMs > rules.max_age_days * 24 * 60 * 60 * 1000;
+  }
+
   static getPasswordStrength(score: number): { level: string; color: string } {
     if (score >= 80) return { level: 'Very Strong', color: 'green' };
     if (score >= 60) return { level: 'Strong', color: 'blue' };
@@ -0,0 +1,135 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import pool from '../config/database';
+import { UserModel, User } from '../models/User';
+import { ApiKey } from '../models/ApiKey';
+import { PermissionService } from '../services/permissionService';
+import { ApiKeyService, ApiKeyScope } from '../services/apiKeyService';
+
+interface PermissionOptions {
+  // Route param holding a user id; the caller may always act on their own account
+  allowSelfParam?: string;
+  // Scope an X-API-Key must carry to call the route; routes without one do not accept API keys
+  apiKeyScope?: ApiKeyScope;
+}
+
+// For API key calls the acting user is whoever issued the key (used for audit trails and "recorded by" fields)
+export type RequestCaller =
+  | { user: User; apiKey: null; actorUserId: number; actorName: string }
+  | { user: null; apiKey: ApiKey; actorUserId: number | null; actorName: string };
+
+function getApiKeyHeader(req: express.Request): string | null {
+  const header = req.headers['x-api-key'];
+  return typeof header === 'string' && header ? header : null;
+}
+
+async function authorizeApiKey(rawKey: string, scope: ApiKeyScope | undefined, req: express.Request, res: express.Response, next: express.NextFunction) {
+  if (!scope) return res.status(401).json({ success: false, message: 'API keys are not accepted on this route' });
+
+  const auth = await ApiKeyService.authenticate(rawKey);
+  if (!auth.success) return res.status(auth.status).json({ success: false, message: auth.message });
+  const { apiKey } = auth;
+
+  // Logged once the response is sent so the status code is known
+  res.on('finish', () => ApiKeyService.recordUsage(apiKey, req.method, req.originalUrl.split('?')[0], res.statusCode, req.ip || null));
+
+  if (!apiKey.scopes.includes(scope)) {
+    return res.status(403).json({ success: false, message: `API key is missing the ${scope} scope`, code: 'API_KEY_SCOPE', scope });
+  }
+  res.locals.apiKey = apiKey;
+  next();
+}
+
+/**
+ * Route guard: the caller must hold the given permission through their built-in or custom role,
+ * or present an X-API-Key with the route's apiKeyScope.
+ * Routes still decode the token themselves for hostel scoping; this only decides whether the action is allowed.
+ */
+export function requirePermission(permission: string, options: PermissionOptions = {}) {
+  return async (req: express.Request, res: express.Response, next: express.NextFunction) => {
+    try {
+      const rawKey = getApiKeyHeader(req);
+      if (rawKey) return await authorizeApiKey(rawKey, options.apiKeyScope, req, res, next);
+    } catch (error) {
+      console.error('API key check error:', error);
+      return res.status(500).json({ success: false, message: 'Internal server error' });
+    }
+
+    const token = req.headers.authorization?.replace('Bearer ', '');
+    if (!token) return res.status(401).json({ success: false, message: 'No token provided' });
+
+    let decoded: any;
+    try {
+      decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret');
+    } catch {
+      return res.status(401).json({ success: false, message: 'Invalid token' });
+    }
+
+    try {
+      const currentUser = decoded?.userId ? await UserModel.findById(decoded.userId) : null;
+      if (!currentUser) return res.status(401).json({ success: false, message: 'Unauthorized' });
+
+      if (options.allowSelfParam && Number(req.params[options.allowSelfParam]) === currentUser.id) return next();
+
+      if (!(await PermissionService.hasPermission(currentUser, permission))) {
+        return res.status(403).json({ success: false, message: 'Forbidden: missing permission', code: 'PERMISSION_DENIED', permission });
+      }
+      next();
+    } catch (error) {
+      console.error('Permission check error:', error);
+      res.status(500).json({ success: false, message: 'Internal server error' });
+    }
+  };
+}
+
+/**
+ * The caller of a route that accepts API keys: the key requirePermission accepted, or the user behind the Bearer token.
+ * Sends 401 and returns null when there is neither.
+ */
+export async function getRequestCaller(req: express.Request, res: express.Response): Promise<RequestCaller | null> {
+  if (res.locals.apiKey) {
+    const apiKey = res.locals.apiKey as ApiKey;
+    return { user: null, apiKey, actorUserId: apiKey.created_by, actorName: `API key "${apiKey.name}"` };
+  }
+
+  const rawAuth = req.headers.authorization || '';
+  const token = rawAuth.startsWith('Bearer ') ? rawAuth.replace('Bearer ', '') : '';
+  if (!token) {
+    res.status(401).json({ success: false, message: 'No token provided' });
+    return null;
+  }
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret');
+  } catch {
+    res.status(401).json({ success: false, message: 'Invalid token' });
+    return null;
+  }
+  const user = await UserModel.findById(decoded.userId);
+  if (!user) {
+    res.status(401).json({ success: false, message: 'Unauthorized' });
+    return null;
+  }
+  return { user, apiKey: null, actorUserId: user.id, actorName: user.name };
+}
+
+// The user behind the Bearer token; call only behind requirePermission, which has already verified it
+export async function getCurrentUser(req: express.Request): Promise<User | null> {
+  const token = req.headers.authorization?.replace('Bearer ', '') || '';
+  const decoded: any = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret');
+  return UserModel.findById(decoded.userId);
+}
+
+// Hostel the user works in; super admins name it with body.hostel_id or ?hostel_id
+export async function resolveTargetHostelId(req: express.Request, user: User): Promise<number | null> {
+  if (user.role === 'super_admin') {
+    const raw = (req.body as any)?.hostel_id || req.query.hostel_id;
+    return raw ? Number(raw) || null : null;
+  }
+  if (user.role === 'hostel_admin') return user.hostel_id || null;
+  if (user.role === 'custodian') {
+    const r = await pool.query('SELECT hostel_id FROM custodians WHERE user_id = $1', [user.id]);
+    return r.rows[0]?.hostel_id || user.hostel_id || null;
+  }
+  return null;
+}
@@ -0,0 +1,88 @@
+/**
+ * Permission catalogue. Keys are stable identifiers stored in role_permissions.
+ * 'platform' permissions act across hostels and can only be granted to built-in roles by a super admin;
+ * 'hostel' permissions act inside the caller's own hostel and may also be granted to hostel-defined roles.
+ */
+export type PermissionScope = 'platform' | 'hostel';
+
+export interface PermissionDefinition {
+  description: string;
+  scope: PermissionScope;
+}
+
+export const PERMISSIONS: Record<string, PermissionDefinition> = {
+  'hostels.view': { description: 'View hostels and hostel statistics', scope: 'platform' },
+  'hostels.manage': { description: 'Create, update and delete hostels', scope: 'platform' },
+  'hostels.resend_credentials': { description: 'Resend hostel admin credentials', scope: 'platform' },
+  'universities.manage': { description: 'Create, update and delete universities', scope: 'platform' },
+  'analytics.view_platform': { description: 'View platform-wide analytics', scope: 'platform' },
+  'auth_settings.manage': { description: 'Manage authentication settings, password rules, 2FA and SSO providers', scope: 'platform' },
+  'subscriptions.view': { description: 'View hostel subscriptions', scope: 'platform' },
+  'subscriptions.manage': { description: 'Manage subscription plans and hostel subscriptions', scope: 'platform' },
+  'semesters.manage_global': { description: 'Manage global semesters, semester modes, transfers and deletions', scope: 'platform' },
+  'users.manage_sessions': { description: "View and revoke any user's sessions", scope: 'platform' },
+  'users.unlock': { description: 'Lift account and IP lockouts', scope: 'platform' },
+  'exchange_rates.manage': { description: 'Maintain exchange rates used to convert payments and expenses', scope: 'platform' },
+
+  'analytics.view_hostel': { description: 'View hostel analytics', scope: 'hostel' },
+  'custodians.view': { description: 'View custodians', scope: 'hostel' },
+  'custodians.manage': { description: 'Create, update and delete custodians', scope: 'hostel' },
+  'custodians.resend_credentials': { description: 'Resend custodian credentials', scope: 'hostel' },
+  'students.view': { description: 'View students', scope: 'hostel' },
+  'students.create': { description: 'Register students', scope: 'hostel' },
+  'students.update': { description: 'Update student details and room assignments', scope: 'hostel' },
+  'students.delete': { description: 'Delete students', scope: 'hostel' },
+  'students.notify': { description: 'Send notifications to students', scope: 'hostel' },
+  'payments.view': { description: 'View payments and balances', scope: 'hostel' },
+  'payments.record': { description: 'Record payments', scope: 'hostel' },
+  'payments.adjust': { description: 'Void, refund or correct recorded payments', scope: 'hostel' },
+  'payments.approve_adjustments': { description: 'Approve payment voids, refunds and corrections', scope: 'hostel' },
+  'rooms.view': { description: 'View rooms and availability', scope: 'hostel' },
+  'rooms.manage': { description: 'Create, update and delete rooms', scope: 'hostel' },
+  'rooms.update_price': { description: 'Change room prices', scope: 'hostel' },
+  'inventory.view': { description: 'View inventory', scope: 'hostel' },
+  'inventory.manage': { description: 'Add, update and remove inventory items', scope: 'hostel' },
+  'expenses.view': { description: 'View expenses', scope: 'hostel' },
+  'expenses.record': { description: 'Record expenses', scope: 'hostel' },
+  'expenses.delete': { description: 'Delete expenses', scope: 'hostel' },
+  'expenses.approve': { description: 'Approve or reject expenses', scope: 'hostel' },
+  'semesters.view': { description: 'View semesters and enrollments', scope: 'hostel' },
+  'semesters.manage': { description: 'Create semesters, change their status and roll them over', scope: 'hostel' },
+  'enrollments.manage': { description: 'Enroll students and change enrollment status', scope: 'hostel' },
+  'audit_logs.view': { description: 'View audit logs', scope: 'hostel' },
+  'roles.manage': { description: 'Manage roles and their permissions', scope: 'hostel' },
+  'api_keys.manage': { description: 'Create and revoke API keys for hostel integrations', scope: 'hostel' },
+  'invoices.view': { description: 'View student invoices and fee templates', scope: 'hostel' },
+  'invoices.manage': { description: 'Add or remove invoice charges and manage fee templates', scope: 'hostel' },
+  'ledger.view': { description: 'View the trial balance, general ledger and student statements', scope: 'hostel' },
+  'penalties.manage': { description: 'Configure late fee and penalty rules', scope: 'hostel' },
+  'penalties.waive': { description: 'Waive late fees charged to students', scope: 'hostel' },
+  'discounts.manage': { description: 'Manage discounts and sponsor waivers on student fees', scope: 'hostel' },
+  'deposits.manage': { description: 'Check students out and settle their security deposits', scope: 'hostel' },
+  'payments.reconcile': { description: 'Import bank and mobile money statements and reconcile them against payments', scope: 'hostel' },
+  'cashups.approve': { description: 'Approve or reject custodian cash-ups', scope: 'hostel' }
+};
+
+export const BUILT_IN_ROLES = ['super_admin', 'hostel_admin', 'custodian', 'user', 'tenant'] as const;
+
+const HOSTEL_PERMISSIONS = Object.keys(PERMISSIONS).filter(key => PERMISSIONS[key].scope === 'hostel');
+
+// Defaults seeded by the RBAC migration; they mirror what each role could do before permissions existed.
+// super_admin is not listed because it always holds every permission.
+export const DEFAULT_ROLE_PERMISSIONS: Record<string, string[]> = {
+  hostel_admin: ['hostels.view', 'subscriptions.view', ...HOSTEL_PERMISSIONS],
+  custodian: [
+    'hostels.view', 'analytics.view_hostel',
+    'students.view', 'students.create', 'students.update', 'students.delete', 'students.notify',
+    'payments.view', 'payments.record', 'payments.adjust', 'invoices.view', 'rooms.view',
+    'inventory.view', 'inventory.manage',
+    'expenses.view', 'expenses.record', 'expenses.delete',
+    'semesters.view', 'semesters.manage', 'enrollments.manage'
+  ],
+  user: ['hostels.view'],
+  tenant: ['hostels.view']
+};
+
+export function isKnownPermission(key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, key);
+}
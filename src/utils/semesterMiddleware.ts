@@ -4,7 +4,7 @@ import pool from '../config/database';
  * Middleware to check if user has an active semester before allowing data recording
  * This ensures proper organization of data by semester
  */
-export async function requireActiveSemester(userId: number, hostelId: number): Promise<{ success: boolean; message?: string; semesterId?: number }> {
+export async function requireActiveSemester(userId: number | null, hostelId: number): Promise<{ success: boolean; message?: string; semesterId?: number }> {
   try {
     // Check if there's a current active semester for this hostel
     const result = await pool.query(
@@ -0,0 +1,46 @@
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import { SessionModel } from '../models/Session';
+
+// Endpoints that establish or end a session must work even when the client still sends a stale token
+const SESSIONLESS_PATHS = ['/auth/login', '/auth/sso/', '/auth/refresh', '/auth/logout', '/auth/forgot-password', '/auth/verify-otp', '/auth/reset-password'];
+
+// The only routes a token with an expired password may reach
+const PASSWORD_EXPIRED_ALLOWED_PATHS = ['/auth/change-password', '/auth/me', '/auth/logout-all'];
+
+/**
+ * Reject access tokens whose server-side session has been revoked or has expired.
+ * Routes still decode the token themselves; this only adds the session check in front of them.
+ * Tokens that fail signature/expiry checks are passed through so each route answers as before.
+ */
+export async function enforceActiveSession(req: express.Request, res: express.Response, next: express.NextFunction) {
+  const token = req.headers.authorization?.replace('Bearer ', '');
+  if (!token) return next();
+  // /auth/logout-all is deliberately not exempt: it needs a live session to act on
+  if (req.path !== '/auth/logout-all' && SESSIONLESS_PATHS.some(p => req.path.startsWith(p))) return next();
+
+  let decoded: any;
+  try {
+    decoded = jwt.verify(token, process.env.JWT_SECRET || 'fallback_secret');
+  } catch {
+    return next();
+  }
+
+  try {
+    // Tokens without a session id (pre-session logins, password reset tokens) are not access tokens
+    const session = decoded.sid ? await SessionModel.findActiveById(Number(decoded.sid)) : null;
+    if (!session || session.user_id !== decoded.userId) {
+      return res.status(401).json({ success: false, message: 'Session has expired. Please sign in again.', code: 'SESSION_REVOKED' });
+    }
+    // "Last seen" for the session list; a failed update must not block the request
+    SessionModel.touch(session.id, req.ip).catch(err => console.error('Session touch error:', err));
+
+    if (decoded.pwd_expired && !PASSWORD_EXPIRED_ALLOWED_PATHS.includes(req.path)) {
+      return res.status(403).json({ success: false, message: 'Your password has expired. Please change it to continue.', code: 'PASSWORD_EXPIRED' });
+    }
+    next();
+  } catch (error) {
+    console.error('Session check error:', error);
+    res.status(500).json({ success: false, message: 'Internal server error' });
+  }
+}
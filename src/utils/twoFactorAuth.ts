@@ -1,5 +1,6 @@
 import * as speakeasy from 'speakeasy';
 import * as QRCode from 'qrcode';
+import { TwoFactorSetting } from '../models/AuthSettings';
 
 export interface TwoFactorSetup {
   secret: string;
@@ -107,6 +108,15 @@ export class TwoFactorAuth {
     return { isValid: false };
   }
 
+  /**
+   * Whether the global 2FA policy forces a second factor for this role
+   */
+  static isRequiredByPolicy(role: string, settings: TwoFactorSetting | null): boolean {
+    if (!settings || !settings.is_enabled) return false;
+    const isAdmin = role === 'super_admin' || role === 'hostel_admin';
+    return isAdmin ? settings.require_2fa_for_admin : settings.require_2fa_for_users;
+  }
+
   static getTimeRemaining(): number {
     const epoch = Math.round(new Date().getTime() / 1000.0);
     const timeStep = 30;